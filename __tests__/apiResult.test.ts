@@ -0,0 +1,72 @@
+/**
+ * @format
+ */
+
+import { toResult } from '../src/services/apiResult';
+import { apiService } from '../src/services/api';
+import { ApiError, handleApiError } from '../src/utils/errorHandler';
+import { FakeBackend, installFakeBackend, signIn } from '../jest/fakeBackend';
+
+describe('toResult', () => {
+  test('normalizes the {flag}, {success} and {isSuccess} envelopes', () => {
+    expect(toResult({ flag: true, code: 200, message: 'OK', data: [1] }, 200)).toEqual({
+      isSuccess: true,
+      status: 200,
+      errorCode: null,
+      message: 'OK',
+      data: [1],
+    });
+    expect(toResult({ success: false, message: 'TICKET_ALREADY_USED', data: null }, 200)).toMatchObject({
+      isSuccess: false,
+      errorCode: 'TICKET_ALREADY_USED',
+    });
+    expect(toResult({ isSuccess: true, message: '', data: { id: 1 } }, 200)).toMatchObject({
+      isSuccess: true,
+      data: { id: 1 },
+    });
+  });
+
+  test('prefers the backend code over the HTTP status', () => {
+    expect(toResult({ flag: false, code: 404, message: 'Account not found', data: null }, 200)).toMatchObject({
+      isSuccess: false,
+      status: 404,
+      errorCode: 'NOT_FOUND',
+      message: 'Account not found',
+    });
+  });
+
+  test('wraps bare payloads and derives codes from the HTTP status', () => {
+    expect(toResult({ totalEvents: 3 }, 200)).toMatchObject({ isSuccess: true, data: { totalEvents: 3 } });
+    expect(toResult('', 500)).toMatchObject({ isSuccess: false, errorCode: 'SERVER_ERROR', data: null });
+    expect(toResult({ title: 'Forbidden' }, 403)).toMatchObject({ errorCode: 'FORBIDDEN', message: 'Forbidden' });
+    expect(toResult(undefined, 400)).toMatchObject({ errorCode: 'BAD_REQUEST', message: '' });
+  });
+});
+
+describe('ApiService results', () => {
+  let backend: FakeBackend;
+
+  beforeEach(async () => {
+    backend = installFakeBackend();
+    await signIn();
+  });
+
+  afterEach(() => {
+    backend.restore();
+  });
+
+  test('resolves HTTP errors to failed results instead of throwing', async () => {
+    backend.on('get', '/api/Event/collaborator/my-events', { status: 403, data: { message: '' } });
+
+    const result = await apiService.getAssignedEvents();
+
+    expect(result).toMatchObject({ isSuccess: false, status: 403, errorCode: 'FORBIDDEN', data: null });
+    expect(handleApiError(new ApiError(result))).toBe('forbidden');
+  });
+
+  test('still rejects when no response arrives', async () => {
+    backend.on('get', '/api/Event/collaborator/my-events', { network: true });
+
+    await expect(apiService.getAssignedEvents()).rejects.toThrow('Network Error');
+  });
+});
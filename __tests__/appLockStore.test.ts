@@ -0,0 +1,63 @@
+/**
+ * @format
+ */
+
+import * as appLock from '../src/services/appLock';
+import { useAppLockStore } from '../src/store/appLockStore';
+
+const prompt = { title: 'Unlock' };
+
+describe('appLockStore', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    useAppLockStore.getState().reset();
+    useAppLockStore.setState({ isEnabled: false, timeout: 60 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('locks only when the app was in the background for the idle time', () => {
+    const store = useAppLockStore.getState();
+
+    store.markBackgrounded();
+    now += 59 * 1000;
+    store.markResumed();
+    expect(useAppLockStore.getState().isLocked).toBe(false);
+
+    store.markBackgrounded();
+    now += 60 * 1000;
+    store.markResumed();
+    expect(useAppLockStore.getState()).toMatchObject({ isLocked: true, backgroundedAt: null });
+  });
+
+  test('stays locked until the prompt succeeds', async () => {
+    const authenticate = jest.spyOn(appLock, 'authenticateAppLock').mockResolvedValueOnce(false);
+    useAppLockStore.getState().lock();
+
+    await expect(useAppLockStore.getState().unlock(prompt)).resolves.toBe(false);
+    expect(useAppLockStore.getState().isLocked).toBe(true);
+
+    authenticate.mockResolvedValueOnce(true);
+    await expect(useAppLockStore.getState().unlock(prompt)).resolves.toBe(true);
+    expect(useAppLockStore.getState()).toMatchObject({ isLocked: false, isAuthenticating: false });
+  });
+
+  test('turns the setting on only after the user confirms', async () => {
+    jest.spyOn(appLock, 'isAppLockAvailable').mockResolvedValue(true);
+    jest.spyOn(appLock, 'enableAppLock').mockResolvedValue();
+    const disable = jest.spyOn(appLock, 'disableAppLock').mockResolvedValue();
+    jest.spyOn(appLock, 'authenticateAppLock').mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+
+    await expect(useAppLockStore.getState().enable(prompt)).resolves.toBe('cancelled');
+    expect(disable).toHaveBeenCalledTimes(1);
+    expect(useAppLockStore.getState().isEnabled).toBe(false);
+
+    await expect(useAppLockStore.getState().enable(prompt)).resolves.toBe('enabled');
+    expect(useAppLockStore.getState().isEnabled).toBe(true);
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * @format
+ */
+
+import i18n from '../src/utils/i18n';
+import { useAuthStore } from '../src/store/authStore';
+import { useEventStore } from '../src/store/eventStore';
+import { useOfflineCheckInStore } from '../src/store/offlineCheckInStore';
+import { apiService } from '../src/services/api';
+import { signalrService } from '../src/services/signalrService';
+import { createMockFixtures, MOCK_CREDENTIALS } from '../src/services/mockFixtures';
+import { handleApiError } from '../src/utils/errorHandler';
+import { FakeBackend, flushPromises, installFakeBackend } from '../jest/fakeBackend';
+
+describe('authStore against the fake backend', () => {
+  let backend: FakeBackend;
+
+  beforeEach(() => {
+    useAuthStore.setState(useAuthStore.getInitialState(), true);
+    useEventStore.getState().reset();
+  });
+
+  afterEach(async () => {
+    await flushPromises();
+    backend.restore();
+  });
+
+  test('signs a collaborator in and keeps the tokens', async () => {
+    backend = installFakeBackend();
+
+    await useAuthStore.getState().login(MOCK_CREDENTIALS);
+
+    const state = useAuthStore.getState();
+    expect(state.isAuthenticated).toBe(true);
+    expect(state.accessToken).toEqual(expect.any(String));
+    expect(state.user).toMatchObject({ username: MOCK_CREDENTIALS.username, fullName: 'Mock Collaborator' });
+    expect(state.accessTokenExpiresAt).toBeGreaterThan(Date.now());
+  });
+
+  test('face login goes through the same session setup as password login', async () => {
+    backend = installFakeBackend();
+    await useAuthStore.getState().login(MOCK_CREDENTIALS);
+    expect(useAuthStore.getState().loginMethod).toBe('password');
+    await useAuthStore.getState().logout();
+
+    const response = await apiService.loginByFace(new FormData());
+    await useAuthStore.getState().establishSession(response.data, 'face');
+
+    const state = useAuthStore.getState();
+    expect(state).toMatchObject({ isAuthenticated: true, loginMethod: 'face', sessionExpired: false });
+    expect(state.user).toMatchObject({ username: MOCK_CREDENTIALS.username, fullName: 'Mock Collaborator' });
+    expect(state.userConfig).not.toBeNull();
+  });
+
+  test('face login rejects accounts that are not collaborators', async () => {
+    const fixtures = createMockFixtures();
+    backend = installFakeBackend({ fixtures: { ...fixtures, account: { ...fixtures.account, role: 1 } } });
+
+    const response = await apiService.loginByFace(new FormData());
+
+    await expect(useAuthStore.getState().establishSession(response.data, 'face')).rejects.toThrow('WRONG_ROLE');
+    expect(useAuthStore.getState().isAuthenticated).toBe(false);
+  });
+
+  test('takes the token expiry from the JWT', async () => {
+    backend = installFakeBackend({ accessTokenTtl: 10 * 60 });
+
+    await useAuthStore.getState().login(MOCK_CREDENTIALS);
+
+    const { accessTokenExpiresAt } = useAuthStore.getState();
+    expect(accessTokenExpiresAt! - Date.now()).toBeGreaterThan(9 * 60 * 1000);
+    expect(accessTokenExpiresAt! - Date.now()).toBeLessThanOrEqual(10 * 60 * 1000);
+  });
+
+  test('reads the expiry on the device clock when the phone is set ahead of the server', async () => {
+    const skew = 2 * 60 * 60 * 1000;
+    backend = installFakeBackend({ now: () => Date.now() - skew, accessTokenTtl: 60 * 60 });
+
+    await useAuthStore.getState().login(MOCK_CREDENTIALS);
+    await useEventStore.getState().loadEvents();
+
+    // By the phone's clock the `exp` claim passed an hour ago
+    const { accessTokenExpiresAt } = useAuthStore.getState();
+    expect(accessTokenExpiresAt! - Date.now()).toBeGreaterThan(59 * 60 * 1000);
+    expect(backend.requestsTo('/api/account/refresh-token')).toHaveLength(0);
+    expect(useAuthStore.getState().isAuthenticated).toBe(true);
+  });
+
+  test('rejects accounts that are not collaborators', async () => {
+    const fixtures = createMockFixtures();
+    backend = installFakeBackend({ fixtures: { ...fixtures, account: { ...fixtures.account, role: 2 } } });
+
+    await expect(useAuthStore.getState().login(MOCK_CREDENTIALS)).rejects.toThrow('WRONG_ROLE');
+    expect(useAuthStore.getState().isAuthenticated).toBe(false);
+  });
+
+  test('translates login failures into error codes', async () => {
+    backend = installFakeBackend();
+    const login = useAuthStore.getState().login;
+
+    await expect(login({ username: MOCK_CREDENTIALS.username, password: 'wrong' })).rejects.toThrow(
+      'INVALID_CREDENTIALS'
+    );
+
+    backend.on('post', '/api/account/loginMobile', { status: 500, data: { message: 'Boom' } });
+    await expect(login(MOCK_CREDENTIALS)).rejects.toThrow('SERVER_ERROR');
+
+    backend.on('post', '/api/account/loginMobile', { network: true });
+    await expect(login(MOCK_CREDENTIALS)).rejects.toThrow('NETWORK_ERROR');
+  });
+
+  test('error codes resolve to translated messages', async () => {
+    backend = installFakeBackend();
+    const fixtures = createMockFixtures();
+    const account = { ...fixtures.account, role: 1 };
+    backend.on('post', '/api/account/loginMobile', {
+      data: { flag: true, code: 200, message: 'OK', data: { accessToken: 'a', refreshToken: 'r', account } },
+    });
+
+    const error = await useAuthStore.getState().login(MOCK_CREDENTIALS).catch(caught => caught);
+
+    await i18n.changeLanguage('en');
+    expect(handleApiError(error, i18n.t)).toBe(i18n.t('errors.WRONG_ROLE'));
+    expect(handleApiError(error, i18n.t)).not.toBe('errors.WRONG_ROLE');
+  });
+
+  test('refreshes an access token that is about to expire before the next request', async () => {
+    backend = installFakeBackend();
+    await useAuthStore.getState().login(MOCK_CREDENTIALS);
+    await flushPromises();
+    const oldToken = useAuthStore.getState().accessToken;
+
+    useAuthStore.setState({ accessTokenExpiresAt: Date.now() + 30 * 1000 });
+    await useEventStore.getState().loadEvents();
+
+    expect(backend.requestsTo('/api/account/refresh-token')).toHaveLength(1);
+    expect(useAuthStore.getState().accessToken).not.toBe(oldToken);
+    expect(useEventStore.getState().events.length).toBeGreaterThan(0);
+
+    const [eventsRequest] = backend.requestsTo('/api/Event/collaborator/my-events');
+    expect(eventsRequest.headers.Authorization).toBe(`Bearer ${useAuthStore.getState().accessToken}`);
+  });
+
+  test('refreshes once for parallel 401s and replays every request', async () => {
+    backend = installFakeBackend();
+    await useAuthStore.getState().login(MOCK_CREDENTIALS);
+    await flushPromises();
+
+    // The backend has dropped the token although it has not expired yet
+    useAuthStore.setState({ accessToken: 'revoked' });
+    const results = await Promise.all([
+      apiService.getAssignedEvents(),
+      apiService.getDashboardStats(),
+      apiService.getUserSettings(useAuthStore.getState().user!.accountId),
+    ]);
+
+    expect(results.map(result => result.isSuccess)).toEqual([true, true, true]);
+    expect(backend.requestsTo('/api/account/refresh-token')).toHaveLength(1);
+    expect(useAuthStore.getState().accessToken).not.toBe('revoked');
+  });
+
+  test('logs out with a session-expired notice when the refresh token is rejected', async () => {
+    backend = installFakeBackend();
+    await useAuthStore.getState().login(MOCK_CREDENTIALS);
+    await flushPromises();
+
+    useAuthStore.setState({ accessTokenExpiresAt: Date.now(), refreshToken: 'revoked' });
+    await useEventStore.getState().loadEvents();
+
+    expect(useAuthStore.getState()).toMatchObject({ isAuthenticated: false, accessToken: null, sessionExpired: true });
+    expect(useEventStore.getState().error).toBe('session expired');
+    expect(backend.requestsTo('/api/Event/collaborator/my-events')).toHaveLength(0);
+    expect(backend.requestsTo('/api/account/logout')).toHaveLength(0);
+  });
+
+  test('logs out when a replayed request finds the refresh token revoked', async () => {
+    backend = installFakeBackend();
+    await useAuthStore.getState().login(MOCK_CREDENTIALS);
+    await flushPromises();
+
+    useAuthStore.setState({ accessToken: 'revoked', refreshToken: 'revoked' });
+    await expect(apiService.getAssignedEvents()).rejects.toThrow('SESSION_EXPIRED');
+
+    expect(useAuthStore.getState()).toMatchObject({ isAuthenticated: false, sessionExpired: true });
+    expect(backend.requestsTo('/api/account/refresh-token')).toHaveLength(1);
+  });
+
+  test('keeps a second account signed in and switches between them with their own data', async () => {
+    backend = installFakeBackend();
+    await useAuthStore.getState().login(MOCK_CREDENTIALS);
+    await flushPromises();
+    const first = useAuthStore.getState().user!;
+    useOfflineCheckInStore.setState({ lastSyncAt: '2026-10-01T08:00:00.000Z' });
+    await flushPromises();
+
+    await useAuthStore.getState().addAccount();
+    expect(useAuthStore.getState()).toMatchObject({ isAuthenticated: false, accessToken: null });
+
+    backend.restore();
+    const fixtures = createMockFixtures();
+    const second = { ...fixtures.account, accountId: 'second-account', userId: 'second-user', username: 'organizer-two' };
+    backend = installFakeBackend({ fixtures: { ...fixtures, account: second } });
+    await useAuthStore.getState().login({ username: 'organizer-two', password: MOCK_CREDENTIALS.password });
+    await flushPromises();
+
+    expect(useAuthStore.getState().user?.accountId).toBe('second-account');
+    expect(useAuthStore.getState().sessions.map(session => session.user.accountId)).toEqual([first.accountId]);
+    expect(useOfflineCheckInStore.getState().lastSyncAt).toBeNull();
+
+    // This backend only knows the second account - answer the first one's calls directly
+    backend.on('get', /\/api\/Notification\/user\//, {
+      data: { success: true, message: 'OK', data: { items: [], currentPage: 1, hasNextPage: false } },
+    });
+    backend.on('post', '/api/account/logout', { data: { flag: true, code: 200, message: 'OK', data: null } });
+
+    await useAuthStore.getState().switchAccount(first.accountId);
+
+    expect(useAuthStore.getState().user?.accountId).toBe(first.accountId);
+    expect(useAuthStore.getState().sessions.map(session => session.user.accountId)).toEqual(['second-account']);
+    expect(useOfflineCheckInStore.getState().lastSyncAt).toBe('2026-10-01T08:00:00.000Z');
+
+    // Signing out of one account hands over to the other instead of the login screen
+    await useAuthStore.getState().logout();
+    await flushPromises();
+
+    expect(useAuthStore.getState()).toMatchObject({ isAuthenticated: true, sessions: [] });
+    expect(useAuthStore.getState().user?.accountId).toBe('second-account');
+  });
+
+  test('moves the hub over to the remaining account when one logs out', async () => {
+    backend = installFakeBackend();
+    await useAuthStore.getState().login(MOCK_CREDENTIALS);
+    await flushPromises();
+    const first = useAuthStore.getState().user!;
+    await useAuthStore.getState().addAccount();
+
+    backend.restore();
+    const fixtures = createMockFixtures();
+    const second = { ...fixtures.account, accountId: 'second-account', userId: 'second-user', username: 'organizer-two' };
+    backend = installFakeBackend({ fixtures: { ...fixtures, account: second } });
+    await useAuthStore.getState().login({ username: 'organizer-two', password: MOCK_CREDENTIALS.password });
+    await flushPromises();
+
+    backend.on('get', /\/api\/Notification\/user\//, {
+      data: { success: true, message: 'OK', data: { items: [], currentPage: 1, hasNextPage: false } },
+    });
+    const switchUser = jest.spyOn(signalrService, 'switchUser');
+    const connect = jest.spyOn(signalrService, 'connect');
+
+    // connect() would keep the still-open hub in the second account's groups
+    await useAuthStore.getState().logout();
+    await flushPromises();
+
+    expect(useAuthStore.getState().user?.accountId).toBe(first.accountId);
+    expect(switchUser).toHaveBeenCalledTimes(1);
+    expect(connect).not.toHaveBeenCalled();
+    switchUser.mockRestore();
+    connect.mockRestore();
+  });
+
+  test('identifies this device among the sessions, revokes others and logs out everywhere', async () => {
+    backend = installFakeBackend();
+    await useAuthStore.getState().login(MOCK_CREDENTIALS);
+    await flushPromises();
+
+    const { device } = JSON.parse(backend.requestsTo('/api/account/loginMobile')[0].data);
+    expect(device).toMatchObject({ deviceId: expect.any(String), platform: 'ios' });
+
+    const { data: sessions } = await apiService.getSessions();
+    const current = sessions.find(session => session.isCurrent)!;
+    const other = sessions.find(session => !session.isCurrent)!;
+    expect(sessions).toHaveLength(2);
+    expect(current.deviceId).toBe(device.deviceId);
+    expect(useAuthStore.getState().user?.lastLoginDevice).toBe(device.deviceName);
+
+    await expect(apiService.revokeSession(current.sessionId)).resolves.toMatchObject({ isSuccess: false, status: 400 });
+    await expect(apiService.revokeSession(other.sessionId)).resolves.toMatchObject({ isSuccess: true });
+    expect((await apiService.getSessions()).data).toEqual([current]);
+
+    await useAuthStore.getState().logoutEverywhere();
+    expect(useAuthStore.getState()).toMatchObject({ isAuthenticated: false, accessToken: null });
+    expect(backend.requestsTo('/api/account/logout-all')).toHaveLength(1);
+  });
+});
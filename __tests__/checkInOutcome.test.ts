@@ -0,0 +1,95 @@
+/**
+ * @format
+ */
+
+import { apiService } from '../src/services/api';
+import { useAuthStore } from '../src/store/authStore';
+import { createMockFixtures } from '../src/services/mockFixtures';
+import { getCheckInOutcomeMessage, isTicketRejection, mapCheckInOutcome } from '../src/utils/errorHandler';
+import { FakeBackend, installFakeBackend, signIn } from '../jest/fakeBackend';
+
+const t = (key: string, options?: Record<string, string>) => (options ? `${key} ${JSON.stringify(options)}` : key);
+
+describe('typed check-in outcomes', () => {
+  const tickets = createMockFixtures().tickets;
+  const [fresh] = tickets.filter(ticket => !ticket.isCheckedIn);
+  const used = tickets.find(ticket => ticket.isCheckedIn && ticket.eventId === fresh.eventId)!;
+  let backend: FakeBackend;
+
+  beforeEach(async () => {
+    useAuthStore.setState(useAuthStore.getInitialState(), true);
+    backend = installFakeBackend();
+    await signIn();
+  });
+
+  afterEach(() => backend.restore());
+
+  test('returns the checked-in ticket on success', async () => {
+    const outcome = await apiService.checkInByQR({ qrContent: fresh.qrCode, eventId: fresh.eventId });
+
+    expect(outcome).toMatchObject({
+      status: 'success',
+      reason: 'CHECKED_IN',
+      ticket: { ticketCode: fresh.qrCode, customerName: fresh.customerName, ticketType: fresh.ticketName },
+    });
+    expect(outcome.status === 'success' && outcome.checkedInAt).toBeTruthy();
+  });
+
+  test('reports who checked in a ticket that was already used', async () => {
+    const outcome = await apiService.checkInByQR({ qrContent: used.qrCode, eventId: used.eventId });
+
+    expect(outcome).toMatchObject({ status: 'already_used', reason: 'TICKET_ALREADY_USED' });
+    expect(outcome.status === 'already_used' && outcome.previousCheckIn).toBeTruthy();
+    expect(isTicketRejection(outcome)).toBe(true);
+  });
+
+  test('tells ticket rejections apart from request failures', async () => {
+    const notFound = await apiService.checkInByQR({ qrContent: 'VZ-NOT-A-TICKET', eventId: fresh.eventId });
+    expect(notFound).toMatchObject({ status: 'not_found', reason: 'TICKET_NOT_FOUND' });
+    expect(isTicketRejection(notFound)).toBe(true);
+
+    backend.on('post', '/api/TicketIssued/checkinMobile', { status: 500, data: { message: 'Database timeout' } });
+    const serverError = await apiService.checkInByQR({ qrContent: fresh.qrCode, eventId: fresh.eventId });
+    expect(serverError).toMatchObject({ status: 'failed', reason: 'SERVER_ERROR' });
+    expect(isTicketRejection(serverError)).toBe(false);
+  });
+
+  test('names the event a ticket from another event belongs to', async () => {
+    const other = tickets.find(ticket => ticket.eventId !== fresh.eventId && !ticket.isCheckedIn)!;
+
+    const outcome = await apiService.checkInByQR({ qrContent: other.qrCode, eventId: fresh.eventId });
+
+    expect(outcome).toMatchObject({
+      status: 'wrong_event',
+      reason: 'WRONG_EVENT',
+      ticket: { eventId: other.eventId, eventName: other.eventName, customerName: other.customerName },
+    });
+    expect(getCheckInOutcomeMessage(outcome, t)).toBe(`checkIn.wrongEventDetail {"event":"${other.eventName}"}`);
+    expect(backend.requestsTo(`/api/TicketIssued/qrdetail/${other.qrCode}`)).toHaveLength(1);
+  });
+
+  test('still reports a wrong-event ticket when the lookup fails', async () => {
+    const other = tickets.find(ticket => ticket.eventId !== fresh.eventId)!;
+    backend.on('get', /^\/api\/TicketIssued\/qrdetail\//, { network: true });
+
+    const outcome = await apiService.checkInByQR({ qrContent: other.qrCode, eventId: fresh.eventId });
+
+    expect(outcome).toMatchObject({ status: 'wrong_event', ticket: { ticketCode: other.qrCode } });
+    expect(outcome.ticket.eventName).toBeUndefined();
+    expect(getCheckInOutcomeMessage(outcome, t)).toBe('checkIn.reason.WRONG_EVENT');
+  });
+
+  test('maps backend code aliases and keeps free-text messages', () => {
+    const ticket = { ticketCode: 'VZ-0001' };
+
+    expect(mapCheckInOutcome('already_checked_in', ticket)).toMatchObject({ status: 'already_used', message: undefined });
+    expect(mapCheckInOutcome('EVENT_CANCELED', ticket)).toMatchObject({ status: 'event_cancelled' });
+
+    const freeText = mapCheckInOutcome('Ticket has been refunded', ticket);
+    expect(freeText).toMatchObject({ status: 'failed', reason: 'CHECKIN_ERROR', message: 'Ticket has been refunded' });
+    expect(getCheckInOutcomeMessage(freeText, t)).toBe('Ticket has been refunded');
+    expect(getCheckInOutcomeMessage(mapCheckInOutcome('TICKET_NOT_FOUND', ticket), t)).toBe(
+      'checkIn.reason.TICKET_NOT_FOUND'
+    );
+  });
+});
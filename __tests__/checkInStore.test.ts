@@ -0,0 +1,97 @@
+/**
+ * @format
+ */
+
+import { apiService } from '../src/services/api';
+import { useAuthStore } from '../src/store/authStore';
+import { useCheckInStore } from '../src/store/checkInStore';
+import { useScanSessionStore } from '../src/store/scanSessionStore';
+import { createMockFixtures } from '../src/services/mockFixtures';
+import { CHECK_IN_CONFIG } from '../src/utils/config';
+import { FakeBackend, installFakeBackend, signIn } from '../jest/fakeBackend';
+
+const REVERT_PATH = '/api/TicketIssued/checkin/revert';
+
+describe('undoing a check-in', () => {
+  const ticket = createMockFixtures().tickets.find(item => !item.isCheckedIn)!;
+  let backend: FakeBackend;
+
+  beforeEach(async () => {
+    useAuthStore.setState(useAuthStore.getInitialState(), true);
+    useCheckInStore.setState({ recentCheckIns: [], revertedCheckIns: [] });
+    useScanSessionStore.getState().reset();
+    backend = installFakeBackend();
+    await signIn();
+    await apiService.checkInByQR({ qrContent: ticket.qrCode, eventId: ticket.eventId });
+  });
+
+  afterEach(() => backend.restore());
+
+  test('reverts within the grace window and updates the scan log', async () => {
+    useScanSessionStore.getState().startSession('qr', ticket.eventId);
+    const entry = useScanSessionStore.getState().recordScan(ticket.qrCode)!;
+    useCheckInStore.getState().registerCheckIn({
+      qrCode: ticket.qrCode,
+      eventId: ticket.eventId,
+      method: 'QrCode',
+      sessionEntryId: entry.id,
+    });
+
+    const result = await useCheckInStore.getState().revertCheckIn(ticket.qrCode, '  Scanned by mistake ');
+
+    expect(result).toMatchObject({ isSuccess: true, errorCode: null });
+    expect(JSON.parse(backend.requestsTo(REVERT_PATH)[0].data)).toEqual({
+      qrContent: ticket.qrCode,
+      eventId: ticket.eventId,
+      reason: 'Scanned by mistake',
+    });
+    const state = useCheckInStore.getState();
+    expect(state.canUndo(ticket.qrCode)).toBe(false);
+    expect(state.isReverted(ticket.qrCode)).toBe(true);
+    expect(useScanSessionStore.getState().activeSession!.results[0]).toMatchObject({
+      status: 'reverted',
+      revertReason: 'Scanned by mistake',
+    });
+  });
+
+  test('refuses once the grace window has passed, without asking the backend', async () => {
+    useCheckInStore.getState().registerCheckIn({
+      qrCode: ticket.qrCode,
+      eventId: ticket.eventId,
+      method: 'QrCode',
+      checkedInAt: new Date(Date.now() - CHECK_IN_CONFIG.UNDO_WINDOW).toISOString(),
+    });
+    expect(useCheckInStore.getState().getUndoRemaining(ticket.qrCode)).toBe(0);
+
+    const result = await useCheckInStore.getState().revertCheckIn(ticket.qrCode, 'Wrong guest');
+
+    expect(result).toMatchObject({ isSuccess: false, errorCode: 'UNDO_EXPIRED' });
+    expect(backend.requestsTo(REVERT_PATH)).toHaveLength(0);
+    expect(useCheckInStore.getState().isReverted(ticket.qrCode)).toBe(false);
+  });
+
+  test('passes on a refusal from the backend and keeps the check-in undoable', async () => {
+    useCheckInStore.getState().registerCheckIn({ qrCode: ticket.qrCode, eventId: ticket.eventId, method: 'QrCode' });
+    backend.on('post', REVERT_PATH, {
+      status: 403,
+      data: { success: false, message: 'Only the event organizer can undo this check-in', data: false },
+    });
+
+    const result = await useCheckInStore.getState().revertCheckIn(ticket.qrCode, 'Wrong guest');
+
+    expect(result).toMatchObject({
+      isSuccess: false,
+      status: 403,
+      errorCode: 'FORBIDDEN',
+      message: 'Only the event organizer can undo this check-in',
+    });
+    expect(useCheckInStore.getState().canUndo(ticket.qrCode)).toBe(true);
+    expect(useCheckInStore.getState().isReverted(ticket.qrCode)).toBe(false);
+
+    backend.on('post', REVERT_PATH, { network: true });
+    await expect(useCheckInStore.getState().revertCheckIn(ticket.qrCode, 'Wrong guest')).resolves.toMatchObject({
+      isSuccess: false,
+      errorCode: 'NETWORK_ERROR',
+    });
+  });
+});
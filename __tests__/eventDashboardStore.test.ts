@@ -0,0 +1,109 @@
+/**
+ * @format
+ */
+
+import { useAuthStore } from '../src/store/authStore';
+import { getCheckInRate, useEventDashboardStore } from '../src/store/eventDashboardStore';
+import { createMockFixtures } from '../src/services/mockFixtures';
+import { FakeBackend, installFakeBackend, signIn } from '../jest/fakeBackend';
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60000).toISOString();
+
+describe('live event dashboard', () => {
+  const { events, tickets } = createMockFixtures();
+  const eventId = events[0].eventId;
+  let backend: FakeBackend;
+
+  beforeEach(async () => {
+    useAuthStore.setState(useAuthStore.getInitialState(), true);
+    backend = installFakeBackend();
+    await signIn();
+    useEventDashboardStore.getState().closeDashboard();
+    useEventDashboardStore.getState().openDashboard(eventId);
+  });
+
+  afterEach(() => backend.restore());
+
+  test('loads a snapshot of the open event', async () => {
+    await useEventDashboardStore.getState().loadStats();
+
+    const { stats, isLoading, error } = useEventDashboardStore.getState();
+    expect({ isLoading, error }).toEqual({ isLoading: false, error: null });
+    expect(stats).toMatchObject({
+      eventId,
+      totalIssued: tickets.filter(ticket => ticket.eventId === eventId).length,
+      totalCheckedIn: tickets.filter(ticket => ticket.eventId === eventId && ticket.isCheckedIn).length,
+    });
+  });
+
+  test('applies hub pushes for the open event only', () => {
+    const store = useEventDashboardStore.getState();
+
+    store.applyDashboardUpdate({ eventId: 'another-event', totalIssued: 999, totalCheckedIn: 1 });
+    expect(useEventDashboardStore.getState().stats).toBeNull();
+
+    store.applyDashboardUpdate({
+      eventId,
+      totalIssued: 10,
+      totalCheckedIn: 2,
+      recentArrivals: [{ qrCode: 'VZ-2', checkedInAt: minutesAgo(1) }, { qrCode: 'VZ-1', checkedInAt: minutesAgo(3) }],
+    });
+    expect(useEventDashboardStore.getState()).toMatchObject({
+      source: 'live',
+      stats: { totalIssued: 10, totalCheckedIn: 2 },
+    });
+  });
+
+  test('counts only check-ins newer than the ones it already shows', () => {
+    const store = useEventDashboardStore.getState();
+    store.applyDashboardUpdate({
+      eventId,
+      totalIssued: 10,
+      totalCheckedIn: 2,
+      recentArrivals: [{ qrCode: 'VZ-2', checkedInAt: minutesAgo(1) }, { qrCode: 'VZ-1', checkedInAt: minutesAgo(3) }],
+    });
+
+    // History pushes repeat older check-ins alongside the new one
+    store.applyCheckInLogs([
+      { qrCode: 'VZ-3', eventId, checkedInAt: minutesAgo(0), customerName: 'Nguyễn Văn An' },
+      { qrCode: 'VZ-2', eventId, checkedInAt: minutesAgo(1) },
+      { qrCode: 'VZ-0', eventId, checkedInAt: minutesAgo(30) },
+      { qrCode: 'VZ-9', eventId: 'another-event', checkedInAt: minutesAgo(0) },
+    ] as any[]);
+
+    const { stats } = useEventDashboardStore.getState();
+    expect(stats!.totalCheckedIn).toBe(3);
+    expect(stats!.recentArrivals.map(arrival => arrival.qrCode)).toEqual(['VZ-3', 'VZ-2', 'VZ-1', 'VZ-0']);
+    expect(getCheckInRate(stats)).toBeGreaterThan(0);
+    expect(getCheckInRate({ ...stats!, checkInsPerMinute: 4.5 })).toBe(4.5);
+  });
+
+  test('keeps the ticket type and collaborator breakdowns in step with live check-ins', () => {
+    const store = useEventDashboardStore.getState();
+    store.applyDashboardUpdate({
+      eventId,
+      totalIssued: 10,
+      totalCheckedIn: 2,
+      ticketTypes: [{ ticketType: 'VIP', issued: 4, checkedIn: 1 }, { ticketType: 'Standard', issued: 6, checkedIn: 1 }],
+      collaborators: [{ collaboratorId: 'checker-1', collaboratorName: 'Trần Thị Bình', checkedIn: 2 }],
+      recentArrivals: [{ qrCode: 'VZ-1', checkedInAt: minutesAgo(3) }],
+    });
+
+    store.applyCheckInLogs([
+      { qrCode: 'VZ-3', eventId, checkedInAt: minutesAgo(0), ticketName: 'VIP', checkedInBy: 'checker-1', checkerName: 'Trần Thị Bình' },
+      { qrCode: 'VZ-2', eventId, checkedInAt: minutesAgo(1), ticketName: 'VIP', checkedInBy: 'checker-2', checkerName: 'Lê Văn Cường' },
+      { qrCode: 'VZ-1', eventId, checkedInAt: minutesAgo(3), ticketName: 'Standard', checkedInBy: 'checker-1' },
+    ] as any[]);
+
+    const { stats } = useEventDashboardStore.getState();
+    expect(stats!.totalCheckedIn).toBe(4);
+    expect(stats!.ticketTypes).toEqual([
+      { ticketType: 'VIP', issued: 4, checkedIn: 3 },
+      { ticketType: 'Standard', issued: 6, checkedIn: 1 },
+    ]);
+    expect(stats!.collaborators).toEqual([
+      { collaboratorId: 'checker-1', collaboratorName: 'Trần Thị Bình', checkedIn: 3 },
+      { collaboratorId: 'checker-2', collaboratorName: 'Lê Văn Cường', checkedIn: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * @format
+ */
+
+import { useAuthStore } from '../src/store/authStore';
+import { useEventStore } from '../src/store/eventStore';
+import { FakeBackend, installFakeBackend, signIn } from '../jest/fakeBackend';
+
+describe('eventStore against the fake backend', () => {
+  let backend: FakeBackend;
+
+  beforeEach(async () => {
+    useAuthStore.setState(useAuthStore.getInitialState(), true);
+    backend = installFakeBackend();
+    await signIn();
+    useEventStore.getState().reset();
+  });
+
+  afterEach(() => backend.restore());
+
+  test('loads the events assigned to the collaborator', async () => {
+    await useEventStore.getState().loadEvents();
+
+    const state = useEventStore.getState();
+    expect(state.isLoading).toBe(false);
+    expect(state.error).toBeNull();
+    expect(state.events.map(event => event.eventName)).toContain('Vezzy Music Night');
+  });
+
+  test('translates HTTP failures into readable errors', async () => {
+    backend.on('get', '/api/Event/collaborator/my-events', { status: 500, data: {} });
+    await useEventStore.getState().loadEvents();
+    expect(useEventStore.getState().error).toBe('server error');
+
+    // A token the backend no longer knows
+    useAuthStore.setState({ accessToken: 'stale' });
+    backend.on('get', '/api/Event/collaborator/my-events', { status: 401, data: {} });
+    await useEventStore.getState().refreshEvents();
+    expect(useEventStore.getState()).toMatchObject({ error: 'unauthorized', isRefreshing: false });
+  });
+
+  test('keeps the backend message of a {flag: false} response', async () => {
+    backend.on('get', '/api/Event/collaborator/my-events', {
+      data: { flag: false, code: 403, message: 'Collaborator is suspended', data: null },
+    });
+
+    await useEventStore.getState().loadEvents();
+
+    expect(useEventStore.getState()).toMatchObject({ events: [], error: 'Collaborator is suspended' });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @format
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { apiService } from '../src/services/api';
+import { FaceEnrollmentShot } from '../src/types';
+import {
+  checkFaceImage,
+  getFaceQualityIssues,
+  measureFaceImage,
+  readExifThumbnail,
+  readLumaBlocks,
+} from '../src/utils/faceQuality';
+import { FakeBackend, installFakeBackend, signIn } from '../jest/fakeBackend';
+
+const readAsset = (name: string) => new Uint8Array(fs.readFileSync(path.join(__dirname, '../src/assets', name)));
+
+// Puts `thumbnail` into an EXIF block (IFD1) right after the SOI marker, the way cameras store it
+const withExifThumbnail = (photo: Uint8Array, thumbnail: Uint8Array) => {
+  const tiff = new Uint8Array(44 + thumbnail.length);
+  const view = new DataView(tiff.buffer);
+  tiff.set([0x49, 0x49, 0x2a, 0x00]); // Little endian
+  view.setUint32(4, 8, true); // IFD0, without entries
+  view.setUint32(10, 14, true); // IFD1
+  view.setUint16(14, 2, true);
+  [[0x0201, 44], [0x0202, thumbnail.length]].forEach(([tag, value], index) => {
+    view.setUint16(16 + index * 12, tag, true);
+    view.setUint16(18 + index * 12, 4, true); // LONG
+    view.setUint32(20 + index * 12, 1, true);
+    view.setUint32(24 + index * 12, value, true);
+  });
+  tiff.set(thumbnail, 44);
+
+  const length = 2 + 6 + tiff.length;
+  const app1 = [0xff, 0xe1, Math.floor(length / 256), length % 256, ...Array.from('Exif\0\0', char => char.charCodeAt(0))];
+  const result = new Uint8Array(photo.length + app1.length + tiff.length);
+  result.set(photo.subarray(0, 2));
+  result.set(app1, 2);
+  result.set(tiff, 2 + app1.length);
+  result.set(photo.subarray(2), 2 + app1.length + tiff.length);
+  return result;
+};
+
+const serveFile = (data: Uint8Array) => {
+  global.fetch = jest.fn(async () => ({ arrayBuffer: async () => data.buffer })) as any;
+};
+
+const quality = { width: 1080, height: 1440, brightness: 120, sharpness: 400, issues: [] };
+const shot = (pose: FaceEnrollmentShot['pose']): FaceEnrollmentShot => ({ pose, uri: `file:///face-${pose}.jpg`, quality });
+
+describe('face photo checks', () => {
+  test('reads brightness and detail from the luma blocks of a baseline JPEG', () => {
+    const blocks = readLumaBlocks(readAsset('vezzy.jpg'))!;
+
+    expect(blocks).toMatchObject({ width: 1180, height: 1181, columns: 148, rows: 148 });
+    // White margin, then the navy logo halfway down
+    expect(blocks.brightness[0]).toBeGreaterThan(250);
+    expect(blocks.detail[0]).toBe(0);
+    expect(Math.min(...blocks.brightness.slice(75 * 148, 76 * 148))).toBeLessThan(40);
+
+    const metrics = measureFaceImage(blocks);
+    expect(metrics.brightness).toBeGreaterThan(200);
+    expect(metrics.sharpness).toBeGreaterThan(500);
+  });
+
+  test('does not analyse files it cannot decode', () => {
+    expect(readLumaBlocks(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBeNull(); // PNG signature
+    expect(readLumaBlocks(readAsset('vezzy.jpg').slice(0, 2000))).toBeNull();
+  });
+
+  test('flags small, dark, overexposed and blurry photos', () => {
+    expect(getFaceQualityIssues({ width: 1080, height: 1440, brightness: 120, sharpness: 400 })).toEqual([]);
+    expect(getFaceQualityIssues({ width: 320, height: 480, brightness: 20, sharpness: 30 })).toEqual(['TOO_SMALL', 'TOO_DARK', 'BLURRY']);
+    expect(getFaceQualityIssues({ width: 1080, height: 1440, brightness: 240, sharpness: 400 })).toEqual(['TOO_BRIGHT']);
+    // A photo that could not be analysed is never passed unchecked
+    expect(getFaceQualityIssues({ width: 1080, height: 1440, brightness: null, sharpness: null })).toEqual(['UNVERIFIED']);
+  });
+
+  test('finds the thumbnail cameras store in the EXIF block', () => {
+    const logo = readAsset('vezzy.jpg');
+
+    expect(Buffer.from(readExifThumbnail(withExifThumbnail(logo, logo))!).equals(Buffer.from(logo))).toBe(true);
+    expect(readExifThumbnail(logo)).toBeNull();
+  });
+
+  test('analyses the EXIF thumbnail and keeps the size of the photo itself', async () => {
+    const logo = readAsset('vezzy.jpg');
+    serveFile(withExifThumbnail(logo, logo));
+
+    const report = await checkFaceImage({ uri: 'file:///face.jpg', width: 3024, height: 4032 });
+
+    expect(report).toMatchObject({ ...measureFaceImage(readLumaBlocks(logo)!), width: 3024, height: 4032 });
+    expect(report.issues).not.toContain('UNVERIFIED');
+  });
+
+  test('decodes the full photo when there is no thumbnail, and asks for a retake when that fails', async () => {
+    serveFile(readAsset('vezzy.jpg'));
+    const report = await checkFaceImage({ uri: 'file:///face.jpg' });
+    expect(report).toMatchObject({ width: 1180, height: 1181 });
+    expect(report.brightness).toBeGreaterThan(200);
+
+    serveFile(readAsset('vezzy.jpg').slice(0, 2000));
+    await expect(checkFaceImage({ uri: 'file:///face.jpg', width: 3024, height: 4032 })).resolves.toMatchObject({
+      brightness: null,
+      issues: ['UNVERIFIED'],
+    });
+  });
+});
+
+describe('face enrollment upload', () => {
+  let backend: FakeBackend;
+
+  beforeEach(async () => {
+    backend = installFakeBackend();
+    await signIn();
+  });
+
+  afterEach(() => {
+    backend.restore();
+  });
+
+  test('enrolls every pose in one request', async () => {
+    const result = await apiService.updateFace([shot('front'), shot('left'), shot('right')]);
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data).toEqual({ enrolledPoses: ['front', 'left', 'right'], errors: [] });
+  });
+
+  test('reports rejected poses with typed reasons', async () => {
+    await expect(apiService.updateFace([shot('front')])).resolves.toMatchObject({
+      isSuccess: false,
+      data: {
+        enrolledPoses: [],
+        errors: [{ pose: 'left', reason: 'MISSING_POSE' }, { pose: 'right', reason: 'MISSING_POSE' }],
+      },
+    });
+
+    backend.on('put', '/api/account/updateFace', {
+      status: 400,
+      data: { flag: false, code: 400, message: 'FACE_ENROLLMENT_FAILED', data: { errors: [{ pose: 'Left', code: 'WRONG_POSE' }] } },
+    });
+    const result = await apiService.updateFace([shot('front'), shot('left'), shot('right')]);
+    expect(result.data.errors).toEqual([{ pose: 'left', reason: 'POSE_MISMATCH' }]);
+  });
+
+  test('maps messages from older AI service deployments to a request-level reason', async () => {
+    backend.on('put', '/api/account/updateFace', {
+      status: 400,
+      data: { flag: false, code: 400, message: 'Suspicious behavior detected. Please use live photos', data: null },
+    });
+
+    const result = await apiService.updateFace([shot('front'), shot('left'), shot('right')]);
+    expect(result.data.errors).toEqual([{ reason: 'SPOOF_DETECTED' }]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @format
+ */
+
+import { HubEventRegistry } from '../src/services/hubEventRegistry';
+import { validateHubPayload } from '../src/utils/hubContract';
+
+describe('hub event registry', () => {
+  test('fans a message out to every subscriber until it unsubscribes', () => {
+    const registry = new HubEventRegistry(false);
+    const first = jest.fn();
+    const second = jest.fn();
+
+    const unsubscribe = registry.on('notificationread', first);
+    registry.on('notificationread', second);
+    registry.emit('notificationread', 'n-1');
+    unsubscribe();
+    registry.emit('notificationread', 'n-2');
+
+    expect(first.mock.calls).toEqual([['n-1']]);
+    expect(second.mock.calls).toEqual([['n-1'], ['n-2']]);
+    expect(registry.listenerCount('notificationread')).toBe(1);
+    expect(registry.listenerCount('allnotificationsread')).toBe(0);
+  });
+
+  test('keeps delivering when one handler throws', () => {
+    const registry = new HubEventRegistry(false);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const after = jest.fn();
+
+    registry.on('allnotificationsread', () => {
+      throw new Error('boom');
+    });
+    registry.on('allnotificationsread', after);
+    registry.emit('allnotificationsread', 'user-1');
+
+    expect(after).toHaveBeenCalledWith('user-1');
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    errorSpy.mockRestore();
+  });
+
+  test('warns about payloads that break the contract in dev builds', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const handler = jest.fn();
+    const registry = new HubEventRegistry(true);
+    registry.on('OnEventManagerDashboard', handler);
+
+    registry.emit('OnEventManagerDashboard', { eventId: 42 } as any);
+
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+    // Still delivered - the contract is advisory
+    expect(handler).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+});
+
+describe('hub payload contract', () => {
+  test('lists every field that has the wrong type', () => {
+    expect(validateHubPayload('OnCollaboratorStaticChanged', { totalEvents: 3, totalCheckIns: 12 })).toEqual([]);
+    expect(validateHubPayload('OnCollaboratorStaticChanged', { totalEvents: '3' })).toEqual([
+      'payload.totalEvents should be number, got string',
+      'payload.totalCheckIns should be number, got undefined',
+    ]);
+  });
+
+  test('checks each item of array payloads and plain string payloads', () => {
+    expect(validateHubPayload('OnCheckinLogHistoryChanged', [{ qrCode: 'VZ-1', eventId: 'e-1' }, { qrCode: 'VZ-2' }])).toEqual([
+      'payload[1].eventId should be string, got undefined',
+    ]);
+    expect(validateHubPayload('OnCheckinLogHistoryChanged', {})).toEqual(['payload should be array, got object']);
+    expect(validateHubPayload('notificationread', null)).toEqual(['payload should be string, got null']);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * @format
+ */
+
+import { Role } from '../src/types';
+import { calculateTokenExpiry, decodeToken, getClockOffset } from '../src/utils/jwt';
+import { getRefreshDelay, getTokenStatus } from '../src/utils/tokenManager';
+import { AUTH_CONFIG } from '../src/utils/config';
+
+const encode = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/[=]+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+const createToken = (payload: object) => `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+
+const seconds = (ms: number) => Math.floor(ms / 1000);
+
+describe('decodeToken', () => {
+  test('reads the ASP.NET claim names', () => {
+    const now = Date.now();
+    const token = createToken({
+      'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/nameidentifier': 'account-1',
+      'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name': 'collaborator',
+      'http://schemas.microsoft.com/ws/2008/06/identity/claims/role': 'Collaborator',
+      UserId: 'user-1',
+      iat: seconds(now),
+      exp: seconds(now) + 3600,
+    });
+
+    expect(decodeToken(token)).toEqual({
+      accountId: 'account-1',
+      userId: 'user-1',
+      username: 'collaborator',
+      email: null,
+      role: Role.Collaborator,
+      issuedAt: seconds(now) * 1000,
+      expiresAt: (seconds(now) + 3600) * 1000,
+    });
+  });
+
+  test('accepts numeric roles and rejects malformed tokens', () => {
+    expect(decodeToken(createToken({ role: '2' }))?.role).toBe(Role.EventManager);
+    expect(decodeToken(createToken({ role: 'Guest' }))?.role).toBeNull();
+    expect(decodeToken('not-a-jwt')).toBeNull();
+    expect(decodeToken(null)).toBeNull();
+  });
+
+  test('falls back to the configured lifetime for tokens without exp', () => {
+    const expiresAt = Date.now() + 60 * 1000;
+    const { accessTokenExpiresAt, refreshTokenExpiresAt } = calculateTokenExpiry({
+      accessToken: createToken({ exp: seconds(expiresAt) }),
+      refreshToken: 'opaque-refresh-token',
+    });
+
+    expect(accessTokenExpiresAt).toBe(seconds(expiresAt) * 1000);
+    expect(refreshTokenExpiresAt).toBeGreaterThan(Date.now() + (AUTH_CONFIG.REFRESH_TOKEN_EXPIRE_TIME - 5) * 1000);
+  });
+});
+
+describe('token timing', () => {
+  test('reports the status from the stored device-clock expiry', () => {
+    expect(getTokenStatus(Date.now() + 3600 * 1000)).toBe('VALID');
+    expect(getTokenStatus(Date.now() + 60 * 1000)).toBe('EXPIRING_SOON');
+    expect(getTokenStatus(Date.now() - 60 * 1000)).toBe('EXPIRED');
+    expect(getTokenStatus(null)).toBe('INVALID');
+  });
+
+  test('schedules the refresh ahead of expiry, within half the lifetime', () => {
+    const now = Date.now();
+    const longLived = createToken({ iat: seconds(now), exp: seconds(now) + 3600 });
+    const shortLived = createToken({ iat: seconds(now), exp: seconds(now) + 120 });
+    const expired = createToken({ iat: seconds(now) - 7200, exp: seconds(now) - 3600 });
+
+    expect(getRefreshDelay(longLived)).toBeLessThanOrEqual((3600 - AUTH_CONFIG.REFRESH_LEAD_TIME) * 1000);
+    expect(getRefreshDelay(longLived)).toBeGreaterThan((3600 - AUTH_CONFIG.REFRESH_LEAD_TIME - 2) * 1000);
+    expect(getRefreshDelay(shortLived)).toBeGreaterThan(55 * 1000);
+    expect(getRefreshDelay(expired)).toBe(0);
+    expect(getRefreshDelay('opaque', null)).toBeNull();
+  });
+
+  test('keeps expiry and refresh timing right on a phone with the wrong time', () => {
+    // The device is 2 hours behind the server
+    const now = Date.now();
+    const serverNow = now + 2 * 3600 * 1000;
+    const accessToken = createToken({ iat: seconds(serverNow), exp: seconds(serverNow) + 3600 });
+    const refreshToken = createToken({ iat: seconds(serverNow), exp: seconds(serverNow) + 7 * 86400 });
+
+    expect(Math.abs(getClockOffset(accessToken, now) + 2 * 3600 * 1000)).toBeLessThan(1000);
+    const { accessTokenExpiresAt, refreshTokenExpiresAt } = calculateTokenExpiry({ accessToken, refreshToken });
+    expect(Math.abs(accessTokenExpiresAt - (now + 3600 * 1000))).toBeLessThan(2000);
+    expect(Math.abs(refreshTokenExpiresAt - (now + 7 * 86400 * 1000))).toBeLessThan(2000);
+
+    // Without the stored expiry the refresh would wait 2 hours too long
+    const delay = getRefreshDelay(accessToken, accessTokenExpiresAt)!;
+    expect(Math.abs(delay - (3600 - AUTH_CONFIG.REFRESH_LEAD_TIME) * 1000)).toBeLessThan(2000);
+  });
+
+  test('ignores differences that are only latency', () => {
+    const now = Date.now();
+    expect(getClockOffset(createToken({ iat: seconds(now) - 5 }), now)).toBe(0);
+    expect(getClockOffset(createToken({}), now)).toBe(0);
+  });
+});
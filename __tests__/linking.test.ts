@@ -0,0 +1,84 @@
+/**
+ * @format
+ */
+
+import { Linking } from 'react-native';
+import { linking, openDeepLink, resumePendingDeepLink } from '../src/navigation/linking';
+import { useAuthStore } from '../src/store/authStore';
+
+const navigation = {
+  isReady: () => true,
+  dispatch: jest.fn(),
+  resetRoot: jest.fn(),
+};
+
+const eventDetail = (eventId: string) => ({
+  type: 'NAVIGATE',
+  payload: {
+    name: 'Main',
+    params: { screen: 'Events', params: { screen: 'EventDetail', params: { eventId } } },
+  },
+});
+
+describe('deep links', () => {
+  beforeAll(() => {
+    global.navigationRef = { current: navigation } as any;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useAuthStore.setState({ isAuthenticated: true });
+  });
+
+  test('routes app, relative and web links to the same screen', async () => {
+    await expect(openDeepLink('vezzy://events/42')).resolves.toBe(true);
+    await expect(openDeepLink(' /events/42 ')).resolves.toBe(true);
+    await expect(openDeepLink('https://vezzy.vn/events/42')).resolves.toBe(true);
+
+    expect(navigation.dispatch).toHaveBeenCalledTimes(3);
+    navigation.dispatch.mock.calls.forEach(([action]) => expect(action).toMatchObject(eventDetail('42')));
+    expect(Linking.openURL).not.toHaveBeenCalled();
+  });
+
+  test('hands unknown web links to the browser and reports unknown app links', async () => {
+    await expect(openDeepLink('https://example.com/terms')).resolves.toBe(true);
+    expect(Linking.openURL).toHaveBeenCalledWith('https://example.com/terms');
+
+    await expect(openDeepLink('vezzy://orders/7')).resolves.toBe(false);
+    expect(navigation.dispatch).not.toHaveBeenCalled();
+  });
+
+  test('holds links that arrive while logged out until after login', async () => {
+    const listener = jest.fn();
+    const unsubscribe = linking.subscribe!(listener) as () => void;
+    const [[, onUrl]] = (Linking.addEventListener as jest.Mock).mock.calls;
+    useAuthStore.setState({ isAuthenticated: false });
+
+    onUrl({ url: 'vezzy://events/42' });
+    resumePendingDeepLink();
+    expect(listener).not.toHaveBeenCalled();
+
+    useAuthStore.setState({ isAuthenticated: true });
+    resumePendingDeepLink();
+    resumePendingDeepLink();
+    expect(listener.mock.calls).toEqual([['vezzy://events/42']]);
+    unsubscribe();
+  });
+
+  test('holds in-app taps and cold-start links the same way', async () => {
+    const listener = jest.fn();
+    const unsubscribe = linking.subscribe!(listener) as () => void;
+    useAuthStore.setState({ isAuthenticated: false });
+
+    (Linking.getInitialURL as jest.Mock).mockResolvedValueOnce('vezzy://news/7');
+    await expect(linking.getInitialURL!()).resolves.toBeNull();
+    await expect(openDeepLink('vezzy://events/42')).resolves.toBe(true);
+    expect(navigation.dispatch).not.toHaveBeenCalled();
+
+    // The latest link wins
+    useAuthStore.setState({ isAuthenticated: true });
+    resumePendingDeepLink();
+    expect(listener.mock.calls).toEqual([['vezzy://events/42']]);
+    unsubscribe();
+  });
+});
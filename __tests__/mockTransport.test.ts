@@ -0,0 +1,72 @@
+/**
+ * @format
+ */
+
+import { createMockTransport } from '../src/services/mockTransport';
+import { createMockFixtures, MOCK_CREDENTIALS } from '../src/services/mockFixtures';
+
+describe('mock transport', () => {
+  let clock: number;
+  let transport: ReturnType<typeof createMockTransport>;
+
+  // Resolves with every response, errors included, so the status can be asserted
+  const request = (method: string, url: string, options: { data?: object; token?: string } = {}) =>
+    transport({
+      method,
+      url,
+      data: options.data ? JSON.stringify(options.data) : undefined,
+      headers: options.token ? { Authorization: `Bearer ${options.token}` } : {},
+      validateStatus: () => true,
+    } as any);
+
+  const login = async () => {
+    const response = await request('post', '/api/account/loginMobile', { data: MOCK_CREDENTIALS });
+    return response.data.data.accessToken as string;
+  };
+
+  beforeEach(() => {
+    clock = Date.now();
+    transport = createMockTransport({ latency: 0, now: () => clock, accessTokenTtl: 60 });
+  });
+
+  test('routes by method and path parameters', async () => {
+    const token = await login();
+    const [event] = createMockFixtures().events;
+
+    const found = await request('get', `https://api.vezzy.site/api/Event/${event.eventId}`, { token });
+    expect(found.status).toBe(200);
+    expect(found.data.data).toMatchObject({ eventId: event.eventId });
+
+    const unknown = await request('get', '/api/Event/no-such-event', { token });
+    expect(unknown.data).toMatchObject({ flag: false, code: 404, data: null });
+  });
+
+  test('reads paging from the query string', async () => {
+    const token = await login();
+    const { account, notifications } = createMockFixtures();
+
+    const response = await request('get', `/api/Notification/user/${account.userId}?page=2&pageSize=1`, { token });
+
+    expect(response.data.data).toMatchObject({ currentPage: 2, totalItems: notifications.length });
+    expect(response.data.data.items.map((item: any) => item.notificationId)).toEqual([notifications[1].notificationId]);
+  });
+
+  test('answers 404 for endpoints it does not know', async () => {
+    const response = await request('delete', '/api/Event/collaborator/my-events');
+
+    expect(response.status).toBe(404);
+    expect(response.data.message).toBe('No mock for DELETE /api/Event/collaborator/my-events');
+  });
+
+  test('requires a live access token on private routes only', async () => {
+    expect((await request('get', '/api/Event/collaborator/my-events')).status).toBe(401);
+    expect((await request('get', '/api/Event/collaborator/my-events', { token: 'forged' })).status).toBe(401);
+    expect((await request('post', '/api/account/forgot-password', { data: { email: 'x@y.z' } })).status).toBe(200);
+
+    const token = await login();
+    expect((await request('get', '/api/Event/collaborator/my-events', { token })).status).toBe(200);
+
+    clock += 61 * 1000;
+    expect((await request('get', '/api/Event/collaborator/my-events', { token })).status).toBe(401);
+  });
+});
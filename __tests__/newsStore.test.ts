@@ -0,0 +1,59 @@
+/**
+ * @format
+ */
+
+import { useAuthStore } from '../src/store/authStore';
+import { useNewsStore } from '../src/store/newsStore';
+import { createMockFixtures } from '../src/services/mockFixtures';
+import { FakeBackend, installFakeBackend, signIn } from '../jest/fakeBackend';
+
+describe('newsStore against the fake backend', () => {
+  let backend: FakeBackend;
+
+  beforeEach(() => {
+    useAuthStore.setState(useAuthStore.getInitialState(), true);
+    backend = installFakeBackend();
+    useNewsStore.getState().reset();
+  });
+
+  afterEach(() => backend.restore());
+
+  test('loads public news without signing in', async () => {
+    await useNewsStore.getState().loadNews(true);
+
+    const state = useNewsStore.getState();
+    expect(state.error).toBeNull();
+    expect(state.newsList.length).toBeGreaterThan(0);
+    expect(state).toMatchObject({ currentPage: 1, hasNextPage: false });
+  });
+
+  test('loads the next page and skips items it already has', async () => {
+    const { news } = createMockFixtures();
+    const pages = [
+      { items: news.slice(0, 2), currentPage: 1, totalPages: 2, totalItems: 3, hasNextPage: true, hasPreviousPage: false },
+      { items: news.slice(1), currentPage: 2, totalPages: 2, totalItems: 3, hasNextPage: false, hasPreviousPage: true },
+    ];
+    let served = 0;
+    backend.on('get', '/api/News/all-Home', () => ({
+      data: { flag: true, code: 200, message: 'OK', data: pages[served++] },
+    }));
+
+    await useNewsStore.getState().loadNews(true);
+    expect(useNewsStore.getState().hasNextPage).toBe(true);
+
+    await useNewsStore.getState().loadMoreNews();
+    const state = useNewsStore.getState();
+    expect(state.newsList.map(item => item.newsId)).toEqual(news.map(item => item.newsId));
+    expect(state).toMatchObject({ currentPage: 2, hasNextPage: false, isLoadingMore: false });
+
+    await useNewsStore.getState().loadMoreNews();
+    expect(backend.requestsTo('/api/News/all-Home')).toHaveLength(2);
+  });
+
+  test('reports a missing article', async () => {
+    await signIn();
+    await useNewsStore.getState().loadNewsDetail('does-not-exist');
+
+    expect(useNewsStore.getState()).toMatchObject({ selectedNews: null, error: 'News not found', isLoading: false });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * @format
+ */
+
+import { AppStateStatus } from 'react-native';
+import notifee, { EventType } from '@notifee/react-native';
+import {
+  AppStateNotificationPresenter,
+  FakeNotificationPresenter,
+  LocalNotificationPresenter,
+  NotificationDeliveryService,
+  handleLocalNotificationEvent,
+  notificationDeliveryService,
+} from '../src/services/notificationPresenter';
+import { useSettingsStore } from '../src/store/settingsStore';
+import { Notification, NotificationType } from '../src/types';
+
+const makeNotification = (overrides: Partial<Notification> = {}): Notification => ({
+  notificationId: `n-${Math.random().toString(36).slice(2, 8)}`,
+  userId: 'user-1',
+  notificationTitle: 'Event updated',
+  notificationMessage: 'Summer Fest moved to 8pm',
+  notificationType: NotificationType.EventManagerUpdateEvent,
+  isRead: false,
+  createdAt: '2026-10-19T10:00:00Z',
+  createdAtVietnam: '2026-10-19T17:00:00',
+  ...overrides,
+});
+
+describe('NotificationDeliveryService', () => {
+  let presenter: FakeNotificationPresenter;
+  let service: NotificationDeliveryService;
+
+  beforeEach(() => {
+    presenter = new FakeNotificationPresenter();
+    service = new NotificationDeliveryService(presenter);
+    useSettingsStore.setState({ pushNotifications: true });
+  });
+
+  test('presents a single notification with its own title and link', () => {
+    service.deliver(makeNotification({ redirectUrl: '/events/abc-123' }));
+
+    expect(presenter.visible).toHaveLength(1);
+    expect(presenter.visible[0]).toMatchObject({
+      title: 'Event updated',
+      count: 1,
+      link: '/events/abc-123',
+    });
+  });
+
+  test('links to the inbox when the server sent no redirect', () => {
+    const presentation = service.deliver(makeNotification({ redirectUrl: undefined }));
+
+    expect(presentation!.link).toBe('vezzy://notifications');
+  });
+
+  test('groups notifications of the same type inside the window', () => {
+    const now = Date.now();
+    service.deliver(makeNotification(), now);
+    service.deliver(makeNotification(), now + 1000);
+    service.deliver(makeNotification({ notificationType: NotificationType.OrderSuccess }), now + 2000);
+
+    expect(presenter.history).toHaveLength(3);
+    expect(presenter.visible).toHaveLength(2);
+    const grouped = presenter.visible.find(item => item.notificationType === NotificationType.EventManagerUpdateEvent);
+    expect(grouped).toMatchObject({ count: 2, link: 'vezzy://notifications' });
+  });
+
+  test('starts a new group once the window has passed', () => {
+    const now = Date.now();
+    service.deliver(makeNotification(), now);
+    service.deliver(makeNotification(), now + 10 * 60 * 1000);
+
+    expect(presenter.visible).toHaveLength(1);
+    expect(presenter.visible[0].count).toBe(1);
+  });
+
+  test('presents nothing when push notifications are turned off', () => {
+    useSettingsStore.setState({ pushNotifications: false });
+
+    expect(service.deliver(makeNotification())).toBeNull();
+    expect(presenter.history).toHaveLength(0);
+  });
+});
+
+describe('AppStateNotificationPresenter', () => {
+  let banner: FakeNotificationPresenter;
+  let local: FakeNotificationPresenter;
+  let appState: AppStateStatus;
+  let service: NotificationDeliveryService;
+
+  beforeEach(() => {
+    banner = new FakeNotificationPresenter();
+    local = new FakeNotificationPresenter();
+    appState = 'active';
+    service = new NotificationDeliveryService(new AppStateNotificationPresenter(banner, local, () => appState));
+    useSettingsStore.setState({ pushNotifications: true });
+  });
+
+  test('shows a banner while the app is in front', () => {
+    service.deliver(makeNotification());
+
+    expect(banner.visible).toHaveLength(1);
+    expect(local.history).toHaveLength(0);
+  });
+
+  test('posts an OS notification while the app is in the background, grouped the same way', () => {
+    appState = 'background';
+    const now = Date.now();
+    service.deliver(makeNotification({ redirectUrl: '/events/abc-123' }), now);
+    service.deliver(makeNotification(), now + 1000);
+
+    expect(banner.history).toHaveLength(0);
+    expect(local.history).toHaveLength(2);
+    expect(local.visible).toHaveLength(1);
+    expect(local.visible[0]).toMatchObject({ count: 2, link: 'vezzy://notifications' });
+  });
+
+  test('posts nothing in the background when push notifications are turned off', () => {
+    appState = 'background';
+    useSettingsStore.setState({ pushNotifications: false });
+
+    expect(service.deliver(makeNotification())).toBeNull();
+    expect(local.history).toHaveLength(0);
+  });
+
+  test('opening clears the entry wherever it was shown', () => {
+    appState = 'background';
+    service.deliver(makeNotification());
+    const presentation = service.deliver(makeNotification())!;
+    appState = 'active';
+
+    service.open(presentation);
+
+    expect(local.visible).toHaveLength(0);
+  });
+});
+
+describe('LocalNotificationPresenter', () => {
+  test('posts one OS notification per group, carrying the presentation for the tap', async () => {
+    const displayNotification = jest.spyOn(notifee, 'displayNotification');
+    const presenter = new LocalNotificationPresenter();
+    const presentation = new NotificationDeliveryService(new FakeNotificationPresenter()).deliver(makeNotification())!;
+
+    presenter.present(presentation);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(displayNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: presentation.groupKey,
+        title: presentation.title,
+        data: { presentation: JSON.stringify(presentation) },
+      }),
+    );
+  });
+
+  test('a tap on the OS notification opens it like a banner tap', async () => {
+    const open = jest.spyOn(notificationDeliveryService, 'open').mockImplementation(() => {});
+    const presentation = new NotificationDeliveryService(new FakeNotificationPresenter()).deliver(makeNotification())!;
+
+    await handleLocalNotificationEvent({
+      type: EventType.DISMISSED,
+      detail: { notification: { data: { presentation: JSON.stringify(presentation) } } },
+    });
+    expect(open).not.toHaveBeenCalled();
+
+    await handleLocalNotificationEvent({
+      type: EventType.PRESS,
+      detail: { notification: { data: { presentation: JSON.stringify(presentation) } } },
+    });
+    expect(open).toHaveBeenCalledWith(presentation);
+    open.mockRestore();
+  });
+});
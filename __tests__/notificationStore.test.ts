@@ -0,0 +1,172 @@
+/**
+ * @format
+ */
+
+import { useAuthStore } from '../src/store/authStore';
+import { useNotificationStore } from '../src/store/notificationStore';
+import { createMockFixtures } from '../src/services/mockFixtures';
+import { FakeBackend, flushPromises, installFakeBackend, signIn } from '../jest/fakeBackend';
+
+// 25 notifications - one full page of 20 and a partial second page
+const createFixtures = () => {
+  const fixtures = createMockFixtures();
+  const [template] = fixtures.notifications;
+  const notifications = Array.from({ length: 25 }, (_, index) => ({
+    ...template,
+    notificationId: `notif-${index + 1}`,
+    isRead: index % 2 === 1,
+  }));
+  return { ...fixtures, notifications };
+};
+
+describe('notificationStore against the fake backend', () => {
+  let backend: FakeBackend;
+
+  beforeEach(async () => {
+    useAuthStore.setState(useAuthStore.getInitialState(), true);
+    backend = installFakeBackend({ fixtures: createFixtures() });
+    await signIn();
+    useNotificationStore.getState().reset();
+  });
+
+  afterEach(() => {
+    backend.restore();
+    jest.restoreAllMocks();
+  });
+
+  test('pages through notifications and appends the next page', async () => {
+    const store = useNotificationStore.getState();
+
+    await store.fetchNotifications(1, true);
+    expect(useNotificationStore.getState()).toMatchObject({ currentPage: 1, hasMorePages: true, error: null });
+    expect(useNotificationStore.getState().notifications).toHaveLength(20);
+
+    await store.fetchNotifications(2);
+    const state = useNotificationStore.getState();
+    expect(state).toMatchObject({ currentPage: 2, hasMorePages: false });
+    expect(state.notifications).toHaveLength(25);
+    expect(new Set(state.notifications.map(item => item.notificationId)).size).toBe(25);
+    expect(state.unreadCount).toBe(13);
+
+    const secondPage = backend.requestsTo(/\/api\/Notification\/user\//).pop()!;
+    expect(secondPage.url).toContain('page=2');
+    expect(secondPage.url).toContain('pageSize=20');
+  });
+
+  test('loads the page after the current one even when realtime rows were added', async () => {
+    const [template] = createFixtures().notifications;
+    await useNotificationStore.getState().fetchNotifications(1, true);
+    useNotificationStore.getState().addNotification({ ...template, notificationId: 'realtime-1' });
+
+    await useNotificationStore.getState().loadMoreNotifications();
+
+    expect(backend.requestsTo(/\/api\/Notification\/user\//).pop()!.url).toContain('page=2');
+    expect(useNotificationStore.getState().notifications).toHaveLength(26);
+    // Nothing left to load
+    const requestCount = backend.requestsTo(/\/api\/Notification\/user\//).length;
+    await useNotificationStore.getState().loadMoreNotifications();
+    expect(backend.requestsTo(/\/api\/Notification\/user\//)).toHaveLength(requestCount);
+  });
+
+  test('looks past the loaded pages when a filter matches less than a page', async () => {
+    await useNotificationStore.getState().fetchNotifications(1, true);
+
+    useNotificationStore.getState().setReadFilter('unread');
+    while (useNotificationStore.getState().isLoading) {
+      await flushPromises();
+    }
+
+    expect(useNotificationStore.getState()).toMatchObject({ currentPage: 2, hasMorePages: false });
+    expect(useNotificationStore.getState().notifications.filter(item => !item.isRead)).toHaveLength(13);
+  });
+
+  test('accepts both the {success} and the {flag} response formats', async () => {
+    const { notifications } = createFixtures();
+    const page = { items: notifications.slice(0, 2), currentPage: 1, hasNextPage: false };
+
+    backend.on('get', /\/api\/Notification\/user\//, { data: { success: true, message: 'OK', data: page } });
+    await useNotificationStore.getState().fetchNotifications(1, true);
+    expect(useNotificationStore.getState().notifications).toHaveLength(2);
+
+    backend.on('get', /\/api\/Notification\/user\//, { data: { flag: true, code: 200, message: 'OK', data: page } });
+    await useNotificationStore.getState().fetchNotifications(1, true);
+    expect(useNotificationStore.getState().notifications).toHaveLength(2);
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    backend.on('get', /\/api\/Notification\/user\//, { data: { success: false, message: 'Service unavailable', data: null } });
+    await useNotificationStore.getState().fetchNotifications(1, true);
+    expect(useNotificationStore.getState().error).toBe('Service unavailable');
+  });
+
+  test('marks a notification read on the server', async () => {
+    await useNotificationStore.getState().fetchNotifications(1, true);
+    const unread = useNotificationStore.getState().notifications.find(item => !item.isRead)!;
+
+    await useNotificationStore.getState().markAsRead(unread.notificationId);
+
+    expect(backend.requestsTo(`/api/Notification/${unread.notificationId}/read`)).toHaveLength(1);
+    await useNotificationStore.getState().fetchNotifications(1, true);
+    const reloaded = useNotificationStore.getState().notifications.find(
+      item => item.notificationId === unread.notificationId
+    );
+    expect(reloaded?.isRead).toBe(true);
+  });
+
+  test('rolls an optimistic delete back when the server refuses it', async () => {
+    await useNotificationStore.getState().fetchNotifications(1, true);
+    const before = useNotificationStore.getState().notifications;
+    backend.on('delete', /\/api\/Notification\//, { data: { success: false, message: 'Nope', data: false } });
+
+    await expect(useNotificationStore.getState().deleteNotification(before[0].notificationId)).rejects.toThrow();
+
+    expect(useNotificationStore.getState().notifications).toEqual(before);
+  });
+
+  test('shows a swipe action before the server answers', async () => {
+    await useNotificationStore.getState().fetchNotifications(1, true);
+    const read = useNotificationStore.getState().notifications.find(item => item.isRead)!;
+    const unreadBefore = useNotificationStore.getState().unreadCount;
+
+    const pending = useNotificationStore.getState().markAsUnread(read.notificationId);
+
+    const optimistic = useNotificationStore.getState();
+    expect(optimistic.notifications.find(item => item.notificationId === read.notificationId)!.isRead).toBe(false);
+    expect(optimistic.unreadCount).toBe(unreadBefore + 1);
+    await pending;
+    expect(backend.requestsTo(`/api/Notification/${read.notificationId}/unread`)).toHaveLength(1);
+  });
+
+  test('rolls back only the rows of a bulk delete the server refused', async () => {
+    await useNotificationStore.getState().fetchNotifications(1, true);
+    const before = useNotificationStore.getState().notifications;
+    backend.on('delete', '/api/Notification/notif-2', { status: 500, data: { success: false, message: 'Boom' } });
+
+    const failedIds = await useNotificationStore.getState().deleteMany(['notif-1', 'notif-2', 'notif-3']);
+
+    expect(failedIds).toEqual(['notif-2']);
+    const remaining = useNotificationStore.getState().notifications;
+    expect(remaining.map(item => item.notificationId)).toEqual(
+      before.map(item => item.notificationId).filter(id => id !== 'notif-1' && id !== 'notif-3')
+    );
+    expect(useNotificationStore.getState().unreadCount).toBe(remaining.filter(item => !item.isRead).length);
+  });
+
+  test('keeps realtime arrivals when a bulk update is rolled back', async () => {
+    await useNotificationStore.getState().fetchNotifications(1, true);
+    const unreadIds = useNotificationStore
+      .getState()
+      .notifications.filter(item => !item.isRead)
+      .map(item => item.notificationId);
+    const [template] = createFixtures().notifications;
+    backend.on('put', /\/read$/, { network: true });
+
+    const pending = useNotificationStore.getState().markManyAsRead(unreadIds);
+    useNotificationStore.getState().addNotification({ ...template, notificationId: 'realtime-1', isRead: false });
+
+    await expect(pending).resolves.toEqual(unreadIds);
+    const state = useNotificationStore.getState();
+    expect(state.notifications[0].notificationId).toBe('realtime-1');
+    expect(state.notifications.filter(item => unreadIds.includes(item.notificationId)).every(item => !item.isRead)).toBe(true);
+    expect(state.unreadCount).toBe(unreadIds.length + 1);
+  });
+});
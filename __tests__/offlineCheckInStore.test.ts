@@ -0,0 +1,76 @@
+/**
+ * @format
+ */
+
+import { apiService } from '../src/services/api';
+import { useAuthStore } from '../src/store/authStore';
+import { useOfflineCheckInStore } from '../src/store/offlineCheckInStore';
+import { createMockFixtures } from '../src/services/mockFixtures';
+import { FakeBackend, flushPromises, installFakeBackend, signIn } from '../jest/fakeBackend';
+
+const CHECK_IN_PATH = '/api/TicketIssued/checkinMobile';
+
+describe('offline check-in queue', () => {
+  const [first, second] = createMockFixtures().tickets.filter(ticket => !ticket.isCheckedIn);
+  let backend: FakeBackend;
+
+  beforeEach(async () => {
+    useAuthStore.setState(useAuthStore.getInitialState(), true);
+    backend = installFakeBackend();
+    await signIn();
+    useOfflineCheckInStore.getState().reset();
+  });
+
+  afterEach(() => backend.restore());
+
+  test('keeps one pending item per scanned code', () => {
+    const store = useOfflineCheckInStore.getState();
+
+    expect(store.enqueue(first.qrCode, first.eventId)).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(store.enqueue(first.qrCode, first.eventId)).toBeNull();
+    expect(store.enqueue(second.qrCode, second.eventId)).not.toBeNull();
+    expect(useOfflineCheckInStore.getState().getPendingCount()).toBe(2);
+  });
+
+  test('replays the queue in scan order when the network returns', async () => {
+    const store = useOfflineCheckInStore.getState();
+    store.setOnline(false);
+    store.enqueue(first.qrCode, first.eventId);
+    store.enqueue(second.qrCode, second.eventId);
+
+    // Another gate let the second ticket in while this device was offline
+    await apiService.checkInByQR({ qrContent: second.qrCode, eventId: second.eventId });
+
+    useOfflineCheckInStore.getState().setOnline(true);
+    do {
+      await flushPromises();
+    } while (useOfflineCheckInStore.getState().isSyncing);
+
+    expect(backend.requestsTo(CHECK_IN_PATH).map(config => JSON.parse(config.data).qrContent)).toEqual([
+      second.qrCode,
+      first.qrCode,
+      second.qrCode,
+    ]);
+    expect(useOfflineCheckInStore.getState().queue).toMatchObject([
+      { qrContent: first.qrCode, status: 'synced', attempts: 1 },
+      { qrContent: second.qrCode, status: 'conflict', errorCode: 'TICKET_ALREADY_USED' },
+    ]);
+    expect(useOfflineCheckInStore.getState().getConflicts()).toHaveLength(1);
+    expect(useAuthStore.getState().shouldRefreshHomeStats).toBe(true);
+  });
+
+  test('stops replaying and stays offline while the network is still down', async () => {
+    const store = useOfflineCheckInStore.getState();
+    store.enqueue(first.qrCode, first.eventId);
+    store.enqueue(second.qrCode, second.eventId);
+    backend.on('post', CHECK_IN_PATH, { network: true });
+
+    await useOfflineCheckInStore.getState().syncQueue();
+
+    expect(backend.requestsTo(CHECK_IN_PATH)).toHaveLength(1);
+    expect(useOfflineCheckInStore.getState()).toMatchObject({ isOnline: false, isSyncing: false });
+    expect(useOfflineCheckInStore.getState().queue.map(item => item.status)).toEqual(['pending', 'pending']);
+    // A code that is still waiting cannot be queued twice
+    expect(useOfflineCheckInStore.getState().isQueued(first.qrCode)).toBe(true);
+  });
+});
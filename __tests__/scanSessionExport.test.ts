@@ -0,0 +1,90 @@
+/**
+ * @format
+ */
+
+import { ScanSession } from '../src/types';
+import { buildSessionCsv, buildSessionExport, buildSessionJson } from '../src/utils/scanSessionExport';
+
+const session: ScanSession = {
+  id: 'session-1',
+  source: 'qr',
+  eventId: 'event-1',
+  mode: 'continuous',
+  startedAt: '2026-10-19T10:00:00.000Z',
+  endedAt: '2026-10-19T10:30:00.000Z',
+  results: [
+    {
+      id: 'entry-1',
+      code: 'VZ-0101-0001',
+      status: 'success',
+      scannedAt: '2026-10-19T10:01:00.000Z',
+      completedAt: '2026-10-19T10:01:01.000Z',
+      customerName: 'Nguyễn Văn An',
+      ticketType: 'VIP',
+    },
+    {
+      id: 'entry-2',
+      code: 'VZ-0101-0002',
+      status: 'duplicate',
+      scannedAt: '2026-10-19T10:02:00.000Z',
+      completedAt: '2026-10-19T10:02:00.000Z',
+      errorCode: 'TICKET_ALREADY_USED',
+      message: 'Checked in by "Gate 2", 10:00',
+    },
+  ],
+};
+
+describe('scan session export', () => {
+  test('writes one CSV row per scan with quoted commas and quotes', () => {
+    const [header, first, second] = buildSessionCsv(session, 'Vezzy Music Night').split('\n');
+
+    expect(header.split(',')).toHaveLength(15);
+    expect(header.startsWith('sessionId,eventId,eventName,method')).toBe(true);
+    expect(first).toBe(
+      'session-1,event-1,Vezzy Music Night,QrCode,2026-10-19T10:00:00.000Z,2026-10-19T10:30:00.000Z,' +
+        'VZ-0101-0001,success,Nguyễn Văn An,VIP,2026-10-19T10:01:00.000Z,2026-10-19T10:01:01.000Z,,,'
+    );
+    expect(second.endsWith(',TICKET_ALREADY_USED,"Checked in by ""Gate 2"", 10:00",')).toBe(true);
+  });
+
+  test('neutralises cells a spreadsheet would run as a formula', () => {
+    const hostile: ScanSession = {
+      ...session,
+      results: ['=HYPERLINK("http://x")', '+1', '-2+3', '@SUM(A1)', '\t=1+1', '\r=1+1'].map((customerName, index) => ({
+        id: `entry-${index}`,
+        code: `VZ-${index}`,
+        status: 'success',
+        scannedAt: session.startedAt,
+        customerName,
+      })),
+    };
+
+    const cells = buildSessionCsv(hostile)
+      .split('\n')
+      .slice(1)
+      .map(row => row.split(',')[8]);
+
+    expect(cells).toEqual([
+      '"\'=HYPERLINK(""http://x"")"',
+      '"\'+1"',
+      '"\'-2+3"',
+      '"\'@SUM(A1)"',
+      '"\'\t=1+1"',
+      '"\'\r=1+1"',
+    ]);
+  });
+
+  test('writes the session, totals and raw results as JSON', () => {
+    const exported = JSON.parse(buildSessionJson(session));
+
+    expect(exported).toMatchObject({
+      sessionId: 'session-1',
+      eventId: 'event-1',
+      eventName: null,
+      method: 'QrCode',
+      totals: { total: 2, success: 1, duplicate: 1, failed: 0 },
+    });
+    expect(exported.results).toEqual(session.results);
+    expect(buildSessionExport({ ...session, source: 'face' }, 'json')).toContain('"method": "FaceRecognition"');
+  });
+});
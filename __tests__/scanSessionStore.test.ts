@@ -0,0 +1,98 @@
+/**
+ * @format
+ */
+
+import { getSessionCounters, useScanSessionStore } from '../src/store/scanSessionStore';
+import { createTaskQueue } from '../src/utils';
+import { flushPromises } from '../jest/fakeBackend';
+
+describe('continuous scan session', () => {
+  beforeEach(() => {
+    useScanSessionStore.getState().reset();
+  });
+
+  test('marks repeat reads of an accepted code as duplicates', () => {
+    const store = useScanSessionStore.getState();
+    store.startSession('qr', 'event-1', 'continuous');
+
+    const first = store.recordScan('VZ-0001')!;
+    expect(first.status).toBe('pending');
+    // Still in flight - a second read must not send another request
+    expect(store.recordScan('VZ-0001')!.status).toBe('duplicate');
+
+    store.completeScan(first.id, 'success');
+    expect(store.recordScan('VZ-0001')!.status).toBe('duplicate');
+
+    // A failed attempt does not use the code up
+    const other = store.recordScan('VZ-0002')!;
+    store.completeScan(other.id, 'failed', { errorCode: 'TICKET_NOT_FOUND' });
+    expect(store.recordScan('VZ-0002')!.status).toBe('pending');
+
+    expect(getSessionCounters(useScanSessionStore.getState().activeSession)).toMatchObject({
+      total: 5,
+      success: 1,
+      duplicate: 2,
+      failed: 1,
+      pending: 1,
+    });
+  });
+
+  test('keeps finished sessions for review and lands late results in history', () => {
+    const store = useScanSessionStore.getState();
+    store.startSession('qr', 'event-1', 'continuous');
+    const entry = store.recordScan('VZ-0001')!;
+
+    const ended = store.endSession()!;
+    store.completeScan(entry.id, 'success', { customerName: 'Nguyễn Văn An' });
+
+    const state = useScanSessionStore.getState();
+    expect(state.activeSession).toBeNull();
+    expect(state.getSession(ended.id)!.results).toMatchObject([
+      { code: 'VZ-0001', status: 'success', customerName: 'Nguyễn Văn An' },
+    ]);
+
+    // Sessions without a single scan are dropped
+    store.startSession('qr', 'event-1');
+    store.endSession();
+    expect(useScanSessionStore.getState().history).toHaveLength(1);
+  });
+});
+
+describe('createTaskQueue', () => {
+  test('runs at most `concurrency` tasks at once and keeps going after a failure', async () => {
+    const queue = createTaskQueue(2);
+    const releases: Array<() => void> = [];
+    let running = 0;
+    let peak = 0;
+
+    const task = (fail = false) => () =>
+      new Promise<void>((resolve, reject) => {
+        running++;
+        peak = Math.max(peak, running);
+        releases.push(() => {
+          running--;
+          if (fail) {
+            reject(new Error('request failed'));
+          } else {
+            resolve();
+          }
+        });
+      });
+
+    queue.push(task(true));
+    queue.push(task());
+    queue.push(task());
+    expect(queue.size()).toBe(3);
+    expect(releases).toHaveLength(2);
+
+    releases[0]();
+    await flushPromises();
+    expect(releases).toHaveLength(3);
+
+    releases[1]();
+    releases[2]();
+    await flushPromises();
+    expect(queue.size()).toBe(0);
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createJSONStorage } from 'zustand/middleware';
+import { createMemoryVault, createSecureStorage, secureStorage } from '../src/services/secureStorage';
+import { useAuthStore } from '../src/store/authStore';
+import { FakeBackend, flushPromises, installFakeBackend, signIn } from '../jest/fakeBackend';
+
+describe('createSecureStorage', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  test('round-trips JSON state through the vault under a namespaced service', async () => {
+    const vault = createMemoryVault();
+    const storage = createJSONStorage(() => createSecureStorage(vault))!;
+
+    await storage.setItem('auth-storage', { state: { accessToken: 'token' }, version: 0 });
+
+    expect([...vault.entries.keys()]).toEqual(['vezzy.auth-storage']);
+    expect(await storage.getItem('auth-storage')).toEqual({ state: { accessToken: 'token' }, version: 0 });
+
+    await storage.removeItem('auth-storage');
+    expect(vault.entries.size).toBe(0);
+    expect(await storage.getItem('auth-storage')).toBeNull();
+  });
+
+  test('moves a value left in plain storage into the vault', async () => {
+    const vault = createMemoryVault();
+    const storage = createSecureStorage(vault, { legacyStorage: AsyncStorage });
+    await AsyncStorage.setItem('auth-storage', '{"state":{"accessToken":"old"},"version":0}');
+
+    expect(await storage.getItem('auth-storage')).toBe('{"state":{"accessToken":"old"},"version":0}');
+
+    expect(vault.entries.get('vezzy.auth-storage')).toBe('{"state":{"accessToken":"old"},"version":0}');
+    expect(await AsyncStorage.getItem('auth-storage')).toBeNull();
+  });
+});
+
+describe('auth store persistence', () => {
+  let backend: FakeBackend;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    useAuthStore.setState(useAuthStore.getInitialState(), true);
+    backend = installFakeBackend();
+  });
+
+  afterEach(async () => {
+    await flushPromises();
+    backend.restore();
+  });
+
+  test('keeps the tokens out of AsyncStorage', async () => {
+    await signIn();
+
+    const persisted = JSON.parse((await secureStorage.getItem('auth-storage')) as string);
+    expect(persisted.state.accessToken).toBe(useAuthStore.getState().accessToken);
+    expect(persisted.state.refreshToken).toBe(useAuthStore.getState().refreshToken);
+    expect(await AsyncStorage.getItem('auth-storage')).toBeNull();
+  });
+});
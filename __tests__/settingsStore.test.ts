@@ -0,0 +1,68 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuthStore } from '../src/store/authStore';
+import { useSettingsStore } from '../src/store/settingsStore';
+import { FakeBackend, flushPromises, installFakeBackend, signIn } from '../jest/fakeBackend';
+
+describe('settingsStore against the fake backend', () => {
+  let backend: FakeBackend;
+
+  beforeEach(async () => {
+    useAuthStore.setState(useAuthStore.getInitialState(), true);
+    backend = installFakeBackend();
+    await signIn();
+    useSettingsStore.setState({ theme: 'light', language: 'en', emailNotifications: true, pushNotifications: true });
+  });
+
+  afterEach(() => backend.restore());
+
+  test('saves preferences in the backend format', async () => {
+    const { accountId } = useAuthStore.getState().user!;
+
+    await useSettingsStore.getState().updateUserConfigApi(accountId, { theme: 'dark', pushNotifications: false });
+
+    expect(useSettingsStore.getState()).toMatchObject({ theme: 'dark', pushNotifications: false, isLoading: false });
+    const [request] = backend.requestsTo('/api/account/user-config');
+    expect(JSON.parse(request.data)).toMatchObject({ language: 2, theme: 2, receiveEmail: true, receiveNotify: false });
+  });
+
+  test('keeps the current preferences when the backend refuses the change', async () => {
+    const { accountId } = useAuthStore.getState().user!;
+    backend.on('put', '/api/account/user-config', { data: { flag: false, code: 400, message: 'Invalid config', data: false } });
+
+    await expect(
+      useSettingsStore.getState().updateUserConfigApi(accountId, { theme: 'dark' })
+    ).rejects.toThrow('Invalid config');
+
+    expect(useSettingsStore.getState()).toMatchObject({ theme: 'light', isLoading: false });
+  });
+
+  test('takes theme and notification preferences from the account on login', () => {
+    expect(useAuthStore.getState().userConfig).toMatchObject({ theme: 'light', receiveNotify: true });
+
+    useSettingsStore.getState().syncWithUserConfig({ ...useAuthStore.getState().userConfig!, theme: 'dark' });
+
+    expect(useSettingsStore.getState()).toMatchObject({ theme: 'dark', pushNotifications: true, language: 'en' });
+  });
+
+  test('keeps the theme and language picked on the device after signing out', async () => {
+    await useAuthStore.getState().logout();
+    await flushPromises();
+    await AsyncStorage.clear();
+    useSettingsStore.getState().setTheme('dark');
+    useSettingsStore.getState().setLanguage('vi');
+    await flushPromises();
+
+    await signIn();
+    // The account starts from the device's choice
+    expect(useSettingsStore.getState().language).toBe('vi');
+    useSettingsStore.getState().setTheme('light');
+    await useAuthStore.getState().logout();
+    await flushPromises();
+
+    expect(useSettingsStore.getState()).toMatchObject({ theme: 'dark', language: 'vi' });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * @format
+ */
+
+import { signalrService } from '../src/services/signalrService';
+import { useConnectionStore } from '../src/store/connectionStore';
+
+// A real hub client this time, dialing a scripted connection instead of the backend
+jest.mock('../src/utils/config', () => {
+  const config = jest.requireActual('../src/utils/config');
+  return { ...config, DEV_CONFIG: { ...config.DEV_CONFIG, MOCK_APIS: false } };
+});
+
+jest.mock('@microsoft/signalr', () => {
+  const connection = {
+    state: 'Disconnected',
+    lifecycle: {} as Record<string, (arg?: any) => void>,
+    start: jest.fn(),
+    stop: jest.fn(async () => {
+      connection.state = 'Disconnected';
+    }),
+    on: jest.fn(),
+    invoke: jest.fn(async () => undefined),
+    onclose: (callback: any) => (connection.lifecycle.close = callback),
+    onreconnecting: (callback: any) => (connection.lifecycle.reconnecting = callback),
+    onreconnected: (callback: any) => (connection.lifecycle.reconnected = callback),
+  };
+  class HubConnectionBuilder {
+    withUrl() { return this; }
+    withAutomaticReconnect() { return this; }
+    configureLogging() { return this; }
+    build() { return connection; }
+  }
+  return { connection, HubConnectionBuilder, LogLevel: {}, HttpTransportType: {} };
+});
+
+const { connection } = jest.requireMock('@microsoft/signalr');
+
+const startSucceeds = () =>
+  connection.start.mockImplementation(async () => {
+    connection.state = 'Connected';
+  });
+
+describe('SignalR resilience', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    connection.start.mockReset();
+    connection.invoke.mockClear();
+    await signalrService.disconnect();
+    useConnectionStore.getState().reset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('backs off, then stays retryable once the attempts run out', async () => {
+    connection.start.mockRejectedValue(new Error('Failed to connect'));
+
+    await signalrService.connect();
+    expect(useConnectionStore.getState().status).toBe('reconnecting');
+
+    // 1 + 2 + 4 + 8 + 16 seconds of backoff, then the cap
+    await jest.advanceTimersByTimeAsync(31000);
+    expect(connection.start).toHaveBeenCalledTimes(6);
+    expect(useConnectionStore.getState()).toMatchObject({ status: 'disconnected', error: 'Error: Failed to connect' });
+
+    // Foreground or network return brings it back
+    startSucceeds();
+    await signalrService.retry();
+    expect(useConnectionStore.getState().status).toBe('connected');
+  });
+
+  test('rejoins event groups and asks for a resync after a dropped connection', async () => {
+    startSucceeds();
+    await signalrService.connect();
+    await signalrService.joinEventGroup('event-1');
+    expect(useConnectionStore.getState().lastResyncAt).toBeNull();
+
+    // Automatic reconnect gave up
+    connection.state = 'Disconnected';
+    connection.lifecycle.close(new Error('Connection lost'));
+    expect(useConnectionStore.getState().status).toBe('disconnected');
+
+    connection.invoke.mockClear();
+    await signalrService.retry();
+
+    expect(useConnectionStore.getState().status).toBe('connected');
+    expect(useConnectionStore.getState().lastResyncAt).not.toBeNull();
+    expect(connection.invoke).toHaveBeenCalledWith('JoinEventGroup', 'event-1');
+  });
+
+  test('ignores retries while the connection is healthy', async () => {
+    startSucceeds();
+    await signalrService.connect();
+
+    await signalrService.retry();
+
+    expect(connection.start).toHaveBeenCalledTimes(1);
+  });
+});
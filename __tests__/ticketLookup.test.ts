@@ -0,0 +1,68 @@
+/**
+ * @format
+ */
+
+import { apiService } from '../src/services/api';
+import { useAuthStore } from '../src/store/authStore';
+import { createMockFixtures } from '../src/services/mockFixtures';
+import { FakeBackend, installFakeBackend, signIn } from '../jest/fakeBackend';
+
+describe('ticket lookup', () => {
+  const tickets = createMockFixtures().tickets;
+  const eventId = tickets[0].eventId;
+  const eventTickets = tickets.filter(ticket => ticket.eventId === eventId);
+  let backend: FakeBackend;
+
+  beforeEach(async () => {
+    useAuthStore.setState(useAuthStore.getInitialState(), true);
+    backend = installFakeBackend();
+    await signIn();
+  });
+
+  afterEach(() => backend.restore());
+
+  test('finds an event\'s tickets by name, email or code fragment', async () => {
+    const [ticket] = eventTickets;
+
+    const byName = await apiService.searchIssuedTickets(eventId, ticket.customerName.toUpperCase());
+    expect(byName.data.items.map(item => item.qrCode)).toEqual(
+      eventTickets.filter(item => item.customerName === ticket.customerName).map(item => item.qrCode)
+    );
+
+    const byEmail = await apiService.searchIssuedTickets(eventId, ticket.customerEmail.split('@')[0]);
+    expect(byEmail.data.items.every(item => item.customerEmail === ticket.customerEmail)).toBe(true);
+
+    const byCode = await apiService.searchIssuedTickets(eventId, ticket.qrCode.slice(-4));
+    expect(byCode.data.items.map(item => item.qrCode)).toEqual([ticket.qrCode]);
+
+    // Tickets of other events never show up
+    const other = tickets.find(item => item.eventId !== eventId)!;
+    const otherEvent = await apiService.searchIssuedTickets(eventId, other.qrCode);
+    expect(otherEvent.data.items).toEqual([]);
+  });
+
+  test('pages through long result lists', async () => {
+    const firstPage = await apiService.searchIssuedTickets(eventId, '@example.com', 1, 4);
+    expect(firstPage.data).toMatchObject({ totalItems: eventTickets.length, hasNextPage: true });
+    expect(firstPage.data.items).toHaveLength(4);
+
+    const secondPage = await apiService.searchIssuedTickets(eventId, '@example.com', 2, 4);
+    expect(secondPage.data.hasNextPage).toBe(false);
+    expect([...firstPage.data.items, ...secondPage.data.items].map(item => item.qrCode)).toEqual(
+      eventTickets.map(item => item.qrCode)
+    );
+  });
+
+  test('records manual check-ins with their own method', async () => {
+    const ticket = eventTickets.find(item => !item.isCheckedIn)!;
+
+    const outcome = await apiService.checkInByQR({ qrContent: ticket.qrCode, eventId, checkInMethod: 'Manual' });
+    expect(outcome.status).toBe('success');
+
+    const history = await apiService.getCheckInHistory(eventId);
+    expect(history.data.items.find(log => log.qrCode === ticket.qrCode)).toMatchObject({ checkInMethod: 'Manual' });
+
+    const [found] = (await apiService.searchIssuedTickets(eventId, ticket.qrCode)).data.items;
+    expect(found).toMatchObject({ isCheckedIn: true, status: 'Checked In' });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @format
+ */
+
+import { apiService } from '../src/services/api';
+import { useAuthStore } from '../src/store/authStore';
+import { useTicketManifestStore } from '../src/store/ticketManifestStore';
+import { createMockFixtures } from '../src/services/mockFixtures';
+import { FakeBackend, installFakeBackend, signIn } from '../jest/fakeBackend';
+
+describe('ticket manifest validation', () => {
+  const [first, second, third] = createMockFixtures().tickets.filter(ticket => !ticket.isCheckedIn);
+  const eventId = first.eventId;
+  const manifestPath = `/api/TicketIssued/event/${eventId}/manifest`;
+  let backend: FakeBackend;
+
+  beforeEach(async () => {
+    useAuthStore.setState(useAuthStore.getInitialState(), true);
+    backend = installFakeBackend();
+    await signIn();
+    useTicketManifestStore.getState().reset();
+  });
+
+  afterEach(() => backend.restore());
+
+  test('validates codes offline against the downloaded ticket list', async () => {
+    const store = useTicketManifestStore.getState();
+    expect(store.validateCode(eventId, first.qrCode)).toEqual({ status: 'no_manifest' });
+
+    await store.downloadManifest(eventId);
+
+    expect(store.validateCode(eventId, first.qrCode)).toMatchObject({ status: 'valid', ticket: { qrCode: first.qrCode } });
+    expect(store.validateCode(eventId, 'VZ-NOT-A-TICKET')).toEqual({ status: 'unknown' });
+
+    store.markCheckedIn(eventId, first.qrCode);
+    expect(store.validateCode(eventId, first.qrCode)).toMatchObject({
+      status: 'already_used',
+      ticket: { isCheckedIn: true, checkedInLocally: true },
+    });
+
+    store.unmarkCheckedIn(eventId, first.qrCode);
+    expect(store.validateCode(eventId, first.qrCode).status).toBe('valid');
+  });
+
+  test('refreshes only the changes and keeps check-ins the server has not seen', async () => {
+    const store = useTicketManifestStore.getState();
+    await store.downloadManifest(eventId);
+    const { version } = useTicketManifestStore.getState().manifests[eventId];
+
+    store.markCheckedIn(eventId, first.qrCode);
+    await apiService.checkInByQR({ qrContent: second.qrCode, eventId });
+
+    await store.refreshManifest(eventId);
+
+    expect(backend.requestsTo(manifestPath).map(config => config.url)).toEqual([
+      `${manifestPath}?`,
+      `${manifestPath}?since=${version}`,
+    ]);
+    expect(store.validateCode(eventId, first.qrCode).status).toBe('already_used');
+    expect(store.validateCode(eventId, second.qrCode).status).toBe('already_used');
+    expect(store.validateCode(eventId, third.qrCode).status).toBe('valid');
+  });
+
+  test('keeps the stored manifest when a download fails', async () => {
+    const store = useTicketManifestStore.getState();
+    await store.downloadManifest(eventId);
+    backend.on('get', manifestPath, { status: 500, data: {} });
+
+    await expect(store.refreshManifest(eventId)).rejects.toBeDefined();
+
+    expect(useTicketManifestStore.getState()).toMatchObject({ loadingEventId: null, error: 'Failed to refresh ticket manifest' });
+    expect(store.validateCode(eventId, first.qrCode).status).toBe('valid');
+  });
+});
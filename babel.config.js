@@ -1,3 +1,9 @@
 module.exports = {
   presets: ['module:@react-native/babel-preset'],
+  env: {
+    // Jest runs CommonJS; Metro handles import() itself in the app
+    test: {
+      plugins: ['@babel/plugin-transform-dynamic-import'],
+    },
+  },
 };
@@ -3,7 +3,11 @@
  */
 
 import { AppRegistry } from 'react-native';
+import notifee from '@notifee/react-native';
 import App from './App';
 import { name as appName } from './app.json';
+import { handleLocalNotificationEvent } from './src/services/notificationPresenter';
 
+// Must be registered before the app mounts - taps can arrive while it is in the background
+notifee.onBackgroundEvent(handleLocalNotificationEvent);
 AppRegistry.registerComponent(appName, () => App);
@@ -1,3 +1,8 @@
 module.exports = {
   preset: 'react-native',
+  setupFiles: ['<rootDir>/jest/setup.js'],
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/jest/'],
+  transformIgnorePatterns: [
+    'node_modules/(?!((jest-)?react-native(-[^/]+)?|@react-native(-community)?|@react-navigation|@notifee)/)',
+  ],
 };
@@ -0,0 +1,92 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { apiService } from '../src/services/api';
+import { createMockTransport, MockTransportOptions } from '../src/services/mockTransport';
+import { MOCK_CREDENTIALS } from '../src/services/mockFixtures';
+import { useAuthStore } from '../src/store/authStore';
+
+type Method = 'get' | 'post' | 'put' | 'delete';
+
+// A canned reply; `network: true` fails the request before any response arrives
+export interface FakeReply {
+  status?: number;
+  data?: any;
+  network?: boolean;
+}
+
+interface Override {
+  method: Method;
+  path: string | RegExp;
+  reply: (config: InternalAxiosRequestConfig) => FakeReply;
+}
+
+export interface FakeBackend {
+  requests: InternalAxiosRequestConfig[];
+  on: (method: Method, path: string | RegExp, reply: FakeReply | Override['reply']) => void;
+  requestsTo: (path: string | RegExp) => InternalAxiosRequestConfig[];
+  restore: () => void;
+}
+
+const pathOf = (config: InternalAxiosRequestConfig) => (config.url || '').split('?')[0];
+
+const matches = (path: string | RegExp, config: InternalAxiosRequestConfig) =>
+  typeof path === 'string' ? pathOf(config) === path : path.test(pathOf(config));
+
+const toResponse = (config: InternalAxiosRequestConfig, reply: FakeReply): AxiosResponse => {
+  if (reply.network) {
+    throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, {});
+  }
+
+  const response: AxiosResponse = {
+    data: reply.data,
+    status: reply.status ?? 200,
+    statusText: String(reply.status ?? 200),
+    headers: {},
+    config,
+    request: {},
+  };
+  if (response.status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      AxiosError.ERR_BAD_RESPONSE,
+      config,
+      {},
+      response
+    );
+  }
+  return response;
+};
+
+// Points apiService at the fixture-backed mock transport, with per-test overrides on top.
+// Nothing leaves the process, so the suites run offline.
+export const installFakeBackend = (options: MockTransportOptions = {}): FakeBackend => {
+  const transport = createMockTransport({ latency: 0, ...options });
+  const overrides: Override[] = [];
+  const requests: InternalAxiosRequestConfig[] = [];
+
+  const adapter: AxiosAdapter = async config => {
+    requests.push(config);
+    const override = [...overrides]
+      .reverse()
+      .find(item => item.method === config.method && matches(item.path, config));
+    return override ? toResponse(config, override.reply(config)) : transport(config);
+  };
+  apiService.setTransport(adapter);
+
+  return {
+    requests,
+    on: (method, path, reply) => {
+      overrides.push({ method, path, reply: typeof reply === 'function' ? reply : () => reply });
+    },
+    requestsTo: path => requests.filter(config => matches(path, config)),
+    restore: () => apiService.setTransport(),
+  };
+};
+
+// Lets fire-and-forget work (e.g. the notification fetch after login) finish
+export const flushPromises = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Real login against the fake backend, for suites that need an authenticated user
+export const signIn = async () => {
+  await useAuthStore.getState().login(MOCK_CREDENTIALS);
+  await flushPromises();
+};
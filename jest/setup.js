@@ -0,0 +1,32 @@
+/* eslint-env jest */
+// Native modules have no implementation under Jest - use the mocks the libraries ship
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js'),
+);
+jest.mock('react-native-localize', () => require('react-native-localize/mock'));
+jest.mock('@notifee/react-native', () => require('@notifee/react-native/jest-mock'));
+jest.mock('react-native-camera-kit', () => ({
+  Camera: 'Camera',
+  CameraType: { Back: 'back', Front: 'front' },
+}));
+
+// Run the app in its mock-API mode: fixture transport and no SignalR hub to dial
+jest.mock('../src/utils/config', () => {
+  const config = jest.requireActual('../src/utils/config');
+  return { ...config, DEV_CONFIG: { ...config.DEV_CONFIG, MOCK_APIS: true } };
+});
+
+// No keystore under Jest - persist the auth store to the in-memory vault instead
+jest.mock('../src/services/secureStorage', () => {
+  const secureStorage = jest.requireActual('../src/services/secureStorage');
+  const AsyncStorage = require('@react-native-async-storage/async-storage');
+  return {
+    ...secureStorage,
+    secureStorage: secureStorage.createSecureStorage(secureStorage.createMemoryVault(), {
+      legacyStorage: AsyncStorage,
+    }),
+  };
+});
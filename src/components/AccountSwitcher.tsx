@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image, ActivityIndicator } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useTranslation } from 'react-i18next';
+import { lightTheme, darkTheme, spacing, typography } from '../theme';
+import { useAuthStore } from '../store/authStore';
+import { CombinedUserData } from '../types';
+import { handleApiError } from '../utils/errorHandler';
+import { useToast } from './ToastManager';
+
+interface AccountSwitcherProps {
+  theme: 'light' | 'dark';
+  showAddAccount?: boolean;
+}
+
+const AVATAR_PLACEHOLDER = 'https://via.placeholder.com/100x100/cccccc/666666?text=User';
+
+// The active account followed by the other signed-in ones; tapping one switches to it
+const AccountSwitcher: React.FC<AccountSwitcherProps> = ({ theme, showAddAccount = true }) => {
+  const { t } = useTranslation();
+  const { user, sessions, switchAccount, addAccount } = useAuthStore();
+  const { showSuccessToast, showErrorToast } = useToast();
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null);
+  const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
+  const styles = createStyles(currentTheme);
+
+  const handleSwitch = async (account: CombinedUserData) => {
+    if (switchingTo) return;
+
+    setSwitchingTo(account.accountId);
+    try {
+      await switchAccount(account.accountId);
+      showSuccessToast(t('accounts.switched', { name: account.fullName || account.username }));
+    } catch (error) {
+      showErrorToast(handleApiError(error, t));
+    } finally {
+      setSwitchingTo(null);
+    }
+  };
+
+  const renderAccount = (account: CombinedUserData, isActive: boolean) => (
+    <TouchableOpacity
+      key={account.accountId}
+      style={styles.accountRow}
+      onPress={() => handleSwitch(account)}
+      disabled={isActive || !!switchingTo}
+    >
+      <Image source={{ uri: account.avatarUrl || AVATAR_PLACEHOLDER }} style={styles.avatar} />
+      <View style={styles.accountInfo}>
+        <Text style={styles.accountName} numberOfLines={1}>{account.fullName || account.username}</Text>
+        <Text style={styles.accountUsername} numberOfLines={1}>
+          {isActive ? t('accounts.current') : account.username}
+        </Text>
+      </View>
+      {isActive && <Icon name="check-circle" size={22} color={currentTheme.primary} />}
+      {switchingTo === account.accountId && <ActivityIndicator size="small" color={currentTheme.primary} />}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      {user && renderAccount(user, true)}
+      {sessions.map(session => renderAccount(session.user, false))}
+
+      {showAddAccount && (
+        <TouchableOpacity style={styles.accountRow} onPress={addAccount} disabled={!!switchingTo}>
+          <View style={[styles.avatar, styles.addIcon]}>
+            <Icon name="person-add" size={20} color={currentTheme.primary} />
+          </View>
+          <Text style={[styles.accountName, styles.addText]}>{t('accounts.add')}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (theme: typeof lightTheme) => StyleSheet.create({
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    gap: spacing.md,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: theme.card,
+  },
+  accountInfo: {
+    flex: 1,
+  },
+  accountName: {
+    ...typography.body1,
+    color: theme.text,
+    fontWeight: '600',
+  },
+  accountUsername: {
+    ...typography.body2,
+    color: theme.textSecondary,
+  },
+  addIcon: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addText: {
+    flex: 1,
+    color: theme.primary,
+  },
+});
+
+export default AccountSwitcher;
@@ -0,0 +1,120 @@
+import React, { useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useTranslation } from 'react-i18next';
+import { lightTheme, darkTheme } from '../theme/colors';
+import { useAppLockStore } from '../store/appLockStore';
+import { useAuthStore } from '../store/authStore';
+
+interface AppLockOverlayProps {
+  theme: 'light' | 'dark';
+}
+
+// Covers the whole app, native modals included, until the biometric/passcode prompt succeeds
+const AppLockOverlay: React.FC<AppLockOverlayProps> = ({ theme }) => {
+  const { t } = useTranslation();
+  const { isLocked, isAuthenticating, unlock } = useAppLockStore();
+  const logout = useAuthStore(state => state.logout);
+  const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
+
+  const handleUnlock = useCallback(() => {
+    unlock({
+      title: t('appLock.promptTitle'),
+      subtitle: t('appLock.promptSubtitle'),
+      cancel: t('common.cancel'),
+    });
+  }, [unlock, t]);
+
+  // Prompt straight away - the button is there for when the user cancelled
+  useEffect(() => {
+    if (isLocked) {
+      handleUnlock();
+    }
+  }, [isLocked, handleUnlock]);
+
+  return (
+    <Modal visible={isLocked} transparent={false} animationType="fade" onRequestClose={() => {}}>
+      <View style={[styles.container, { backgroundColor: currentTheme.background }]}>
+        <Icon name="lock" size={72} color={currentTheme.primary} />
+        <Text style={[styles.title, { color: currentTheme.text }]}>{t('appLock.title')}</Text>
+        <Text style={[styles.subtitle, { color: currentTheme.textSecondary }]}>
+          {t('appLock.subtitle')}
+        </Text>
+
+        <TouchableOpacity
+          style={[styles.unlockButton, { backgroundColor: currentTheme.primary }]}
+          onPress={handleUnlock}
+          disabled={isAuthenticating}
+        >
+          {isAuthenticating ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <>
+              <Icon name="fingerprint" size={22} color="#FFFFFF" />
+              <Text style={styles.unlockButtonText}>{t('appLock.unlock')}</Text>
+            </>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.signOutButton} onPress={logout} disabled={isAuthenticating}>
+          <Text style={[styles.signOutText, { color: currentTheme.textSecondary }]}>
+            {t('appLock.signOut')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginTop: 20,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 15,
+    marginTop: 8,
+    lineHeight: 21,
+    textAlign: 'center',
+  },
+  unlockButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    alignSelf: 'stretch',
+    height: 52,
+    borderRadius: 12,
+    marginTop: 40,
+  },
+  unlockButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  signOutButton: {
+    marginTop: 16,
+    padding: 12,
+  },
+  signOutText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+});
+
+export default AppLockOverlay;
@@ -11,58 +11,50 @@ import {
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { useTranslation } from 'react-i18next';
 import { lightTheme, darkTheme } from '../theme/colors';
-
-interface CheckInTicketDetail {
-  ticketCode: string;
-  ticketType: string;
-  status: 'success' | 'already_checked_in' | 'failed';
-  message: string;
-  previousCheckIn?: {
-    checkedInAt: string;
-    checkedInBy: string;
-    checkerName: string;
-    checkInMethod: 'QrCode' | 'FaceRecognition' | 'Other';
-  };
-}
-
-interface CheckInResultData {
-  orderId: string;
-  eventId: string;
-  customerName: string;
-  totalTickets: number;
-  successfulCheckins: number;
-  alreadyCheckedIn: number;
-  checkinDetails: CheckInTicketDetail[];
-}
+import { CheckInResultSummary, CheckInOutcome, CheckInOutcomeStatus } from '../types';
+import { getCheckInOutcomeMessage } from '../utils/errorHandler';
+import { useCheckInStore } from '../store/checkInStore';
 
 interface CheckInResultModalProps {
   visible: boolean;
-  data: CheckInResultData | null;
+  result: CheckInResultSummary | null;
   theme: 'light' | 'dark';
   onClose: () => void;
   onContinue: () => void;
+  onUndo?: (outcome: CheckInOutcome) => void; // Offered on successful tickets while the grace window is open
 }
 
 const { width: screenWidth } = Dimensions.get('window');
 
 const CheckInResultModal: React.FC<CheckInResultModalProps> = ({
   visible,
-  data,
+  result,
   theme,
   onClose,
   onContinue,
+  onUndo,
 }) => {
   const { t } = useTranslation();
   const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
+  const { canUndo, revertedCheckIns } = useCheckInStore();
 
-  if (!data) return null;
+  if (!result) return null;
 
-  const getStatusIcon = (status: string) => {
+  const successfulCount = result.outcomes.filter(outcome => outcome.status === 'success').length;
+  const alreadyUsedCount = result.outcomes.filter(outcome => outcome.status === 'already_used').length;
+
+  const getStatusIcon = (status: CheckInOutcomeStatus) => {
     switch (status) {
       case 'success':
         return 'check-circle';
-      case 'already_checked_in':
+      case 'already_used':
         return 'info';
+      case 'wrong_event':
+        return 'swap-horiz';
+      case 'event_cancelled':
+        return 'event-busy';
+      case 'not_found':
+        return 'search-off';
       case 'failed':
         return 'error';
       default:
@@ -70,12 +62,15 @@ const CheckInResultModal: React.FC<CheckInResultModalProps> = ({
     }
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: CheckInOutcomeStatus) => {
     switch (status) {
       case 'success':
         return currentTheme.success;
-      case 'already_checked_in':
+      case 'already_used':
+      case 'wrong_event':
         return '#FF9500';
+      case 'event_cancelled':
+      case 'not_found':
       case 'failed':
         return currentTheme.error;
       default:
@@ -94,6 +89,8 @@ const CheckInResultModal: React.FC<CheckInResultModalProps> = ({
         return t('checkIn.method.qrCode');
       case 'FaceRecognition':
         return t('checkIn.method.faceRecognition');
+      case 'Manual':
+        return t('checkIn.method.manual');
       case 'Other':
         return t('checkIn.method.other');
       default:
@@ -101,6 +98,90 @@ const CheckInResultModal: React.FC<CheckInResultModalProps> = ({
     }
   };
 
+  const renderOutcome = (outcome: CheckInOutcome, index: number) => (
+    <View
+      key={index}
+      style={[styles.ticketItem, { 
+        backgroundColor: currentTheme.background,
+        borderColor: currentTheme.border 
+      }]}
+    >
+      <View style={styles.ticketHeader}>
+        <View style={styles.ticketInfo}>
+          <Text style={[styles.ticketCode, { color: currentTheme.text }]}>
+            {outcome.ticket.ticketCode}
+          </Text>
+          {!!outcome.ticket.ticketType && (
+            <Text style={[styles.ticketType, { color: currentTheme.textSecondary }]}>
+              {outcome.ticket.ticketType}
+            </Text>
+          )}
+        </View>
+        <View style={[styles.statusBadge, { 
+          backgroundColor: getStatusColor(outcome.status) + '20' 
+        }]}>
+          <Icon
+            name={getStatusIcon(outcome.status)}
+            size={16}
+            color={getStatusColor(outcome.status)}
+          />
+          <Text style={[styles.statusText, { color: getStatusColor(outcome.status) }]}>
+            {t(`checkIn.status.${outcome.status}`)}
+          </Text>
+        </View>
+      </View>
+
+      {/* Reason for anything that was not checked in */}
+      {outcome.status !== 'success' && (
+        <View style={styles.reasonRow}>
+          <Text style={[styles.reasonText, { color: currentTheme.text }]}>
+            {getCheckInOutcomeMessage(outcome, t)}
+          </Text>
+        </View>
+      )}
+
+      {outcome.status === 'success' && revertedCheckIns.some(item => item.qrCode === outcome.ticket.ticketCode) && (
+        <View style={styles.reasonRow}>
+          <Text style={[styles.reasonText, { color: currentTheme.error }]}>
+            {t('undoCheckIn.reverted')}
+          </Text>
+        </View>
+      )}
+
+      {outcome.status === 'success' && !!onUndo && canUndo(outcome.ticket.ticketCode) && (
+        <TouchableOpacity
+          style={[styles.undoButton, { borderTopColor: currentTheme.border }]}
+          onPress={() => onUndo(outcome)}
+        >
+          <Icon name="undo" size={18} color={currentTheme.error} />
+          <Text style={[styles.undoButtonText, { color: currentTheme.error }]}>
+            {t('undoCheckIn.action')}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {outcome.status === 'already_used' && outcome.previousCheckIn && (
+        <View style={[styles.previousCheckIn, { 
+          backgroundColor: currentTheme.card,
+          borderColor: currentTheme.border 
+        }]}>
+          <Text style={[styles.previousLabel, { color: currentTheme.textSecondary }]}>
+            {t('checkIn.previousCheckIn')}:
+          </Text>
+          <Text style={[styles.previousInfo, { color: currentTheme.text }]}>
+            {formatDateTime(outcome.previousCheckIn.checkedInAt)}
+          </Text>
+          <Text style={[styles.previousInfo, { color: currentTheme.text }]}>
+            {t('checkIn.by')} {outcome.previousCheckIn.checkerName}
+          </Text>
+          <Text style={[styles.previousMethod, { color: currentTheme.textSecondary }]}>
+            {getCheckInMethodText(outcome.previousCheckIn.checkInMethod)}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+
   return (
     <Modal
       visible={visible}
@@ -114,13 +195,15 @@ const CheckInResultModal: React.FC<CheckInResultModalProps> = ({
           <View style={[styles.header, { borderBottomColor: currentTheme.border }]}>
             <View style={styles.headerLeft}>
               <Icon
-                name="face"
+                name={result.method === 'FaceRecognition' ? 'face' : 'qr-code-scanner'}
                 size={28}
                 color={currentTheme.primary}
                 style={styles.headerIcon}
               />
               <Text style={[styles.title, { color: currentTheme.text }]}>
-                {t('checkIn.faceCheckInResult')}
+                {result.method === 'FaceRecognition'
+                  ? t('checkIn.faceCheckInResult')
+                  : t('checkIn.qrCheckInResult')}
               </Text>
             </View>
             <TouchableOpacity
@@ -133,13 +216,15 @@ const CheckInResultModal: React.FC<CheckInResultModalProps> = ({
 
           {/* Summary */}
           <View style={[styles.summary, { backgroundColor: currentTheme.card }]}>
-            <Text style={[styles.customerName, { color: currentTheme.text }]}>
-              {data.customerName}
-            </Text>
+            {!!result.customerName && (
+              <Text style={[styles.customerName, { color: currentTheme.text }]}>
+                {result.customerName}
+              </Text>
+            )}
             <View style={styles.summaryStats}>
               <View style={styles.statItem}>
                 <Text style={[styles.statNumber, { color: currentTheme.success }]}>
-                  {data.successfulCheckins}
+                  {successfulCount}
                 </Text>
                 <Text style={[styles.statLabel, { color: currentTheme.textSecondary }]}>
                   {t('checkIn.successful')}
@@ -147,7 +232,7 @@ const CheckInResultModal: React.FC<CheckInResultModalProps> = ({
               </View>
               <View style={styles.statItem}>
                 <Text style={[styles.statNumber, { color: '#FF9500' }]}>
-                  {data.alreadyCheckedIn}
+                  {alreadyUsedCount}
                 </Text>
                 <Text style={[styles.statLabel, { color: currentTheme.textSecondary }]}>
                   {t('checkIn.alreadyCheckedIn')}
@@ -155,7 +240,7 @@ const CheckInResultModal: React.FC<CheckInResultModalProps> = ({
               </View>
               <View style={styles.statItem}>
                 <Text style={[styles.statNumber, { color: currentTheme.text }]}>
-                  {data.totalTickets}
+                  {result.outcomes.length}
                 </Text>
                 <Text style={[styles.statLabel, { color: currentTheme.textSecondary }]}>
                   {t('checkIn.totalTickets')}
@@ -170,58 +255,7 @@ const CheckInResultModal: React.FC<CheckInResultModalProps> = ({
               {t('checkIn.ticketDetails')}
             </Text>
             
-            {data.checkinDetails.map((ticket, index) => (
-              <View
-                key={index}
-                style={[styles.ticketItem, { 
-                  backgroundColor: currentTheme.background,
-                  borderColor: currentTheme.border 
-                }]}
-              >
-                <View style={styles.ticketHeader}>
-                  <View style={styles.ticketInfo}>
-                    <Text style={[styles.ticketCode, { color: currentTheme.text }]}>
-                      {ticket.ticketCode}
-                    </Text>
-                    <Text style={[styles.ticketType, { color: currentTheme.textSecondary }]}>
-                      {ticket.ticketType}
-                    </Text>
-                  </View>
-                  <View style={[styles.statusBadge, { 
-                    backgroundColor: getStatusColor(ticket.status) + '20' 
-                  }]}>
-                    <Icon
-                      name={getStatusIcon(ticket.status)}
-                      size={16}
-                      color={getStatusColor(ticket.status)}
-                    />
-                    <Text style={[styles.statusText, { color: getStatusColor(ticket.status) }]}>
-                      {t(`checkIn.status.${ticket.status}`)}
-                    </Text>
-                  </View>
-                </View>
-
-                                 {ticket.previousCheckIn && (
-                   <View style={[styles.previousCheckIn, { 
-                     backgroundColor: currentTheme.card,
-                     borderColor: currentTheme.border 
-                   }]}>
-                     <Text style={[styles.previousLabel, { color: currentTheme.textSecondary }]}>
-                       {t('checkIn.previousCheckIn')}:
-                     </Text>
-                     <Text style={[styles.previousInfo, { color: currentTheme.text }]}>
-                       {formatDateTime(ticket.previousCheckIn.checkedInAt)}
-                     </Text>
-                     <Text style={[styles.previousInfo, { color: currentTheme.text }]}>
-                       {t('checkIn.by')} {ticket.previousCheckIn.checkerName}
-                     </Text>
-                     <Text style={[styles.previousMethod, { color: currentTheme.textSecondary }]}>
-                       {getCheckInMethodText(ticket.previousCheckIn.checkInMethod)}
-                     </Text>
-                   </View>
-                 )}
-              </View>
-            ))}
+            {result.outcomes.map((outcome, index) => renderOutcome(outcome, index))}
           </ScrollView>
 
           {/* Actions */}
@@ -365,6 +399,25 @@ const styles = StyleSheet.create({
     marginLeft: 4,
     textTransform: 'uppercase',
   },
+  reasonRow: {
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  reasonText: {
+    fontSize: 14,
+  },
+  undoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+  },
+  undoButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   previousCheckIn: {
     padding: 16,
     borderTopWidth: 1,
@@ -0,0 +1,78 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useTranslation } from 'react-i18next';
+import { lightTheme, darkTheme } from '../theme/colors';
+import { useConnectionStore } from '../store/connectionStore';
+import { signalrService } from '../services/signalrService';
+
+interface ConnectionStatusBannerProps {
+  theme: 'light' | 'dark';
+}
+
+const WARNING_COLOR = '#FF9500';
+
+// Only visible while real-time updates are not flowing
+const ConnectionStatusBanner: React.FC<ConnectionStatusBannerProps> = ({ theme }) => {
+  const { t } = useTranslation();
+  const status = useConnectionStore(state => state.status);
+  const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
+
+  if (status !== 'reconnecting' && status !== 'disconnected') {
+    return null;
+  }
+
+  const isReconnecting = status === 'reconnecting';
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.banner,
+        { backgroundColor: isReconnecting ? WARNING_COLOR : currentTheme.error },
+      ]}
+      onPress={() => signalrService.retry()}
+      disabled={isReconnecting}
+      activeOpacity={0.8}
+    >
+      {isReconnecting ? (
+        <ActivityIndicator size="small" color="#FFFFFF" />
+      ) : (
+        <Icon name="cloud-off" size={16} color="#FFFFFF" />
+      )}
+      <View style={styles.textContainer}>
+        <Text style={styles.title} numberOfLines={1}>
+          {isReconnecting ? t('connection.reconnecting') : t('connection.disconnected')}
+        </Text>
+        {!isReconnecting && (
+          <Text style={styles.subtitle} numberOfLines={1}>
+            {t('connection.tapToRetry')}
+          </Text>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  textContainer: {
+    flex: 1,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  subtitle: {
+    color: 'rgba(255,255,255,0.85)',
+    fontSize: 12,
+  },
+});
+
+export default ConnectionStatusBanner;
@@ -9,6 +9,7 @@ import {
   Dimensions,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import type { ToastAction } from './ToastManager';
 
 interface CustomToastProps {
   visible: boolean;
@@ -16,6 +17,7 @@ interface CustomToastProps {
   type: 'success' | 'error';
   onHide: () => void;
   duration?: number;
+  action?: ToastAction; // Optional button, e.g. "Undo"
 }
 
 const { width } = Dimensions.get('window');
@@ -26,6 +28,7 @@ const CustomToast: React.FC<CustomToastProps> = ({
   type,
   onHide,
   duration = 3000,
+  action,
 }) => {
   const slideAnim = useRef(new Animated.Value(-100)).current;
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -68,6 +71,11 @@ const CustomToast: React.FC<CustomToastProps> = ({
     });
   };
 
+  const handleActionPress = () => {
+    action?.onPress();
+    hideToast();
+  };
+
   const getToastStyle = () => {
     return type === 'success' ? styles.successToast : styles.errorToast;
   };
@@ -106,6 +114,11 @@ const CustomToast: React.FC<CustomToastProps> = ({
               style={styles.icon}
             />
             <Text style={styles.message}>{message}</Text>
+            {action && (
+              <TouchableOpacity onPress={handleActionPress} style={styles.actionButton}>
+                <Text style={styles.actionText}>{action.label}</Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity onPress={hideToast} style={styles.closeButton}>
               <Icon name="close" size={20} color="#666" />
             </TouchableOpacity>
@@ -165,6 +178,20 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     lineHeight: 22,
   },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginLeft: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#2E7D32',
+    textTransform: 'uppercase',
+  },
   closeButton: {
     padding: 4,
     marginLeft: 8,
@@ -0,0 +1,186 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Image, ActivityIndicator } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useTranslation } from 'react-i18next';
+import { lightTheme, darkTheme, spacing, borderRadius, typography } from '../theme';
+import { FaceEnrollmentError, FaceEnrollmentShot, FacePose } from '../types';
+import { FACE_ENROLLMENT_CONFIG } from '../utils/config';
+import { getFaceEnrollmentErrorMessage } from '../utils/errorHandler';
+
+interface FaceEnrollmentReviewProps {
+  theme: 'light' | 'dark';
+  shots: Partial<Record<FacePose, FaceEnrollmentShot>>;
+  errors: Partial<Record<FacePose, FaceEnrollmentError>>; // Rejections from the last upload
+  isSubmitting: boolean;
+  onRetake: (pose: FacePose) => void;
+  onSubmit: () => void;
+}
+
+// One card per pose with what the on-device checks or the server found; saving needs every pose clean
+const FaceEnrollmentReview: React.FC<FaceEnrollmentReviewProps> = ({
+  theme,
+  shots,
+  errors,
+  isSubmitting,
+  onRetake,
+  onSubmit,
+}) => {
+  const { t } = useTranslation();
+  const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
+  const styles = createStyles(currentTheme);
+
+  const canSubmit = FACE_ENROLLMENT_CONFIG.POSES.every(pose => {
+    const shot = shots[pose];
+    return shot && shot.quality.issues.length === 0 && !errors[pose];
+  });
+
+  const renderStatus = (pose: FacePose) => {
+    const shot = shots[pose];
+    const error = errors[pose];
+    if (error) {
+      return <Text style={[styles.status, styles.statusError]}>{getFaceEnrollmentErrorMessage(error, t)}</Text>;
+    }
+    if (!shot) {
+      return <Text style={styles.status}>{t('face.enrollment.notCaptured')}</Text>;
+    }
+    if (shot.quality.issues.length > 0) {
+      return (
+        <Text style={[styles.status, styles.statusError]}>
+          {shot.quality.issues.map(issue => t(`face.enrollment.issue.${issue}`)).join('\n')}
+        </Text>
+      );
+    }
+    return <Text style={[styles.status, styles.statusOk]}>{t('face.enrollment.looksGood')}</Text>;
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>{t('face.enrollment.reviewTitle')}</Text>
+      <Text style={styles.hint}>{t('face.enrollment.reviewHint')}</Text>
+
+      {FACE_ENROLLMENT_CONFIG.POSES.map(pose => {
+        const shot = shots[pose];
+        return (
+          <View key={pose} style={styles.card}>
+            {shot ? (
+              <Image source={{ uri: shot.uri }} style={styles.thumbnail} />
+            ) : (
+              <View style={[styles.thumbnail, styles.placeholder]}>
+                <Icon name="face" size={32} color={currentTheme.textSecondary} />
+              </View>
+            )}
+            <View style={styles.cardInfo}>
+              <Text style={styles.poseName}>{t(`face.enrollment.poseName.${pose}`)}</Text>
+              {renderStatus(pose)}
+            </View>
+            <TouchableOpacity style={styles.retakeButton} onPress={() => onRetake(pose)} disabled={isSubmitting}>
+              <Icon name={shot ? 'replay' : 'add-a-photo'} size={18} color={currentTheme.primary} />
+              <Text style={styles.retakeText}>
+                {shot ? t('face.enrollment.retake') : t('face.enrollment.capture')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      <TouchableOpacity
+        style={[styles.submitButton, (!canSubmit || isSubmitting) && styles.submitButtonDisabled]}
+        onPress={onSubmit}
+        disabled={!canSubmit || isSubmitting}
+      >
+        {isSubmitting ? (
+          <ActivityIndicator size="small" color="#FFFFFF" />
+        ) : (
+          <Text style={styles.submitText}>{t('face.enrollment.submit')}</Text>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const createStyles = (theme: typeof lightTheme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  content: {
+    padding: spacing.lg,
+  },
+  title: {
+    ...typography.h4,
+    color: theme.text,
+    marginBottom: spacing.xs,
+  },
+  hint: {
+    ...typography.body2,
+    color: theme.textSecondary,
+    marginBottom: spacing.lg,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: theme.surface,
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: borderRadius.md,
+    backgroundColor: theme.card,
+  },
+  placeholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  poseName: {
+    ...typography.body1,
+    color: theme.text,
+    fontWeight: '600',
+  },
+  status: {
+    ...typography.body2,
+    color: theme.textSecondary,
+    marginTop: spacing.xs,
+  },
+  statusOk: {
+    color: theme.success,
+  },
+  statusError: {
+    color: theme.error,
+  },
+  retakeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.xs,
+  },
+  retakeText: {
+    ...typography.body2,
+    color: theme.primary,
+    fontWeight: '600',
+  },
+  submitButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    marginTop: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: theme.primary,
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitText: {
+    ...typography.body1,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
+
+export default FaceEnrollmentReview;
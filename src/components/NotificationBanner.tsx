@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Animated,
+  TouchableOpacity,
+  Dimensions,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { lightTheme, darkTheme } from '../theme/colors';
+import { NotificationPresentation } from '../types';
+import {
+  inAppNotificationPresenter,
+  notificationDeliveryService,
+} from '../services/notificationPresenter';
+import { NOTIFICATION_CONFIG } from '../utils/config';
+
+interface NotificationBannerProps {
+  theme: 'light' | 'dark';
+}
+
+const { width } = Dimensions.get('window');
+
+// Renders the in-app presenter's latest entry; unlike CustomToast it does not block touches below
+const NotificationBanner: React.FC<NotificationBannerProps> = ({ theme }) => {
+  const [presentation, setPresentation] = useState<NotificationPresentation | null>(null);
+  const slideAnim = useRef(new Animated.Value(-120)).current;
+  const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
+
+  useEffect(() => {
+    return inAppNotificationPresenter.subscribe(presentations => {
+      setPresentation(presentations[0] || null);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!presentation) {
+      slideAnim.setValue(-120);
+      return;
+    }
+
+    Animated.spring(slideAnim, {
+      toValue: 0,
+      useNativeDriver: true,
+      tension: 100,
+      friction: 8,
+    }).start();
+
+    // A grouped update restarts the timer because presentedAt changes
+    const timer = setTimeout(() => {
+      notificationDeliveryService.dismiss(presentation.groupKey);
+    }, NOTIFICATION_CONFIG.BANNER_DURATION);
+
+    return () => clearTimeout(timer);
+  }, [presentation, slideAnim]);
+
+  if (!presentation) return null;
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <Animated.View
+        style={[
+          styles.banner,
+          { backgroundColor: currentTheme.card, borderColor: currentTheme.border },
+          { transform: [{ translateY: slideAnim }] },
+        ]}
+      >
+        <TouchableOpacity
+          style={styles.content}
+          onPress={() => notificationDeliveryService.open(presentation)}
+          activeOpacity={0.8}
+        >
+          <View style={[styles.iconContainer, { backgroundColor: currentTheme.primary }]}>
+            <Icon name="notifications" size={20} color="#FFFFFF" />
+            {presentation.count > 1 && (
+              <View style={[styles.countBadge, { backgroundColor: currentTheme.error }]}>
+                <Text style={styles.countText}>
+                  {presentation.count > 99 ? '99+' : String(presentation.count)}
+                </Text>
+              </View>
+            )}
+          </View>
+          <View style={styles.textContainer}>
+            <Text style={[styles.title, { color: currentTheme.text }]} numberOfLines={1}>
+              {presentation.title}
+            </Text>
+            {!!presentation.body && (
+              <Text style={[styles.body, { color: currentTheme.textSecondary }]} numberOfLines={2}>
+                {presentation.body}
+              </Text>
+            )}
+          </View>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.closeButton}
+          onPress={() => notificationDeliveryService.dismiss(presentation.groupKey)}
+        >
+          <Icon name="close" size={20} color={currentTheme.textSecondary} />
+        </TouchableOpacity>
+      </Animated.View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+    paddingTop: 48, // Status bar height + some padding
+    zIndex: 100,
+  },
+  banner: {
+    width: width - 32,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.2,
+    shadowRadius: 6,
+    elevation: 12,
+  },
+  content: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  countBadge: {
+    position: 'absolute',
+    top: -4,
+    right: -6,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  countText: {
+    color: '#FFFFFF',
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  textContainer: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  body: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 12,
+  },
+});
+
+export default NotificationBanner;
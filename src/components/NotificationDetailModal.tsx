@@ -7,11 +7,13 @@ import {
   TouchableOpacity,
   ScrollView,
   Pressable,
+  Alert,
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { Notification, NotificationType } from '../types';
 import { Theme } from '../theme';
+import { openDeepLink } from '../navigation/linking';
 
 interface NotificationDetailModalProps {
   visible: boolean;
@@ -51,6 +53,17 @@ const NotificationDetailModal: React.FC<NotificationDetailModalProps> = ({
 
   if (!notification) return null;
 
+  // Close first so the destination isn't hidden behind the modal
+  const handleOpenLink = async () => {
+    const url = notification.redirectUrl;
+    if (!url) return;
+    onClose();
+    const opened = await openDeepLink(url);
+    if (!opened) {
+      Alert.alert(t('common.error'), t('notifications.detail.cannotOpen'));
+    }
+  };
+
   // Format date for display
   const formatDate = (dateString: string): string => {
     try {
@@ -236,13 +249,32 @@ const NotificationDetailModal: React.FC<NotificationDetailModalProps> = ({
 
             {/* Footer */}
             <View style={styles.modalFooter}>
-              <TouchableOpacity
-                style={styles.closeFooterButton}
-                onPress={onClose}
-                activeOpacity={0.7}
-              >
-                <Text style={styles.closeFooterButtonText}>{t('common.close')}</Text>
-              </TouchableOpacity>
+              {notification.redirectUrl ? (
+                <>
+                  <TouchableOpacity
+                    style={[styles.closeFooterButton, styles.secondaryFooterButton]}
+                    onPress={onClose}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={styles.secondaryFooterButtonText}>{t('common.close')}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.closeFooterButton, styles.footerButtonFlex]}
+                    onPress={handleOpenLink}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={styles.closeFooterButtonText}>{t('notifications.open')}</Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <TouchableOpacity
+                  style={[styles.closeFooterButton, styles.footerButtonFlex]}
+                  onPress={onClose}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.closeFooterButtonText}>{t('common.close')}</Text>
+                </TouchableOpacity>
+              )}
             </View>
           </Pressable>
         </View>
@@ -343,6 +375,8 @@ const createStyles = (theme: Theme) =>
       fontFamily: 'monospace',
     },
     modalFooter: {
+      flexDirection: 'row',
+      gap: 12,
       padding: 20,
       borderTopWidth: 1,
       borderTopColor: theme.border,
@@ -359,6 +393,20 @@ const createStyles = (theme: Theme) =>
       fontSize: 16,
       fontWeight: '600',
     },
+    footerButtonFlex: {
+      flex: 1,
+    },
+    secondaryFooterButton: {
+      flex: 1,
+      backgroundColor: 'transparent',
+      borderWidth: 1,
+      borderColor: theme.border,
+    },
+    secondaryFooterButtonText: {
+      color: theme.text,
+      fontSize: 16,
+      fontWeight: '600',
+    },
   });
 
 export default NotificationDetailModal; 
\ No newline at end of file
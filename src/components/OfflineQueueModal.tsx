@@ -0,0 +1,401 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useTranslation } from 'react-i18next';
+import { lightTheme, darkTheme } from '../theme/colors';
+import { useOfflineCheckInStore } from '../store/offlineCheckInStore';
+import { OfflineCheckInItem, OfflineCheckInStatus } from '../types';
+import { getCheckInReason } from '../utils/errorHandler';
+
+interface OfflineQueueModalProps {
+  visible: boolean;
+  theme: 'light' | 'dark';
+  eventId?: string;
+  onClose: () => void;
+}
+
+const OfflineQueueModal: React.FC<OfflineQueueModalProps> = ({
+  visible,
+  theme,
+  eventId,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
+  const { queue, isOnline, isSyncing, syncQueue, retryItem, dismissItem, clearSynced } =
+    useOfflineCheckInStore();
+
+  // Only show the event the scanner was opened for, when there is one
+  const items = queue.filter(item => !eventId || !item.eventId || item.eventId === eventId);
+  const pendingCount = items.filter(item => item.status === 'pending' || item.status === 'syncing').length;
+  const conflictCount = items.filter(item => item.status === 'conflict' || item.status === 'failed').length;
+  const syncedCount = items.filter(item => item.status === 'synced').length;
+
+  const getStatusIcon = (status: OfflineCheckInStatus) => {
+    switch (status) {
+      case 'pending':
+        return 'schedule';
+      case 'syncing':
+        return 'sync';
+      case 'synced':
+        return 'check-circle';
+      case 'conflict':
+        return 'warning';
+      case 'failed':
+      default:
+        return 'error';
+    }
+  };
+
+  const getStatusColor = (status: OfflineCheckInStatus) => {
+    switch (status) {
+      case 'synced':
+        return currentTheme.success;
+      case 'conflict':
+        return '#FF9500';
+      case 'failed':
+        return currentTheme.error;
+      default:
+        return currentTheme.textSecondary;
+    }
+  };
+
+  const getReasonText = (item: OfflineCheckInItem) => {
+    if (!item.errorCode) {
+      return item.message || t('qr.checkInFailed');
+    }
+    return item.message || t(`checkIn.reason.${getCheckInReason(item.errorCode)}`);
+  };
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString('vi-VN', {
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
+  const renderItem = ({ item }: { item: OfflineCheckInItem }) => {
+    const color = getStatusColor(item.status);
+    const isConflict = item.status === 'conflict' || item.status === 'failed';
+
+    return (
+      <View style={[styles.item, { backgroundColor: currentTheme.background, borderColor: currentTheme.border }]}>
+        <View style={styles.itemHeader}>
+          <View style={styles.itemInfo}>
+            <Text style={[styles.itemCode, { color: currentTheme.text }]} numberOfLines={1}>
+              {item.qrContent}
+            </Text>
+            <Text style={[styles.itemTime, { color: currentTheme.textSecondary }]}>
+              {t('offlineQueue.scannedAt', { time: formatTime(item.scannedAt) })}
+            </Text>
+          </View>
+          <View style={[styles.statusBadge, { backgroundColor: color + '20' }]}>
+            <Icon name={getStatusIcon(item.status)} size={14} color={color} />
+            <Text style={[styles.statusText, { color }]}>
+              {t(`offlineQueue.status.${item.status}`)}
+            </Text>
+          </View>
+        </View>
+
+        {isConflict && (
+          <View style={[styles.conflictRow, { borderTopColor: currentTheme.border }]}>
+            <Text style={[styles.conflictReason, { color: currentTheme.text }]}>
+              {getReasonText(item)}
+            </Text>
+            <View style={styles.conflictActions}>
+              {item.status === 'failed' && (
+                <TouchableOpacity style={styles.iconButton} onPress={() => retryItem(item.id)}>
+                  <Icon name="refresh" size={20} color={currentTheme.primary} />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.iconButton} onPress={() => dismissItem(item.id)}>
+                <Icon name="done" size={20} color={currentTheme.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={[styles.container, { backgroundColor: currentTheme.surface }]}>
+          {/* Header */}
+          <View style={[styles.header, { borderBottomColor: currentTheme.border }]}>
+            <View style={styles.headerLeft}>
+              <Icon
+                name={isOnline ? 'cloud-queue' : 'cloud-off'}
+                size={26}
+                color={isOnline ? currentTheme.primary : currentTheme.error}
+                style={styles.headerIcon}
+              />
+              <View>
+                <Text style={[styles.title, { color: currentTheme.text }]}>
+                  {t('offlineQueue.title')}
+                </Text>
+                <Text style={[styles.subtitle, { color: currentTheme.textSecondary }]}>
+                  {isOnline ? t('offlineQueue.online') : t('offlineQueue.offline')}
+                </Text>
+              </View>
+            </View>
+            <TouchableOpacity
+              style={[styles.closeButton, { backgroundColor: currentTheme.card }]}
+              onPress={onClose}
+            >
+              <Icon name="close" size={20} color={currentTheme.text} />
+            </TouchableOpacity>
+          </View>
+
+          {/* Summary */}
+          <View style={[styles.summary, { backgroundColor: currentTheme.card }]}>
+            <View style={styles.statItem}>
+              <Text style={[styles.statNumber, { color: currentTheme.text }]}>{pendingCount}</Text>
+              <Text style={[styles.statLabel, { color: currentTheme.textSecondary }]}>
+                {t('offlineQueue.status.pending')}
+              </Text>
+            </View>
+            <View style={styles.statItem}>
+              <Text style={[styles.statNumber, styles.conflictNumber]}>{conflictCount}</Text>
+              <Text style={[styles.statLabel, { color: currentTheme.textSecondary }]}>
+                {t('offlineQueue.conflicts')}
+              </Text>
+            </View>
+            <View style={styles.statItem}>
+              <Text style={[styles.statNumber, { color: currentTheme.success }]}>{syncedCount}</Text>
+              <Text style={[styles.statLabel, { color: currentTheme.textSecondary }]}>
+                {t('offlineQueue.status.synced')}
+              </Text>
+            </View>
+          </View>
+
+          <FlatList
+            data={items}
+            keyExtractor={item => item.id}
+            renderItem={renderItem}
+            style={styles.list}
+            contentContainerStyle={styles.listContent}
+            ListEmptyComponent={
+              <Text style={[styles.emptyText, { color: currentTheme.textSecondary }]}>
+                {t('offlineQueue.empty')}
+              </Text>
+            }
+          />
+
+          {/* Actions */}
+          <View style={[styles.actions, { borderTopColor: currentTheme.border }]}>
+            <TouchableOpacity
+              style={[
+                styles.actionButton,
+                { backgroundColor: currentTheme.primary },
+                (isSyncing || pendingCount === 0) && styles.actionButtonDisabled,
+              ]}
+              onPress={() => syncQueue()}
+              disabled={isSyncing || pendingCount === 0}
+            >
+              {isSyncing ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Icon name="sync" size={20} color="#FFFFFF" />
+              )}
+              <Text style={styles.actionButtonText}>{t('offlineQueue.syncNow')}</Text>
+            </TouchableOpacity>
+
+            {syncedCount > 0 && (
+              <TouchableOpacity
+                style={[styles.actionButton, styles.secondaryButton, {
+                  backgroundColor: currentTheme.card,
+                  borderColor: currentTheme.border,
+                }]}
+                onPress={clearSynced}
+              >
+                <Icon name="clear-all" size={20} color={currentTheme.text} />
+                <Text style={[styles.secondaryButtonText, { color: currentTheme.text }]}>
+                  {t('offlineQueue.clearSynced')}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '90%',
+    minHeight: '60%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  headerIcon: {
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  summary: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    margin: 20,
+    padding: 16,
+    borderRadius: 16,
+  },
+  statItem: {
+    alignItems: 'center',
+  },
+  statNumber: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  conflictNumber: {
+    color: '#FF9500',
+  },
+  statLabel: {
+    fontSize: 12,
+    textAlign: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  item: {
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+    overflow: 'hidden',
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 14,
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  itemCode: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  itemTime: {
+    fontSize: 12,
+  },
+  statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 20,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '600',
+    marginLeft: 4,
+    textTransform: 'uppercase',
+  },
+  conflictRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  conflictReason: {
+    flex: 1,
+    fontSize: 13,
+  },
+  conflictActions: {
+    flexDirection: 'row',
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  actions: {
+    padding: 20,
+    borderTopWidth: 1,
+    gap: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    gap: 8,
+  },
+  actionButtonDisabled: {
+    opacity: 0.6,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default OfflineQueueModal;
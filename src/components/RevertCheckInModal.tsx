@@ -0,0 +1,316 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useTranslation } from 'react-i18next';
+import { lightTheme, darkTheme } from '../theme/colors';
+import { useCheckInStore } from '../store/checkInStore';
+import { CHECK_IN_CONFIG } from '../utils/config';
+import { ApiError, handleApiError } from '../utils/errorHandler';
+
+interface RevertCheckInModalProps {
+  visible: boolean;
+  theme: 'light' | 'dark';
+  qrCode: string | null;
+  customerName?: string;
+  onClose: () => void;
+  onReverted?: (qrCode: string) => void;
+}
+
+// Quick picks - each one is sent as the translated text
+const PRESET_REASONS = ['wrongGuest', 'scannedByMistake', 'guestLeft'];
+
+const RevertCheckInModal: React.FC<RevertCheckInModalProps> = ({
+  visible,
+  theme,
+  qrCode,
+  customerName,
+  onClose,
+  onReverted,
+}) => {
+  const { t } = useTranslation();
+  const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
+  const { revertCheckIn, getUndoRemaining } = useCheckInStore();
+
+  const [reason, setReason] = useState('');
+  const [isReverting, setIsReverting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [remainingMs, setRemainingMs] = useState(0);
+
+  // Fresh form and countdown every time the modal opens for a ticket
+  useEffect(() => {
+    if (!visible || !qrCode) {
+      return;
+    }
+
+    setReason('');
+    setError(null);
+    setRemainingMs(getUndoRemaining(qrCode));
+
+    const timer = setInterval(() => setRemainingMs(getUndoRemaining(qrCode)), 1000);
+    return () => clearInterval(timer);
+  }, [visible, qrCode, getUndoRemaining]);
+
+  if (!qrCode) return null;
+
+  const isExpired = remainingMs <= 0;
+  const canSubmit = !!reason.trim() && !isExpired && !isReverting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) {
+      return;
+    }
+
+    setIsReverting(true);
+    setError(null);
+    const result = await revertCheckIn(qrCode, reason);
+    setIsReverting(false);
+
+    if (result.isSuccess) {
+      onReverted?.(qrCode);
+      return;
+    }
+
+    setError(
+      result.errorCode === 'UNDO_EXPIRED'
+        ? t('undoCheckIn.expired')
+        : handleApiError(new ApiError(result), t)
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={[styles.container, { backgroundColor: currentTheme.surface }]}>
+          {/* Header */}
+          <View style={[styles.header, { borderBottomColor: currentTheme.border }]}>
+            <View style={styles.headerLeft}>
+              <Icon name="undo" size={28} color={currentTheme.error} style={styles.headerIcon} />
+              <View>
+                <Text style={[styles.title, { color: currentTheme.text }]}>
+                  {t('undoCheckIn.title')}
+                </Text>
+                <Text style={[styles.subtitle, { color: currentTheme.textSecondary }]} numberOfLines={1}>
+                  {customerName ? `${customerName} · ${qrCode}` : qrCode}
+                </Text>
+              </View>
+            </View>
+            <TouchableOpacity
+              style={[styles.closeButton, { backgroundColor: currentTheme.card }]}
+              onPress={onClose}
+              disabled={isReverting}
+            >
+              <Icon name="close" size={20} color={currentTheme.text} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.content}>
+            <Text style={[styles.countdown, isExpired ? { color: currentTheme.error } : { color: currentTheme.textSecondary }]}>
+              {isExpired
+                ? t('undoCheckIn.expired')
+                : t('undoCheckIn.remaining', { seconds: Math.ceil(remainingMs / 1000) })}
+            </Text>
+
+            <Text style={[styles.label, { color: currentTheme.text }]}>
+              {t('undoCheckIn.reasonLabel')}
+            </Text>
+
+            <View style={styles.presetRow}>
+              {PRESET_REASONS.map(key => {
+                const text = t(`undoCheckIn.reasons.${key}`);
+                const isSelected = reason === text;
+                return (
+                  <TouchableOpacity
+                    key={key}
+                    style={[
+                      styles.presetChip,
+                      { borderColor: isSelected ? currentTheme.primary : currentTheme.border },
+                      isSelected && { backgroundColor: currentTheme.primary + '20' },
+                    ]}
+                    onPress={() => setReason(text)}
+                    disabled={isReverting}
+                  >
+                    <Text style={[styles.presetText, { color: isSelected ? currentTheme.primary : currentTheme.text }]}>
+                      {text}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <TextInput
+              style={[styles.reasonInput, {
+                color: currentTheme.text,
+                borderColor: currentTheme.border,
+                backgroundColor: currentTheme.background,
+              }]}
+              placeholder={t('undoCheckIn.reasonPlaceholder')}
+              placeholderTextColor={currentTheme.textSecondary}
+              value={reason}
+              onChangeText={setReason}
+              maxLength={CHECK_IN_CONFIG.REVERT_REASON_MAX_LENGTH}
+              multiline
+              editable={!isReverting}
+            />
+
+            {!!error && (
+              <View style={styles.errorRow}>
+                <Icon name="error-outline" size={16} color={currentTheme.error} />
+                <Text style={[styles.errorText, { color: currentTheme.error }]}>{error}</Text>
+              </View>
+            )}
+          </View>
+
+          {/* Actions */}
+          <View style={[styles.actions, { borderTopColor: currentTheme.border }]}>
+            <TouchableOpacity
+              style={[
+                styles.actionButton,
+                { backgroundColor: currentTheme.error },
+                !canSubmit && styles.actionButtonDisabled,
+              ]}
+              onPress={handleSubmit}
+              disabled={!canSubmit}
+            >
+              {isReverting ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <>
+                  <Icon name="undo" size={20} color="#FFFFFF" />
+                  <Text style={styles.submitButtonText}>{t('undoCheckIn.confirm')}</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  headerIcon: {
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 20,
+  },
+  countdown: {
+    fontSize: 13,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 10,
+  },
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  presetChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  presetText: {
+    fontSize: 13,
+  },
+  reasonInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    minHeight: 80,
+    fontSize: 15,
+    textAlignVertical: 'top',
+  },
+  errorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  actions: {
+    padding: 20,
+    borderTopWidth: 1,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default RevertCheckInModal;
@@ -0,0 +1,137 @@
+import React, { useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Animated,
+  PanResponder,
+  Dimensions,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+
+export interface SwipeAction {
+  icon: string;
+  label: string;
+  color: string;
+  onTrigger: () => void;
+}
+
+interface SwipeableRowProps {
+  children: React.ReactNode;
+  leftAction?: SwipeAction; // Revealed by swiping right
+  rightAction?: SwipeAction; // Revealed by swiping left
+  disabled?: boolean;
+}
+
+const { width } = Dimensions.get('window');
+const TRIGGER_DISTANCE = Math.min(120, width * 0.3);
+
+// Swipe past TRIGGER_DISTANCE and let go to run the action; shorter swipes spring back
+const SwipeableRow: React.FC<SwipeableRowProps> = ({
+  children,
+  leftAction,
+  rightAction,
+  disabled = false,
+}) => {
+  const translateX = useRef(new Animated.Value(0)).current;
+
+  // Keep the latest actions for the responder, which is only created once
+  const actionsRef = useRef({ leftAction, rightAction, disabled });
+  actionsRef.current = { leftAction, rightAction, disabled };
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        // Only claim clearly horizontal drags so list scrolling and taps still work
+        onMoveShouldSetPanResponder: (_, gesture) =>
+          !actionsRef.current.disabled &&
+          Math.abs(gesture.dx) > 10 &&
+          Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+        onPanResponderMove: (_, gesture) => {
+          const { leftAction: left, rightAction: right } = actionsRef.current;
+          const dx = (gesture.dx > 0 && !left) || (gesture.dx < 0 && !right) ? 0 : gesture.dx;
+          translateX.setValue(dx);
+        },
+        onPanResponderRelease: (_, gesture) => {
+          const { leftAction: left, rightAction: right } = actionsRef.current;
+          const action =
+            gesture.dx > TRIGGER_DISTANCE ? left : gesture.dx < -TRIGGER_DISTANCE ? right : undefined;
+
+          Animated.spring(translateX, {
+            toValue: 0,
+            useNativeDriver: true,
+            tension: 80,
+            friction: 10,
+          }).start();
+
+          action?.onTrigger();
+        },
+        onPanResponderTerminate: () => {
+          Animated.spring(translateX, { toValue: 0, useNativeDriver: true }).start();
+        },
+      }),
+    [translateX]
+  );
+
+  const leftOpacity = translateX.interpolate({
+    inputRange: [0, TRIGGER_DISTANCE],
+    outputRange: [0, 1],
+    extrapolate: 'clamp',
+  });
+  const rightOpacity = translateX.interpolate({
+    inputRange: [-TRIGGER_DISTANCE, 0],
+    outputRange: [1, 0],
+    extrapolate: 'clamp',
+  });
+
+  return (
+    <View style={styles.container}>
+      {leftAction && (
+        <Animated.View
+          style={[styles.action, styles.leftAction, { backgroundColor: leftAction.color, opacity: leftOpacity }]}
+        >
+          <Icon name={leftAction.icon} size={22} color="#fff" />
+          <Text style={styles.actionText}>{leftAction.label}</Text>
+        </Animated.View>
+      )}
+      {rightAction && (
+        <Animated.View
+          style={[styles.action, styles.rightAction, { backgroundColor: rightAction.color, opacity: rightOpacity }]}
+        >
+          <Text style={styles.actionText}>{rightAction.label}</Text>
+          <Icon name={rightAction.icon} size={22} color="#fff" />
+        </Animated.View>
+      )}
+      <Animated.View style={{ transform: [{ translateX }] }} {...panResponder.panHandlers}>
+        {children}
+      </Animated.View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'relative',
+    overflow: 'hidden',
+  },
+  action: {
+    ...StyleSheet.absoluteFillObject,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  leftAction: {
+    justifyContent: 'flex-start',
+  },
+  rightAction: {
+    justifyContent: 'flex-end',
+  },
+  actionText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default SwipeableRow;
@@ -1,16 +1,22 @@
 import React, { useState, useEffect, createContext, useContext } from 'react';
 import CustomToast from './CustomToast';
 
+export interface ToastAction {
+  label: string;
+  onPress: () => void;
+}
+
 interface ToastData {
   id: string;
   message: string;
   type: 'success' | 'error';
   duration?: number;
+  action?: ToastAction;
 }
 
 interface ToastContextType {
-  showToast: (message: string, type: 'success' | 'error', duration?: number) => void;
-  showSuccessToast: (message: string, duration?: number) => void;
+  showToast: (message: string, type: 'success' | 'error', duration?: number, action?: ToastAction) => void;
+  showSuccessToast: (message: string, duration?: number, action?: ToastAction) => void;
   showErrorToast: (message: string, duration?: number) => void;
 }
 
@@ -31,18 +37,19 @@ interface ToastProviderProps {
 export const ToastProvider: React.FC<ToastProviderProps> = ({ children }) => {
   const [currentToast, setCurrentToast] = useState<ToastData | null>(null);
 
-  const showToast = (message: string, type: 'success' | 'error', duration?: number) => {
+  const showToast = (message: string, type: 'success' | 'error', duration?: number, action?: ToastAction) => {
     const id = Date.now().toString();
     setCurrentToast({
       id,
       message,
       type,
       duration,
+      action,
     });
   };
 
-  const showSuccessToast = (message: string, duration?: number) => {
-    showToast(message, 'success', duration);
+  const showSuccessToast = (message: string, duration?: number, action?: ToastAction) => {
+    showToast(message, 'success', duration, action);
   };
 
   const showErrorToast = (message: string, duration?: number) => {
@@ -68,6 +75,7 @@ export const ToastProvider: React.FC<ToastProviderProps> = ({ children }) => {
           message={currentToast.message}
           type={currentToast.type}
           duration={currentToast.duration}
+          action={currentToast.action}
           onHide={hideToast}
         />
       )}
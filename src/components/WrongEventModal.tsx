@@ -0,0 +1,224 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  StatusBar,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useTranslation } from 'react-i18next';
+import { lightTheme, darkTheme } from '../theme/colors';
+import { CheckInOutcome } from '../types';
+
+interface WrongEventModalProps {
+  visible: boolean;
+  outcome: CheckInOutcome | null;
+  currentEventName?: string;
+  theme: 'light' | 'dark';
+  onClose: () => void;
+  onContinue: () => void;
+}
+
+const WARNING_COLOR = '#FF9500';
+
+const WrongEventModal: React.FC<WrongEventModalProps> = ({
+  visible,
+  outcome,
+  currentEventName,
+  theme,
+  onClose,
+  onContinue,
+}) => {
+  const { t } = useTranslation();
+  const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
+
+  if (!outcome) return null;
+
+  const { ticket } = outcome;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={false}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <StatusBar backgroundColor={WARNING_COLOR} barStyle="light-content" />
+      <View style={[styles.container, { backgroundColor: currentTheme.background }]}>
+        {/* Warning banner */}
+        <View style={styles.banner}>
+          <Icon name="swap-horiz" size={72} color="#FFFFFF" />
+          <Text style={styles.bannerTitle}>{t('wrongEvent.title')}</Text>
+          <Text style={styles.bannerSubtitle}>{t('wrongEvent.subtitle')}</Text>
+        </View>
+
+        <View style={styles.content}>
+          {/* The event the ticket was actually issued for */}
+          <View style={[styles.card, { backgroundColor: currentTheme.surface, borderColor: WARNING_COLOR }]}>
+            <Text style={[styles.cardLabel, { color: currentTheme.textSecondary }]}>
+              {t('wrongEvent.ticketEvent')}
+            </Text>
+            <Text style={[styles.ticketEventName, { color: currentTheme.text }]}>
+              {ticket.eventName || t('wrongEvent.unknownEvent')}
+            </Text>
+          </View>
+
+          <View style={[styles.card, { backgroundColor: currentTheme.surface, borderColor: currentTheme.border }]}>
+            <Text style={[styles.cardLabel, { color: currentTheme.textSecondary }]}>
+              {t('wrongEvent.scanningFor')}
+            </Text>
+            <Text style={[styles.currentEventName, { color: currentTheme.text }]}>
+              {currentEventName || t('wrongEvent.unknownEvent')}
+            </Text>
+          </View>
+
+          <View style={styles.detailRow}>
+            <Icon name="confirmation-number" size={18} color={currentTheme.textSecondary} />
+            <Text style={[styles.detailText, { color: currentTheme.text }]} numberOfLines={1}>
+              {ticket.ticketCode}
+            </Text>
+          </View>
+          {!!ticket.customerName && (
+            <View style={styles.detailRow}>
+              <Icon name="person" size={18} color={currentTheme.textSecondary} />
+              <Text style={[styles.detailText, { color: currentTheme.text }]} numberOfLines={1}>
+                {ticket.customerName}
+              </Text>
+            </View>
+          )}
+          {!!ticket.ticketType && (
+            <View style={styles.detailRow}>
+              <Icon name="local-activity" size={18} color={currentTheme.textSecondary} />
+              <Text style={[styles.detailText, { color: currentTheme.text }]} numberOfLines={1}>
+                {ticket.ticketType}
+              </Text>
+            </View>
+          )}
+
+          <Text style={[styles.hint, { color: currentTheme.textSecondary }]}>
+            {t('wrongEvent.hint')}
+          </Text>
+        </View>
+
+        {/* Actions */}
+        <View style={[styles.actions, { borderTopColor: currentTheme.border }]}>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: currentTheme.primary }]}
+            onPress={onContinue}
+          >
+            <Icon name="qr-code-scanner" size={20} color="#FFFFFF" />
+            <Text style={styles.continueButtonText}>{t('wrongEvent.scanNext')}</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.actionButton, styles.backButton, {
+              backgroundColor: currentTheme.card,
+              borderColor: currentTheme.border,
+            }]}
+            onPress={onClose}
+          >
+            <Icon name="arrow-back" size={20} color={currentTheme.text} />
+            <Text style={[styles.backButtonText, { color: currentTheme.text }]}>
+              {t('common.goBack')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  banner: {
+    backgroundColor: WARNING_COLOR,
+    alignItems: 'center',
+    paddingTop: 72,
+    paddingBottom: 32,
+    paddingHorizontal: 24,
+  },
+  bannerTitle: {
+    color: '#FFFFFF',
+    fontSize: 26,
+    fontWeight: 'bold',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  bannerSubtitle: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    marginTop: 8,
+    textAlign: 'center',
+    opacity: 0.9,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 2,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 6,
+  },
+  ticketEventName: {
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  currentEventName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  detailText: {
+    flex: 1,
+    fontSize: 15,
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 20,
+    lineHeight: 18,
+  },
+  actions: {
+    padding: 20,
+    borderTopWidth: 1,
+    gap: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  continueButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  backButton: {
+    borderWidth: 1,
+  },
+  backButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default WrongEventModal;
@@ -4,6 +4,14 @@ export { default as ToastManager, ToastProvider } from './ToastManager';
 export { default as LoadingSpinner } from './LoadingSpinner';
 export { default as CheckInResultModal } from './CheckInResultModal';
 export { default as NotificationDetailModal } from './NotificationDetailModal';
+export { default as OfflineQueueModal } from './OfflineQueueModal';
+export { default as WrongEventModal } from './WrongEventModal';
+export { default as RevertCheckInModal } from './RevertCheckInModal';
+export { default as ConnectionStatusBanner } from './ConnectionStatusBanner';
+export { default as NotificationBanner } from './NotificationBanner';
+export { default as AppLockOverlay } from './AppLockOverlay';
+export { default as AccountSwitcher } from './AccountSwitcher';
+export { default as FaceEnrollmentReview } from './FaceEnrollmentReview';
 
 // Toast hook
 export { useToast } from './ToastManager'; 
@@ -0,0 +1,53 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { useAuthStore } from '../store/authStore';
+import { useAppLockStore } from '../store/appLockStore';
+
+type PersistedStore = typeof useAuthStore | typeof useAppLockStore;
+
+const whenHydrated = (store: PersistedStore) =>
+  new Promise<void>(resolve => {
+    if (store.persist.hasHydrated()) {
+      resolve();
+      return;
+    }
+    const unsubscribe = store.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+
+const isLockActive = () =>
+  useAppLockStore.getState().isEnabled && useAuthStore.getState().isAuthenticated;
+
+// Locks the app when it comes back after the configured idle time in the background.
+// A cold start with a saved session counts as coming back after any idle time
+export const useAppLock = () => {
+  useEffect(() => {
+    let isMounted = true;
+    Promise.all([whenHydrated(useAuthStore), whenHydrated(useAppLockStore)]).then(() => {
+      if (isMounted && isLockActive()) {
+        useAppLockStore.getState().lock();
+      }
+    });
+
+    const subscription = AppState.addEventListener('change', nextState => {
+      const appLock = useAppLockStore.getState();
+      // The biometric/passcode prompt itself sends the app to the background on Android
+      if (!isLockActive() || appLock.isAuthenticating) {
+        return;
+      }
+
+      if (nextState === 'background') {
+        appLock.markBackgrounded();
+      } else if (nextState === 'active') {
+        appLock.markResumed();
+      }
+    });
+
+    return () => {
+      isMounted = false;
+      subscription.remove();
+    };
+  }, []);
+};
@@ -0,0 +1,64 @@
+import { useEffect } from 'react';
+import { signalrService } from '../services/signalrService';
+import { hubEventRegistry } from '../services/hubEventRegistry';
+import { useEventDashboardStore } from '../store/eventDashboardStore';
+import { DASHBOARD_CONFIG } from '../utils/config';
+
+export const useEventDashboard = (eventId: string) => {
+  const { stats, source, isLoading, error, openDashboard, closeDashboard, loadStats, setSource } =
+    useEventDashboardStore();
+
+  useEffect(() => {
+    if (!eventId) {
+      return;
+    }
+
+    let cancelled = false;
+    openDashboard(eventId);
+    loadStats();
+
+    const store = useEventDashboardStore.getState();
+    const unsubscribers = [
+      hubEventRegistry.on('OnEventManagerDashboard', store.applyDashboardUpdate),
+      hubEventRegistry.on('OnCheckinLogHistoryChanged', store.applyCheckInLogs),
+    ];
+
+    // Join the event group while the hub is up, otherwise fall back to polling
+    const syncSource = async () => {
+      if (!signalrService.isConnected()) {
+        setSource('polling');
+        return;
+      }
+      if (useEventDashboardStore.getState().source !== 'live') {
+        const joined = await signalrService.joinEventGroup(eventId);
+        if (!cancelled) {
+          setSource(joined ? 'live' : 'polling');
+        }
+      }
+    };
+
+    syncSource();
+    const timer = setInterval(async () => {
+      await syncSource();
+      if (!cancelled && useEventDashboardStore.getState().source === 'polling') {
+        loadStats();
+      }
+    }, DASHBOARD_CONFIG.POLL_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      signalrService.leaveEventGroup(eventId);
+      closeDashboard();
+    };
+  }, [eventId, openDashboard, closeDashboard, loadStats, setSource]);
+
+  return {
+    stats,
+    source,
+    isLoading,
+    error,
+    refresh: loadStats,
+  };
+};
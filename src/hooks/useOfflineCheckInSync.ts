@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import { useAuthStore } from '../store/authStore';
+import { useOfflineCheckInStore } from '../store/offlineCheckInStore';
+
+export const useOfflineCheckInSync = () => {
+  const { isAuthenticated } = useAuthStore();
+  const { isOnline, isSyncing, setOnline, syncQueue } = useOfflineCheckInStore();
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    // Replay anything left over from a previous session
+    syncQueue().catch(() => {
+      // Silent failure - items stay pending
+    });
+
+    const unsubscribe = NetInfo.addEventListener(state => {
+      // isInternetReachable is null while unknown, treat that as online
+      const online = !!state.isConnected && state.isInternetReachable !== false;
+      setOnline(online);
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [isAuthenticated, setOnline, syncQueue]);
+
+  return {
+    isOnline,
+    isSyncing,
+    syncNow: syncQueue,
+  };
+};
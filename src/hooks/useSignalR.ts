@@ -1,10 +1,20 @@
 import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
 import { useAuthStore } from '../store/authStore';
+import { useConnectionStore } from '../store/connectionStore';
 import { signalrService } from '../services/signalrService';
+import { registerDefaultHubHandlers, resyncAfterReconnect } from '../services/hubHandlers';
+import { registerLocalNotificationEvents } from '../services/notificationPresenter';
 
 export const useSignalR = () => {
   const { isAuthenticated, user } = useAuthStore();
   const connectionStarted = useRef(false);
+  const { status, lastResyncAt } = useConnectionStore();
+
+  // App-wide hub subscriptions (notifications, stats, news...)
+  useEffect(() => registerDefaultHubHandlers(), []);
+  useEffect(() => registerLocalNotificationEvents(), []);
 
   useEffect(() => {
     const handleSignalRConnection = async () => {
@@ -37,9 +47,43 @@ export const useSignalR = () => {
         connectionStarted.current = false;
       }
     };
-  }, [isAuthenticated, user?.accountId]);
+    // Account switches restart the hub themselves (signalrService.switchUser)
+  }, [isAuthenticated]);
+
+  // Give the hub another go once the app is back in front or the network returns
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    const appStateSubscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        signalrService.retry();
+      }
+    });
+    const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        signalrService.retry();
+      }
+    });
+
+    return () => {
+      appStateSubscription.remove();
+      unsubscribeNetInfo();
+    };
+  }, [isAuthenticated]);
+
+  // Refetch whatever changed while we were disconnected
+  useEffect(() => {
+    if (isAuthenticated && lastResyncAt) {
+      resyncAfterReconnect().catch(() => {
+        // Silent failure - next push or pull-to-refresh catches up
+      });
+    }
+  }, [isAuthenticated, lastResyncAt]);
 
   return {
+    status,
     isConnected: signalrService.isConnected(),
     connectionState: signalrService.getConnectionState(),
     reconnect: signalrService.reconnect.bind(signalrService),
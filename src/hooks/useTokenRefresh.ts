@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { useAuthStore } from '../store/authStore';
+import { getRefreshDelay } from '../utils/tokenManager';
+
+// Refreshes the access token shortly before it expires, so requests rarely wait on a refresh.
+// Timers don't run reliably in the background - coming back to the foreground re-arms it,
+// and fires straight away when the refresh point has passed meanwhile
+export const useTokenRefresh = () => {
+  const { isAuthenticated, accessToken, accessTokenExpiresAt } = useAuthStore();
+  const [appState, setAppState] = useState(AppState.currentState);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', setAppState);
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated || !accessToken || appState !== 'active') {
+      return;
+    }
+
+    const delay = getRefreshDelay(accessToken, accessTokenExpiresAt);
+    if (delay === null) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      useAuthStore.getState().refreshAuthToken().catch(() => {
+        // A failed refresh has already expired the session
+      });
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [isAuthenticated, accessToken, accessTokenExpiresAt, appState]);
+};
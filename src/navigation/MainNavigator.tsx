@@ -1,12 +1,13 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
-import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
+import { createBottomTabNavigator, BottomTabBar, BottomTabBarProps } from '@react-navigation/bottom-tabs';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { useTranslation } from 'react-i18next';
 import { useSettingsStore } from '../store/settingsStore';
 import { useNotificationStore } from '../store/notificationStore';
 import { lightTheme, darkTheme } from '../theme';
+import ConnectionStatusBanner from '../components/ConnectionStatusBanner';
 import { 
   MainTabParamList, 
   EventStackParamList, 
@@ -25,6 +26,7 @@ import ProfileScreen from '../screens/ProfileScreen';
 import EditProfileScreen from '../screens/EditProfileScreen';
 import ChangePasswordScreen from '../screens/ChangePasswordScreen';
 import SettingsScreen from '../screens/SettingsScreen';
+import DevicesScreen from '../screens/DevicesScreen';
 
 const Tab = createBottomTabNavigator<MainTabParamList>();
 const EventStack = createNativeStackNavigator<EventStackParamList>();
@@ -141,6 +143,11 @@ const ProfileNavigator: React.FC = () => {
         component={SettingsScreen}
         options={{ title: t('settings.title') }}
       />
+      <ProfileStack.Screen
+        name="Devices"
+        component={DevicesScreen}
+        options={{ title: t('devices.title') }}
+      />
     </ProfileStack.Navigator>
   );
 };
@@ -180,6 +187,20 @@ const IconWithBadge: React.FC<{
   );
 };
 
+// Connection banner sits right above the tab bar on every tab
+const TabBarWithConnectionStatus: React.FC<BottomTabBarProps> = (props) => {
+  const { theme } = useSettingsStore();
+
+  return (
+    <>
+      <ConnectionStatusBanner theme={theme === 'dark' ? 'dark' : 'light'} />
+      <BottomTabBar {...props} />
+    </>
+  );
+};
+
+const renderTabBar = (props: BottomTabBarProps) => <TabBarWithConnectionStatus {...props} />;
+
 // Main Tab Navigator
 const MainNavigator: React.FC = () => {
   const { t } = useTranslation();
@@ -191,6 +212,7 @@ const MainNavigator: React.FC = () => {
   return (
     // @ts-ignore
     <Tab.Navigator
+      tabBar={renderTabBar}
       screenOptions={({ route }) => ({
         tabBarIcon: ({ color, size }) => {
           let iconName: string;
@@ -5,14 +5,23 @@ import { useAuthStore } from '../store/authStore';
 import { useSettingsStore } from '../store/settingsStore';
 import { initializeNotifications } from '../store/notificationStore';
 import { useSignalR } from '../hooks/useSignalR';
+import { useOfflineCheckInSync } from '../hooks/useOfflineCheckInSync';
+import { useTokenRefresh } from '../hooks/useTokenRefresh';
+import { useAppLock } from '../hooks/useAppLock';
 import { RootStackParamList } from '../types';
 import AuthNavigator from './AuthNavigator';
 import MainNavigator from './MainNavigator';
 import QRScannerScreen from '../screens/QRScannerScreen';
 import CheckInHistoryScreen from '../screens/CheckInHistoryScreen';
 import FaceScannerScreen from '../screens/FaceScannerScreen';
+import ScanSessionSummaryScreen from '../screens/ScanSessionSummaryScreen';
+import TicketLookupScreen from '../screens/TicketLookupScreen';
+import EventDashboardScreen from '../screens/EventDashboardScreen';
 import SplashScreen from '../screens/SplashScreen';
 import { lightTheme, darkTheme } from '../theme';
+import NotificationBanner from '../components/NotificationBanner';
+import AppLockOverlay from '../components/AppLockOverlay';
+import { linking, resumePendingDeepLink } from './linking';
 
 export const navigationRef = React.createRef<NavigationContainerRef<any>>();
 
@@ -31,7 +40,16 @@ const RootNavigator: React.FC = () => {
   
   // Initialize SignalR for real-time notifications
   useSignalR();
-  
+
+  // Replay offline check-ins when the network comes back
+  useOfflineCheckInSync();
+
+  // Refresh the access token before it expires while the app is open
+  useTokenRefresh();
+
+  // Ask for biometrics/passcode when the app resumes after the idle time
+  useAppLock();
+
   useEffect(() => {
     const performAuthCheck = async () => {
       try {
@@ -57,6 +75,13 @@ const RootNavigator: React.FC = () => {
     }
   }, [authChecked, isAuthenticated]);
 
+  // Links opened while logged out wait for the authenticated screens
+  useEffect(() => {
+    if (authChecked && isAuthenticated && !showSplash) {
+      resumePendingDeepLink();
+    }
+  }, [authChecked, isAuthenticated, showSplash]);
+
   // Handle splash screen completion - only after auth check is done
   const handleSplashFinish = () => {
     if (authChecked) {
@@ -96,7 +121,7 @@ const RootNavigator: React.FC = () => {
   }
 
   return (
-    <NavigationContainer ref={navigationRef} theme={navigationTheme}>
+    <NavigationContainer ref={navigationRef} theme={navigationTheme} linking={linking}>
       {/* @ts-ignore */}
       <Stack.Navigator screenOptions={{ headerShown: false }}>
         {isAuthenticated ? (
@@ -126,11 +151,37 @@ const RootNavigator: React.FC = () => {
                 presentation: 'modal',
               }}
             />
+            <Stack.Screen 
+              name="ScanSessionSummary" 
+              component={ScanSessionSummaryScreen}
+              options={{
+                headerShown: false,
+                presentation: 'modal',
+              }}
+            />
+            <Stack.Screen 
+              name="TicketLookup" 
+              component={TicketLookupScreen}
+              options={{
+                headerShown: false,
+                presentation: 'modal',
+              }}
+            />
+            <Stack.Screen 
+              name="EventDashboard" 
+              component={EventDashboardScreen}
+              options={{
+                headerShown: false,
+                presentation: 'modal',
+              }}
+            />
           </>
         ) : (
           <Stack.Screen name="Auth" component={AuthNavigator} />
         )}
       </Stack.Navigator>
+      {isAuthenticated && <NotificationBanner theme={theme === 'dark' ? 'dark' : 'light'} />}
+      {isAuthenticated && <AppLockOverlay theme={theme === 'dark' ? 'dark' : 'light'} />}
     </NavigationContainer>
   );
 };
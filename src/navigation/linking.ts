@@ -0,0 +1,124 @@
+import { Linking } from 'react-native';
+import {
+  LinkingOptions,
+  getStateFromPath,
+  getActionFromState,
+} from '@react-navigation/native';
+import { RootStackParamList } from '../types';
+import { useAuthStore } from '../store/authStore';
+import { DEEP_LINK_CONFIG } from '../utils/config';
+
+// Link that arrived while logged out - replayed by resumePendingDeepLink after login
+let pendingUrl: string | null = null;
+let linkListener: ((url: string) => void) | null = null;
+
+const isAuthenticated = () => useAuthStore.getState().isAuthenticated;
+
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: DEEP_LINK_CONFIG.PREFIXES,
+  config: {
+    screens: {
+      Main: {
+        screens: {
+          Home: 'home',
+          Events: {
+            screens: {
+              EventsList: 'events',
+              EventDetail: 'events/:eventId',
+            },
+          },
+          News: {
+            screens: {
+              NewsList: 'news',
+              NewsDetail: 'news/:newsId',
+            },
+          },
+          Notifications: 'notifications',
+          Profile: 'profile',
+        },
+      },
+      QRScanner: 'events/:eventId/scan',
+      CheckInHistory: 'events/:eventId/check-ins',
+      TicketLookup: 'events/:eventId/tickets',
+      EventDashboard: 'events/:eventId/dashboard',
+    },
+  },
+
+  async getInitialURL() {
+    const url = await Linking.getInitialURL();
+    if (url && !isAuthenticated()) {
+      pendingUrl = url;
+      return null;
+    }
+    return url;
+  },
+
+  subscribe(listener) {
+    linkListener = listener;
+    const subscription = Linking.addEventListener('url', ({ url }) => {
+      if (!isAuthenticated()) {
+        pendingUrl = url;
+        return;
+      }
+      listener(url);
+    });
+
+    return () => {
+      linkListener = null;
+      subscription.remove();
+    };
+  },
+};
+
+// Call once the authenticated screens are mounted
+export const resumePendingDeepLink = () => {
+  if (!pendingUrl || !linkListener || !isAuthenticated()) {
+    return;
+  }
+  const url = pendingUrl;
+  pendingUrl = null;
+  linkListener(url);
+};
+
+// vezzy://events/1, /events/1 and https://host/events/1 all become events/1
+const toAppPath = (url: string): string => {
+  const prefix = DEEP_LINK_CONFIG.PREFIXES.find(item => url.startsWith(item));
+  if (prefix) {
+    return url.slice(prefix.length);
+  }
+  return url.replace(/^https?:\/\/[^/]+/i, '').replace(/^\/+/, '');
+};
+
+// Follow a link from inside the app (notification detail and banner taps).
+// Unknown web links open in the browser; returns false when nothing could handle it.
+export const openDeepLink = async (url: string): Promise<boolean> => {
+  const navigation = global.navigationRef?.current;
+  const path = toAppPath(url.trim());
+  const state = path && linking.config ? getStateFromPath(path, linking.config) : undefined;
+
+  // Same guard as incoming links - the session may have ended while a banner was showing
+  if (state && !isAuthenticated()) {
+    pendingUrl = url;
+    return true;
+  }
+
+  if (state && navigation?.isReady?.()) {
+    const action = getActionFromState(state, linking.config);
+    if (action) {
+      navigation.dispatch(action);
+    } else {
+      navigation.resetRoot(state);
+    }
+    return true;
+  }
+
+  try {
+    if (/^https?:\/\//i.test(url) && (await Linking.canOpenURL(url))) {
+      await Linking.openURL(url);
+      return true;
+    }
+  } catch (error) {
+    console.error('Failed to open link:', error);
+  }
+  return false;
+};
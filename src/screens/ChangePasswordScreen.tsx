@@ -18,6 +18,7 @@ import Icon from 'react-native-vector-icons/Ionicons';
 import { useToast } from '../components';
 import { lightTheme, darkTheme, spacing, borderRadius, typography } from '../theme';
 import { validatePassword } from '../utils/validation';
+import { ApiError } from '../utils/errorHandler';
 
 interface PasswordRequirement {
   key: string;
@@ -131,7 +132,7 @@ const ChangePasswordScreen: React.FC = () => {
         newPassword: formData.newPassword,
       });
 
-      if (response.flag) {
+      if (response.isSuccess) {
         // Reset form
         setFormData({
           currentPassword: '',
@@ -146,20 +147,18 @@ const ChangePasswordScreen: React.FC = () => {
           navigation.goBack();
         }, 1000); // Small delay to let user see success message
       } else {
-        throw new Error(response.message || 'Change password failed');
+        throw new ApiError(response);
       }
     } catch (error: any) {
       // Handle specific backend errors
       let errorMessage = t('changePassword.errors.changeFailed');
       
-      if (error?.response?.status === 400) {
+      if (error?.status === 400) {
         errorMessage = t('changePassword.errors.currentPasswordIncorrect');
-      } else if (error?.response?.status === 404) {
+      } else if (error?.status === 404) {
         errorMessage = t('changePassword.errors.accountNotFound');
-      } else if (error?.response?.status === 500) {
+      } else if (error?.status === 500) {
         errorMessage = t('changePassword.errors.serverError');
-      } else if (error?.response?.data?.message) {
-        errorMessage = error.response.data.message;
       } else if (error?.message) {
         errorMessage = error.message;
       }
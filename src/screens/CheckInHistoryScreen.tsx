@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -16,13 +16,14 @@ import { useNavigation, useRoute } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
-import { CheckInLogItem, CheckInHistoryResponse, QRCodeDetailResponse, RootStackParamList } from '../types';
+import { CheckInLogItem, PagedList, QRCodeDetailItem, Result, RootStackParamList } from '../types';
 import { useSettingsStore } from '../store/settingsStore';
 import { lightTheme, darkTheme, spacing, borderRadius, typography } from '../theme';
 import { apiService } from '../services/api';
 import { useToast } from '../components';
 import LoadingSpinner from '../components/LoadingSpinner';
 import { useCheckInStore } from '../store/checkInStore';
+import { useConnectionStore } from '../store/connectionStore';
 
 type CheckInHistoryScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 type CheckInHistoryScreenRouteProp = RouteProp<RootStackParamList, 'CheckInHistory'>;
@@ -56,6 +57,7 @@ const CheckInHistoryScreen: React.FC = () => {
   const [isSearching, setIsSearching] = useState(false);
 
   const checkInHistoryRealtime = useCheckInStore(state => state.checkInHistory);
+  const lastResyncAt = useConnectionStore(state => state.lastResyncAt);
 
   const styles = createStyles(currentTheme);
 
@@ -69,7 +71,7 @@ const CheckInHistoryScreen: React.FC = () => {
         setIsLoadingMore(true);
       }
 
-      const response: CheckInHistoryResponse = await apiService.getCheckInHistory(eventId, page, 20);
+      const response: Result<PagedList<CheckInLogItem>> = await apiService.getCheckInHistory(eventId, page, 20);
       
       if (response.isSuccess) {
         const newItems = response.data.items;
@@ -106,7 +108,7 @@ const CheckInHistoryScreen: React.FC = () => {
 
     try {
       setIsSearching(true);
-      const response: QRCodeDetailResponse = await apiService.getQRCodeDetail(searchQRCode.trim());
+      const response: Result<QRCodeDetailItem> = await apiService.getQRCodeDetail(searchQRCode.trim());
       
       if (response.isSuccess) {
         setSearchResult(response.data);
@@ -136,6 +138,15 @@ const CheckInHistoryScreen: React.FC = () => {
     }
   }, [checkInHistoryRealtime]);
 
+  // Check-ins pushed while the hub was down were missed - reload after it comes back
+  const handledResyncAt = useRef(lastResyncAt);
+  useEffect(() => {
+    if (eventId && lastResyncAt && lastResyncAt !== handledResyncAt.current) {
+      handledResyncAt.current = lastResyncAt;
+      loadCheckInHistory(1, true);
+    }
+  }, [eventId, lastResyncAt, loadCheckInHistory]);
+
   // Handle refresh - Now safe to include loadCheckInHistory
   const handleRefresh = useCallback(() => {
     setIsRefreshing(true);
@@ -184,6 +195,8 @@ const CheckInHistoryScreen: React.FC = () => {
         return 'qr-code-scanner';
       case 'FaceRecognition':
         return 'face';
+      case 'Manual':
+        return 'how-to-reg';
       default:
         return 'check-circle';
     }
@@ -349,12 +362,26 @@ const CheckInHistoryScreen: React.FC = () => {
             <Icon name="arrow-back" size={24} color={currentTheme.text} />
           </TouchableOpacity>
           <Text style={styles.headerTitle}>{t('checkInHistory.title')}</Text>
-          <TouchableOpacity
-            style={styles.searchButton}
-            onPress={() => setShowQRSearch(true)}
-          >
-            <Icon name="search" size={24} color={currentTheme.primary} />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.searchButton}
+              onPress={() => navigation.navigate('ScanSessionSummary', {})}
+            >
+              <Icon name="assignment" size={24} color={currentTheme.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.searchButton}
+              onPress={() => navigation.navigate('TicketLookup', { eventId, eventName })}
+            >
+              <Icon name="person-search" size={24} color={currentTheme.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.searchButton}
+              onPress={() => setShowQRSearch(true)}
+            >
+              <Icon name="search" size={24} color={currentTheme.primary} />
+            </TouchableOpacity>
+          </View>
         </View>
         
         <Text style={styles.eventName}>{eventName}</Text>
@@ -418,6 +445,10 @@ const createStyles = (theme: typeof lightTheme) => StyleSheet.create({
     color: theme.text,
     fontWeight: '600',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   searchButton: {
     padding: spacing.sm,
     borderRadius: borderRadius.full,
@@ -0,0 +1,369 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { DeviceSession } from '../types';
+import { apiService } from '../services/api';
+import { useAuthStore } from '../store/authStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { lightTheme, darkTheme, spacing, borderRadius, typography } from '../theme';
+import { useToast } from '../components';
+import ConfirmDialog from '../components/ConfirmDialog';
+import { ApiError, handleApiError } from '../utils/errorHandler';
+import { formatDateTime } from '../utils';
+
+const getDeviceIcon = (platform: string) => {
+  switch (platform) {
+    case 'ios':
+      return 'phone-iphone';
+    case 'android':
+      return 'phone-android';
+    default:
+      return 'devices';
+  }
+};
+
+const DevicesScreen: React.FC = () => {
+  const { t } = useTranslation();
+  const { user, logoutEverywhere } = useAuthStore();
+  const { theme, language } = useSettingsStore();
+  const { showSuccessToast, showErrorToast } = useToast();
+  const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
+  const styles = createStyles(currentTheme);
+
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [sessionToRevoke, setSessionToRevoke] = useState<DeviceSession | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [showLogoutEverywhere, setShowLogoutEverywhere] = useState(false);
+  const [isLoggingOut, setIsLoggingOut] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await apiService.getSessions();
+      if (!response.isSuccess) {
+        throw new ApiError(response);
+      }
+      // This device first, then the most recently active
+      setSessions([...response.data].sort((a, b) =>
+        Number(b.isCurrent) - Number(a.isCurrent) ||
+        new Date(b.lastActiveAt).getTime() - new Date(a.lastActiveAt).getTime()
+      ));
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(handleApiError(error, t));
+    }
+  }, [t]);
+
+  // Runs again when logging out everywhere hands over to another signed-in account
+  const accountId = user?.accountId;
+  useEffect(() => {
+    setSessions([]);
+    setIsLoading(true);
+    loadSessions().finally(() => setIsLoading(false));
+  }, [loadSessions, accountId]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadSessions();
+    setIsRefreshing(false);
+  };
+
+  const confirmRevoke = async () => {
+    const session = sessionToRevoke;
+    setSessionToRevoke(null);
+    if (!session) return;
+
+    setRevokingId(session.sessionId);
+    try {
+      const response = await apiService.revokeSession(session.sessionId);
+      if (!response.isSuccess) {
+        throw new ApiError(response);
+      }
+      setSessions(current => current.filter(item => item.sessionId !== session.sessionId));
+      showSuccessToast(t('devices.revoked', { device: session.deviceName }));
+    } catch (error) {
+      showErrorToast(handleApiError(error, t));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const confirmLogoutEverywhere = async () => {
+    setShowLogoutEverywhere(false);
+    setIsLoggingOut(true);
+    try {
+      await logoutEverywhere();
+    } catch (error) {
+      showErrorToast(handleApiError(error, t));
+    } finally {
+      // Still mounted when another signed-in account took over
+      setIsLoggingOut(false);
+    }
+  };
+
+  const renderSession = (session: DeviceSession) => {
+    const details = [session.location, session.ipAddress].filter(Boolean).join(' · ');
+
+    return (
+      <View key={session.sessionId} style={styles.sessionRow}>
+        <Icon name={getDeviceIcon(session.platform)} size={28} color={currentTheme.primary} />
+        <View style={styles.sessionInfo}>
+          <View style={styles.sessionTitleRow}>
+            <Text style={styles.deviceName} numberOfLines={1}>{session.deviceName}</Text>
+            {session.isCurrent && (
+              <View style={styles.currentBadge}>
+                <Text style={styles.currentBadgeText}>{t('devices.thisDevice')}</Text>
+              </View>
+            )}
+          </View>
+          {!!details && <Text style={styles.sessionDetail}>{details}</Text>}
+          <Text style={styles.sessionDetail}>
+            {session.isCurrent
+              ? t('devices.signedInAt', { time: formatDateTime(session.createdAt, language) })
+              : t('devices.lastActive', { time: formatDateTime(session.lastActiveAt, language) })}
+          </Text>
+        </View>
+        {!session.isCurrent && (
+          revokingId === session.sessionId ? (
+            <ActivityIndicator size="small" color={currentTheme.error} />
+          ) : (
+            <TouchableOpacity onPress={() => setSessionToRevoke(session)} disabled={!!revokingId}>
+              <Text style={styles.revokeText}>{t('devices.revoke')}</Text>
+            </TouchableOpacity>
+          )
+        )}
+      </View>
+    );
+  };
+
+  const renderSessions = () => {
+    if (isLoading) {
+      return <ActivityIndicator style={styles.stateContainer} color={currentTheme.primary} />;
+    }
+
+    if (loadError) {
+      return (
+        <View style={styles.stateContainer}>
+          <Text style={styles.stateText}>{t('devices.loadFailed')}</Text>
+          <TouchableOpacity onPress={handleRefresh}>
+            <Text style={styles.retryText}>{t('common.retry')}</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        {sessions.map(renderSession)}
+        {!sessions.some(session => !session.isCurrent) && (
+          <Text style={[styles.stateText, styles.emptyText]}>{t('devices.empty')}</Text>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <>
+      <ScrollView
+        style={styles.container}
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor={currentTheme.primary} />
+        }
+      >
+        {/* Last sign-in, as recorded on the account */}
+        {user && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('devices.lastSignIn')}</Text>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>{t('devices.device')}</Text>
+              <Text style={styles.infoValue}>{user.lastLoginDevice || t('common.notAvailable')}</Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>{t('devices.location')}</Text>
+              <Text style={styles.infoValue}>{user.lastLoginLocation || t('common.notAvailable')}</Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>{t('devices.ipAddress')}</Text>
+              <Text style={styles.infoValue}>{user.lastLoginIP || t('common.notAvailable')}</Text>
+            </View>
+            <View style={[styles.infoRow, styles.lastRow]}>
+              <Text style={styles.infoLabel}>{t('devices.time')}</Text>
+              <Text style={styles.infoValue}>
+                {user.lastLogin ? formatDateTime(user.lastLogin, language) : t('common.notAvailable')}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('devices.activeSessions')}</Text>
+          {renderSessions()}
+        </View>
+
+        <View style={styles.section}>
+          <TouchableOpacity
+            style={styles.logoutButton}
+            onPress={() => setShowLogoutEverywhere(true)}
+            disabled={isLoggingOut}
+          >
+            {isLoggingOut ? (
+              <ActivityIndicator size="small" color={currentTheme.error} />
+            ) : (
+              <Icon name="logout" size={24} color={currentTheme.error} />
+            )}
+            <Text style={styles.logoutText}>{t('devices.logoutEverywhere')}</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+
+      <ConfirmDialog
+        visible={!!sessionToRevoke}
+        title={t('devices.revokeTitle')}
+        message={t('devices.revokeMessage', { device: sessionToRevoke?.deviceName })}
+        confirmText={t('devices.revoke')}
+        cancelText={t('common.cancel')}
+        onConfirm={confirmRevoke}
+        onCancel={() => setSessionToRevoke(null)}
+        type="danger"
+        icon="phonelink-erase"
+      />
+
+      <ConfirmDialog
+        visible={showLogoutEverywhere}
+        title={t('devices.logoutEverywhereTitle')}
+        message={t('devices.logoutEverywhereMessage')}
+        confirmText={t('devices.logoutEverywhere')}
+        cancelText={t('common.cancel')}
+        onConfirm={confirmLogoutEverywhere}
+        onCancel={() => setShowLogoutEverywhere(false)}
+        type="danger"
+        icon="logout"
+      />
+    </>
+  );
+};
+
+const createStyles = (theme: typeof lightTheme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  section: {
+    padding: spacing.lg,
+    backgroundColor: theme.surface,
+    marginTop: spacing.sm,
+  },
+  sectionTitle: {
+    ...typography.h5,
+    color: theme.text,
+    marginBottom: spacing.md,
+    fontWeight: 'bold',
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  lastRow: {
+    borderBottomWidth: 0,
+  },
+  infoLabel: {
+    ...typography.body2,
+    color: theme.textSecondary,
+    flex: 1,
+  },
+  infoValue: {
+    ...typography.body1,
+    color: theme.text,
+    flex: 2,
+    textAlign: 'right',
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    gap: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  deviceName: {
+    ...typography.body1,
+    color: theme.text,
+    fontWeight: '600',
+    flexShrink: 1,
+  },
+  currentBadge: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.sm,
+    backgroundColor: theme.primary,
+  },
+  currentBadgeText: {
+    ...typography.caption,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  sessionDetail: {
+    ...typography.body2,
+    color: theme.textSecondary,
+    marginTop: 2,
+  },
+  revokeText: {
+    ...typography.body2,
+    color: theme.error,
+    fontWeight: '600',
+  },
+  stateContainer: {
+    alignItems: 'center',
+    paddingVertical: spacing.lg,
+    gap: spacing.sm,
+  },
+  stateText: {
+    ...typography.body2,
+    color: theme.textSecondary,
+    textAlign: 'center',
+  },
+  emptyText: {
+    paddingTop: spacing.md,
+  },
+  retryText: {
+    ...typography.body1,
+    color: theme.primary,
+    fontWeight: '600',
+  },
+  logoutButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  logoutText: {
+    ...typography.body1,
+    color: theme.error,
+    flex: 1,
+  },
+});
+
+export default DevicesScreen;
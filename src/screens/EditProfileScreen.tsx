@@ -25,6 +25,7 @@ import { launchImageLibrary, launchCamera, ImagePickerResponse } from 'react-nat
 import { lightTheme, darkTheme, spacing, borderRadius, typography } from '../theme';
 import { RootStackParamList } from '../types';
 import { validateProfileUpdate, validateFullName, validatePhone } from '../utils/validation';
+import { ApiError } from '../utils/errorHandler';
 
 const EditProfileScreen: React.FC = () => {
   const { t } = useTranslation();
@@ -141,16 +142,19 @@ const EditProfileScreen: React.FC = () => {
       setIsUploadingAvatar(true);
       showLoading(t('common.uploadingAvatar'));
       
-      const formData = new FormData();
-      formData.append('avatarFile', {
+      const avatarForm = new FormData();
+      avatarForm.append('avatarFile', {
         uri: asset.uri,
         type: asset.type || 'image/jpeg',
         name: asset.fileName || 'avatar.jpg',
       } as any);
 
-      const response = await apiService.uploadAvatar(formData);
+      const response = await apiService.uploadAvatar(avatarForm);
+      if (!response.isSuccess) {
+        throw new ApiError(response);
+      }
       
-      if (response.flag && response.data) {
+      if (response.data) {
         // Update user with new avatar URL
         updateUser({ avatarUrl: response.data.avatarUrl });
         showSuccessToast(t('editProfile.avatarUpdateSuccess'));
@@ -206,9 +210,12 @@ const EditProfileScreen: React.FC = () => {
 
       // Call API to update profile
       const response = await apiService.updateProfile(updateData as any);
+      if (!response.isSuccess) {
+        throw new ApiError(response);
+      }
 
       // Update local store with server response
-      if (response.flag && response.data) {
+      if (response.data) {
         updateUser(response.data);
       } else {
         // Fallback to local update (convert back to client format)
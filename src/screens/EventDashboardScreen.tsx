@@ -0,0 +1,427 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { RootStackParamList, EventArrival } from '../types';
+import { useSettingsStore } from '../store/settingsStore';
+import { getCheckInRate } from '../store/eventDashboardStore';
+import { useEventDashboard } from '../hooks/useEventDashboard';
+import { lightTheme, darkTheme, spacing, borderRadius, typography } from '../theme';
+import { formatTime, getRelativeTime } from '../utils';
+import { DASHBOARD_CONFIG } from '../utils/config';
+
+type EventDashboardNavigationProp = StackNavigationProp<RootStackParamList, 'EventDashboard'>;
+type EventDashboardRouteProp = RouteProp<RootStackParamList, 'EventDashboard'>;
+
+const RATE_REFRESH_INTERVAL = 30000; // ms - the rate window slides even without new arrivals
+
+const EventDashboardScreen: React.FC = () => {
+  const { t } = useTranslation();
+  const navigation = useNavigation<EventDashboardNavigationProp>();
+  const route = useRoute<EventDashboardRouteProp>();
+  const { theme, language } = useSettingsStore();
+  const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
+  const styles = createStyles(currentTheme);
+
+  const { eventId, eventName } = route.params || {};
+  const { stats, source, isLoading, error, refresh } = useEventDashboard(eventId);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), RATE_REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await refresh();
+    setIsRefreshing(false);
+  };
+
+  const getPercent = (part: number, total: number) => {
+    if (!total) return 0;
+    return Math.min(100, Math.round((part / total) * 100));
+  };
+
+  const getMethodIcon = (method?: string) => {
+    switch (method) {
+      case 'FaceRecognition':
+        return 'face';
+      case 'Manual':
+        return 'how-to-reg';
+      default:
+        return 'qr-code-scanner';
+    }
+  };
+
+  const renderProgressBar = (percent: number) => (
+    <View style={styles.progressTrack}>
+      <View style={[styles.progressFill, { width: `${percent}%` }]} />
+    </View>
+  );
+
+  const renderArrival = (arrival: EventArrival, index: number) => (
+    <View key={`${arrival.qrCode}-${index}`} style={styles.arrivalRow}>
+      <Icon name={getMethodIcon(arrival.checkInMethod)} size={18} color={currentTheme.primary} />
+      <View style={styles.arrivalInfo}>
+        <Text style={styles.arrivalName} numberOfLines={1}>
+          {arrival.customerName || arrival.qrCode}
+        </Text>
+        <Text style={styles.arrivalMeta} numberOfLines={1}>
+          {[arrival.ticketType, arrival.checkerName].filter(Boolean).join(' · ')}
+        </Text>
+      </View>
+      <Text style={styles.arrivalTime}>{formatTime(arrival.checkedInAt)}</Text>
+    </View>
+  );
+
+  const renderContent = () => {
+    if (!stats) {
+      return (
+        <View style={styles.emptyState}>
+          {isLoading ? (
+            <ActivityIndicator size="large" color={currentTheme.primary} />
+          ) : (
+            <>
+              <Icon name="insights" size={64} color={currentTheme.textSecondary} />
+              <Text style={styles.emptyText}>{error ? t('eventDashboard.loadError') : t('eventDashboard.noData')}</Text>
+            </>
+          )}
+        </View>
+      );
+    }
+
+    const checkedInPercent = getPercent(stats.totalCheckedIn, stats.totalIssued);
+    const collaborators = [...stats.collaborators].sort((a, b) => b.checkedIn - a.checkedIn);
+
+    return (
+      <>
+        {/* Checked in vs issued */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('eventDashboard.attendance')}</Text>
+          <View style={styles.attendanceRow}>
+            <Text style={styles.bigNumber}>{stats.totalCheckedIn}</Text>
+            <Text style={styles.bigNumberTotal}>/ {stats.totalIssued}</Text>
+            <Text style={styles.percentText}>{checkedInPercent}%</Text>
+          </View>
+          {renderProgressBar(checkedInPercent)}
+          <Text style={styles.cardMeta}>
+            {t('eventDashboard.remaining', { count: Math.max(0, stats.totalIssued - stats.totalCheckedIn) })}
+          </Text>
+        </View>
+
+        {/* Check-ins per minute */}
+        <View style={styles.card}>
+          <View style={styles.rateRow}>
+            <Icon name="speed" size={28} color={currentTheme.primary} />
+            <View style={styles.rateInfo}>
+              <Text style={styles.bigNumber}>{getCheckInRate(stats, now)}</Text>
+              <Text style={styles.cardMeta}>
+                {t('eventDashboard.perMinute', { minutes: DASHBOARD_CONFIG.RATE_WINDOW_MINUTES })}
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        {/* By ticket type */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('eventDashboard.byTicketType')}</Text>
+          {stats.ticketTypes.length === 0 ? (
+            <Text style={styles.cardMeta}>{t('eventDashboard.noBreakdown')}</Text>
+          ) : (
+            stats.ticketTypes.map(item => {
+              const percent = getPercent(item.checkedIn, item.issued);
+              return (
+                <View key={item.ticketType} style={styles.breakdownItem}>
+                  <View style={styles.breakdownHeader}>
+                    <Text style={styles.breakdownLabel} numberOfLines={1}>{item.ticketType}</Text>
+                    <Text style={styles.breakdownValue}>
+                      {item.checkedIn} / {item.issued}
+                    </Text>
+                  </View>
+                  {renderProgressBar(percent)}
+                </View>
+              );
+            })
+          )}
+        </View>
+
+        {/* By collaborator */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('eventDashboard.byCollaborator')}</Text>
+          {collaborators.length === 0 ? (
+            <Text style={styles.cardMeta}>{t('eventDashboard.noBreakdown')}</Text>
+          ) : (
+            collaborators.map((item, index) => (
+              <View key={item.collaboratorId || `${item.collaboratorName}-${index}`} style={styles.collaboratorRow}>
+                <Icon name="person" size={18} color={currentTheme.textSecondary} />
+                <Text style={styles.breakdownLabel} numberOfLines={1}>
+                  {item.collaboratorName || t('checkInHistory.unknown')}
+                </Text>
+                <Text style={styles.breakdownValue}>{item.checkedIn}</Text>
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* Latest arrivals */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('eventDashboard.latestArrivals')}</Text>
+          {stats.recentArrivals.length === 0 ? (
+            <Text style={styles.cardMeta}>{t('eventDashboard.noArrivals')}</Text>
+          ) : (
+            stats.recentArrivals.map(renderArrival)
+          )}
+        </View>
+
+        <Text style={styles.updatedText}>
+          {t('eventDashboard.updated', { time: getRelativeTime(stats.updatedAt, language) })}
+        </Text>
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Icon name="arrow-back" size={24} color={currentTheme.text} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>{t('eventDashboard.title')}</Text>
+          <Text style={styles.eventName} numberOfLines={1}>{eventName}</Text>
+        </View>
+        <View style={[styles.sourceBadge, source === 'live' ? styles.sourceLive : styles.sourcePolling]}>
+          <View style={[styles.sourceDot, source === 'live' ? styles.sourceDotLive : styles.sourceDotPolling]} />
+          <Text style={styles.sourceText}>
+            {source === 'live' ? t('eventDashboard.live') : t('eventDashboard.polling')}
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            colors={[currentTheme.primary]}
+            tintColor={currentTheme.primary}
+          />
+        }
+      >
+        {renderContent()}
+      </ScrollView>
+    </View>
+  );
+};
+
+const createStyles = (theme: typeof lightTheme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.sm,
+    backgroundColor: theme.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  backButton: {
+    padding: spacing.sm,
+    borderRadius: borderRadius.full,
+    minWidth: 40,
+  },
+  headerCenter: {
+    flex: 1,
+    marginHorizontal: spacing.sm,
+  },
+  headerTitle: {
+    ...typography.h4,
+    color: theme.text,
+    fontWeight: '600',
+  },
+  eventName: {
+    ...typography.caption,
+    color: theme.textSecondary,
+  },
+  sourceBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+  },
+  sourceLive: {
+    backgroundColor: theme.success + '20',
+  },
+  sourcePolling: {
+    backgroundColor: '#FF950020',
+  },
+  sourceDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  sourceDotLive: {
+    backgroundColor: theme.success,
+  },
+  sourceDotPolling: {
+    backgroundColor: '#FF9500',
+  },
+  sourceText: {
+    ...typography.caption,
+    color: theme.text,
+    fontWeight: '600',
+  },
+  content: {
+    padding: spacing.md,
+    paddingBottom: spacing.xl,
+    flexGrow: 1,
+  },
+  card: {
+    backgroundColor: theme.surface,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.border,
+  },
+  cardTitle: {
+    ...typography.body1,
+    color: theme.text,
+    fontWeight: '600',
+    marginBottom: spacing.sm,
+  },
+  cardMeta: {
+    ...typography.caption,
+    color: theme.textSecondary,
+    marginTop: spacing.xs,
+  },
+  attendanceRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  bigNumber: {
+    ...typography.h2,
+    color: theme.text,
+    fontWeight: 'bold',
+  },
+  bigNumberTotal: {
+    ...typography.body1,
+    color: theme.textSecondary,
+    flex: 1,
+  },
+  percentText: {
+    ...typography.h4,
+    color: theme.primary,
+    fontWeight: '600',
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: theme.border,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: theme.primary,
+  },
+  rateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  rateInfo: {
+    flex: 1,
+  },
+  breakdownItem: {
+    marginBottom: spacing.sm,
+  },
+  breakdownHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xs,
+  },
+  breakdownLabel: {
+    ...typography.body2,
+    color: theme.text,
+    flex: 1,
+  },
+  breakdownValue: {
+    ...typography.body2,
+    color: theme.text,
+    fontWeight: '600',
+  },
+  collaboratorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  arrivalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  arrivalInfo: {
+    flex: 1,
+  },
+  arrivalName: {
+    ...typography.body2,
+    color: theme.text,
+    fontWeight: '500',
+  },
+  arrivalMeta: {
+    ...typography.caption,
+    color: theme.textSecondary,
+  },
+  arrivalTime: {
+    ...typography.caption,
+    color: theme.textSecondary,
+  },
+  updatedText: {
+    ...typography.caption,
+    color: theme.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.sm,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: spacing.xl,
+  },
+  emptyText: {
+    ...typography.body2,
+    color: theme.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.md,
+  },
+});
+
+export default EventDashboardScreen;
@@ -1,18 +1,22 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, ActivityIndicator, Image } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator, Image, TouchableOpacity } from 'react-native';
 import { useTranslation } from 'react-i18next';
 import { useRoute, useNavigation } from '@react-navigation/native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import HTMLView from 'react-native-htmlview';
 import { useSettingsStore } from '../store/settingsStore';
 import { useEventStore } from '../store/eventStore';
+import { useTicketManifestStore } from '../store/ticketManifestStore';
+import { useToast } from '../components';
+import { getRelativeTime, formatFileSize } from '../utils';
 import { lightTheme, darkTheme, spacing, borderRadius, typography } from '../theme';
 
 const EventDetailScreen: React.FC = () => {
   const { t } = useTranslation();
   const route = useRoute();
   const navigation = useNavigation();
-  const { theme } = useSettingsStore();
+  const { theme, language } = useSettingsStore();
+  const { showSuccessToast, showErrorToast } = useToast();
   const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
   const styles = createStyles(currentTheme);
 
@@ -21,6 +25,26 @@ const EventDetailScreen: React.FC = () => {
   const { events } = useEventStore();
   const event = events.find(e => e.eventId === eventId);
 
+  // Offline ticket list for door check-in
+  const { manifests, loadingEventId, downloadManifest, refreshManifest, removeManifest, getManifestInfo } =
+    useTicketManifestStore();
+  const manifestInfo = manifests[eventId] ? getManifestInfo(eventId) : null;
+  const isManifestLoading = loadingEventId === eventId;
+
+  const handleDownloadManifest = async () => {
+    try {
+      if (manifestInfo) {
+        await refreshManifest(eventId);
+        showSuccessToast(t('ticketManifest.refreshSuccess'), 3000);
+      } else {
+        await downloadManifest(eventId);
+        showSuccessToast(t('ticketManifest.downloadSuccess'), 3000);
+      }
+    } catch (error) {
+      showErrorToast(t('ticketManifest.downloadFailed'));
+    }
+  };
+
   // Log dữ liệu truyền sang để kiểm tra
   //console.log('[EventDetailScreen] eventId:', eventId, 'event:', event);
 
@@ -114,6 +138,68 @@ const EventDetailScreen: React.FC = () => {
           </View>
         )}
 
+        {/* Danh sách vé offline */}
+        <View style={styles.manifestCard}>
+          <View style={styles.manifestHeader}>
+            <Icon
+              name={manifestInfo ? 'offline-pin' : 'cloud-download'}
+              size={22}
+              color={manifestInfo ? currentTheme.success : currentTheme.primary}
+            />
+            <Text style={styles.manifestTitle}>{t('ticketManifest.title')}</Text>
+          </View>
+
+          {manifestInfo ? (
+            <>
+              <Text style={styles.manifestMeta}>
+                {t('ticketManifest.ticketCount', {
+                  count: manifestInfo.ticketCount,
+                  checkedIn: manifestInfo.checkedInCount,
+                })}
+              </Text>
+              <Text style={styles.manifestMeta}>
+                {t('ticketManifest.sizeAge', {
+                  size: formatFileSize(manifestInfo.sizeBytes),
+                  age: getRelativeTime(manifestInfo.refreshedAt, language),
+                })}
+              </Text>
+              <Text style={styles.manifestMeta}>
+                {t('ticketManifest.version', { version: manifestInfo.version })}
+              </Text>
+            </>
+          ) : (
+            <Text style={styles.manifestMeta}>{t('ticketManifest.notDownloaded')}</Text>
+          )}
+
+          <View style={styles.manifestActions}>
+            <TouchableOpacity
+              style={[styles.manifestButton, isManifestLoading && styles.manifestButtonDisabled]}
+              onPress={handleDownloadManifest}
+              disabled={isManifestLoading}
+            >
+              {isManifestLoading ? (
+                <ActivityIndicator size="small" color={currentTheme.surface} />
+              ) : (
+                <Icon name={manifestInfo ? 'refresh' : 'file-download'} size={18} color={currentTheme.surface} />
+              )}
+              <Text style={styles.manifestButtonText}>
+                {manifestInfo ? t('ticketManifest.refresh') : t('ticketManifest.download')}
+              </Text>
+            </TouchableOpacity>
+
+            {manifestInfo && (
+              <TouchableOpacity
+                style={styles.manifestRemoveButton}
+                onPress={() => removeManifest(eventId)}
+                disabled={isManifestLoading}
+              >
+                <Icon name="delete-outline" size={18} color={currentTheme.error} />
+                <Text style={styles.manifestRemoveText}>{t('ticketManifest.remove')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
         {/* Mô tả HTML/Markdown */}
         <HTMLView value={processedContent} stylesheet={htmlStyles} />
 
@@ -198,6 +284,63 @@ const createStyles = (theme: typeof lightTheme) => StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  manifestCard: {
+    backgroundColor: theme.card,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.border,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  manifestHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  manifestTitle: {
+    ...typography.body1,
+    color: theme.text,
+    fontWeight: '600',
+    marginLeft: spacing.sm,
+  },
+  manifestMeta: {
+    ...typography.body2,
+    color: theme.textSecondary,
+    marginBottom: 2,
+  },
+  manifestActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+    gap: spacing.sm,
+  },
+  manifestButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.primary,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    gap: 6,
+  },
+  manifestButtonDisabled: {
+    opacity: 0.6,
+  },
+  manifestButtonText: {
+    color: theme.surface,
+    fontWeight: '600',
+  },
+  manifestRemoveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.sm,
+    gap: 4,
+  },
+  manifestRemoveText: {
+    color: theme.error,
+    fontWeight: '600',
+  },
   contentsSection: {
     marginTop: spacing.lg,
   },
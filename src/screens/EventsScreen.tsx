@@ -43,10 +43,10 @@ const EventsScreen: React.FC = () => {
     clearError,
   } = useEventStore();
 
-  // Load initial data
+  // Load initial data, and again after switching to another account
   useEffect(() => {
     loadEvents();
-  }, [loadEvents]);
+  }, [loadEvents, user?.accountId]);
 
   // Handle pull to refresh
   const handleRefresh = useCallback(() => {
@@ -110,6 +110,17 @@ const EventsScreen: React.FC = () => {
     }
   }, [navigation, t]);
 
+  // Handle live dashboard
+  const handleEventDashboard = useCallback(() => {
+    setShowActionModal(false);
+    if (selectedEvent) {
+      navigation.navigate('EventDashboard', {
+        eventId: selectedEvent.eventId,
+        eventName: selectedEvent.eventName,
+      });
+    }
+  }, [selectedEvent, navigation]);
+
   // Thêm hàm xử lý chuyển sang màn hình chi tiết sự kiện
   const handleViewEventDetail = useCallback(() => {
     setShowActionModal(false);
@@ -317,6 +328,19 @@ const EventsScreen: React.FC = () => {
                 </Text>
               </TouchableOpacity>
 
+              <TouchableOpacity
+                style={[styles.actionOption, { borderColor: currentTheme.border }]}
+                onPress={handleEventDashboard}
+              >
+                <Icon name="insights" size={32} color={currentTheme.primary} />
+                <Text style={[styles.actionOptionTitle, { color: currentTheme.text }]}>
+                  {t('events.liveDashboard')}
+                </Text>
+                <Text style={[styles.actionOptionDesc, { color: currentTheme.textSecondary }]}>
+                  {t('events.liveDashboardDesc')}
+                </Text>
+              </TouchableOpacity>
+
               <TouchableOpacity
                 style={[styles.actionOption, { borderColor: currentTheme.border }]}
                 onPress={handleFaceCheckIn}
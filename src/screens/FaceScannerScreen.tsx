@@ -20,14 +20,27 @@ import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useTranslation } from 'react-i18next';
 
-import { RootStackParamList } from '../types';
+import {
+  RootStackParamList,
+  CheckInResultSummary,
+  CheckInOutcome,
+  FacePose,
+  FaceEnrollmentShot,
+  FaceEnrollmentError,
+} from '../types';
 import { lightTheme, darkTheme } from '../theme/colors';
 import { spacing, borderRadius } from '../theme';
 import { requestCameraPermission } from '../utils/permissions';
+import { getDeviceInfo } from '../utils/device';
+import { checkFaceImage } from '../utils/faceQuality';
+import { FACE_ENROLLMENT_CONFIG } from '../utils/config';
 import { apiService } from '../services/api';
 import { useSettingsStore } from '../store/settingsStore';
 import { useAuthStore } from '../store/authStore';
-import { CheckInResultModal } from '../components';
+import { useScanSessionStore, getScanResultStatus } from '../store/scanSessionStore';
+import { useCheckInStore } from '../store/checkInStore';
+import { getCheckInOutcomeMessage, getFaceEnrollmentErrorMessage, ApiError } from '../utils/errorHandler';
+import { CheckInResultModal, RevertCheckInModal, FaceEnrollmentReview } from '../components';
 import CustomToast from '../components/CustomToast';
 
 type FaceScannerScreenNavigationProp = StackNavigationProp<RootStackParamList, 'FaceScanner'>;
@@ -42,6 +55,8 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
   const { t } = useTranslation();
   const { theme } = useSettingsStore();
   const { setLoading, updateUser, updateUserConfig } = useAuthStore();
+  const { startSession, endSession, addResult } = useScanSessionStore();
+  const { registerCheckIn } = useCheckInStore();
   const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
   const styles = createStyles(currentTheme);
 
@@ -55,8 +70,15 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
   const [errorMessage, setErrorMessage] = useState('');
   const [errorTitle, setErrorTitle] = useState('');
   const [showCheckInResultModal, setShowCheckInResultModal] = useState(false);
-  const [checkInResults, setCheckInResults] = useState<any>(null);
+  const [checkInResults, setCheckInResults] = useState<CheckInResultSummary | null>(null);
+  const [revertOutcome, setRevertOutcome] = useState<CheckInOutcome | null>(null);
   const [hasStartedCountdown, setHasStartedCountdown] = useState(false); // NEW
+
+  // Update mode enrolls one photo per pose; activePose is the one being captured, null while reviewing
+  const [activePose, setActivePose] = useState<FacePose | null>(FACE_ENROLLMENT_CONFIG.POSES[0]);
+  const [enrollmentShots, setEnrollmentShots] = useState<Partial<Record<FacePose, FaceEnrollmentShot>>>({});
+  const [enrollmentErrors, setEnrollmentErrors] = useState<Partial<Record<FacePose, FaceEnrollmentError>>>({});
+  const isReviewing = mode === 'update' && activePose === null;
   
   // Custom Toast states
   const [showToast, setShowToast] = useState(false);
@@ -93,6 +115,18 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
     };
   }, []);
 
+  // Face check-ins are recorded as a scan session like QR scans
+  useEffect(() => {
+    if (mode !== 'checkin') {
+      return;
+    }
+
+    startSession('face', eventId);
+    return () => {
+      endSession();
+    };
+  }, [mode, eventId, startSession, endSession]);
+
   useEffect(() => {
     if (isScanning && hasPermission && !capturedImage && !isProcessing && countdown === 0 && !hasStartedCountdown) {
       // Hiển thị hướng dẫn, sau 3s nếu chưa chụp thì bắt đầu đếm ngược 7s
@@ -178,7 +212,7 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
           } else if (mode === 'checkin') {
             await checkInByFace(result.uri);
           } else {
-            await uploadFaceImage(result.uri);
+            await captureEnrollmentShot(result);
           }
         }
       }
@@ -191,29 +225,55 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
     }
   };
 
-  const uploadFaceImage = async (imageUri: string) => {
-    try {
-      // Create form data for face image upload
-      const formData = new FormData();
-      formData.append('FaceImage', {
-        uri: imageUri,
-        type: 'image/jpeg',
-        name: 'face.jpg',
-      } as any);
+  // Each pose is checked on the device as soon as it is taken. A photo that fails goes straight
+  // to the review for a retake; otherwise the next missing pose is up
+  const captureEnrollmentShot = async (capture: { uri: string; width?: number; height?: number }) => {
+    if (!activePose) return;
+
+    const quality = await checkFaceImage(capture);
+    const shots = { ...enrollmentShots, [activePose]: { pose: activePose, uri: capture.uri, quality } };
+    const nextPose = quality.issues.length > 0
+      ? null
+      : FACE_ENROLLMENT_CONFIG.POSES.find(pose => !shots[pose]) ?? null;
 
-      const response = await apiService.updateFace(formData);
-      if (response.flag) {
+    setEnrollmentShots(shots);
+    setEnrollmentErrors(current => ({ ...current, [activePose]: undefined }));
+    setActivePose(nextPose);
+    setCapturedImage(null);
+    setIsProcessing(false);
+    setIsScanning(nextPose !== null);
+    setShowInstructions(true);
+  };
+
+  const retakePose = (pose: FacePose) => {
+    setActivePose(pose);
+    setIsScanning(true);
+    setShowInstructions(true);
+  };
+
+  const submitEnrollment = async () => {
+    const shots = FACE_ENROLLMENT_CONFIG.POSES.flatMap(pose => enrollmentShots[pose] ?? []);
+    setIsProcessing(true);
+    try {
+      const response = await apiService.updateFace(shots);
+      if (response.isSuccess) {
         showCustomToast(t('face.updateSuccess'));
         setTimeout(() => navigation.goBack(), 1500);
+        return;
+      }
+
+      setIsProcessing(false);
+      const poseErrors = response.data.errors.filter(error => error.pose);
+      if (poseErrors.length > 0) {
+        // Shown on the review cards - only the rejected poses need retaking
+        setEnrollmentErrors(Object.fromEntries(poseErrors.map(error => [error.pose, error])));
       } else {
-        throw new Error(response.message || t('face.updateFailed'));
+        setErrorTitle(t('face.errorDialog.title'));
+        setErrorMessage(getFaceEnrollmentErrorMessage(response.data.errors[0] ?? { reason: 'UNKNOWN_ERROR' }, t));
+        setShowErrorModal(true);
       }
-    } catch (error: any) {
-      // Stop scanning and show error dialog
-      setIsScanning(false);
+    } catch (error) {
       setIsProcessing(false);
-      stopCountdown();
-      
       showErrorDialog(error);
     }
   };
@@ -228,74 +288,25 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
         name: 'face.jpg',
       } as any);
 
+      const device = await getDeviceInfo();
+      formData.append('DeviceId', device.deviceId);
+      formData.append('DeviceName', device.deviceName);
+      formData.append('Platform', device.platform);
+      formData.append('OsVersion', device.osVersion);
+      formData.append('AppVersion', device.appVersion);
+
       const response = await apiService.loginByFace(formData);
       
-      if (response.flag && response.data) {
-        // Handle successful face login - set auth state directly
-        const authData = response.data;
-        const authStore = useAuthStore.getState();
-        
-        // Check if user is Collaborator (role: 3)
-        if (authData.account.role !== 3) {
-          throw new Error('WRONG_ROLE');
-        }
-        
-        // Calculate token expiry times (copy from authStore logic)
-        const AUTH_CONFIG = { TOKEN_EXPIRE_TIME: 3600, REFRESH_TOKEN_EXPIRE_TIME: 7200 }; // 1 hour and 2 hours
-        const calculateExpiryTime = (expiresInSeconds: number): number => {
-          return Date.now() + (expiresInSeconds * 1000);
-        };
-        const accessTokenExpiresAt = calculateExpiryTime(AUTH_CONFIG.TOKEN_EXPIRE_TIME);
-        const refreshTokenExpiresAt = calculateExpiryTime(AUTH_CONFIG.REFRESH_TOKEN_EXPIRE_TIME);
-        
-        // Map response data to CombinedUserData interface (copy from authStore logic)
-        const user = {
-          // Account fields
-          accountId: authData.account.accountId,
-          username: authData.account.username,
-          email: authData.account.email,
-          role: authData.account.role,
-          isActive: authData.account.isActive,
-          isEmailVerified: authData.account.isEmailVerified,
-          isOnline: authData.account.isOnline,
-          lastActiveAt: authData.account.lastActiveAt,
-          lastLoginDevice: authData.account.lastLoginDevice,
-          lastLoginIP: authData.account.lastLoginIP,
-          lastLoginLocation: authData.account.lastLoginLocation,
-          accountCreatedAt: authData.account.createdAt,
-          lastLogin: authData.account.lastLogin,
-          
-          // User fields
-          userId: authData.account.userId,
-          fullName: (authData.account as any).fullName || null,
-          phone: authData.account.phone,
-          avatarUrl: authData.account.avatar,
-          gender: authData.account.gender,
-          dob: authData.account.dob,
-          location: authData.account.location,
-        };
-        
-        // Set auth state directly
-        const setState = useAuthStore.setState;
-        setState({
-          accessToken: authData.accessToken,
-          refreshToken: authData.refreshToken,
-          accessTokenExpiresAt,
-          refreshTokenExpiresAt,
-          user,
-          isAuthenticated: true,
-          isLoading: false,
-        });
-
-        // Set token for future API calls
-        apiService.setAuthToken(authData.accessToken);
+      if (response.isSuccess && response.data) {
+        // Same session setup as password login - role check, settings, notifications, real-time hub
+        await useAuthStore.getState().establishSession(response.data, 'face');
         
         showCustomToast(t('face.loginSuccess'));
         
         // No need to navigate manually - RootNavigator will automatically 
         // switch to MainNavigator when isAuthenticated becomes true
       } else {
-        throw new Error(response.message || t('face.loginFailed'));
+        throw new ApiError(response);
       }
     } catch (error: any) {
       // Stop scanning and show error dialog
@@ -316,16 +327,46 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
 
       const response = await apiService.checkInByFace(eventId, imageUri);
       
-      if (response.success && response.data) {
+      if (response.isSuccess && response.data) {
         // Show detailed check-in results
         const { data } = response;
-        setCheckInResults(data);
+        const outcomes = data.outcomes || [];
+        outcomes.forEach(outcome => {
+          const entry = addResult(outcome.ticket.ticketCode, getScanResultStatus(outcome), {
+            errorCode: outcome.status === 'success' ? undefined : outcome.reason,
+            message: outcome.status === 'success' ? undefined : getCheckInOutcomeMessage(outcome, t),
+            customerName: outcome.ticket.customerName,
+            ticketType: outcome.ticket.ticketType,
+          });
+
+          // Successful tickets stay undoable for a short grace window
+          if (outcome.status === 'success') {
+            registerCheckIn({
+              qrCode: outcome.ticket.ticketCode,
+              eventId,
+              method: 'FaceRecognition',
+              sessionEntryId: entry?.id,
+              customerName: outcome.ticket.customerName || data.customerName,
+            });
+          }
+        });
+        setCheckInResults({
+          method: 'FaceRecognition',
+          customerName: data.customerName,
+          outcomes,
+        });
         setShowCheckInResultModal(true);
         setIsProcessing(false);
       } else {
-        throw new Error(response.message || t('events.faceCheckInFailed'));
+        throw new ApiError(response);
       }
     } catch (error: any) {
+      const errorKey = parseErrorMessage(error);
+      addResult('', 'failed', {
+        errorCode: errorKey,
+        message: t(`face.errorDialog.errors.${errorKey}`),
+      });
+
       // Stop scanning and show error dialog
       setIsScanning(false);
       setIsProcessing(false);
@@ -335,14 +376,29 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
     }
   };
 
+  // Leaving a check-in run opens its summary for the handover report
+  const leaveScanner = () => {
+    const session = mode === 'checkin' ? endSession() : null;
+    if (session && session.results.length > 0) {
+      navigation.replace('ScanSessionSummary', { sessionId: session.id });
+    } else {
+      navigation.goBack();
+    }
+  };
+
   const handleBack = () => {
-    navigation.goBack();
+    leaveScanner();
   };
 
   const handleCheckInResultClose = () => {
     setShowCheckInResultModal(false);
     setCheckInResults(null);
-    navigation.goBack();
+    leaveScanner();
+  };
+
+  const handleReverted = () => {
+    setRevertOutcome(null);
+    showCustomToast(t('undoCheckIn.success'), 'success');
   };
 
   const handleCheckInResultContinue = () => {
@@ -359,6 +415,10 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
   const parseErrorMessage = (error: any): string => {
     if (!error) return 'unknownError';
     
+    if (error.message === 'WRONG_ROLE') {
+      return 'wrongRole';
+    }
+    
     // Handle capture errors (camera issues)
     if (error.code === 'E_CAPTURE_FAILED' || error.message?.includes('takePicture failed')) {
       return 'imageReadError';
@@ -368,53 +428,55 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
     if (error.code === 'ECONNABORTED' || error.message?.includes('timeout')) {
       return 'timeout';
     }
-    if (error.code === 'NETWORK_ERROR' || !error.response) {
+    // Failed Results arrive as ApiError - anything else without a response never reached the server
+    const isApiError = error instanceof ApiError;
+    if (!isApiError && (error.code === 'NETWORK_ERROR' || !error.response)) {
       return 'networkError';
     }
 
-    const status = error.response?.status;
-    const errorData = error.response?.data;
-    let errorMessage = '';
+    const status = isApiError ? error.status : error.response?.status;
+    const errorData = isApiError ? { message: error.message } : error.response?.data;
+    let serverMessage = '';
 
     // Get error message from response
     if (typeof errorData === 'string') {
-      errorMessage = errorData;
+      serverMessage = errorData;
     } else if (errorData?.message) {
-      errorMessage = errorData.message;
+      serverMessage = errorData.message;
       // Handle nested JSON error messages
       if (typeof errorData.message === 'string' && errorData.message.startsWith('{')) {
         try {
           const nestedError = JSON.parse(errorData.message);
           if (nestedError.error) {
-            errorMessage = nestedError.error;
+            serverMessage = nestedError.error;
           }
         } catch (e) {
           // Keep original message if JSON parse fails
         }
       }
     } else if (errorData?.error) {
-      errorMessage = errorData.error;
+      serverMessage = errorData.error;
     }
 
     // Parse AI service specific errors
-    if (errorMessage.includes("'file' field is not present")) {
+    if (serverMessage.includes("'file' field is not present")) {
       return 'noFileField';
     }
-    if (errorMessage.includes('No files selected')) {
+    if (serverMessage.includes('No files selected')) {
       return 'noFileSelected';
     }
-    if (errorMessage.includes('Error reading image')) {
+    if (serverMessage.includes('Error reading image')) {
       return 'imageReadError';
     }
-    if (errorMessage.includes('Error extracting embedding')) {
+    if (serverMessage.includes('Error extracting embedding')) {
       return 'embeddingError';
     }
-    if (errorMessage.includes('Face could not be detected') || 
-        errorMessage.includes('Face detection error')) {
+    if (serverMessage.includes('Face could not be detected') || 
+        serverMessage.includes('Face detection error')) {
       return 'faceNotDetected';
     }
-    if (errorMessage.includes('Suspicious behavior detected') || 
-        errorMessage.includes('live photos')) {
+    if (serverMessage.includes('Suspicious behavior detected') || 
+        serverMessage.includes('live photos')) {
       return 'antiSpoofing';
     }
 
@@ -435,11 +497,8 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
 
   const showErrorDialog = (error: any) => {
     const errorKey = parseErrorMessage(error);
-    const errorMsg = t(`face.errorDialog.errors.${errorKey}`);
-    const errorTitle = t('face.errorDialog.title');
-    
-    setErrorTitle(errorTitle);
-    setErrorMessage(errorMsg);
+    setErrorTitle(t('face.errorDialog.title'));
+    setErrorMessage(t(`face.errorDialog.errors.${errorKey}`));
     setShowErrorModal(true);
   };
 
@@ -449,17 +508,17 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
 
   const handleRetryFromError = () => {
     setShowErrorModal(false);
-    // Reset all states and restart the process
+    // Reset all states and restart the process - back on the review, the user picks what to retake
     setCapturedImage(null);
     setIsProcessing(false);
-    setIsScanning(true);
+    setIsScanning(!isReviewing);
     setShowInstructions(true);
     stopCountdown();
   };
 
   const handleGoBackFromError = () => {
     setShowErrorModal(false);
-    navigation.goBack();
+    leaveScanner();
   };
 
   const handleManualCapture = async () => {
@@ -479,7 +538,7 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
           } else if (mode === 'checkin') {
             await checkInByFace(result.uri);
           } else {
-            await uploadFaceImage(result.uri);
+            await captureEnrollmentShot(result);
           }
         }
       }
@@ -530,7 +589,16 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
 
       {/* Camera View */}
       <View style={styles.cameraContainer}>
-        {capturedImage ? (
+        {isReviewing ? (
+          <FaceEnrollmentReview
+            theme={theme === 'dark' ? 'dark' : 'light'}
+            shots={enrollmentShots}
+            errors={enrollmentErrors}
+            isSubmitting={isProcessing}
+            onRetake={retakePose}
+            onSubmit={submitEnrollment}
+          />
+        ) : capturedImage ? (
           <View style={styles.previewContainer}>
             <Image source={{ uri: capturedImage }} style={styles.previewImage} />
             <View style={styles.previewOverlay}>
@@ -556,6 +624,17 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
             
             {/* Camera Overlay */}
             <View style={styles.overlay}>
+              {mode === 'update' && activePose && (
+                <View style={styles.poseContainer}>
+                  <Text style={styles.poseStep}>
+                    {t('face.enrollment.step', {
+                      current: FACE_ENROLLMENT_CONFIG.POSES.indexOf(activePose) + 1,
+                      total: FACE_ENROLLMENT_CONFIG.POSES.length,
+                    })}
+                  </Text>
+                  <Text style={styles.poseText}>{t(`face.enrollment.pose.${activePose}`)}</Text>
+                </View>
+              )}
               {/* Face Outline */}
               <View style={styles.faceOutlineContainer}>
                 <Animated.View 
@@ -592,7 +671,7 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
       </View>
 
       {/* Bottom Controls */}
-      {!capturedImage && !isProcessing && (
+      {!capturedImage && !isProcessing && !isReviewing && (
         <View style={styles.bottomControls}>
           <View style={styles.captureContainer}>
             <TouchableOpacity
@@ -673,11 +752,22 @@ const FaceScannerScreen: React.FC<FaceScannerScreenProps> = () => {
 
       {/* Check-in Result Modal */}
       <CheckInResultModal
-        visible={showCheckInResultModal}
-        data={checkInResults}
+        visible={showCheckInResultModal && !revertOutcome}
+        result={checkInResults}
         theme={theme === 'dark' ? 'dark' : 'light'}
         onClose={handleCheckInResultClose}
         onContinue={handleCheckInResultContinue}
+        onUndo={setRevertOutcome}
+      />
+
+      {/* Undo a mistaken check-in - replaces the result sheet while open */}
+      <RevertCheckInModal
+        visible={!!revertOutcome}
+        theme={theme === 'dark' ? 'dark' : 'light'}
+        qrCode={revertOutcome?.ticket.ticketCode || null}
+        customerName={revertOutcome?.ticket.customerName || checkInResults?.customerName}
+        onClose={() => setRevertOutcome(null)}
+        onReverted={handleReverted}
       />
 
       {/* Custom Toast */}
@@ -931,6 +1021,27 @@ const createStyles = (theme: typeof lightTheme) => StyleSheet.create({
     color: '#00FF00',
     fontWeight: 'bold',
   },
+  poseContainer: {
+    position: 'absolute',
+    top: spacing.lg,
+    left: spacing.lg,
+    right: spacing.lg,
+    alignItems: 'center',
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    zIndex: 1,
+  },
+  poseStep: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14,
+  },
+  poseText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
   instructionsContainer: {
     position: 'absolute',
     top: 0,
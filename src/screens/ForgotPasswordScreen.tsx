@@ -17,7 +17,7 @@ import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { AuthStackParamList } from '../types';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { apiService } from '../services/api';
-import { handleApiError } from '../utils';
+import { handleApiError, ApiError } from '../utils';
 import { useToast } from '../components';
 import { useSettingsStore } from '../store/settingsStore';
 import { lightTheme, darkTheme } from '../theme';
@@ -60,11 +60,11 @@ const ForgotPasswordScreen: React.FC = () => {
         email: email.trim(),
       });
 
-      if (response.flag) {
+      if (response.isSuccess) {
         showSuccessToast(t('forgotPassword.messages.emailSent'));
         navigation.navigate('ResetPassword', { email: email.trim() });
       } else {
-        throw new Error(response.message);
+        throw new ApiError(response);
       }
     } catch (error) {
       const errorMessage = handleApiError(error, t);
@@ -59,9 +59,13 @@ const HomeScreen: React.FC = () => {
     setStatsError(null);
     try {
       const res = await apiService.getCollaboratorStatic(user.userId);
-      setStats(res);
-    } catch (e: any) {
-      setStatsError(e?.response?.data?.message || 'Lỗi khi lấy thống kê');
+      if (res.isSuccess) {
+        setStats(res.data);
+      } else {
+        setStatsError(res.message || 'Lỗi khi lấy thống kê');
+      }
+    } catch {
+      setStatsError('Lỗi khi lấy thống kê');
     } finally {
       setLoadingStats(false);
     }
@@ -90,9 +94,13 @@ const HomeScreen: React.FC = () => {
       setStatsError(null);
       try {
         const res = await apiService.getCollaboratorStatic(user.userId);
-        setStats(res);
-      } catch (e: any) {
-        setStatsError(e?.response?.data?.message || 'Lỗi khi lấy thống kê');
+        if (res.isSuccess) {
+          setStats(res.data);
+        } else {
+          setStatsError(res.message || 'Lỗi khi lấy thống kê');
+        }
+      } catch {
+        setStatsError('Lỗi khi lấy thống kê');
       } finally {
         setLoadingStats(false);
       }
@@ -120,9 +128,13 @@ const HomeScreen: React.FC = () => {
         setStatsError(null);
         try {
           const res = await apiService.getCollaboratorStatic(user.userId);
-          setStats(res);
-        } catch (e: any) {
-          setStatsError(e?.response?.data?.message || 'Lỗi khi lấy thống kê');
+          if (res.isSuccess) {
+            setStats(res.data);
+          } else {
+            setStatsError(res.message || 'Lỗi khi lấy thống kê');
+          }
+        } catch {
+          setStatsError('Lỗi khi lấy thống kê');
         } finally {
           setLoadingStats(false);
         }
@@ -144,9 +156,13 @@ const HomeScreen: React.FC = () => {
           setStatsError(null);
           try {
             const res = await apiService.getCollaboratorStatic(user.userId);
-            setStats(res);
-          } catch (e: any) {
-            setStatsError(e?.response?.data?.message || 'Lỗi khi lấy thống kê');
+            if (res.isSuccess) {
+              setStats(res.data);
+            } else {
+              setStatsError(res.message || 'Lỗi khi lấy thống kê');
+            }
+          } catch {
+            setStatsError('Lỗi khi lấy thống kê');
           } finally {
             setLoadingStats(false);
           }
@@ -171,9 +187,13 @@ const HomeScreen: React.FC = () => {
           setStatsError(null);
           try {
             const res = await apiService.getCollaboratorStatic(user.userId);
-            setStats(res);
-          } catch (e: any) {
-            setStatsError(e?.response?.data?.message || 'Lỗi khi lấy thống kê');
+            if (res.isSuccess) {
+              setStats(res.data);
+            } else {
+              setStatsError(res.message || 'Lỗi khi lấy thống kê');
+            }
+          } catch {
+            setStatsError('Lỗi khi lấy thống kê');
           } finally {
             setLoadingStats(false);
           }
@@ -198,9 +218,13 @@ const HomeScreen: React.FC = () => {
             setStatsError(null);
             try {
               const res = await apiService.getCollaboratorStatic(user.userId);
-              setStats(res);
-            } catch (e: any) {
-              setStatsError(e?.response?.data?.message || 'Lỗi khi lấy thống kê');
+              if (res.isSuccess) {
+                setStats(res.data);
+              } else {
+                setStatsError(res.message || 'Lỗi khi lấy thống kê');
+              }
+            } catch {
+              setStatsError('Lỗi khi lấy thống kê');
             } finally {
               setLoadingStats(false);
             }
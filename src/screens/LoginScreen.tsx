@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -20,13 +20,14 @@ import { handleApiError } from '../utils';
 import { lightTheme, darkTheme, spacing, borderRadius, typography } from '../theme';
 import { useSettingsStore } from '../store/settingsStore';
 import { useToast } from '../components';
+import AccountSwitcher from '../components/AccountSwitcher';
 
 type LoginScreenNavigationProp = StackNavigationProp<AuthStackParamList>;
 
 const LoginScreen: React.FC = () => {
   const { t } = useTranslation();
   const navigation = useNavigation<LoginScreenNavigationProp>();
-  const { login, isLoading } = useAuthStore();
+  const { login, isLoading, sessionExpired, clearSessionExpired, sessions } = useAuthStore();
   const { theme } = useSettingsStore();
   const { showSuccessToast, showErrorToast } = useToast();
   
@@ -37,6 +38,14 @@ const LoginScreen: React.FC = () => {
   const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
   const styles = createStyles(currentTheme);
 
+  // Tell the user why they were signed out when a token refresh failed
+  useEffect(() => {
+    if (sessionExpired) {
+      showErrorToast(t('errors.SESSION_EXPIRED'));
+      clearSessionExpired();
+    }
+  }, [sessionExpired, clearSessionExpired, showErrorToast, t]);
+
   const handleLogin = async () => {
     if (!username.trim() || !password.trim()) {
       showErrorToast(t('errors.INVALID_CREDENTIALS'));
@@ -167,6 +176,14 @@ const LoginScreen: React.FC = () => {
                 {t('face.loginByFace')}
               </Text>
             </TouchableOpacity>
+
+            {/* Accounts still signed in on this device */}
+            {sessions.length > 0 && (
+              <View style={styles.savedAccounts}>
+                <Text style={styles.label}>{t('accounts.saved')}</Text>
+                <AccountSwitcher theme={theme === 'dark' ? 'dark' : 'light'} showAddAccount={false} />
+              </View>
+            )}
           </View>
         </View>
       </ScrollView>
@@ -286,6 +303,9 @@ const createStyles = (theme: typeof lightTheme) => StyleSheet.create({
     borderRadius: borderRadius.md,
     backgroundColor: 'transparent',
   },
+  savedAccounts: {
+    marginTop: spacing.xl,
+  },
   faceLoginIcon: {
     marginRight: spacing.sm,
   },
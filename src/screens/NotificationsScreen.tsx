@@ -1,9 +1,11 @@
-import React, { useEffect, useCallback, useState } from 'react';
+import React, { useEffect, useCallback, useState, useMemo } from 'react';
 import {
   View,
   Text,
   StyleSheet,
-  FlatList,
+  SectionList,
+  ScrollView,
+  TextInput,
   TouchableOpacity,
   RefreshControl,
   Alert,
@@ -15,8 +17,17 @@ import { useTranslation } from 'react-i18next';
 import { useNotificationStore } from '../store/notificationStore';
 import { useSettingsStore } from '../store/settingsStore';
 import { useToast, NotificationDetailModal } from '../components';
+import SwipeableRow from '../components/SwipeableRow';
 import { lightTheme, darkTheme } from '../theme';
-import { Notification, NotificationType } from '../types';
+import { Notification, NotificationType, NotificationDaySection, NotificationReadFilter } from '../types';
+import {
+  NOTIFICATION_CATEGORIES,
+  filterNotifications,
+  isFilterActive,
+  countByCategory,
+  groupNotificationsByDay,
+  isSameDayKey,
+} from '../utils/notificationFilters';
 import Icon from 'react-native-vector-icons/Ionicons';
 import NotificationDebug from '../components/NotificationDebug';
 
@@ -28,6 +39,8 @@ const NotificationsScreen: React.FC = () => {
   const [selectedNotification, setSelectedNotification] = useState<Notification | null>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   const {
     notifications,
@@ -37,23 +50,36 @@ const NotificationsScreen: React.FC = () => {
     hasMorePages,
     error,
     fetchNotifications,
+    loadMoreNotifications,
     markAsRead,
     markAllAsRead,
+    markAsUnread,
+    deleteNotification,
+    markManyAsRead,
+    markManyAsUnread,
+    deleteMany,
     setError,
-    loadMockNotifications,
+    filter,
+    setCategoryFilter,
+    setReadFilter,
+    setSearchQuery,
+    resetFilters,
   } = useNotificationStore();
 
+  const categoryCounts = useMemo(() => countByCategory(notifications), [notifications]);
+  const filteredNotifications = useMemo(
+    () => filterNotifications(notifications, filter),
+    [notifications, filter]
+  );
+  const sections = useMemo(() => groupNotificationsByDay(filteredNotifications), [filteredNotifications]);
+  const hasActiveFilter = isFilterActive(filter);
+
   const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
   const styles = createStyles(currentTheme);
 
   // Load notifications on mount
   useEffect(() => {
     fetchNotifications(1, true);
-    
-    // Fallback to mock data if API fails (for development)
-    // if (notifications.length === 0) {
-    //   loadMockNotifications();
-    // }
   }, []);
 
   // Handle refresh
@@ -61,21 +87,18 @@ const NotificationsScreen: React.FC = () => {
     fetchNotifications(1, true);
   }, [fetchNotifications]);
 
-  // Handle load more
+  // Handle load more - the store tracks the page, so deletes and realtime inserts don't skew it
   const handleLoadMore = useCallback(() => {
-    if (!isLoading && hasMorePages) {
-      const currentPage = Math.ceil(notifications.length / 20) + 1;
-      fetchNotifications(currentPage);
-    }
-  }, [isLoading, hasMorePages, notifications.length, fetchNotifications]);
+    loadMoreNotifications();
+  }, [loadMoreNotifications]);
 
   // Handle mark single notification as read
   const handleMarkAsRead = useCallback(async (notificationId: string) => {
     try {
       await markAsRead(notificationId);
       showSuccessToast(t('notifications.markAsRead'));
-    } catch (error) {
-      showErrorToast(error instanceof Error ? error.message : 'Failed to mark as read');
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to mark as read');
     }
   }, [markAsRead, showSuccessToast, showErrorToast, t]);
 
@@ -85,16 +108,94 @@ const NotificationsScreen: React.FC = () => {
       await markAllAsRead();
       showSuccessToast(t('notifications.markAllAsRead'));
       setShowOptionsModal(false);
-    } catch (error) {
-      showErrorToast(error instanceof Error ? error.message : 'Failed to mark all as read');
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to mark all as read');
     }
   }, [markAllAsRead, showSuccessToast, showErrorToast, t]);
 
-  // Handle notification press - show detail modal
+  // Swipe right - flip read state; the store rolls back if the API call fails
+  const handleToggleRead = useCallback(async (notification: Notification) => {
+    try {
+      if (notification.isRead) {
+        await markAsUnread(notification.notificationId);
+      } else {
+        await markAsRead(notification.notificationId);
+      }
+    } catch {
+      showErrorToast(t('notifications.actions.updateFailed'));
+    }
+  }, [markAsRead, markAsUnread, showErrorToast, t]);
+
+  // Swipe left - delete
+  const handleDelete = useCallback(async (notification: Notification) => {
+    try {
+      await deleteNotification(notification.notificationId);
+      showSuccessToast(t('notifications.actions.deleted'));
+    } catch {
+      showErrorToast(t('notifications.actions.deleteFailed'));
+    }
+  }, [deleteNotification, showSuccessToast, showErrorToast, t]);
+
+  // Multi-select
+  const exitSelection = useCallback(() => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+  }, []);
+
+  const toggleSelected = useCallback((notificationId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(notificationId) ? prev.filter(id => id !== notificationId) : [...prev, notificationId]
+    );
+  }, []);
+
+  const handleLongPress = useCallback((notification: Notification) => {
+    if (!isSelecting) {
+      setIsSelecting(true);
+      setSelectedIds([notification.notificationId]);
+    }
+  }, [isSelecting]);
+
+  const allVisibleSelected =
+    filteredNotifications.length > 0 &&
+    filteredNotifications.every(notification => selectedIds.includes(notification.notificationId));
+
+  const handleSelectAll = useCallback(() => {
+    setSelectedIds(allVisibleSelected ? [] : filteredNotifications.map(notification => notification.notificationId));
+  }, [allVisibleSelected, filteredNotifications]);
+
+  const runBulkAction = useCallback(async (action: 'read' | 'unread' | 'delete') => {
+    const ids = selectedIds;
+    exitSelection();
+
+    const bulkActions = { read: markManyAsRead, unread: markManyAsUnread, delete: deleteMany };
+    const failedIds = await bulkActions[action](ids);
+    if (failedIds.length > 0) {
+      showErrorToast(t('notifications.actions.bulkFailed', { count: failedIds.length }));
+    } else {
+      showSuccessToast(t(`notifications.actions.bulkDone.${action}`, { count: ids.length }));
+    }
+  }, [selectedIds, exitSelection, markManyAsRead, markManyAsUnread, deleteMany, showSuccessToast, showErrorToast, t]);
+
+  const confirmBulkDelete = useCallback(() => {
+    Alert.alert(
+      t('notifications.actions.deleteConfirmTitle'),
+      t('notifications.actions.deleteConfirmMessage', { count: selectedIds.length }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('notifications.actions.delete'), style: 'destructive', onPress: () => runBulkAction('delete') },
+      ]
+    );
+  }, [selectedIds.length, runBulkAction, t]);
+
+  // Handle notification press - show detail modal, or toggle selection while selecting
   const handleNotificationPress = useCallback((notification: Notification) => {
+    if (isSelecting) {
+      toggleSelected(notification.notificationId);
+      return;
+    }
     setSelectedNotification(notification);
     setShowDetailModal(true);
-  }, []);
+  }, [isSelecting, toggleSelected]);
 
   // Handle close detail modal
   const handleCloseDetailModal = useCallback(() => {
@@ -114,8 +215,8 @@ const NotificationsScreen: React.FC = () => {
       showSuccessToast(t('notifications.markAllAsRead'));
       setShowConfirmModal(false);
       setShowOptionsModal(false);
-    } catch (error) {
-      showErrorToast(error instanceof Error ? error.message : 'Failed to mark all as read');
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to mark all as read');
     }
   }, [markAllAsRead, showSuccessToast, showErrorToast, t]);
 
@@ -135,8 +236,8 @@ const NotificationsScreen: React.FC = () => {
         const labelKey = 'notifications.types.' + String(typeKey);
         const label = t(labelKey);
         return label || 'Notification';
-      } catch (error) {
-        console.warn('Error getting notification type label:', error);
+      } catch (err) {
+        console.warn('Error getting notification type label:', err);
         return 'Notification';
       }
   };
@@ -221,8 +322,8 @@ const NotificationsScreen: React.FC = () => {
       } else {
         return date.toLocaleDateString();
       }
-    } catch (error) {
-      console.warn('Error formatting date:', error);
+    } catch (err) {
+      console.warn('Error formatting date:', err);
       return 'Unknown';
     }
   };
@@ -235,53 +336,180 @@ const NotificationsScreen: React.FC = () => {
       return null;
     }
     
+    const isSelected = selectedIds.includes(item.notificationId);
+
     return (
-      <TouchableOpacity
-        style={[
-          styles.notificationItem,
-          !item.isRead && styles.unreadItem,
-        ]}
-        onPress={() => handleNotificationPress(item)}
-        activeOpacity={0.7}
+      <SwipeableRow
+        disabled={isSelecting}
+        leftAction={{
+          icon: item.isRead ? 'mail-unread' : 'mail-open',
+          label: item.isRead ? t('notifications.actions.markUnread') : t('notifications.actions.markRead'),
+          color: currentTheme.primary,
+          onTrigger: () => handleToggleRead(item),
+        }}
+        rightAction={{
+          icon: 'trash',
+          label: t('notifications.actions.delete'),
+          color: currentTheme.error,
+          onTrigger: () => handleDelete(item),
+        }}
       >
-        <View style={styles.notificationIcon}>
-          <Icon
-            name={getNotificationIcon(item.notificationType)}
-            size={24}
-            color={getNotificationIconColor(item.notificationType)}
-          />
-          {!item.isRead && <View style={styles.unreadBadge} />}
-        </View>
+        <TouchableOpacity
+          style={[
+            styles.notificationItem,
+            !item.isRead && styles.unreadItem,
+            isSelected && styles.selectedItem,
+          ]}
+          onPress={() => handleNotificationPress(item)}
+          onLongPress={() => handleLongPress(item)}
+          activeOpacity={0.7}
+        >
+          {isSelecting && (
+            <View style={styles.selectionIndicator}>
+              <Icon
+                name={isSelected ? 'checkmark-circle' : 'ellipse-outline'}
+                size={22}
+                color={isSelected ? currentTheme.primary : currentTheme.textSecondary}
+              />
+            </View>
+          )}
+          <View style={styles.notificationIcon}>
+            <Icon
+              name={getNotificationIcon(item.notificationType)}
+              size={24}
+              color={getNotificationIconColor(item.notificationType)}
+            />
+            {!item.isRead && <View style={styles.unreadBadge} />}
+          </View>
         
-        <View style={styles.notificationContent}>
-          <View style={styles.notificationHeader}>
-            <Text style={[styles.notificationTitle, !item.isRead && styles.unreadText]}>
-              {item.notificationTitle || 'No Title'}
+          <View style={styles.notificationContent}>
+            <View style={styles.notificationHeader}>
+              <Text style={[styles.notificationTitle, !item.isRead && styles.unreadText]}>
+                {item.notificationTitle || 'No Title'}
+              </Text>
+              <Text style={styles.notificationTime}>
+                {formatDate(item.createdAtVietnam || item.createdAt)}
+              </Text>
+            </View>
+          
+            <Text style={styles.notificationMessage} numberOfLines={2}>
+              {item.notificationMessage || 'No message'}
             </Text>
-            <Text style={styles.notificationTime}>
-              {formatDate(item.createdAtVietnam || item.createdAt)}
+          
+            <Text style={styles.notificationType}>
+              {getNotificationTypeLabel(item.notificationType)}
             </Text>
           </View>
-          
-          <Text style={styles.notificationMessage} numberOfLines={2}>
-            {item.notificationMessage || 'No message'}
-          </Text>
-          
-          <Text style={styles.notificationType}>
-            {getNotificationTypeLabel(item.notificationType)}
-          </Text>
-        </View>
-      </TouchableOpacity>
+        </TouchableOpacity>
+      </SwipeableRow>
+    );
+  };
+
+  // Render day section header
+  const renderSectionHeader = ({ section }: { section: NotificationDaySection }): React.ReactElement => {
+    const today = new Date();
+    const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
+    let label = section.date ? new Date(section.date).toLocaleDateString() : t('notifications.sections.earlier');
+    if (isSameDayKey(section.key, today)) {
+      label = t('notifications.sections.today');
+    } else if (isSameDayKey(section.key, yesterday)) {
+      label = t('notifications.sections.yesterday');
+    }
+
+    return (
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionHeaderText}>{label}</Text>
+        <Text style={styles.sectionHeaderCount}>{String(section.data.length)}</Text>
+      </View>
     );
   };
 
+  const readFilters: NotificationReadFilter[] = ['all', 'unread', 'read'];
+
+  // Render search, category chips and read toggle
+  const renderFilterBar = (): React.ReactElement => (
+    <View style={styles.filterBar}>
+      <View style={styles.searchContainer}>
+        <Icon name="search" size={18} color={currentTheme.textSecondary} />
+        <TextInput
+          style={styles.searchInput}
+          value={filter.search}
+          onChangeText={setSearchQuery}
+          placeholder={t('notifications.filters.searchPlaceholder')}
+          placeholderTextColor={currentTheme.textSecondary}
+          returnKeyType="search"
+          autoCorrect={false}
+        />
+        {filter.search.length > 0 && (
+          <TouchableOpacity onPress={() => setSearchQuery('')}>
+            <Icon name="close-circle" size={18} color={currentTheme.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipsContainer}
+      >
+        {NOTIFICATION_CATEGORIES.map(category => {
+          const isActive = filter.category === category;
+          return (
+            <TouchableOpacity
+              key={category}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => setCategoryFilter(category)}
+            >
+              <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                {t(`notifications.categories.${category}`)}
+              </Text>
+              {categoryCounts[category] > 0 && (
+                <Text style={[styles.chipCount, isActive && styles.chipTextActive]}>
+                  {String(categoryCounts[category])}
+                </Text>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <View style={styles.readToggle}>
+        {readFilters.map(readStatus => {
+          const isActive = filter.readStatus === readStatus;
+          return (
+            <TouchableOpacity
+              key={readStatus}
+              style={[styles.readToggleItem, isActive && styles.readToggleItemActive]}
+              onPress={() => setReadFilter(readStatus)}
+            >
+              <Text style={[styles.readToggleText, isActive && styles.readToggleTextActive]}>
+                {t(`notifications.filters.${readStatus}`)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
   // Render empty state
   const renderEmptyState = (): React.ReactElement => (
-    <View style={styles.emptyContainer}>
-      <Icon name="notifications-off" size={64} color={currentTheme.textSecondary} />
-      <Text style={styles.emptyTitle}>{t('notifications.empty.title')}</Text>
-      <Text style={styles.emptyMessage}>{t('notifications.empty.message')}</Text>
-    </View>
+    hasActiveFilter && notifications.length > 0 ? (
+      <View style={styles.emptyContainer}>
+        <Icon name="filter" size={64} color={currentTheme.textSecondary} />
+        <Text style={styles.emptyTitle}>{t('notifications.filters.noMatchTitle')}</Text>
+        <Text style={styles.emptyMessage}>{t('notifications.filters.noMatchMessage')}</Text>
+        <TouchableOpacity style={[styles.retryButton, styles.clearFiltersButton]} onPress={resetFilters}>
+          <Text style={styles.retryButtonText}>{t('notifications.filters.clear')}</Text>
+        </TouchableOpacity>
+      </View>
+    ) : (
+      <View style={styles.emptyContainer}>
+        <Icon name="notifications-off" size={64} color={currentTheme.textSecondary} />
+        <Text style={styles.emptyTitle}>{t('notifications.empty.title')}</Text>
+        <Text style={styles.emptyMessage}>{t('notifications.empty.message')}</Text>
+      </View>
+    )
   );
 
   // Render error state
@@ -296,6 +524,21 @@ const NotificationsScreen: React.FC = () => {
     </View>
   );
 
+  // Filters run on the pages loaded so far - say so while older ones remain
+  const renderPartialNotice = (): React.ReactElement | null => {
+    if (!hasActiveFilter || !hasMorePages) return null;
+
+    return (
+      <View style={styles.partialNotice}>
+        <Icon name="information-circle-outline" size={16} color={currentTheme.textSecondary} />
+        <Text style={styles.partialNoticeText}>{t('notifications.filters.partialResults')}</Text>
+        <TouchableOpacity onPress={handleLoadMore} disabled={isLoading}>
+          <Text style={styles.partialNoticeAction}>{t('notifications.filters.loadOlder')}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
   // Render footer loader
   const renderFooter = (): React.ReactElement | null => {
     if (!hasMorePages) return null;
@@ -326,33 +569,55 @@ const NotificationsScreen: React.FC = () => {
       */}
       
       {/* Header */}
-      <View style={styles.header}>
-        <View style={styles.headerLeft}>
-          <Text style={styles.headerTitle}>{t('notifications.title')}</Text>
-          {unreadCount > 0 && (
-            <View style={styles.unreadCountBadge}>
-              <Text style={styles.unreadCountText}>{String(unreadCount || 0)}</Text>
-            </View>
-          )}
+      {isSelecting ? (
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            <TouchableOpacity style={styles.optionsButton} onPress={exitSelection}>
+              <Icon name="close" size={22} color={currentTheme.text} />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>
+              {t('notifications.actions.selected', { count: selectedIds.length })}
+            </Text>
+          </View>
+          <TouchableOpacity style={styles.optionsButton} onPress={handleSelectAll}>
+            <Text style={styles.selectAllText}>
+              {allVisibleSelected ? t('notifications.actions.deselectAll') : t('notifications.actions.selectAll')}
+            </Text>
+          </TouchableOpacity>
         </View>
+      ) : (
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            <Text style={styles.headerTitle}>{t('notifications.title')}</Text>
+            {unreadCount > 0 && (
+              <View style={styles.unreadCountBadge}>
+                <Text style={styles.unreadCountText}>{String(unreadCount || 0)}</Text>
+              </View>
+            )}
+          </View>
         
-        {notifications.length > 0 && (
-          <TouchableOpacity
-            style={styles.optionsButton}
-            onPress={() => setShowOptionsModal(true)}
-          >
-            <Icon name="ellipsis-vertical" size={20} color={currentTheme.textSecondary} />
-          </TouchableOpacity>
-        )}
-      </View>
+          {notifications.length > 0 && (
+            <TouchableOpacity
+              style={styles.optionsButton}
+              onPress={() => setShowOptionsModal(true)}
+            >
+              <Icon name="ellipsis-vertical" size={20} color={currentTheme.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {notifications.length > 0 && renderFilterBar()}
 
       {/* Content */}
       {error ? (
         renderErrorState()
       ) : (
-        <FlatList
-          data={notifications}
+        <SectionList
+          sections={sections}
           renderItem={renderNotificationItem}
+          renderSectionHeader={renderSectionHeader}
+          stickySectionHeadersEnabled
           keyExtractor={(item) => item.notificationId}
           refreshControl={
             <RefreshControl
@@ -364,13 +629,44 @@ const NotificationsScreen: React.FC = () => {
           }
           onEndReached={handleLoadMore}
           onEndReachedThreshold={0.1}
+          ListHeaderComponent={renderPartialNotice()}
           ListFooterComponent={renderFooter()}
           ListEmptyComponent={!isLoading ? renderEmptyState() : null}
           showsVerticalScrollIndicator={false}
-          contentContainerStyle={notifications.length === 0 ? styles.emptyListContainer : undefined}
+          contentContainerStyle={sections.length === 0 ? styles.emptyListContainer : undefined}
         />
       )}
 
+      {/* Bulk actions */}
+      {isSelecting && (
+        <View style={styles.bulkActionBar}>
+          <TouchableOpacity
+            style={styles.bulkActionButton}
+            onPress={() => runBulkAction('read')}
+            disabled={selectedIds.length === 0}
+          >
+            <Icon name="mail-open" size={20} color={selectedIds.length ? currentTheme.primary : currentTheme.disabled} />
+            <Text style={styles.bulkActionText}>{t('notifications.actions.markRead')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.bulkActionButton}
+            onPress={() => runBulkAction('unread')}
+            disabled={selectedIds.length === 0}
+          >
+            <Icon name="mail-unread" size={20} color={selectedIds.length ? currentTheme.primary : currentTheme.disabled} />
+            <Text style={styles.bulkActionText}>{t('notifications.actions.markUnread')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.bulkActionButton}
+            onPress={confirmBulkDelete}
+            disabled={selectedIds.length === 0}
+          >
+            <Icon name="trash" size={20} color={selectedIds.length ? currentTheme.error : currentTheme.disabled} />
+            <Text style={styles.bulkActionText}>{t('notifications.actions.delete')}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Loading overlay */}
       {isLoading && notifications.length === 0 && (
         <View style={styles.loadingOverlay}>
@@ -496,6 +792,35 @@ const createStyles = (theme: any) =>
     unreadItem: {
       backgroundColor: theme.primary + '08',
     },
+    selectedItem: {
+      backgroundColor: theme.primary + '1A',
+    },
+    selectionIndicator: {
+      justifyContent: 'center',
+      marginRight: 12,
+    },
+    selectAllText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.primary,
+    },
+    bulkActionBar: {
+      flexDirection: 'row',
+      justifyContent: 'space-around',
+      paddingVertical: 10,
+      borderTopWidth: 1,
+      borderTopColor: theme.border,
+      backgroundColor: theme.card,
+    },
+    bulkActionButton: {
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      gap: 4,
+    },
+    bulkActionText: {
+      fontSize: 12,
+      color: theme.text,
+    },
     notificationIcon: {
       marginRight: 12,
       position: 'relative',
@@ -596,10 +921,126 @@ const createStyles = (theme: any) =>
       fontSize: 16,
       fontWeight: '600',
     },
+    filterBar: {
+      paddingTop: 12,
+      paddingBottom: 8,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    searchContainer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginHorizontal: 16,
+      paddingHorizontal: 12,
+      borderRadius: 10,
+      backgroundColor: theme.surface,
+    },
+    searchInput: {
+      flex: 1,
+      paddingVertical: 8,
+      paddingHorizontal: 8,
+      fontSize: 15,
+      color: theme.text,
+    },
+    chipsContainer: {
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      gap: 8,
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.border,
+      backgroundColor: theme.card,
+    },
+    chipActive: {
+      backgroundColor: theme.primary,
+      borderColor: theme.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      fontWeight: '500',
+      color: theme.text,
+    },
+    chipCount: {
+      marginLeft: 6,
+      fontSize: 12,
+      color: theme.textSecondary,
+    },
+    chipTextActive: {
+      color: '#fff',
+    },
+    readToggle: {
+      flexDirection: 'row',
+      marginHorizontal: 16,
+      padding: 2,
+      borderRadius: 8,
+      backgroundColor: theme.surface,
+    },
+    readToggleItem: {
+      flex: 1,
+      paddingVertical: 6,
+      borderRadius: 6,
+      alignItems: 'center',
+    },
+    readToggleItemActive: {
+      backgroundColor: theme.card,
+    },
+    readToggleText: {
+      fontSize: 13,
+      color: theme.textSecondary,
+    },
+    readToggleTextActive: {
+      color: theme.text,
+      fontWeight: '600',
+    },
+    sectionHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 6,
+      backgroundColor: theme.background,
+    },
+    sectionHeaderText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      textTransform: 'uppercase',
+    },
+    sectionHeaderCount: {
+      fontSize: 12,
+      color: theme.textSecondary,
+    },
+    clearFiltersButton: {
+      marginTop: 24,
+    },
     footerLoader: {
       paddingVertical: 20,
       alignItems: 'center',
     },
+    partialNotice: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingHorizontal: 16,
+      paddingVertical: 8,
+      backgroundColor: theme.surface,
+    },
+    partialNoticeText: {
+      flex: 1,
+      fontSize: 12,
+      color: theme.textSecondary,
+    },
+    partialNoticeAction: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: theme.primary,
+    },
     loadingOverlay: {
       position: 'absolute',
       top: 0,
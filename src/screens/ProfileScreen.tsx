@@ -18,6 +18,7 @@ import { useLanguageSync } from '../hooks/useLanguageSync';
 import { lightTheme, darkTheme, spacing, borderRadius, typography, shadows } from '../theme';
 import { useToast } from '../components';
 import ConfirmDialog from '../components/ConfirmDialog';
+import AccountSwitcher from '../components/AccountSwitcher';
 
 type ProfileScreenNavigationProp = NativeStackNavigationProp<ProfileStackParamList>;
 
@@ -60,6 +61,10 @@ const ProfileScreen: React.FC = () => {
     navigation.navigate('Settings');
   };
 
+  const handleDevices = () => {
+    navigation.navigate('Devices');
+  };
+
   const handleLogout = () => {
     setShowLogoutDialog(true);
   };
@@ -160,6 +165,12 @@ const ProfileScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Accounts - switch without signing out */}
+        <View style={styles.infoSection}>
+          <Text style={styles.sectionTitle}>{t('accounts.title')}</Text>
+          <AccountSwitcher theme={theme === 'dark' ? 'dark' : 'light'} />
+        </View>
+
         {/* Action Buttons */}
         <View style={styles.actionsSection}>
           <TouchableOpacity style={styles.actionButton} onPress={handleEditProfile}>
@@ -174,6 +185,12 @@ const ProfileScreen: React.FC = () => {
             <Icon name="chevron-right" size={24} color={currentTheme.textSecondary} />
           </TouchableOpacity>
 
+          <TouchableOpacity style={styles.actionButton} onPress={handleDevices}>
+            <Icon name="devices" size={24} color={currentTheme.primary} />
+            <Text style={styles.actionButtonText}>{t('profile.actions.devices')}</Text>
+            <Icon name="chevron-right" size={24} color={currentTheme.textSecondary} />
+          </TouchableOpacity>
+
           <TouchableOpacity style={styles.actionButton} onPress={handleSettings}>
             <Icon name="settings" size={24} color={currentTheme.primary} />
             <Text style={styles.actionButtonText}>{t('profile.actions.settings')}</Text>
@@ -11,6 +11,7 @@ import {
   Animated,
   Platform,
   Vibration,
+  FlatList,
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
 import { useNavigation, useRoute, useFocusEffect } from '@react-navigation/native';
@@ -18,19 +19,42 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { Camera, CameraType } from 'react-native-camera-kit';
-import { RootStackParamList, CheckInRequest, BackendApiResponse } from '../types';
+import {
+  RootStackParamList,
+  CheckInRequest,
+  CheckInOutcome,
+  CheckInResultSummary,
+  ScanResultEntry,
+  ScanResultStatus,
+} from '../types';
 import { useSettingsStore } from '../store/settingsStore';
 import { lightTheme, darkTheme, spacing, borderRadius } from '../theme';
-import { useToast } from '../components';
+import { useToast, OfflineQueueModal, CheckInResultModal, WrongEventModal, RevertCheckInModal } from '../components';
 import { apiService } from '../services/api';
 import { requestCameraPermission } from '../utils/permissions';
+import { isNetworkError, getCheckInOutcomeMessage } from '../utils/errorHandler';
 import { useAuthStore } from '../store/authStore';
+import { useOfflineCheckInStore } from '../store/offlineCheckInStore';
+import { useTicketManifestStore } from '../store/ticketManifestStore';
+import { useEventStore } from '../store/eventStore';
+import { useCheckInStore } from '../store/checkInStore';
+import { useScanSessionStore, getSessionCounters, getScanResultStatus } from '../store/scanSessionStore';
+import { createTaskQueue } from '../utils';
+import { QR_CONFIG } from '../utils/config';
 
 type QRScannerScreenNavigationProp = StackNavigationProp<RootStackParamList, 'QRScanner'>;
 type QRScannerScreenRouteProp = RouteProp<RootStackParamList, 'QRScanner'>;
 
 const { width, height } = Dimensions.get('window');
 
+// Outcome of one check-in attempt, before any UI feedback
+interface CheckInAttempt {
+  status: ScanResultStatus;
+  errorCode?: string;
+  message: string;
+  outcome?: CheckInOutcome; // Set when the backend answered
+}
+
 const QRScannerScreen: React.FC = () => {
   const { t } = useTranslation();
   const navigation = useNavigation<QRScannerScreenNavigationProp>();
@@ -38,39 +62,69 @@ const QRScannerScreen: React.FC = () => {
   const { theme } = useSettingsStore();
   const { showSuccessToast, showErrorToast } = useToast();
   const { setShouldRefreshHomeStats } = useAuthStore();
+  const { queue: offlineQueue, isOnline, enqueue: enqueueOfflineCheckIn } = useOfflineCheckInStore();
+  const { validateCode, markCheckedIn, unmarkCheckedIn } = useTicketManifestStore();
+  const { activeSession, startSession, endSession, setMode, recordScan, completeScan } = useScanSessionStore();
+  const { events } = useEventStore();
+  const { registerCheckIn, forgetCheckIn, canUndo } = useCheckInStore();
   
   const [manualCode, setManualCode] = useState('');
   const [showManualInput, setShowManualInput] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isScanning, setIsScanning] = useState(true);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
-  const [scannedCodes, setScannedCodes] = useState<string[]>([]);
   const [lastScanTime, setLastScanTime] = useState(0);
-  const [checkInSuccessCount, setCheckInSuccessCount] = useState(0);
+  const [showOfflineQueue, setShowOfflineQueue] = useState(false);
+  const [checkInResult, setCheckInResult] = useState<CheckInResultSummary | null>(null);
+  const [wrongEventOutcome, setWrongEventOutcome] = useState<CheckInOutcome | null>(null);
+  const [revertTarget, setRevertTarget] = useState<{ qrCode: string; customerName?: string } | null>(null);
   
   const scanAnimation = useRef(new Animated.Value(0)).current;
   const pulseAnimation = useRef(new Animated.Value(1)).current;
+  const checkInQueue = useRef(createTaskQueue(QR_CONFIG.BATCH_CONCURRENCY)).current;
+  const lastSeenAt = useRef<Record<string, number>>({});
   
   const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
   const styles = createStyles(currentTheme);
   
   const { eventId } = route.params || {};
+  const currentEventName = events.find(event => event.eventId === eventId)?.eventName;
+
+  const isContinuous = activeSession?.mode === 'continuous';
+  const sessionCounters = getSessionCounters(activeSession);
+  const recentResults = (activeSession?.results || []).slice(-QR_CONFIG.SESSION_LOG_SIZE).reverse();
+
+  const pendingOfflineCount = offlineQueue.filter(
+    item => item.status === 'pending' || item.status === 'syncing'
+  ).length;
+  const offlineConflictCount = offlineQueue.filter(
+    item => item.status === 'conflict' || item.status === 'failed'
+  ).length;
+
+  // One scan session per visit to the scanner
+  useEffect(() => {
+    startSession('qr', eventId);
+
+    return () => {
+      endSession();
+    };
+  }, [eventId, startSession, endSession]);
 
   // Auto-set refresh flag when check-in success count changes
   useEffect(() => {
-    if (checkInSuccessCount > 0) {
+    if (sessionCounters.success > 0) {
       setShouldRefreshHomeStats(true);
     }
-  }, [checkInSuccessCount, setShouldRefreshHomeStats]);
+  }, [sessionCounters.success, setShouldRefreshHomeStats]);
 
   // Request camera permission
   useEffect(() => {
     const getCameraPermission = async () => {
       try {
-        const hasPermission = await requestCameraPermission();
-        setHasPermission(hasPermission);
+        const granted = await requestCameraPermission();
+        setHasPermission(granted);
         
-        if (!hasPermission) {
+        if (!granted) {
           showErrorToast(t('qr.cameraPermissionRequired'));
         }
       } catch (error) {
@@ -138,8 +192,16 @@ const QRScannerScreen: React.FC = () => {
     }
   }, [isScanning, isProcessing]);
 
+  const vibrate = (pattern: number | number[]) => {
+    try {
+      Vibration.vibrate(pattern);
+    } catch (error) {
+      // Silent fail for vibration
+    }
+  };
+
   const handleQRCodeDetected = (event: any) => {
-    if (!isScanning || isProcessing) {
+    if (!isScanning || isProcessing || revertTarget) {
       return;
     }
     
@@ -157,121 +219,233 @@ const QRScannerScreen: React.FC = () => {
       return;
     }
 
-    // Prevent duplicate scans within 3 seconds
-    if (currentTime - lastScanTime < 3000) {
+    // Ignore the same code while it stays in front of the camera
+    const lastSeen = lastSeenAt.current[qrData] || 0;
+    lastSeenAt.current[qrData] = currentTime;
+    if (currentTime - lastSeen < QR_CONFIG.RESCAN_COOLDOWN) {
       return;
     }
 
-    // Prevent duplicate QR codes
-    if (scannedCodes.includes(qrData)) {
-      showErrorToast(t('qr.duplicateCode'));
+    // Throttle reads of different codes
+    if (currentTime - lastScanTime < (isContinuous ? QR_CONFIG.CONTINUOUS_SCAN_DELAY : 3000)) {
       return;
     }
 
     // Vibrate on successful scan
-    try {
-      Vibration.vibrate(100);
-    } catch (error) {
-      // Silent fail for vibration
-    }
+    vibrate(100);
 
     setLastScanTime(currentTime);
-    setScannedCodes(prev => [...prev, qrData]);
-    performCheckIn(qrData);
+    if (isContinuous) {
+      queueBatchCheckIn(qrData);
+    } else {
+      performCheckIn(qrData);
+    }
   };
 
-  const performCheckIn = async (qrContent: string) => {
-    if (isProcessing) {
+  // Save the scan locally so it can be replayed once the network returns
+  const queueOfflineCheckIn = (qrContent: string): CheckInAttempt => {
+    const item = enqueueOfflineCheckIn(qrContent, eventId);
+    if (item) {
+      return { status: 'queued', message: t('qr.savedOffline') };
+    }
+    return { status: 'duplicate', message: t('qr.duplicateCode') };
+  };
+
+  // Check-ins accepted from the manifest still have to reach the backend; a late refusal replaces the success
+  const pushManifestCheckIn = async (qrContent: string, entryId: string) => {
+    if (!useOfflineCheckInStore.getState().isOnline) {
+      enqueueOfflineCheckIn(qrContent, eventId);
       return;
     }
-    
-    setIsProcessing(true);
-    setIsScanning(false);
+
+    try {
+      const outcome = await apiService.checkInByQR({ qrContent, eventId });
+      if (outcome.status === 'success') {
+        return;
+      }
+
+      // Another gate got there first - the manifest mark stays, but this scan is a conflict
+      if (outcome.status !== 'already_used') {
+        unmarkCheckedIn(eventId, qrContent);
+      }
+      forgetCheckIn(qrContent);
+      completeScan(entryId, getScanResultStatus(outcome), {
+        errorCode: outcome.reason,
+        message: getCheckInOutcomeMessage(outcome, t),
+      });
+      showErrorToast(getCheckInOutcomeMessage(outcome, t));
+      vibrate([0, 500]);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        enqueueOfflineCheckIn(qrContent, eventId);
+        return;
+      }
+
+      unmarkCheckedIn(eventId, qrContent);
+      forgetCheckIn(qrContent);
+      completeScan(entryId, 'failed', { message: t('qr.checkInFailed') });
+      showErrorToast(t('qr.checkInFailed'));
+      vibrate([0, 500]);
+    }
+  };
+
+  // Resolve one code to a session result; feedback is left to the caller
+  const checkInCode = async (qrContent: string, entryId: string): Promise<CheckInAttempt> => {
+    // Read connectivity at call time - batch tasks may start after a re-render
+    const online = useOfflineCheckInStore.getState().isOnline;
+
+    // Validate against the downloaded ticket list first - no round trip needed
+    const manifestResult = eventId ? validateCode(eventId, qrContent) : null;
+
+    if (manifestResult?.status === 'already_used') {
+      return { status: 'duplicate', errorCode: 'TICKET_ALREADY_USED', message: t('qr.ticketAlreadyUsed') };
+    }
+
+    if (manifestResult?.status === 'valid') {
+      markCheckedIn(eventId, qrContent);
+      pushManifestCheckIn(qrContent, entryId);
+      return { status: 'success', message: t('qr.checkInSuccess') };
+    }
+
+    // Unknown codes can only be rejected offline - online the manifest may just be stale
+    if (manifestResult?.status === 'unknown' && !online) {
+      return { status: 'failed', errorCode: 'TICKET_NOT_FOUND', message: t('qr.notInManifest') };
+    }
+
+    if (!online) {
+      return queueOfflineCheckIn(qrContent);
+    }
     
     try {
       const checkInRequest: CheckInRequest = {
-        qrContent: qrContent
+        qrContent: qrContent,
+        eventId: eventId
       };
       
-      const response: BackendApiResponse<boolean> = await apiService.checkInByQR(checkInRequest);
-      if (response.success && response.data) {
-        showSuccessToast(t('qr.checkInSuccess'), 4000);
-        setCheckInSuccessCount(prev => {
-          const newCount = prev + 1;
-          return newCount;
-        });
-        try {
-          Vibration.vibrate([0, 200, 100, 200]);
-        } catch (error) {
-          // Silent fail for vibration
-        }
-        // Reset scanning after success to continue checking in
-        setTimeout(() => {
-          setIsProcessing(false);
-          setIsScanning(true);
-        }, 1500);
-      } else {
-        // Handle specific error messages from backend
-        let errorMessage = t('qr.checkInFailed');
-        
-        switch (response.message) {
-          case 'TICKET_NOT_FOUND':
-            errorMessage = t('qr.ticketNotFound');
-            break;
-          case 'TICKET_ALREADY_USED':
-            errorMessage = t('qr.ticketAlreadyUsed');
-            break;
-          case 'UPDATE_FAILED':
-            errorMessage = t('qr.updateFailed');
-            break;
-          case 'LOG_CREATION_FAILED':
-            errorMessage = t('qr.logCreationFailed');
-            break;
-          case 'CHECKIN_ERROR':
-            errorMessage = t('qr.checkInError');
-            break;
-          default:
-            errorMessage = response.message || t('qr.checkInFailed');
+      const outcome = await apiService.checkInByQR(checkInRequest);
+      if (outcome.status === 'success') {
+        if (eventId) {
+          markCheckedIn(eventId, qrContent);
         }
-        
-        showErrorToast(errorMessage);
-        try {
-          Vibration.vibrate([0, 500]);
-        } catch (error) {
-          // Silent fail for vibration
-        }
-        // Reset scanning after delay
-        setTimeout(() => {
-          setIsProcessing(false);
-          setIsScanning(true);
-        }, 2000);
+        return { status: 'success', message: t('qr.checkInSuccess'), outcome };
       }
+
+      return {
+        status: getScanResultStatus(outcome),
+        errorCode: outcome.reason,
+        message: getCheckInOutcomeMessage(outcome, t),
+        outcome,
+      };
     } catch (error: any) {
-      let errorMessage = t('qr.checkInFailed');
-      
-      if (error.response?.status === 404) {
-        errorMessage = t('qr.endpointNotFound');
-      } else if (error.response?.status === 401) {
-        errorMessage = t('qr.unauthorized');
-      } else if (error.response?.data?.Message) {
-        errorMessage = error.response.data.Message;
-      } else if (error.response?.data?.message) {
-        errorMessage = error.response.data.message;
-      }
-      
-      showErrorToast(errorMessage);
-      try {
-        Vibration.vibrate([0, 500]);
-      } catch (vibError) {
-        // Silent fail for vibration
+      // Only network errors reach here - rejections come back as outcomes
+      if (isNetworkError(error)) {
+        return queueOfflineCheckIn(qrContent);
       }
-      
-      // Reset scanning after delay
-      setTimeout(() => {
-        setIsProcessing(false);
-        setIsScanning(true);
-      }, 2000);
+      return { status: 'failed', message: t('qr.checkInFailed') };
+    }
+  };
+
+  // Successful check-ins stay undoable for CHECK_IN_CONFIG.UNDO_WINDOW
+  const rememberCheckIn = (entry: ScanResultEntry, result: CheckInAttempt) => {
+    if (result.status !== 'success') {
+      return;
+    }
+
+    registerCheckIn({
+      qrCode: entry.code,
+      eventId,
+      method: 'QrCode',
+      sessionEntryId: entry.id,
+      customerName: result.outcome?.ticket.customerName,
+    });
+  };
+
+  const showCheckInFeedback = (result: CheckInAttempt, qrContent: string) => {
+    switch (result.status) {
+      case 'success':
+        showSuccessToast(result.message, 4000, {
+          label: t('undoCheckIn.action'),
+          onPress: () => setRevertTarget({ qrCode: qrContent, customerName: result.outcome?.ticket.customerName }),
+        });
+        vibrate([0, 200, 100, 200]);
+        break;
+      case 'queued':
+        showSuccessToast(result.message, 3000);
+        vibrate([0, 100, 50, 100]);
+        break;
+      default:
+        showErrorToast(result.message);
+        vibrate([0, 500]);
+    }
+  };
+
+  // Single mode: pause the camera until the result has been shown
+  const performCheckIn = async (qrContent: string) => {
+    if (isProcessing) {
+      return;
+    }
+
+    const entry = recordScan(qrContent);
+    if (!entry) {
+      return;
+    }
+
+    if (entry.status === 'duplicate') {
+      showErrorToast(t('qr.duplicateCode'));
+      return;
+    }
+    
+    setIsProcessing(true);
+    setIsScanning(false);
+
+    const result = await checkInCode(qrContent, entry.id);
+    completeScan(entry.id, result.status, { errorCode: result.errorCode, message: result.message });
+    rememberCheckIn(entry, result);
+
+    // Tickets for another event get their own warning naming the right event
+    if (result.outcome?.status === 'wrong_event') {
+      vibrate([0, 300, 150, 300, 150, 300]);
+      setWrongEventOutcome(result.outcome);
+      setIsProcessing(false);
+      return;
     }
+
+    // Rejected tickets get the full result so the collaborator can see why
+    if (result.outcome && result.outcome.status !== 'success') {
+      vibrate([0, 500]);
+      setCheckInResult({ method: 'QrCode', outcomes: [result.outcome] });
+      setIsProcessing(false);
+      return;
+    }
+
+    showCheckInFeedback(result, qrContent);
+
+    // Reset scanning after the result to continue checking in
+    const isAccepted = result.status === 'success' || result.status === 'queued';
+    setTimeout(() => {
+      setIsProcessing(false);
+      setIsScanning(true);
+    }, isAccepted ? 1500 : 2000);
+  };
+
+  // Continuous mode: keep the camera live and let the task queue bound parallel requests
+  const queueBatchCheckIn = (qrContent: string) => {
+    const entry = recordScan(qrContent);
+    if (!entry) {
+      return;
+    }
+
+    if (entry.status === 'duplicate') {
+      vibrate([0, 500]);
+      return;
+    }
+
+    checkInQueue.push(async () => {
+      const result = await checkInCode(qrContent, entry.id);
+      completeScan(entry.id, result.status, { errorCode: result.errorCode, message: result.message });
+      rememberCheckIn(entry, result);
+      vibrate(result.status === 'success' || result.status === 'queued' ? 50 : [0, 300]);
+    });
   };
 
   const handleManualSubmit = () => {
@@ -281,15 +455,57 @@ const QRScannerScreen: React.FC = () => {
     }
     
     setShowManualInput(false);
-    performCheckIn(manualCode.trim());
+    if (isContinuous) {
+      queueBatchCheckIn(manualCode.trim());
+      setIsScanning(true);
+    } else {
+      performCheckIn(manualCode.trim());
+    }
     setManualCode('');
   };
 
   const handleBack = () => {
-    if (checkInSuccessCount > 0) {
+    if (sessionCounters.success > 0) {
       setShouldRefreshHomeStats(true);
     }
-    navigation.goBack();
+
+    // Hand over to the session summary when anything was scanned
+    const session = endSession();
+    if (session && session.results.length > 0) {
+      navigation.replace('ScanSessionSummary', { sessionId: session.id });
+    } else {
+      navigation.goBack();
+    }
+  };
+
+  const handleCheckInResultContinue = () => {
+    setCheckInResult(null);
+    setIsScanning(true);
+  };
+
+  const handleCheckInResultClose = () => {
+    setCheckInResult(null);
+    handleBack();
+  };
+
+  const handleWrongEventContinue = () => {
+    setWrongEventOutcome(null);
+    setIsScanning(true);
+  };
+
+  const handleWrongEventClose = () => {
+    setWrongEventOutcome(null);
+    handleBack();
+  };
+
+  const handleRevertClose = () => {
+    setRevertTarget(null);
+  };
+
+  const handleReverted = () => {
+    setRevertTarget(null);
+    showSuccessToast(t('undoCheckIn.success'), 3000);
+    vibrate([0, 100, 50, 100]);
   };
 
   const handleManualInputOpen = () => {
@@ -315,6 +531,66 @@ const QRScannerScreen: React.FC = () => {
     }
   };
 
+  const toggleScanMode = () => {
+    if (isProcessing) return;
+
+    setMode(isContinuous ? 'single' : 'continuous');
+    setIsScanning(true);
+  };
+
+  const getResultIcon = (status: ScanResultStatus) => {
+    switch (status) {
+      case 'success':
+        return 'check-circle';
+      case 'duplicate':
+        return 'content-copy';
+      case 'queued':
+        return 'cloud-off';
+      case 'reverted':
+        return 'undo';
+      case 'failed':
+        return 'error';
+      case 'pending':
+      default:
+        return 'hourglass-empty';
+    }
+  };
+
+  const getResultColor = (status: ScanResultStatus) => {
+    switch (status) {
+      case 'success':
+        return currentTheme.success;
+      case 'duplicate':
+      case 'queued':
+        return '#FF9500';
+      case 'failed':
+      case 'reverted':
+        return currentTheme.error;
+      default:
+        return '#CCCCCC';
+    }
+  };
+
+  // Tap a fresh success in the log to undo it
+  const renderScanResult = ({ item }: { item: ScanResultEntry }) => {
+    const isUndoable = item.status === 'success' && canUndo(item.code);
+
+    return (
+      <TouchableOpacity
+        style={styles.logItem}
+        disabled={!isUndoable}
+        onPress={() => setRevertTarget({ qrCode: item.code, customerName: item.customerName })}
+      >
+        <Icon name={getResultIcon(item.status)} size={16} color={getResultColor(item.status)} />
+        <Text style={styles.logCode} numberOfLines={1}>{item.code}</Text>
+        <Text style={styles.logMessage} numberOfLines={1}>
+          {item.revertReason || item.message || t(`scanSession.status.${item.status}`)}
+        </Text>
+        {isUndoable && <Icon name="undo" size={16} color="#FFFFFF" />}
+      </TouchableOpacity>
+    );
+  };
+
   const scanLineTranslateY = scanAnimation.interpolate({
     inputRange: [0, 1],
     outputRange: [-120, 120],
@@ -434,33 +710,99 @@ const QRScannerScreen: React.FC = () => {
           <Icon name="arrow-back" size={24} color="#FFFFFF" />
         </TouchableOpacity>
                   <Text style={styles.headerTitle}>{t('qr.title')}</Text>
-        <TouchableOpacity 
-          style={styles.manualButton} 
-          onPress={handleManualInputOpen}
-          disabled={isProcessing}
-        >
-          <Icon name="keyboard" size={24} color="#FFFFFF" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity 
+            style={styles.manualButton} 
+            onPress={() => setShowOfflineQueue(true)}
+          >
+            <Icon name={isOnline ? 'cloud-queue' : 'cloud-off'} size={24} color="#FFFFFF" />
+            {(pendingOfflineCount > 0 || offlineConflictCount > 0) && (
+              <View style={[styles.queueBadge, offlineConflictCount > 0 && styles.queueBadgeConflict]}>
+                <Text style={styles.queueBadgeText}>
+                  {pendingOfflineCount + offlineConflictCount}
+                </Text>
+              </View>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.manualButton} 
+            onPress={handleManualInputOpen}
+            disabled={isProcessing}
+          >
+            <Icon name="keyboard" size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
       </View>
 
-      {/* Status and Instructions */}
-      <View style={styles.infoContainer}>
-        <Text style={styles.statusText}>
-          {isProcessing 
-            ? t('qr.processing')
-            : isScanning
-            ? t('qr.scanning')
-            : t('qr.paused')
-          }
-        </Text>
+      {/* Offline / pending sync banner */}
+      {(!isOnline || pendingOfflineCount > 0) && (
+        <TouchableOpacity style={styles.offlineBanner} onPress={() => setShowOfflineQueue(true)}>
+          <Icon name={isOnline ? 'sync' : 'cloud-off'} size={16} color="#FFFFFF" />
+          <Text style={styles.offlineBannerText}>
+            {isOnline
+              ? t('qr.pendingSync', { count: pendingOfflineCount })
+              : t('qr.offlineMode', { count: pendingOfflineCount })}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Live scan log (continuous mode) */}
+      {isContinuous ? (
+        <View style={styles.sessionLog}>
+          <View style={styles.sessionCounters}>
+            <View style={styles.counterItem}>
+              <Icon name="check-circle" size={16} color={currentTheme.success} />
+              <Text style={styles.counterText}>{sessionCounters.success}</Text>
+            </View>
+            <View style={styles.counterItem}>
+              <Icon name="content-copy" size={16} color="#FF9500" />
+              <Text style={styles.counterText}>{sessionCounters.duplicate}</Text>
+            </View>
+            <View style={styles.counterItem}>
+              <Icon name="error" size={16} color={currentTheme.error} />
+              <Text style={styles.counterText}>{sessionCounters.failed}</Text>
+            </View>
+            {sessionCounters.queued > 0 && (
+              <View style={styles.counterItem}>
+                <Icon name="cloud-off" size={16} color="#FF9500" />
+                <Text style={styles.counterText}>{sessionCounters.queued}</Text>
+              </View>
+            )}
+            {sessionCounters.pending > 0 && (
+              <View style={styles.counterItem}>
+                <Icon name="hourglass-empty" size={16} color="#CCCCCC" />
+                <Text style={styles.counterText}>{sessionCounters.pending}</Text>
+              </View>
+            )}
+          </View>
+          <FlatList
+            data={recentResults}
+            keyExtractor={item => item.id}
+            renderItem={renderScanResult}
+            ListEmptyComponent={
+              <Text style={styles.logEmpty}>{t('scanSession.empty')}</Text>
+            }
+          />
+        </View>
+      ) : (
+        <View style={styles.infoContainer}>
+          <Text style={styles.statusText}>
+            {isProcessing 
+              ? t('qr.processing')
+              : isScanning
+              ? t('qr.scanning')
+              : t('qr.paused')
+            }
+          </Text>
         
-        <Text style={styles.instructionText}>
-          {isProcessing 
-            ? t('qr.waitPlease')
-            : t('qr.instruction')
-          }
-        </Text>
-      </View>
+          <Text style={styles.instructionText}>
+            {isProcessing 
+              ? t('qr.waitPlease')
+              : t('qr.instruction')
+            }
+          </Text>
+        </View>
+      )}
 
       {/* Control Buttons */}
       <View style={styles.controlsContainer}>
@@ -473,6 +815,17 @@ const QRScannerScreen: React.FC = () => {
             <Text style={styles.controlButtonText}>{t('qr.manualInput')}</Text>
           </TouchableOpacity>
           
+          <TouchableOpacity 
+            style={[styles.controlButton, isProcessing && styles.disabledButton]}
+            onPress={toggleScanMode}
+            disabled={isProcessing}
+          >
+            <Icon name={isContinuous ? 'burst-mode' : 'filter-1'} size={20} color={currentTheme.primary} />
+            <Text style={styles.controlButtonText}>
+              {isContinuous ? t('scanSession.continuous') : t('scanSession.single')}
+            </Text>
+          </TouchableOpacity>
+          
           <TouchableOpacity 
             style={[styles.controlButton, styles.toggleButton, isProcessing && styles.disabledButton]}
             onPress={toggleScanning}
@@ -499,6 +852,43 @@ const QRScannerScreen: React.FC = () => {
         </View>
       )}
 
+      {/* Offline Queue / Reconciliation */}
+      <OfflineQueueModal
+        visible={showOfflineQueue}
+        theme={theme === 'dark' ? 'dark' : 'light'}
+        eventId={eventId}
+        onClose={() => setShowOfflineQueue(false)}
+      />
+
+      {/* Rejected ticket details */}
+      <CheckInResultModal
+        visible={!!checkInResult}
+        result={checkInResult}
+        theme={theme === 'dark' ? 'dark' : 'light'}
+        onClose={handleCheckInResultClose}
+        onContinue={handleCheckInResultContinue}
+      />
+
+      {/* Undo a mistaken check-in */}
+      <RevertCheckInModal
+        visible={!!revertTarget}
+        theme={theme === 'dark' ? 'dark' : 'light'}
+        qrCode={revertTarget?.qrCode || null}
+        customerName={revertTarget?.customerName}
+        onClose={handleRevertClose}
+        onReverted={handleReverted}
+      />
+
+      {/* Ticket issued for another event */}
+      <WrongEventModal
+        visible={!!wrongEventOutcome}
+        outcome={wrongEventOutcome}
+        currentEventName={currentEventName}
+        theme={theme === 'dark' ? 'dark' : 'light'}
+        onClose={handleWrongEventClose}
+        onContinue={handleWrongEventContinue}
+      />
+
       {/* Manual Input Modal */}
       <Modal
         visible={showManualInput}
@@ -689,11 +1079,55 @@ const createStyles = (theme: typeof lightTheme) => StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: 'bold',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
   manualButton: {
     padding: spacing.sm,
     borderRadius: borderRadius.full,
     backgroundColor: 'rgba(255,255,255,0.1)',
   },
+  queueBadge: {
+    position: 'absolute',
+    top: -2,
+    right: -2,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: theme.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  queueBadgeConflict: {
+    backgroundColor: '#FF9500',
+  },
+  queueBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  offlineBanner: {
+    position: 'absolute',
+    top: 110,
+    left: spacing.lg,
+    right: spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: 'rgba(255,149,0,0.9)',
+    zIndex: 10,
+  },
+  offlineBannerText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   infoContainer: {
     position: 'absolute',
     bottom: 140,
@@ -724,6 +1158,59 @@ const createStyles = (theme: typeof lightTheme) => StyleSheet.create({
     paddingVertical: spacing.sm,
     borderRadius: borderRadius.md,
   },
+  sessionLog: {
+    position: 'absolute',
+    bottom: 100,
+    left: spacing.lg,
+    right: spacing.lg,
+    maxHeight: 200,
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: 'rgba(0,0,0,0.75)',
+    zIndex: 10,
+  },
+  sessionCounters: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingBottom: spacing.sm,
+    marginBottom: spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.15)',
+  },
+  counterItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  counterText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  logItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    gap: spacing.xs,
+  },
+  logCode: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  logMessage: {
+    flex: 1,
+    color: '#CCCCCC',
+    fontSize: 12,
+    textAlign: 'right',
+  },
+  logEmpty: {
+    color: '#CCCCCC',
+    fontSize: 13,
+    textAlign: 'center',
+    paddingVertical: spacing.sm,
+  },
   controlsContainer: {
     position: 'absolute',
     bottom: 40,
@@ -14,7 +14,7 @@ import { useTranslation } from 'react-i18next';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { apiService } from '../services/api';
-import { handleApiError } from '../utils';
+import { handleApiError, ApiError } from '../utils';
 import { useToast } from '../components';
 import { useSettingsStore } from '../store/settingsStore';
 import { lightTheme, darkTheme } from '../theme';
@@ -82,14 +82,14 @@ const ResetPasswordScreen: React.FC = () => {
         newPassword: formData.newPassword,
       });
 
-      if (response.flag) {
+      if (response.isSuccess) {
         showSuccessToast(t('resetPassword.messages.resetSuccess'), 4000);
         // Navigate to login after short delay
         setTimeout(() => {
           navigation.navigate('Login' as never);
         }, 1000);
       } else {
-        throw new Error(response.message);
+        throw new ApiError(response);
       }
     } catch (error) {
       const errorMessage = handleApiError(error, t);
@@ -107,10 +107,10 @@ const ResetPasswordScreen: React.FC = () => {
         email: email,
       });
 
-      if (response.flag) {
+      if (response.isSuccess) {
         showSuccessToast(t('resetPassword.messages.codeResent'));
       } else {
-        throw new Error(response.message);
+        throw new ApiError(response);
       }
     } catch (error) {
       const errorMessage = handleApiError(error, t);
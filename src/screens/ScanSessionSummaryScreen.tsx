@@ -0,0 +1,412 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Share,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { RootStackParamList, ScanSession, ScanResultEntry, ScanResultStatus } from '../types';
+import { useSettingsStore } from '../store/settingsStore';
+import { useEventStore } from '../store/eventStore';
+import { useScanSessionStore, getSessionCounters } from '../store/scanSessionStore';
+import { lightTheme, darkTheme, spacing, borderRadius, typography } from '../theme';
+import { useToast } from '../components';
+import { formatDateTime, formatTime } from '../utils';
+import { buildSessionExport, ScanSessionExportFormat } from '../utils/scanSessionExport';
+
+type ScanSessionSummaryNavigationProp = StackNavigationProp<RootStackParamList, 'ScanSessionSummary'>;
+type ScanSessionSummaryRouteProp = RouteProp<RootStackParamList, 'ScanSessionSummary'>;
+
+const ScanSessionSummaryScreen: React.FC = () => {
+  const { t } = useTranslation();
+  const navigation = useNavigation<ScanSessionSummaryNavigationProp>();
+  const route = useRoute<ScanSessionSummaryRouteProp>();
+  const { theme, language } = useSettingsStore();
+  const { events } = useEventStore();
+  const { history, getSession } = useScanSessionStore();
+  const { showErrorToast } = useToast();
+  const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
+  const styles = createStyles(currentTheme);
+
+  const { sessionId } = route.params || {};
+  const session = sessionId ? getSession(sessionId) : null;
+
+  const getEventName = (eventId?: string) => {
+    return events.find(e => e.eventId === eventId)?.eventName;
+  };
+
+  const getDuration = (item: ScanSession) => {
+    const end = item.endedAt ? new Date(item.endedAt).getTime() : Date.now();
+    const minutes = Math.max(0, Math.round((end - new Date(item.startedAt).getTime()) / 60000));
+    return t('scanSession.minutes', { count: minutes });
+  };
+
+  const getStatusColor = (status: ScanResultStatus) => {
+    switch (status) {
+      case 'success':
+        return currentTheme.success;
+      case 'duplicate':
+      case 'queued':
+        return '#FF9500';
+      case 'failed':
+      case 'reverted':
+        return currentTheme.error;
+      default:
+        return currentTheme.textSecondary;
+    }
+  };
+
+  const handleExport = async (format: ScanSessionExportFormat) => {
+    if (!session) return;
+
+    try {
+      const eventName = getEventName(session.eventId);
+      await Share.share({
+        title: t('scanSession.exportTitle', { event: eventName || session.eventId || '' }),
+        message: buildSessionExport(session, format, eventName),
+      });
+    } catch (error) {
+      showErrorToast(t('scanSession.exportFailed'));
+    }
+  };
+
+  const renderSessionItem = ({ item }: { item: ScanSession }) => {
+    const counters = getSessionCounters(item);
+
+    return (
+      <TouchableOpacity
+        style={styles.itemContainer}
+        onPress={() => navigation.push('ScanSessionSummary', { sessionId: item.id })}
+      >
+        <View style={styles.itemHeader}>
+          <Icon
+            name={item.source === 'face' ? 'face' : 'qr-code-scanner'}
+            size={20}
+            color={currentTheme.primary}
+          />
+          <Text style={styles.itemTitle} numberOfLines={1}>
+            {getEventName(item.eventId) || item.eventId || t('scanSession.unknownEvent')}
+          </Text>
+          <Icon name="chevron-right" size={20} color={currentTheme.textSecondary} />
+        </View>
+        <Text style={styles.itemMeta}>
+          {formatDateTime(item.startedAt, language)} · {getDuration(item)}
+        </Text>
+        <Text style={styles.itemMeta}>
+          {t('scanSession.tally', {
+            success: counters.success,
+            duplicate: counters.duplicate,
+            failed: counters.failed,
+          })}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderResultItem = ({ item }: { item: ScanResultEntry }) => (
+    <View style={styles.resultRow}>
+      <View style={[styles.statusDot, { backgroundColor: getStatusColor(item.status) }]} />
+      <View style={styles.resultInfo}>
+        <Text style={styles.resultCode} numberOfLines={1}>
+          {item.code || item.customerName || t('scanSession.unidentified')}
+        </Text>
+        {!!(item.message || item.customerName || item.revertReason) && (
+          <Text style={styles.resultMessage} numberOfLines={2}>
+            {[item.customerName, item.ticketType, item.message, item.revertReason].filter(Boolean).join(' · ')}
+          </Text>
+        )}
+      </View>
+      <View style={styles.resultRight}>
+        <Text style={[styles.resultStatus, { color: getStatusColor(item.status) }]}>
+          {t(`scanSession.status.${item.status}`)}
+        </Text>
+        <Text style={styles.resultTime}>{formatTime(item.scannedAt)}</Text>
+      </View>
+    </View>
+  );
+
+  const renderSummaryHeader = (item: ScanSession) => {
+    const counters = getSessionCounters(item);
+
+    return (
+      <View>
+        <View style={styles.summaryCard}>
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{t('scanSession.event')}:</Text>
+            <Text style={styles.infoValue}>
+              {getEventName(item.eventId) || item.eventId || t('scanSession.unknownEvent')}
+            </Text>
+          </View>
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{t('scanSession.method')}:</Text>
+            <Text style={styles.infoValue}>{t(`scanSession.methods.${item.source}`)}</Text>
+          </View>
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{t('scanSession.startedAt')}:</Text>
+            <Text style={styles.infoValue}>{formatDateTime(item.startedAt, language)}</Text>
+          </View>
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{t('scanSession.endedAt')}:</Text>
+            <Text style={styles.infoValue}>
+              {item.endedAt ? formatDateTime(item.endedAt, language) : t('scanSession.inProgress')}
+            </Text>
+          </View>
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{t('scanSession.duration')}:</Text>
+            <Text style={styles.infoValue}>{getDuration(item)}</Text>
+          </View>
+        </View>
+
+        <View style={styles.countersRow}>
+          {(['success', 'duplicate', 'failed', 'queued'] as ScanResultStatus[])
+            .concat(counters.reverted > 0 ? ['reverted'] : [])
+            .map(status => (
+            <View key={status} style={styles.counterCard}>
+              <Text style={[styles.counterNumber, { color: getStatusColor(status) }]}>
+                {counters[status]}
+              </Text>
+              <Text style={styles.counterLabel}>{t(`scanSession.status.${status}`)}</Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.exportRow}>
+          <TouchableOpacity style={styles.exportButton} onPress={() => handleExport('csv')}>
+            <Icon name="table-chart" size={18} color={currentTheme.surface} />
+            <Text style={styles.exportButtonText}>{t('scanSession.exportCsv')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.exportButton} onPress={() => handleExport('json')}>
+            <Icon name="code" size={18} color={currentTheme.surface} />
+            <Text style={styles.exportButtonText}>{t('scanSession.exportJson')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.sectionTitle}>
+          {t('scanSession.results', { count: counters.total })}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Icon name="arrow-back" size={24} color={currentTheme.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>
+          {session ? t('scanSession.summaryTitle') : t('scanSession.sessionsTitle')}
+        </Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {session ? (
+        <FlatList
+          data={[...session.results].reverse()}
+          keyExtractor={item => item.id}
+          renderItem={renderResultItem}
+          ListHeaderComponent={renderSummaryHeader(session)}
+          contentContainerStyle={styles.listContainer}
+        />
+      ) : (
+        <FlatList
+          data={history}
+          keyExtractor={item => item.id}
+          renderItem={renderSessionItem}
+          contentContainerStyle={styles.listContainer}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Icon name="history" size={64} color={currentTheme.textSecondary} />
+              <Text style={styles.emptyText}>{t('scanSession.noSessions')}</Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const createStyles = (theme: typeof lightTheme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.sm,
+    backgroundColor: theme.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  backButton: {
+    padding: spacing.sm,
+    borderRadius: borderRadius.full,
+    minWidth: 40,
+  },
+  headerTitle: {
+    ...typography.h4,
+    color: theme.text,
+    fontWeight: '600',
+  },
+  listContainer: {
+    padding: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  itemContainer: {
+    backgroundColor: theme.surface,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.border,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginBottom: spacing.xs,
+  },
+  itemTitle: {
+    ...typography.body1,
+    flex: 1,
+    color: theme.text,
+    fontWeight: '600',
+  },
+  itemMeta: {
+    ...typography.caption,
+    color: theme.textSecondary,
+    marginTop: 2,
+  },
+  summaryCard: {
+    backgroundColor: theme.surface,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: theme.border,
+    gap: spacing.xs,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  infoLabel: {
+    ...typography.caption,
+    color: theme.textSecondary,
+    minWidth: 90,
+  },
+  infoValue: {
+    ...typography.caption,
+    color: theme.text,
+    flex: 1,
+  },
+  countersRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  counterCard: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: theme.surface,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.border,
+  },
+  counterNumber: {
+    ...typography.h4,
+    fontWeight: 'bold',
+  },
+  counterLabel: {
+    ...typography.caption,
+    color: theme.textSecondary,
+    textAlign: 'center',
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  exportButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    backgroundColor: theme.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+  },
+  exportButtonText: {
+    color: theme.surface,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    ...typography.body1,
+    color: theme.text,
+    fontWeight: '600',
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+    gap: spacing.sm,
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultCode: {
+    ...typography.body2,
+    color: theme.text,
+    fontWeight: '500',
+  },
+  resultMessage: {
+    ...typography.caption,
+    color: theme.textSecondary,
+  },
+  resultRight: {
+    alignItems: 'flex-end',
+  },
+  resultStatus: {
+    ...typography.caption,
+    fontWeight: '600',
+  },
+  resultTime: {
+    ...typography.caption,
+    color: theme.textSecondary,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: spacing.xl * 2,
+    paddingHorizontal: spacing.xl,
+  },
+  emptyText: {
+    ...typography.body2,
+    color: theme.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.md,
+  },
+});
+
+export default ScanSessionSummaryScreen;
@@ -13,9 +13,11 @@ import { useTranslation } from 'react-i18next';
 import { useAuthStore } from '../store/authStore';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { useSettingsStore } from '../store/settingsStore';
+import { useAppLockStore } from '../store/appLockStore';
 import { useToast } from '../components';
 import { lightTheme, darkTheme } from '../theme';
 import { saveLanguagePreference } from '../utils/i18n';
+import { SECURITY_CONFIG } from '../utils/config';
 
 const SettingsScreen: React.FC = () => {
   const { t, i18n } = useTranslation();
@@ -33,6 +35,14 @@ const SettingsScreen: React.FC = () => {
     resetToDefaults,
     isLoading
   } = useSettingsStore();
+  const {
+    isEnabled: appLockEnabled,
+    timeout: appLockTimeout,
+    isAuthenticating: isAppLockBusy,
+    enable: enableAppLock,
+    disable: disableAppLock,
+    setLockTimeout,
+  } = useAppLockStore();
   const { showSuccessToast, showErrorToast } = useToast();
   
   // Ensure i18n language matches settings store language
@@ -113,6 +123,28 @@ const SettingsScreen: React.FC = () => {
     }
   };
 
+  const handleAppLockToggle = async (value: boolean) => {
+    if (!value) {
+      await disableAppLock();
+      return;
+    }
+
+    const result = await enableAppLock({
+      title: t('settings.security.enablePrompt'),
+      cancel: t('common.cancel'),
+    });
+    if (result === 'enabled') {
+      showSuccessToast(t('settings.security.enabled'));
+    } else if (result === 'unavailable') {
+      showErrorToast(t('settings.security.unavailable'));
+    }
+  };
+
+  const formatLockTimeout = (seconds: number) =>
+    seconds === 0
+      ? t('settings.security.timeout.immediately')
+      : t('settings.security.timeout.minutes', { count: seconds / 60 });
+
   const handleResetSettings = async () => {
     if (isLoading || !user) return;
     
@@ -246,6 +278,53 @@ const SettingsScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Security Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.security.title')}</Text>
+          <Text style={styles.sectionDescription}>{t('settings.security.description')}</Text>
+
+          {/* App Lock */}
+          <View style={styles.switchItem}>
+            <View style={styles.switchLeft}>
+              <Icon name="finger-print" size={20} color={currentTheme.textSecondary} style={styles.switchIcon} />
+              <View>
+                <Text style={styles.switchTitle}>{t('settings.security.appLock.title')}</Text>
+                <Text style={styles.switchDescription}>{t('settings.security.appLock.description')}</Text>
+              </View>
+            </View>
+            <Switch
+              value={appLockEnabled}
+              onValueChange={handleAppLockToggle}
+              trackColor={{ false: currentTheme.disabled, true: currentTheme.primary }}
+              thumbColor={'#fff'}
+              disabled={isAppLockBusy}
+            />
+          </View>
+
+          {/* Idle time before the lock applies */}
+          {appLockEnabled && (
+            <>
+              <Text style={styles.subsectionTitle}>{t('settings.security.lockAfter')}</Text>
+              <View style={styles.chipRow}>
+                {SECURITY_CONFIG.LOCK_TIMEOUT_OPTIONS.map((seconds) => (
+                  <TouchableOpacity
+                    key={seconds}
+                    style={[styles.chip, appLockTimeout === seconds && styles.optionItemSelected]}
+                    onPress={() => setLockTimeout(seconds)}
+                  >
+                    <Text style={[
+                      styles.chipText,
+                      appLockTimeout === seconds && styles.optionTextSelected,
+                    ]}>
+                      {formatLockTimeout(seconds)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+        </View>
+
         {/* Advanced Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>{t('settings.advanced.title')}</Text>
@@ -359,6 +438,27 @@ const createStyles = (theme: typeof lightTheme) => StyleSheet.create({
     fontSize: 12,
     color: theme.textSecondary,
   },
+  subsectionTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: theme.textSecondary,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: theme.card,
+  },
+  chipText: {
+    fontSize: 14,
+    color: theme.text,
+  },
   dangerItem: {
     flexDirection: 'row',
     alignItems: 'center',
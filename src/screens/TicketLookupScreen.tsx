@@ -0,0 +1,549 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { PagedList, QRCodeDetailItem, Result, RootStackParamList } from '../types';
+import { useSettingsStore } from '../store/settingsStore';
+import { useAuthStore } from '../store/authStore';
+import { useTicketManifestStore } from '../store/ticketManifestStore';
+import { lightTheme, darkTheme, spacing, borderRadius, typography } from '../theme';
+import { apiService } from '../services/api';
+import { useToast } from '../components';
+import { isNetworkError, getCheckInOutcomeMessage } from '../utils/errorHandler';
+
+type TicketLookupScreenNavigationProp = StackNavigationProp<RootStackParamList, 'TicketLookup'>;
+type TicketLookupScreenRouteProp = RouteProp<RootStackParamList, 'TicketLookup'>;
+
+const PAGE_SIZE = 20;
+const MIN_KEYWORD_LENGTH = 2;
+const SEARCH_DEBOUNCE = 400; // ms after the last keystroke
+
+const TicketLookupScreen: React.FC = () => {
+  const { t } = useTranslation();
+  const navigation = useNavigation<TicketLookupScreenNavigationProp>();
+  const route = useRoute<TicketLookupScreenRouteProp>();
+  const { theme } = useSettingsStore();
+  const { user, setShouldRefreshHomeStats } = useAuthStore();
+  const { markCheckedIn } = useTicketManifestStore();
+  const { showSuccessToast, showErrorToast } = useToast();
+  const currentTheme = theme === 'dark' ? darkTheme : lightTheme;
+  const styles = createStyles(currentTheme);
+
+  const { eventId, eventName } = route.params || {};
+
+  // State
+  const [keyword, setKeyword] = useState('');
+  const [tickets, setTickets] = useState<QRCodeDetailItem[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasNextPage, setHasNextPage] = useState(false);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+  const [hasSearched, setHasSearched] = useState(false);
+  const [checkingInCode, setCheckingInCode] = useState<string | null>(null);
+
+  // Responses for an outdated keyword are dropped
+  const latestKeyword = useRef('');
+
+  const searchTickets = useCallback(async (searchKeyword: string, page: number = 1) => {
+    const isFirstPage = page === 1;
+    try {
+      if (isFirstPage) {
+        setIsSearching(true);
+      } else {
+        setIsLoadingMore(true);
+      }
+
+      const response: Result<PagedList<QRCodeDetailItem>> = await apiService.searchIssuedTickets(
+        eventId,
+        searchKeyword,
+        page,
+        PAGE_SIZE
+      );
+      if (latestKeyword.current !== searchKeyword) {
+        return;
+      }
+
+      if (response.isSuccess) {
+        const newItems = response.data.items;
+        setTickets(prev => (isFirstPage ? newItems : [...prev, ...newItems]));
+        setHasNextPage(response.data.hasNextPage);
+        setCurrentPage(response.data.pageNumber);
+        setTotalItems(response.data.totalItems);
+      } else {
+        showErrorToast(response.message || t('ticketLookup.searchError'));
+      }
+    } catch (error: any) {
+      console.error('Error searching tickets:', error);
+      showErrorToast(t('ticketLookup.searchError'));
+    } finally {
+      setHasSearched(true);
+      setIsSearching(false);
+      setIsLoadingMore(false);
+    }
+  }, [eventId, showErrorToast, t]);
+
+  // Search as the collaborator types
+  useEffect(() => {
+    const trimmed = keyword.trim();
+    latestKeyword.current = trimmed;
+
+    if (trimmed.length < MIN_KEYWORD_LENGTH) {
+      setTickets([]);
+      setHasNextPage(false);
+      setTotalItems(0);
+      setHasSearched(false);
+      return;
+    }
+
+    const timer = setTimeout(() => searchTickets(trimmed, 1), SEARCH_DEBOUNCE);
+    return () => clearTimeout(timer);
+  }, [keyword, searchTickets]);
+
+  const handleLoadMore = useCallback(() => {
+    if (hasNextPage && !isLoadingMore && !isSearching) {
+      searchTickets(latestKeyword.current, currentPage + 1);
+    }
+  }, [hasNextPage, isLoadingMore, isSearching, currentPage, searchTickets]);
+
+  const updateTicket = (qrCode: string, changes: Partial<QRCodeDetailItem>) => {
+    setTickets(prev => prev.map(item => (item.qrCode === qrCode ? { ...item, ...changes } : item)));
+  };
+
+  const performManualCheckIn = async (ticket: QRCodeDetailItem) => {
+    try {
+      setCheckingInCode(ticket.qrCode);
+      const outcome = await apiService.checkInByQR({
+        qrContent: ticket.qrCode,
+        eventId,
+        checkInMethod: 'Manual',
+      });
+
+      if (outcome.status === 'success') {
+        const checkerName = user?.fullName || null;
+        updateTicket(ticket.qrCode, {
+          isCheckedIn: true,
+          status: 'Checked In',
+          checkedInAt: outcome.checkedInAt || new Date().toISOString(),
+          checkerName,
+        });
+        markCheckedIn(eventId, ticket.qrCode, checkerName);
+        setShouldRefreshHomeStats(true);
+        showSuccessToast(t('ticketLookup.checkInSuccess', { name: ticket.customerName || ticket.qrCode }), 3000);
+        return;
+      }
+
+      if (outcome.status === 'already_used') {
+        updateTicket(ticket.qrCode, {
+          isCheckedIn: true,
+          status: 'Checked In',
+          checkedInAt: outcome.previousCheckIn?.checkedInAt || ticket.checkedInAt,
+          checkerName: outcome.previousCheckIn?.checkerName || ticket.checkerName,
+        });
+      }
+      showErrorToast(getCheckInOutcomeMessage(outcome, t));
+    } catch (error: any) {
+      console.error('Error checking in ticket manually:', error);
+      showErrorToast(isNetworkError(error) ? t('errors.network') : t('qr.checkInFailed'));
+    } finally {
+      setCheckingInCode(null);
+    }
+  };
+
+  const handleCheckInPress = (ticket: QRCodeDetailItem) => {
+    Alert.alert(
+      t('ticketLookup.confirmTitle'),
+      t('ticketLookup.confirmMessage', {
+        name: ticket.customerName || ticket.customerEmail || t('checkInHistory.unknown'),
+        code: ticket.qrCode,
+      }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('ticketLookup.checkIn'), onPress: () => performManualCheckIn(ticket) },
+      ]
+    );
+  };
+
+  // Format date
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return t('checkInHistory.notCheckedIn');
+
+    const date = new Date(dateString);
+    return date.toLocaleDateString('vi-VN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  // Get status color
+  const getStatusColor = (status: string) => {
+    switch (status.toLowerCase()) {
+      case 'checked in':
+        return currentTheme.success;
+      case 'not checked in':
+        return '#FF9500';
+      case 'not found':
+        return currentTheme.error;
+      default:
+        return currentTheme.textSecondary;
+    }
+  };
+
+  // Render ticket item
+  const renderTicketItem = ({ item }: { item: QRCodeDetailItem }) => {
+    const isCheckingIn = checkingInCode === item.qrCode;
+
+    return (
+      <View style={styles.itemContainer}>
+        <View style={styles.itemHeader}>
+          <View style={styles.qrCodeContainer}>
+            <Icon name="confirmation-number" size={20} color={currentTheme.primary} />
+            <Text style={styles.qrCodeText} numberOfLines={1}>{item.qrCode}</Text>
+          </View>
+          <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item.status) }]}>
+            <Text style={styles.statusText}>{item.status}</Text>
+          </View>
+        </View>
+
+        <View style={styles.itemContent}>
+          <View style={styles.infoRow}>
+            <Icon name="person" size={16} color={currentTheme.textSecondary} />
+            <Text style={styles.infoLabel}>{t('checkInHistory.customer')}:</Text>
+            <Text style={styles.infoValue}>{item.customerName || t('checkInHistory.unknown')}</Text>
+          </View>
+
+          {!!item.customerEmail && (
+            <View style={styles.infoRow}>
+              <Icon name="email" size={16} color={currentTheme.textSecondary} />
+              <Text style={styles.infoLabel}>{t('ticketLookup.email')}:</Text>
+              <Text style={styles.infoValue}>{item.customerEmail}</Text>
+            </View>
+          )}
+
+          {!!item.ticketName && (
+            <View style={styles.infoRow}>
+              <Icon name="local-activity" size={16} color={currentTheme.textSecondary} />
+              <Text style={styles.infoLabel}>{t('ticketLookup.ticketType')}:</Text>
+              <Text style={styles.infoValue}>{item.ticketName}</Text>
+            </View>
+          )}
+
+          {item.isCheckedIn && (
+            <>
+              <View style={styles.infoRow}>
+                <Icon name="schedule" size={16} color={currentTheme.textSecondary} />
+                <Text style={styles.infoLabel}>{t('checkInHistory.checkedInAt')}:</Text>
+                <Text style={styles.infoValue}>{formatDate(item.checkedInAt)}</Text>
+              </View>
+              {!!item.checkerName && (
+                <View style={styles.infoRow}>
+                  <Icon name="person-outline" size={16} color={currentTheme.textSecondary} />
+                  <Text style={styles.infoLabel}>{t('checkInHistory.checkedBy')}:</Text>
+                  <Text style={styles.infoValue}>{item.checkerName}</Text>
+                </View>
+              )}
+            </>
+          )}
+        </View>
+
+        {!item.isCheckedIn && (
+          <TouchableOpacity
+            style={[styles.checkInButton, !!checkingInCode && styles.buttonDisabled]}
+            onPress={() => handleCheckInPress(item)}
+            disabled={!!checkingInCode}
+          >
+            {isCheckingIn ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <>
+                <Icon name="how-to-reg" size={18} color="white" />
+                <Text style={styles.checkInButtonText}>{t('ticketLookup.checkIn')}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  // Render list footer
+  const renderListFooter = () => {
+    if (!isLoadingMore) return null;
+
+    return (
+      <View style={styles.loadingFooter}>
+        <ActivityIndicator size="small" color={currentTheme.primary} />
+        <Text style={styles.loadingText}>{t('common.loadingMore')}</Text>
+      </View>
+    );
+  };
+
+  // Render empty state
+  const renderEmptyState = () => {
+    if (isSearching) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={currentTheme.primary} />
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.emptyState}>
+        <Icon name={hasSearched ? 'search-off' : 'person-search'} size={64} color={currentTheme.textSecondary} />
+        <Text style={styles.emptyTitle}>
+          {hasSearched ? t('ticketLookup.noResults') : t('ticketLookup.emptyTitle')}
+        </Text>
+        <Text style={styles.emptyMessage}>
+          {hasSearched ? t('ticketLookup.noResultsMessage') : t('ticketLookup.emptyMessage')}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <View style={styles.headerTop}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Icon name="arrow-back" size={24} color={currentTheme.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{t('ticketLookup.title')}</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <Text style={styles.eventName}>{eventName}</Text>
+
+        <View style={styles.searchContainer}>
+          <Icon name="search" size={20} color={currentTheme.textSecondary} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder={t('ticketLookup.placeholder')}
+            placeholderTextColor={currentTheme.textSecondary}
+            value={keyword}
+            onChangeText={setKeyword}
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus
+            returnKeyType="search"
+          />
+          {!!keyword && (
+            <TouchableOpacity onPress={() => setKeyword('')}>
+              <Icon name="close" size={20} color={currentTheme.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {hasSearched && !isSearching && (
+          <Text style={styles.statsText}>
+            {t('ticketLookup.resultCount', { count: totalItems })}
+          </Text>
+        )}
+      </View>
+
+      {/* Results */}
+      <FlatList
+        data={tickets}
+        keyExtractor={(item, index) => `${item.issuedId}-${index}`}
+        renderItem={renderTicketItem}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.1}
+        ListFooterComponent={renderListFooter}
+        ListEmptyComponent={renderEmptyState}
+        contentContainerStyle={tickets.length === 0 ? styles.emptyContainer : styles.listContainer}
+      />
+    </View>
+  );
+};
+
+const createStyles = (theme: typeof lightTheme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  header: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.sm,
+    backgroundColor: theme.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  headerTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xs,
+  },
+  backButton: {
+    padding: spacing.sm,
+    borderRadius: borderRadius.full,
+  },
+  headerTitle: {
+    ...typography.h4,
+    color: theme.text,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  eventName: {
+    ...typography.body2,
+    color: theme.text,
+    marginBottom: spacing.sm,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    backgroundColor: theme.background,
+    marginBottom: spacing.xs,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    ...typography.body1,
+    color: theme.text,
+  },
+  statsText: {
+    ...typography.caption,
+    color: theme.textSecondary,
+  },
+  listContainer: {
+    paddingBottom: spacing.xl,
+  },
+  emptyContainer: {
+    flex: 1,
+  },
+  itemContainer: {
+    backgroundColor: theme.surface,
+    marginHorizontal: spacing.md,
+    marginVertical: spacing.xs,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: theme.border,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  qrCodeContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  qrCodeText: {
+    ...typography.body1,
+    color: theme.text,
+    fontWeight: '600',
+    marginLeft: spacing.xs,
+    flexShrink: 1,
+  },
+  statusBadge: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.sm,
+  },
+  statusText: {
+    ...typography.caption,
+    color: 'white',
+    fontWeight: '600',
+    fontSize: 10,
+  },
+  itemContent: {
+    gap: spacing.xs,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  infoLabel: {
+    ...typography.caption,
+    color: theme.textSecondary,
+    minWidth: 80,
+  },
+  infoValue: {
+    ...typography.caption,
+    color: theme.text,
+    flex: 1,
+  },
+  checkInButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    backgroundColor: theme.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    marginTop: spacing.md,
+  },
+  checkInButtonText: {
+    ...typography.body2,
+    color: 'white',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  loadingFooter: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    gap: spacing.sm,
+  },
+  loadingText: {
+    ...typography.caption,
+    color: theme.textSecondary,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xl,
+  },
+  emptyTitle: {
+    ...typography.h3,
+    color: theme.text,
+    marginTop: spacing.md,
+    textAlign: 'center',
+  },
+  emptyMessage: {
+    ...typography.body2,
+    color: theme.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.sm,
+  },
+});
+
+export default TicketLookupScreen;
@@ -0,0 +1,92 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StateStorage } from 'zustand/middleware';
+
+type AccountScopeListener = () => void | Promise<void>;
+
+// Whose data the account-scoped stores read and write; null while signed out
+let activeAccountId: string | null = null;
+// Writes are held back while the stores reload, so one account's state never lands under another's key
+let isSwitching = false;
+let pendingSwitch: Promise<void> = Promise.resolve();
+const listeners = new Set<AccountScopeListener>();
+
+const keyFor = (name: string, accountId: string | null = activeAccountId) =>
+  accountId ? `${name}:${accountId}` : name;
+
+interface AccountStorageOptions {
+  // Signed-out state is a device preference (theme, language) - seed each account with a copy and keep it
+  // for the login screen, instead of handing it over to whoever signs in next
+  keepDeviceState?: boolean;
+}
+
+// AsyncStorage namespaced by the active account, for persist's createJSONStorage.
+// Signed out, the unscoped key holds device-level state (e.g. the theme picked on the login screen)
+export const createAccountStorage = ({ keepDeviceState = false }: AccountStorageOptions = {}): StateStorage => ({
+  getItem: async (name) => {
+    const accountId = activeAccountId;
+    const value = await AsyncStorage.getItem(keyFor(name, accountId));
+    if (value !== null || !accountId) {
+      return value;
+    }
+
+    // Data saved before accounts were kept apart, or while signed out, goes to whoever signs in next
+    const unscopedValue = await AsyncStorage.getItem(name);
+    if (unscopedValue !== null) {
+      await AsyncStorage.setItem(keyFor(name, accountId), unscopedValue);
+      if (!keepDeviceState) {
+        await AsyncStorage.removeItem(name);
+      }
+    }
+    return unscopedValue;
+  },
+
+  setItem: async (name, value) => {
+    if (!isSwitching) {
+      await AsyncStorage.setItem(keyFor(name), value);
+    }
+  },
+
+  removeItem: (name) => AsyncStorage.removeItem(keyFor(name)),
+});
+
+export const accountStorage = createAccountStorage();
+
+// Persist merge for account-scoped stores: an account with nothing saved starts from the defaults
+// instead of inheriting the previous account's state
+export const mergeAccountState = <T>(initialState: Partial<T>) =>
+  (persistedState: unknown, currentState: T): T => ({
+    ...currentState,
+    ...initialState,
+    ...(persistedState as Partial<T>),
+  });
+
+// Stores register how to reload (persisted) or clear (in-memory caches) their state on a switch
+export const onAccountScopeChange = (listener: AccountScopeListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const activateAccountScope = (accountId: string | null): Promise<void> => {
+  pendingSwitch = pendingSwitch.then(async () => {
+    if (accountId === activeAccountId) {
+      return;
+    }
+
+    activeAccountId = accountId;
+    isSwitching = true;
+    try {
+      await Promise.all([...listeners].map(async listener => {
+        try {
+          await listener();
+        } catch (error) {
+          console.warn('Failed to switch account state:', error);
+        }
+      }));
+    } finally {
+      isSwitching = false;
+    }
+  });
+  return pendingSwitch;
+};
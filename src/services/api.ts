@@ -1,8 +1,8 @@
-import axios, { AxiosInstance } from 'axios';
-import { API_CONFIG } from '../utils/config';
+import axios, { AxiosAdapter, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { API_CONFIG, API_ENDPOINTS, DEV_CONFIG } from '../utils/config';
 import {
-  ApiResponse,
-  BackendApiResponse,
+  Result,
+  PagedList,
   PaginatedData,
   LoginRequest,
   AuthResponseDto,
@@ -15,26 +15,52 @@ import {
   AvatarUploadResponse,
   Event,
   CheckInRequest,
+  RevertCheckInRequest,
   TicketIssued,
   News,
   Notification,
-  FaceCheckInResponse,
+  FaceCheckInData,
   UserSettings,
   User,
   DashboardStats,
   SearchFilters,
   PaginationParams,
-  CheckInHistoryResponse,
-  QRCodeDetailResponse,
-  CollaboratorStaticResponse
+  CheckInLogItem,
+  QRCodeDetailItem,
+  TicketManifestPayload,
+  CollaboratorStaticResponse,
+  CheckInOutcome,
+  CheckInTicketInfo,
+  DeviceSession,
+  FaceEnrollmentShot,
+  FaceEnrollmentResult
 } from '../types';
+import { mapFaceCheckInDetail, getCheckInOutcomeFromResult, getFaceEnrollmentErrors } from '../utils/errorHandler';
+import { toResult } from './apiResult';
 
-class ApiService {
+// Endpoints called without a bearer token
+const PUBLIC_ENDPOINTS = [
+  '/api/account/loginMobile',
+  '/api/account/loginByFaceMobile', // Face login is public
+  '/api/account/refresh-token',
+  '/api/account/forgot-password',
+  '/api/account/reset-password',
+  '/api/News/active', // News API is public
+  '/api/News/all-Home', // News home API is also public
+];
+
+const isPublicEndpoint = (url?: string) => PUBLIC_ENDPOINTS.some(endpoint => url?.includes(endpoint));
+
+type ReplayableRequestConfig = InternalAxiosRequestConfig & { isReplay?: boolean };
+
+export class ApiService {
   private baseURL = API_CONFIG.BASE_URL;
   private axiosInstance: AxiosInstance;
   private authToken: string | null = null;
+  private defaultAdapter: AxiosInstance['defaults']['adapter'];
 
-  constructor() {
+  // `transport` replaces axios' HTTP adapter, e.g. the fixture-backed mock
+  constructor(transport?: AxiosAdapter) {
     this.axiosInstance = axios.create({
       baseURL: this.baseURL,
       timeout: 40000,
@@ -42,28 +68,20 @@ class ApiService {
         'Content-Type': 'application/json',
       },
     });
+    this.defaultAdapter = this.axiosInstance.defaults.adapter;
+    this.setTransport(transport);
 
     // Request interceptor
     this.axiosInstance.interceptors.request.use(
       async (config) => {
         // Skip token validation for public endpoints
-        const skipTokenValidation = [
-          '/api/account/loginMobile',
-          '/api/account/loginByFaceMobile', // Face login is public
-          '/api/account/refresh-token',
-          '/api/account/forgot-password',
-          '/api/account/reset-password',
-          '/api/News/active', // News API is public
-          '/api/News/all-Home' // News home API is also public
-        ].some(endpoint => config.url?.includes(endpoint));
-
-        if (!skipTokenValidation) {
+        if (!isPublicEndpoint(config.url)) {
           // Always get fresh token from authStore
           const { useAuthStore } = await import('../store/authStore');
           const isTokenValid = await useAuthStore.getState().ensureValidToken();
           
           if (!isTokenValid) {
-            throw new Error('Authentication failed');
+            throw new Error('SESSION_EXPIRED');
           }
           
           // Use the potentially refreshed token
@@ -79,58 +97,110 @@ class ApiService {
       (error) => Promise.reject(error)
     );
 
-    // Response interceptor
+    // Response interceptor - every body becomes a Result, HTTP errors included.
+    // Only requests that got no response (network, auth guard) still reject
     this.axiosInstance.interceptors.response.use(
       (response) => {
+        response.data = toResult(response.data, response.status);
         return response;
       },
-      (error) => {
+      async (error) => {
+        const config: ReplayableRequestConfig | undefined = error.config;
+        if (error.response?.status === 401 && config && !config.isReplay && !isPublicEndpoint(config.url)) {
+          return this.replayAfterRefresh(config);
+        }
+
         if (error.response?.status === 401) {
           // Handle unauthorized access
           this.setAuthToken(null);
           // You can emit an event here to trigger logout
         }
+        if (error.response) {
+          error.response.data = toResult(error.response.data, error.response.status);
+          return error.response;
+        }
         return Promise.reject(error);
       }
     );
   }
 
+  // A 401 means the access token was rejected before its expiry - refresh once, then send the request again.
+  // Parallel 401s share the refresh in flight; a failed refresh has already logged the user out
+  private async replayAfterRefresh(config: ReplayableRequestConfig) {
+    const { useAuthStore } = await import('../store/authStore');
+    const sentToken = String(config.headers?.Authorization || '').replace(/^Bearer\s+/i, '');
+
+    // Another request may have refreshed while this one was out
+    if (sentToken === useAuthStore.getState().accessToken) {
+      try {
+        await useAuthStore.getState().refreshAuthToken();
+      } catch {
+        throw new Error('SESSION_EXPIRED');
+      }
+    }
+
+    config.isReplay = true;
+    return this.axiosInstance.request(config);
+  }
+
   setAuthToken(token: string | null) {
     this.authToken = token;
   }
 
+  // Swap how requests are sent; no transport restores the real HTTP one
+  setTransport(transport?: AxiosAdapter) {
+    this.axiosInstance.defaults.adapter = transport ?? this.defaultAdapter;
+  }
+
   // Authentication endpoints
-  async login(credentials: LoginRequest): Promise<ApiResponse<AuthResponseDto>> {
+  async login(credentials: LoginRequest): Promise<Result<AuthResponseDto>> {
     const response = await this.axiosInstance.post('/api/account/loginMobile', credentials);
     return response.data;
   }
 
-  async refreshToken(refreshTokenRequest: RefreshTokenRequest): Promise<ApiResponse<AuthResponseDto>> {
+  async refreshToken(refreshTokenRequest: RefreshTokenRequest): Promise<Result<AuthResponseDto>> {
     const response = await this.axiosInstance.post('/api/account/refresh-token', refreshTokenRequest);
     return response.data;
   }
 
-  async logout(): Promise<ApiResponse<boolean>> {
+  async logout(): Promise<Result<boolean>> {
     const response = await this.axiosInstance.post('/api/account/logout');
     return response.data;
   }
 
-  async updateProfile(userData: UpdateProfileRequest): Promise<ApiResponse<User>> {
+  // Devices & sessions
+  async getSessions(): Promise<Result<DeviceSession[]>> {
+    const response = await this.axiosInstance.get('/api/account/sessions');
+    return response.data;
+  }
+
+  async revokeSession(sessionId: string): Promise<Result<boolean>> {
+    const response = await this.axiosInstance.delete(`/api/account/sessions/${sessionId}`);
+    return response.data;
+  }
+
+  // Ends every session of the account, this one included
+  async logoutAllSessions(): Promise<Result<boolean>> {
+    const response = await this.axiosInstance.post('/api/account/logout-all');
+    return response.data;
+  }
+
+  async updateProfile(userData: UpdateProfileRequest): Promise<Result<User>> {
     const response = await this.axiosInstance.put('/api/account/profile', userData);
     return response.data;
   }
 
-  async changePassword(data: ChangePasswordRequest): Promise<ApiResponse<boolean>> {
+  async changePassword(data: ChangePasswordRequest): Promise<Result<boolean>> {
     const response = await this.axiosInstance.post('/api/account/change-password', data);
     return response.data;
   }
 
-  async updateUserConfig(data: UpdateUserConfigRequest): Promise<ApiResponse<boolean>> {
+  async updateUserConfig(data: UpdateUserConfigRequest): Promise<Result<boolean>> {
     const response = await this.axiosInstance.put('/api/account/user-config', data);
     return response.data;
   }
 
-  async uploadAvatar(formData: FormData): Promise<ApiResponse<AvatarUploadResponse>> {
+  async uploadAvatar(formData: FormData): Promise<Result<AvatarUploadResponse>> {
     const response = await this.axiosInstance.post('/api/account/upload-avatar', formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
@@ -139,17 +209,36 @@ class ApiService {
     return response.data;
   }
 
-  async updateFace(formData: FormData): Promise<ApiResponse<boolean>> {
+  // One photo per pose, sent together; problems come back per pose
+  async updateFace(shots: FaceEnrollmentShot[]): Promise<Result<FaceEnrollmentResult>> {
+    const formData = new FormData();
+    shots.forEach(shot => {
+      formData.append('FaceImages', {
+        uri: shot.uri,
+        type: 'image/jpeg',
+        name: `face-${shot.pose}.jpg`,
+      } as any);
+      formData.append('Poses', shot.pose);
+    });
+
     const response = await this.axiosInstance.put('/api/account/updateFace', formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
-      timeout: 40000, // 40 seconds for AI face processing
+      timeout: 40000 * Math.max(1, shots.length), // 40 seconds of AI face processing per photo
     });
-    return response.data;
+
+    const result: Result = response.data;
+    return {
+      ...result,
+      data: {
+        enrolledPoses: result.data?.enrolledPoses ?? (result.isSuccess ? shots.map(shot => shot.pose) : []),
+        errors: getFaceEnrollmentErrors(result),
+      },
+    };
   }
 
-  async loginByFace(formData: FormData): Promise<ApiResponse<AuthResponseDto>> {
+  async loginByFace(formData: FormData): Promise<Result<AuthResponseDto>> {
     const response = await this.axiosInstance.post('/api/account/loginByFaceMobile', formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
@@ -159,82 +248,130 @@ class ApiService {
     return response.data;
   }
 
-  async forgotPassword(data: ForgotPasswordRequest): Promise<ApiResponse<boolean>> {
+  async forgotPassword(data: ForgotPasswordRequest): Promise<Result<boolean>> {
     const response = await this.axiosInstance.post('/api/account/forgot-password', data);
     return response.data;
   }
 
-  async resetPassword(data: ResetPasswordRequest): Promise<ApiResponse<boolean>> {
+  async resetPassword(data: ResetPasswordRequest): Promise<Result<boolean>> {
     const response = await this.axiosInstance.post('/api/account/reset-password', data);
     return response.data;
   }
 
   // Events endpoints - Cập nhật theo API mới
-  async getAssignedEvents(): Promise<ApiResponse<Event[]>> {
+  async getAssignedEvents(): Promise<Result<Event[]>> {
     const response = await this.axiosInstance.get('/api/Event/collaborator/my-events');
     return response.data;
   }
 
-  async getEventById(eventId: string): Promise<ApiResponse<Event>> {
+  async getEventById(eventId: string): Promise<Result<Event>> {
     const response = await this.axiosInstance.get(`/api/Event/${eventId}`);
     return response.data;
   }
 
-  async getEventStats(eventId: string): Promise<ApiResponse<any>> {
+  async getEventStats(eventId: string): Promise<Result<any>> {
     const response = await this.axiosInstance.get(`/api/Event/${eventId}/stats`);
     return response.data;
   }
 
   // Check-in endpoints - Cập nhật theo API mới
-  async checkInByQR(request: CheckInRequest): Promise<BackendApiResponse<boolean>> {
+  // Rejected tickets come back as a typed outcome; network errors still throw so callers can queue
+  async checkInByQR(request: CheckInRequest): Promise<CheckInOutcome> {
     const response = await this.axiosInstance.post('/api/TicketIssued/checkinMobile', request);
+    const result: Result = response.data;
+
+    // Newer backends return ticket details instead of a bare boolean
+    const details = result.data && typeof result.data === 'object' ? result.data : {};
+    const ticket: CheckInTicketInfo = {
+      ticketCode: request.qrContent,
+      ticketType: details.ticketName || details.ticketType,
+      customerName: details.customerName,
+      eventId: details.eventId,
+      eventName: details.eventName,
+    };
+
+    if (result.isSuccess && result.data) {
+      return { status: 'success', reason: 'CHECKED_IN', ticket, checkedInAt: details.checkedInAt };
+    }
+
+    return this.withTicketEvent(getCheckInOutcomeFromResult(result, ticket));
+  }
+
+  // Undo a check-in made by mistake; the reason is kept in the backend audit trail
+  async revertCheckIn(request: RevertCheckInRequest): Promise<Result<boolean>> {
+    const response = await this.axiosInstance.post('/api/TicketIssued/checkin/revert', request);
     return response.data;
   }
 
+  // Wrong-event rejections don't say which event the ticket is for - look it up
+  private async withTicketEvent(outcome: CheckInOutcome): Promise<CheckInOutcome> {
+    if (outcome.status !== 'wrong_event' || outcome.ticket.eventName) {
+      return outcome;
+    }
+
+    try {
+      const detail = await this.getQRCodeDetail(outcome.ticket.ticketCode);
+      if (detail.isSuccess && detail.data) {
+        return {
+          ...outcome,
+          ticket: {
+            ...outcome.ticket,
+            eventId: detail.data.eventId,
+            eventName: detail.data.eventName,
+            ticketType: outcome.ticket.ticketType || detail.data.ticketName,
+            customerName: outcome.ticket.customerName || detail.data.customerName,
+          },
+        };
+      }
+    } catch (error) {
+      // Keep the outcome without the event name
+    }
+    return outcome;
+  }
+
   // Get check-in history for an event (paginated)
-  async getCheckInHistory(eventId: string, pageNumber: number = 1, pageSize: number = 10): Promise<CheckInHistoryResponse> {
+  async getCheckInHistory(eventId: string, pageNumber: number = 1, pageSize: number = 10): Promise<Result<PagedList<CheckInLogItem>>> {
     const response = await this.axiosInstance.get(`/api/TicketIssued/checkinloghistory/${eventId}?pageNumber=${pageNumber}&pageSize=${pageSize}`);
-    
-    // Handle backend response format mapping
-    const backendResponse = response.data;
-    
-    // Map backend format {success, message, data} to expected format {isSuccess, message, data}
-    if (backendResponse && typeof backendResponse.success === 'boolean') {
-      return {
-        isSuccess: backendResponse.success,
-        message: backendResponse.message,
-        data: backendResponse.data
-      };
-    }
-    
-    // If already in expected format, return as is
-    return backendResponse;
+    return response.data;
   }
 
   // Get QR code ticket detail
-  async getQRCodeDetail(qrCode: string): Promise<QRCodeDetailResponse> {
+  async getQRCodeDetail(qrCode: string): Promise<Result<QRCodeDetailItem>> {
     const response = await this.axiosInstance.get(`/api/TicketIssued/qrdetail/${qrCode}`);
-    
-    // Handle backend response format mapping
-    const backendResponse = response.data;
-    
-    // Map backend format {success, message, data} to expected format {isSuccess, message, data}
-    if (backendResponse && typeof backendResponse.success === 'boolean') {
-      return {
-        isSuccess: backendResponse.success,
-        message: backendResponse.message,
-        data: backendResponse.data
-      };
-    }
-    
-    // If already in expected format, return as is
-    return backendResponse;
+    return response.data;
+  }
+
+  // Search an event's issued tickets by customer name, email or ticket code fragment (paginated)
+  async searchIssuedTickets(
+    eventId: string,
+    keyword: string,
+    pageNumber: number = 1,
+    pageSize: number = 20
+  ): Promise<Result<PagedList<QRCodeDetailItem>>> {
+    const params = new URLSearchParams();
+    params.append('keyword', keyword);
+    params.append('pageNumber', pageNumber.toString());
+    params.append('pageSize', pageSize.toString());
+
+    const response = await this.axiosInstance.get(`/api/TicketIssued/event/${eventId}/search?${params}`);
+    return response.data;
+  }
+
+  // Get issued-ticket manifest for an event (full, or changes since a version stamp)
+  async getTicketManifest(eventId: string, since?: string): Promise<Result<TicketManifestPayload>> {
+    const params = new URLSearchParams();
+    if (since) params.append('since', since);
+
+    const response = await this.axiosInstance.get(`${API_ENDPOINTS.TICKET_MANIFEST(eventId)}?${params}`, {
+      timeout: 60000, // Large events can return thousands of tickets
+    });
+    return response.data;
   }
 
   async getCheckinHistory(
     eventId: string, 
     pagination?: PaginationParams
-  ): Promise<ApiResponse<PaginatedData<TicketIssued>>> {
+  ): Promise<Result<PaginatedData<TicketIssued>>> {
     const params = new URLSearchParams();
     if (pagination?.page) params.append('Page', pagination.page.toString());
     if (pagination?.pageSize) params.append('PageSize', pagination.pageSize.toString());
@@ -244,12 +381,12 @@ class ApiService {
   }
 
   // News endpoints - Cập nhật theo API mới (PUBLIC)
-  async getActiveNews(pagination?: PaginationParams): Promise<ApiResponse<PaginatedData<News>>> {
+  async getActiveNews(pagination?: PaginationParams): Promise<Result<PaginatedData<News>>> {
     const response = await this.axiosInstance.get('/api/News/all-Home');
     return response.data;
   }
 
-  async getNewsById(newsId: string): Promise<ApiResponse<News>> {
+  async getNewsById(newsId: string): Promise<Result<News>> {
     const response = await this.axiosInstance.get(`/api/News/${newsId}`);
     return response.data;
   }
@@ -258,83 +395,48 @@ class ApiService {
   async getUserNotifications(
     userId: string,
     pagination?: PaginationParams
-  ): Promise<ApiResponse<PaginatedData<Notification>>> {
+  ): Promise<Result<PaginatedData<Notification>>> {
     const params = new URLSearchParams();
     if (pagination?.page) params.append('page', pagination.page.toString());
     if (pagination?.pageSize) params.append('pageSize', pagination.pageSize.toString());
 
     const response = await this.axiosInstance.get(`/api/Notification/user/${userId}?${params}`);
-    
-    // Handle backend response format mapping if needed
-    const backendResponse = response.data;
-    
-    // Check if backend returns {success, message, data} format instead of {flag, message, data}
-    if (backendResponse && typeof backendResponse.success === 'boolean') {
-      return {
-        flag: backendResponse.success,
-        code: backendResponse.success ? 200 : 400,
-        message: backendResponse.message || '',
-        data: backendResponse.data
-      };
-    }
-    
-    // If already in expected format, return as is
     return response.data;
   }
 
-  async markNotificationAsRead(notificationId: string, userId: string): Promise<ApiResponse<boolean>> {
+  async markNotificationAsRead(notificationId: string, userId: string): Promise<Result<boolean>> {
     const response = await this.axiosInstance.put(`/api/Notification/${notificationId}/read?userId=${userId}`);
-    
-    // Handle backend response format mapping if needed
-    const backendResponse = response.data;
-    
-    // Check if backend returns {success, message, data} format instead of {flag, message, data}
-    if (backendResponse && typeof backendResponse.success === 'boolean') {
-      return {
-        flag: backendResponse.success,
-        code: backendResponse.success ? 200 : 400,
-        message: backendResponse.message || '',
-        data: backendResponse.data
-      };
-    }
-    
-    // If already in expected format, return as is
     return response.data;
   }
 
-  async markAllNotificationsAsRead(userId: string): Promise<ApiResponse<boolean>> {
+  async markAllNotificationsAsRead(userId: string): Promise<Result<boolean>> {
     const response = await this.axiosInstance.put(`/api/Notification/user/${userId}/read-all`);
-    
-    // Handle backend response format mapping if needed
-    const backendResponse = response.data;
-    
-    // Check if backend returns {success, message, data} format instead of {flag, message, data}
-    if (backendResponse && typeof backendResponse.success === 'boolean') {
-      return {
-        flag: backendResponse.success,
-        code: backendResponse.success ? 200 : 400,
-        message: backendResponse.message || '',
-        data: backendResponse.data
-      };
-    }
-    
-    // If already in expected format, return as is
+    return response.data;
+  }
+
+  async markNotificationAsUnread(notificationId: string, userId: string): Promise<Result<boolean>> {
+    const response = await this.axiosInstance.put(`/api/Notification/${notificationId}/unread?userId=${userId}`);
+    return response.data;
+  }
+
+  async deleteNotification(notificationId: string, userId: string): Promise<Result<boolean>> {
+    const response = await this.axiosInstance.delete(`/api/Notification/${notificationId}?userId=${userId}`);
     return response.data;
   }
 
   // Settings endpoints
-  async getUserSettings(accountId: string): Promise<ApiResponse<UserSettings>> {
+  async getUserSettings(accountId: string): Promise<Result<UserSettings>> {
     const response = await this.axiosInstance.get(`/api/user/${accountId}/config`);
     return response.data;
   }
 
-  async updateUserSettings(accountId: string, settings: Partial<UserSettings>): Promise<ApiResponse<UserSettings>> {
+  async updateUserSettings(accountId: string, settings: Partial<UserSettings>): Promise<Result<UserSettings>> {
     const response = await this.axiosInstance.put(`/api/user/${accountId}/config`, settings);
     return response.data;
   }
 
   // Face Check-in endpoint
-  async checkInByFace(eventId: string, imageUri: string): Promise<FaceCheckInResponse> {
+  async checkInByFace(eventId: string, imageUri: string): Promise<Result<FaceCheckInData>> {
     const formData = new FormData();
     formData.append('EventId', eventId);
     formData.append('FaceImage', {
@@ -350,17 +452,22 @@ class ApiService {
       }
     });
 
-    return response.data;
+    const result: Result<FaceCheckInData> = response.data;
+    if (result.data?.checkinDetails) {
+      result.data.outcomes = result.data.checkinDetails.map(detail => mapFaceCheckInDetail(detail, result.data));
+    }
+
+    return result;
   }
 
   // Dashboard stats
-  async getDashboardStats(): Promise<ApiResponse<DashboardStats>> {
+  async getDashboardStats(): Promise<Result<DashboardStats>> {
     const response = await this.axiosInstance.get('/api/dashboard/stats');
     return response.data;
   }
 
   // Lấy thống kê collaborator
-  async getCollaboratorStatic(userId: string): Promise<CollaboratorStaticResponse> {
+  async getCollaboratorStatic(userId: string): Promise<Result<CollaboratorStaticResponse>> {
     const response = await this.axiosInstance.get(`/api/Event/collaborator/static?userId=${userId}`);
     return response.data;
   }
@@ -372,4 +479,7 @@ class ApiService {
   }
 }
 
-export const apiService = new ApiService(); 
+// Required lazily so release bundles drop the mock transport and its fixtures
+export const apiService = new ApiService(
+  __DEV__ && DEV_CONFIG.MOCK_APIS ? require('./mockTransport').createMockTransport() : undefined
+); 
@@ -0,0 +1,36 @@
+import { Result } from '../types';
+import { getResultErrorCode } from '../utils/errorHandler';
+
+const pickFlag = (body: any): boolean | undefined =>
+  [body.flag, body.success, body.isSuccess].find(value => typeof value === 'boolean');
+
+// Normalizes every backend body into a Result:
+// {flag, code, message, data} (account, events, news, settings), {success, message, data}
+// (tickets, notifications), {isSuccess, message, data} (face check-in), or a bare payload (stats)
+export const toResult = <T = any>(body: any, httpStatus: number): Result<T> => {
+  const isHttpSuccess = httpStatus >= 200 && httpStatus < 300;
+  const isObject = !!body && typeof body === 'object' && !Array.isArray(body);
+  const flag = isObject ? pickFlag(body) : undefined;
+
+  let result: Omit<Result<T>, 'errorCode'>;
+  if (flag !== undefined) {
+    result = {
+      isSuccess: flag && isHttpSuccess,
+      status: typeof body.code === 'number' ? body.code : httpStatus,
+      message: body.message || body.Message || '',
+      data: body.data ?? null,
+    };
+  } else {
+    result = {
+      isSuccess: isHttpSuccess,
+      status: httpStatus,
+      message: (!isHttpSuccess && (typeof body === 'string' ? body : isObject && (body.message || body.error || body.title))) || '',
+      data: isHttpSuccess ? body : null,
+    };
+  }
+
+  return {
+    ...result,
+    errorCode: result.isSuccess ? null : getResultErrorCode(result.status, result.message),
+  };
+};
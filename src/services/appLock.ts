@@ -0,0 +1,41 @@
+import * as Keychain from 'react-native-keychain';
+import { SECURITY_CONFIG } from '../utils/config';
+
+// The lock is a keystore entry behind biometry-or-passcode access control:
+// reading it back is what shows the system Face ID / fingerprint / PIN prompt
+const LOCK_SERVICE = `${SECURITY_CONFIG.KEYCHAIN_SERVICE_PREFIX}app-lock`;
+
+// Biometrics can only be enrolled on a device with a passcode, so this covers both
+export const isAppLockAvailable = async (): Promise<boolean> => {
+  try {
+    return await Keychain.isPasscodeAuthAvailable();
+  } catch {
+    return false;
+  }
+};
+
+export const enableAppLock = async (): Promise<void> => {
+  await Keychain.setGenericPassword('app-lock', String(Date.now()), {
+    service: LOCK_SERVICE,
+    accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_ANY_OR_DEVICE_PASSCODE,
+    accessible: Keychain.ACCESSIBLE.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+  });
+};
+
+export const disableAppLock = async (): Promise<void> => {
+  await Keychain.resetGenericPassword({ service: LOCK_SERVICE });
+};
+
+// Resolves false when the user cancels or fails the prompt
+export const authenticateAppLock = async (prompt: Keychain.AuthenticationPrompt): Promise<boolean> => {
+  try {
+    const credentials = await Keychain.getGenericPassword({
+      service: LOCK_SERVICE,
+      accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_ANY_OR_DEVICE_PASSCODE,
+      authenticationPrompt: prompt,
+    });
+    return !!credentials;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,59 @@
+import { HubEventName, HubEventMap, HubEventHandler } from '../types';
+import { DEV_CONFIG } from '../utils/config';
+import { validateHubPayload } from '../utils/hubContract';
+
+type HandlerSets = { [K in HubEventName]?: Set<HubEventHandler<K>> };
+
+// Fans hub messages out to whoever subscribed - the SignalR service only calls emit
+export class HubEventRegistry {
+  private handlers: HandlerSets = {};
+  private validate: boolean;
+
+  constructor(validate: boolean = DEV_CONFIG.ENABLE_DEBUG) {
+    this.validate = validate;
+  }
+
+  // Returns the matching unsubscribe function
+  on<K extends HubEventName>(event: K, handler: HubEventHandler<K>): () => void {
+    this.ensureHandlers(event).add(handler);
+    return () => this.off(event, handler);
+  }
+
+  off<K extends HubEventName>(event: K, handler: HubEventHandler<K>): void {
+    this.handlers[event]?.delete(handler);
+  }
+
+  emit<K extends HubEventName>(event: K, payload: HubEventMap[K]): void {
+    if (this.validate) {
+      const problems = validateHubPayload(event, payload);
+      if (problems.length > 0) {
+        console.warn(`[SignalR] ${event} payload does not match the hub contract:`, problems, payload);
+      }
+    }
+
+    // One failing handler must not starve the others
+    this.handlers[event]?.forEach(handler => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`[SignalR] ${event} handler failed:`, error);
+      }
+    });
+  }
+
+  listenerCount(event: HubEventName): number {
+    return this.handlers[event]?.size || 0;
+  }
+
+  clear(): void {
+    this.handlers = {};
+  }
+
+  // Narrowing the map to K keeps the new set tied to that event's payload
+  private ensureHandlers<K extends HubEventName>(event: K): Set<HubEventHandler<K>> {
+    const handlers: { [P in K]?: Set<HubEventHandler<P>> } = this.handlers;
+    return handlers[event] ?? (handlers[event] = new Set());
+  }
+}
+
+export const hubEventRegistry = new HubEventRegistry();
@@ -0,0 +1,54 @@
+import { useNotificationStore, initializeNotifications } from '../store/notificationStore';
+import { useEventStore } from '../store/eventStore';
+import { useNewsStore } from '../store/newsStore';
+import { useCheckInStore } from '../store/checkInStore';
+import { useAuthStore } from '../store/authStore';
+import { useEventDashboardStore } from '../store/eventDashboardStore';
+import { hubEventRegistry } from './hubEventRegistry';
+import { notificationDeliveryService } from './notificationPresenter';
+
+// App-wide hub subscriptions; screens add their own (e.g. the live event dashboard)
+export const registerDefaultHubHandlers = (): (() => void) => {
+  const unsubscribers = [
+    // Notification
+    hubEventRegistry.on('ReceiveNotification', notification => {
+      if (!notification?.notificationId) {
+        return;
+      }
+      useNotificationStore.getState().addNotification(notification);
+      notificationDeliveryService.deliver(notification);
+    }),
+
+    // Dashboard/collaborator
+    hubEventRegistry.on('OnCollaboratorStaticChanged', stats => {
+      useEventStore.getState().setCollaboratorStats(stats);
+    }),
+
+    // Check-in history
+    hubEventRegistry.on('OnCheckinLogHistoryChanged', checkinLogs => {
+      useCheckInStore.getState().setCheckInHistoryRealtime(checkinLogs);
+    }),
+
+    // News
+    hubEventRegistry.on('OnNewsCreated', news => {
+      useNewsStore.getState().setNewsRealtime(news);
+    }),
+    hubEventRegistry.on('OnNewsUpdated', news => {
+      useNewsStore.getState().setNewsRealtime(news);
+    }),
+  ];
+
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
+
+// Pushes missed while the hub was down are gone - refetch what they would have updated.
+// Check-in history screens reload themselves off connectionStore.lastResyncAt.
+export const resyncAfterReconnect = async (): Promise<void> => {
+  useAuthStore.getState().setShouldRefreshHomeStats(true);
+
+  const dashboard = useEventDashboardStore.getState();
+  await Promise.all([
+    initializeNotifications(),
+    dashboard.eventId ? dashboard.loadStats() : Promise.resolve(),
+  ]);
+};
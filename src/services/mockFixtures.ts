@@ -0,0 +1,360 @@
+import {
+  AuthResponseDto,
+  CheckInLogItem,
+  DeviceSession,
+  Event,
+  News,
+  NewsStatus,
+  Notification,
+  NotificationType,
+  QRCodeDetailItem,
+  UserSettings,
+} from '../types';
+
+// Sign in to the mock backend with these
+export const MOCK_CREDENTIALS = {
+  username: 'collaborator',
+  password: 'Vezzy@123',
+};
+
+// Accepted by reset-password in place of the emailed code
+export const MOCK_VERIFICATION_CODE = '123456';
+
+export type MockAccount = AuthResponseDto['account'] & { fullName: string };
+
+// Issued ticket as the mock backend keeps it - `version` drives incremental manifests
+export interface MockTicket extends QRCodeDetailItem {
+  version: number;
+}
+
+// Signed-in device as the mock backend keeps it - whether it is the caller's is decided per request
+export type MockSession = Omit<DeviceSession, 'isCurrent'>;
+
+export interface MockFixtures {
+  account: MockAccount;
+  password: string;
+  events: Event[];
+  tickets: MockTicket[];
+  checkInLogs: CheckInLogItem[];
+  news: News[];
+  notifications: Notification[];
+  settings: UserSettings;
+  faceCustomerEmail: string; // Customer the face check-in endpoint "recognises"
+  sessions: MockSession[];
+}
+
+const NEWS_IMAGE_URL = 'https://placehold.co/600x400/png?text=Vezzy';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Vietnam is UTC+7 with no daylight saving
+const toVietnamTime = (iso: string) => new Date(new Date(iso).getTime() + 7 * HOUR).toISOString().replace('Z', '');
+
+const customers = [
+  { name: 'Nguyễn Văn An', email: 'an.nguyen@example.com' },
+  { name: 'Trần Thị Bình', email: 'binh.tran@example.com' },
+  { name: 'Lê Hoàng Cường', email: 'cuong.le@example.com' },
+  { name: 'Phạm Minh Duy', email: 'duy.pham@example.com' },
+  { name: 'Võ Thị Em', email: 'em.vo@example.com' },
+  { name: 'Hoàng Gia Huy', email: 'huy.hoang@example.com' },
+];
+
+const makeTicket = (
+  event: Event,
+  index: number,
+  ticketName: string,
+  customer: { name: string; email: string },
+  createdAt: string
+): MockTicket => {
+  const qrCode = `VZ-${event.eventId.slice(-4).toUpperCase()}-${String(index + 1).padStart(4, '0')}`;
+  return {
+    issuedId: `${event.eventId}-issued-${index + 1}`,
+    qrCode,
+    ticketId: `${event.eventId}-${ticketName.toLowerCase()}`,
+    eventId: event.eventId,
+    isCheckedIn: false,
+    checkedInAt: null,
+    checkedInBy: null,
+    checkerName: '',
+    ticketName,
+    eventName: event.eventName,
+    customerEmail: customer.email,
+    customerName: customer.name,
+    status: 'Not Checked In',
+    message: '',
+    createdAt,
+    qrCodeUrl: `https://api.vezzy.site/qr/${qrCode}.png`,
+    version: 1,
+  };
+};
+
+// Fresh data set; dates are relative to `now` so there is always an ongoing event to scan for
+export const createMockFixtures = (now: number = Date.now()): MockFixtures => {
+  const iso = (offset: number) => new Date(now + offset).toISOString();
+
+  const account: MockAccount = {
+    accountId: 'a1b2c3d4-0000-4000-8000-000000000001',
+    username: MOCK_CREDENTIALS.username,
+    email: 'collaborator@vezzy.site',
+    role: 3,
+    isActive: true,
+    isEmailVerified: true,
+    isOnline: true,
+    lastActiveAt: iso(-HOUR),
+    lastLoginDevice: 'Mock device',
+    createdAt: iso(-90 * DAY),
+    lastLogin: iso(-DAY),
+    userId: 'u1b2c3d4-0000-4000-8000-000000000001',
+    fullName: 'Mock Collaborator',
+    phone: '0901234567',
+    gender: 0,
+    location: 'Hồ Chí Minh',
+    userConfig: {
+      language: 0,
+      theme: 0,
+      receiveEmail: true,
+      receiveNotify: true,
+    },
+  };
+
+  const events: Event[] = [
+    {
+      eventId: 'e0000000-0000-4000-8000-000000000101',
+      eventName: 'Vezzy Music Night',
+      eventDescription: 'Live acoustic night with local bands.',
+      startAt: iso(-HOUR),
+      endAt: iso(4 * HOUR),
+      isApproved: 'Approved',
+      isCancelled: false,
+      createdBy: 'event-manager-1',
+      categoryId: 'c0000000-0000-4000-8000-000000000001',
+    },
+    {
+      eventId: 'e0000000-0000-4000-8000-000000000102',
+      eventName: 'Tech Conference 2026',
+      eventDescription: 'Talks and workshops on mobile and cloud.',
+      startAt: iso(2 * DAY),
+      endAt: iso(2 * DAY + 8 * HOUR),
+      isApproved: 'Approved',
+      isCancelled: false,
+      createdBy: 'event-manager-2',
+      categoryId: 'c0000000-0000-4000-8000-000000000002',
+    },
+    {
+      eventId: 'e0000000-0000-4000-8000-000000000103',
+      eventName: 'Autumn Food Festival',
+      eventDescription: 'Street food from every region.',
+      startAt: iso(-7 * DAY),
+      endAt: iso(-7 * DAY + 6 * HOUR),
+      isApproved: 'Approved',
+      isCancelled: false,
+      createdBy: 'event-manager-1',
+      categoryId: 'c0000000-0000-4000-8000-000000000003',
+    },
+    {
+      eventId: 'e0000000-0000-4000-8000-000000000104',
+      eventName: 'Riverside Marathon',
+      eventDescription: 'Cancelled because of the weather forecast.',
+      startAt: iso(DAY),
+      endAt: iso(DAY + 5 * HOUR),
+      isApproved: 'Approved',
+      isCancelled: true,
+      createdBy: 'event-manager-3',
+      categoryId: 'c0000000-0000-4000-8000-000000000004',
+    },
+  ];
+
+  const [ongoing, upcoming, completed, cancelled] = events;
+  const tickets: MockTicket[] = [
+    ...customers.map((customer, index) =>
+      makeTicket(ongoing, index, index % 3 === 0 ? 'VIP' : 'Standard', customer, iso(-5 * DAY))
+    ),
+    makeTicket(ongoing, customers.length, 'Standard', customers[0], iso(-5 * DAY)),
+    ...customers.slice(0, 3).map((customer, index) => makeTicket(upcoming, index, 'Standard', customer, iso(-2 * DAY))),
+    ...customers.slice(0, 4).map((customer, index) => makeTicket(completed, index, 'Standard', customer, iso(-14 * DAY))),
+    makeTicket(cancelled, 0, 'Standard', customers[1], iso(-3 * DAY)),
+  ];
+
+  // Some tickets are already checked in so history, stats and "already used" can be tried out
+  const checkInLogs: CheckInLogItem[] = [];
+  const markCheckedIn = (ticket: MockTicket, checkedInAt: string) => {
+    ticket.isCheckedIn = true;
+    ticket.checkedInAt = checkedInAt;
+    ticket.checkedInBy = account.accountId;
+    ticket.checkerName = account.fullName;
+    ticket.status = 'Checked In';
+    checkInLogs.unshift({
+      issuedId: ticket.issuedId,
+      checkInLogId: `log-${checkInLogs.length + 1}`,
+      qrCode: ticket.qrCode,
+      ticketId: ticket.ticketId,
+      eventId: ticket.eventId,
+      checkedInAt,
+      checkedInBy: account.accountId,
+      checkerName: account.fullName,
+      ticketName: ticket.ticketName,
+      eventName: ticket.eventName,
+      customerEmail: ticket.customerEmail,
+      customerName: ticket.customerName,
+      checkInMethod: 'QrCode',
+      used: true,
+      status: 'Success',
+      createdAt: checkedInAt,
+    });
+  };
+  const ongoingTickets = tickets.filter(ticket => ticket.eventId === ongoing.eventId);
+  markCheckedIn(ongoingTickets[1], iso(-40 * MINUTE));
+  markCheckedIn(ongoingTickets[2], iso(-3 * MINUTE));
+  tickets
+    .filter(ticket => ticket.eventId === completed.eventId)
+    .slice(0, 3)
+    .forEach((ticket, index) => markCheckedIn(ticket, iso(-7 * DAY + (index + 1) * 10 * MINUTE)));
+
+  const news: News[] = [
+    {
+      newsId: 'n0000000-0000-4000-8000-000000000001',
+      eventId: ongoing.eventId,
+      newsTitle: 'Doors open at 6 PM',
+      newsDescription: 'Gate B opens early for VIP ticket holders.',
+      newsContent: 'Gate B opens at 5:30 PM for VIP ticket holders. Standard tickets enter through Gate A from 6 PM.',
+      authorId: 'event-manager-1',
+      authorName: 'Vezzy Events',
+      imageUrl: NEWS_IMAGE_URL,
+      status: NewsStatus.Approved,
+      createdAt: iso(-DAY),
+      updatedAt: iso(-DAY),
+    },
+    {
+      newsId: 'n0000000-0000-4000-8000-000000000002',
+      eventId: upcoming.eventId,
+      newsTitle: 'Speaker line-up announced',
+      newsDescription: 'Twelve speakers confirmed for Tech Conference 2026.',
+      newsContent: 'The full agenda is now available. Workshops need a separate registration at the help desk.',
+      authorId: 'event-manager-2',
+      authorName: 'Tech Conference',
+      status: NewsStatus.Approved,
+      createdAt: iso(-3 * DAY),
+      updatedAt: iso(-2 * DAY),
+    },
+    {
+      newsId: 'n0000000-0000-4000-8000-000000000003',
+      newsTitle: 'New check-in app release',
+      newsDescription: 'Continuous scanning and offline mode are here.',
+      newsContent: 'Collaborators can now keep scanning while offline; check-ins sync once the connection is back.',
+      authorId: 'admin-1',
+      authorName: 'Vezzy',
+      status: NewsStatus.Approved,
+      createdAt: iso(-10 * DAY),
+      updatedAt: iso(-10 * DAY),
+    },
+  ];
+
+  const makeNotification = (
+    index: number,
+    notificationType: NotificationType,
+    notificationTitle: string,
+    notificationMessage: string,
+    ageMs: number,
+    redirectUrl?: string,
+    readAgeMs?: number
+  ): Notification => {
+    const createdAt = iso(-ageMs);
+    const readAt = readAgeMs !== undefined ? iso(-readAgeMs) : undefined;
+    return {
+      notificationId: `notif-${index}`,
+      userId: account.userId,
+      notificationTitle,
+      notificationMessage,
+      notificationType,
+      isRead: readAt !== undefined,
+      redirectUrl,
+      createdAt,
+      createdAtVietnam: toVietnamTime(createdAt),
+      readAt,
+      readAtVietnam: readAt ? toVietnamTime(readAt) : undefined,
+    };
+  };
+
+  const notifications: Notification[] = [
+    makeNotification(
+      1,
+      NotificationType.EventManagerUpdateEvent,
+      'Sự kiện được cập nhật',
+      `"${ongoing.eventName}" đã đổi giờ mở cửa. Vui lòng kiểm tra chi tiết.`,
+      30 * MINUTE,
+      `/events/${ongoing.eventId}`
+    ),
+    makeNotification(
+      2,
+      NotificationType.EventManagerNewPost,
+      'Tin tức mới',
+      'Có tin tức quan trọng vừa được đăng tải. Hãy xem ngay!',
+      2 * HOUR,
+      `/news/${news[0].newsId}`,
+      HOUR
+    ),
+    makeNotification(
+      3,
+      NotificationType.EventApproved,
+      'Sự kiện được phê duyệt',
+      `"${upcoming.eventName}" đã được phê duyệt và sẽ diễn ra sau 2 ngày.`,
+      DAY,
+      `/events/${upcoming.eventId}`
+    ),
+    makeNotification(
+      4,
+      NotificationType.Other,
+      'Cập nhật hệ thống',
+      'Hệ thống sẽ được bảo trì vào 2:00 AM đêm nay. Vui lòng lưu ý.',
+      3 * DAY,
+      undefined,
+      2 * DAY
+    ),
+    makeNotification(
+      5,
+      NotificationType.PayoutProcessed,
+      'Thanh toán hoàn tất',
+      `Thù lao cho "${completed.eventName}" đã được chuyển.`,
+      7 * DAY,
+      undefined
+    ),
+  ];
+
+  // Another device the collaborator is still signed in on
+  const sessions: MockSession[] = [
+    {
+      sessionId: 's0000000-0000-4000-8000-000000000001',
+      deviceId: 'mock-tablet',
+      deviceName: 'Samsung Galaxy Tab S9',
+      platform: 'android',
+      osVersion: '34',
+      appVersion: '1.0.0',
+      ipAddress: '14.161.22.5',
+      location: 'Hà Nội, Việt Nam',
+      createdAt: iso(-2 * DAY),
+      lastActiveAt: iso(-3 * HOUR),
+    },
+  ];
+
+  const settings: UserSettings = {
+    language: 'vi',
+    theme: 'system',
+    notifications: { push: true, email: true, sms: false },
+    privacy: { profileVisibility: 'private', showOnlineStatus: true },
+  };
+
+  return {
+    account,
+    password: MOCK_CREDENTIALS.password,
+    events,
+    tickets,
+    checkInLogs,
+    news,
+    notifications,
+    settings,
+    faceCustomerEmail: customers[0].email,
+    sessions,
+  };
+};
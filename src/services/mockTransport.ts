@@ -0,0 +1,741 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import {
+  CheckInLogItem,
+  CheckInTicketDetail,
+  DeviceInfo,
+  Event,
+  NewsStatus,
+  QRCodeDetailItem,
+  Role,
+} from '../types';
+import { DEV_CONFIG, FACE_ENROLLMENT_CONFIG } from '../utils/config';
+import {
+  createMockFixtures,
+  MockFixtures,
+  MockSession,
+  MockTicket,
+  MOCK_VERIFICATION_CODE,
+} from './mockFixtures';
+
+type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+interface MockRequest {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: any;
+  accountId: string | null; // Owner of the bearer token, null on public routes
+  sessionId: string | null; // Device session the bearer token was issued to
+}
+
+interface MockResult {
+  status?: number; // Defaults to 200
+  data: any;
+}
+
+interface MockRoute {
+  method: HttpMethod;
+  pattern: RegExp;
+  keys: string[];
+  isPublic: boolean;
+  handle: (request: MockRequest, db: MockDatabase) => MockResult;
+}
+
+interface MockDatabase extends MockFixtures {
+  version: number; // Bumped on every ticket change, reported as the manifest version
+  accessTokens: Map<string, { accountId: string; sessionId: string; expiresAt: number }>;
+  refreshTokens: Map<string, { accountId: string; sessionId: string }>;
+}
+
+export interface MockTransportOptions {
+  latency?: number; // ms added to every response
+  now?: () => number;
+  accessTokenTtl?: number; // seconds
+  fixtures?: MockFixtures;
+}
+
+const ACCESS_TOKEN_TTL = 3 * 60 * 60;
+const DAY = 24 * 60 * 60 * 1000;
+
+// Envelopes used by the real backend - most endpoints answer {flag, code, ...}, the ticket ones {success, ...}
+const flagResult = (data: any, message: string = 'Success', code: number = 200): MockResult => ({
+  status: 200,
+  data: { flag: code < 400, code, message, data },
+});
+
+const successResult = (data: any, message: string = 'Success'): MockResult => ({
+  status: 200,
+  data: { success: true, message, data },
+});
+
+const failureResult = (message: string, status: number = 200, data: any = null): MockResult => ({
+  status,
+  data: { success: false, message, data },
+});
+
+const toPage = <T>(items: T[], pageNumber: number, pageSize: number) => {
+  const totalItems = items.length;
+  const totalPages = Math.max(1, Math.ceil(totalItems / pageSize));
+  return {
+    items: items.slice((pageNumber - 1) * pageSize, pageNumber * pageSize),
+    pageNumber,
+    pageSize,
+    totalItems,
+    totalPages,
+    hasNextPage: pageNumber < totalPages,
+    hasPreviousPage: pageNumber > 1,
+  };
+};
+
+const toNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Unsigned JWT shaped like the backend's, so code reading its claims works against the mock too
+const createToken = (claims: object, issuedAt: number, expiresAt: number, kind: string) => {
+  const encode = (value: object) =>
+    btoa(JSON.stringify(value)).replace(/[=]+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+  const payload = {
+    ...claims,
+    typ: kind,
+    iat: Math.floor(issuedAt / 1000),
+    exp: Math.floor(expiresAt / 1000),
+    jti: Math.random().toString(36).slice(2),
+  };
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(payload)}.mock`;
+};
+
+// Multipart bodies: RN's FormData exposes getParts(), the web/Node one get()/getAll()
+const readFormFields = (form: any, name: string): string[] => {
+  const values: unknown[] = typeof form?.getAll === 'function'
+    ? form.getAll(name)
+    : (form?.getParts?.() || []).filter((item: any) => item.fieldName === name).map((item: any) => item.string);
+  return values.filter((value): value is string => typeof value === 'string');
+};
+
+const readFormField = (form: any, name: string): string | undefined => readFormFields(form, name)[0];
+
+const toDetailItem = ({ version: _version, ...ticket }: MockTicket): QRCodeDetailItem => ({
+  ...ticket,
+  message: ticket.isCheckedIn ? 'Ticket has been checked in' : 'Ticket is valid',
+});
+
+const findEvent = (db: MockDatabase, eventId?: string): Event | undefined =>
+  db.events.find(event => event.eventId === eventId);
+
+const checkInTicket = (db: MockDatabase, ticket: MockTicket, accountId: string, checkInMethod: CheckInLogItem['checkInMethod']) => {
+  const checkedInAt = new Date().toISOString();
+  db.version += 1;
+  ticket.isCheckedIn = true;
+  ticket.checkedInAt = checkedInAt;
+  ticket.checkedInBy = accountId;
+  ticket.checkerName = db.account.fullName;
+  ticket.status = 'Checked In';
+  ticket.version = db.version;
+  db.checkInLogs.unshift({
+    issuedId: ticket.issuedId,
+    checkInLogId: `log-${db.checkInLogs.length + 1}-${db.version}`,
+    qrCode: ticket.qrCode,
+    ticketId: ticket.ticketId,
+    eventId: ticket.eventId,
+    checkedInAt,
+    checkedInBy: accountId,
+    checkerName: db.account.fullName,
+    ticketName: ticket.ticketName,
+    eventName: ticket.eventName,
+    customerEmail: ticket.customerEmail,
+    customerName: ticket.customerName,
+    checkInMethod,
+    used: true,
+    status: 'Success',
+    createdAt: checkedInAt,
+  });
+  return checkedInAt;
+};
+
+const previousCheckIn = (ticket: MockTicket, db: MockDatabase) => {
+  const log = db.checkInLogs.find(item => item.issuedId === ticket.issuedId);
+  return {
+    checkedInAt: ticket.checkedInAt || '',
+    checkedInBy: ticket.checkedInBy || '',
+    checkerName: ticket.checkerName,
+    checkInMethod: log?.checkInMethod || 'QrCode',
+  };
+};
+
+// A login from a device that already has a session replaces it, like the backend does
+const startSession = (db: MockDatabase, now: number, device: Partial<DeviceInfo> = {}): MockSession => {
+  const createdAt = new Date(now).toISOString();
+  const session: MockSession = {
+    sessionId: `session-${Math.random().toString(36).slice(2)}`,
+    deviceId: device.deviceId || 'unknown-device',
+    deviceName: device.deviceName || 'Unknown device',
+    platform: device.platform || 'unknown',
+    osVersion: device.osVersion,
+    appVersion: device.appVersion,
+    ipAddress: '113.161.84.20',
+    location: 'Hồ Chí Minh, Việt Nam',
+    createdAt,
+    lastActiveAt: createdAt,
+  };
+  endSessions(db, item => item.deviceId === session.deviceId);
+  db.sessions.unshift(session);
+  Object.assign(db.account, {
+    lastLogin: createdAt,
+    lastLoginDevice: session.deviceName,
+    lastLoginIP: session.ipAddress,
+    lastLoginLocation: session.location,
+  });
+  return session;
+};
+
+// Drops the sessions and every token issued to them
+const endSessions = (db: MockDatabase, shouldEnd: (session: MockSession) => boolean) => {
+  const ended = new Set(db.sessions.filter(shouldEnd).map(session => session.sessionId));
+  db.sessions = db.sessions.filter(session => !ended.has(session.sessionId));
+  for (const tokens of [db.accessTokens, db.refreshTokens]) {
+    tokens.forEach((owner, token) => {
+      if (ended.has(owner.sessionId)) {
+        tokens.delete(token);
+      }
+    });
+  }
+};
+
+const authResult = (db: MockDatabase, now: number, ttl: number, sessionId: string): MockResult => {
+  const { account } = db;
+  const accessToken = createToken(
+    {
+      sub: account.accountId,
+      userId: account.userId,
+      unique_name: account.username,
+      email: account.email,
+      role: Role[account.role] ?? String(account.role),
+    },
+    now,
+    now + ttl * 1000,
+    'access'
+  );
+  const refreshToken = createToken({ sub: account.accountId }, now, now + 7 * DAY, 'refresh');
+  db.accessTokens.set(accessToken, { accountId: account.accountId, sessionId, expiresAt: now + ttl * 1000 });
+  db.refreshTokens.set(refreshToken, { accountId: account.accountId, sessionId });
+  return flagResult({ accessToken, refreshToken, account: db.account }, 'Login successful');
+};
+
+const getEventStats = (db: MockDatabase, event: Event) => {
+  const tickets = db.tickets.filter(ticket => ticket.eventId === event.eventId);
+  const logs = db.checkInLogs.filter(log => log.eventId === event.eventId);
+
+  const ticketTypes = Array.from(new Set(tickets.map(ticket => ticket.ticketName))).map(ticketType => ({
+    ticketType,
+    issued: tickets.filter(ticket => ticket.ticketName === ticketType).length,
+    checkedIn: tickets.filter(ticket => ticket.ticketName === ticketType && ticket.isCheckedIn).length,
+  }));
+
+  const collaborators = Array.from(new Set(logs.map(log => log.checkedInBy))).map(collaboratorId => ({
+    collaboratorId,
+    collaboratorName: logs.find(log => log.checkedInBy === collaboratorId)?.checkerName || '',
+    checkedIn: logs.filter(log => log.checkedInBy === collaboratorId).length,
+  }));
+
+  return {
+    eventId: event.eventId,
+    totalIssued: tickets.length,
+    totalCheckedIn: tickets.filter(ticket => ticket.isCheckedIn).length,
+    ticketTypes,
+    collaborators,
+    recentArrivals: logs.map(log => ({
+      qrCode: log.qrCode,
+      customerName: log.customerName,
+      ticketName: log.ticketName,
+      checkerName: log.checkerName,
+      checkInMethod: log.checkInMethod,
+      checkedInAt: log.checkedInAt,
+    })),
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+const createRoutes = (now: () => number, accessTokenTtl: number): MockRoute[] => {
+  const routes: MockRoute[] = [];
+  const route = (method: HttpMethod, path: string, handle: MockRoute['handle'], isPublic: boolean = false) => {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    routes.push({ method, pattern: new RegExp(`^${source}$`, 'i'), keys, isPublic, handle });
+  };
+
+  // Account
+  route('post', '/api/account/loginMobile', ({ body }, db) => {
+    if (body?.username !== db.account.username || body?.password !== db.password) {
+      return flagResult(null, 'Invalid username or password', 401);
+    }
+    return authResult(db, now(), accessTokenTtl, startSession(db, now(), body.device).sessionId);
+  }, true);
+
+  route('post', '/api/account/loginByFaceMobile', ({ body }, db) => {
+    const session = startSession(db, now(), {
+      deviceId: readFormField(body, 'DeviceId'),
+      deviceName: readFormField(body, 'DeviceName'),
+      platform: readFormField(body, 'Platform'),
+      osVersion: readFormField(body, 'OsVersion'),
+      appVersion: readFormField(body, 'AppVersion'),
+    });
+    return authResult(db, now(), accessTokenTtl, session.sessionId);
+  }, true);
+
+  route('post', '/api/account/refresh-token', ({ body }, db) => {
+    const owner = db.refreshTokens.get(body?.refreshToken);
+    const session = db.sessions.find(item => item.sessionId === owner?.sessionId);
+    if (!owner || !session) {
+      return { status: 401, data: { flag: false, code: 401, message: 'Invalid refresh token', data: null } };
+    }
+    db.refreshTokens.delete(body.refreshToken);
+    session.lastActiveAt = new Date(now()).toISOString();
+    return authResult(db, now(), accessTokenTtl, session.sessionId);
+  }, true);
+
+  route('post', '/api/account/logout', ({ sessionId }, db) => {
+    endSessions(db, session => session.sessionId === sessionId);
+    return flagResult(true, 'Logged out');
+  });
+
+  route('post', '/api/account/logout-all', (_, db) => {
+    endSessions(db, () => true);
+    return flagResult(true, 'Logged out of every device');
+  });
+
+  route('get', '/api/account/sessions', ({ sessionId }, db) =>
+    flagResult(db.sessions.map(session => ({ ...session, isCurrent: session.sessionId === sessionId })))
+  );
+
+  route('delete', '/api/account/sessions/:sessionId', ({ params, sessionId }, db) => {
+    if (params.sessionId === sessionId) {
+      return flagResult(false, 'Use logout to end the current session', 400);
+    }
+    if (!db.sessions.some(session => session.sessionId === params.sessionId)) {
+      return flagResult(false, 'Session not found', 404);
+    }
+    endSessions(db, session => session.sessionId === params.sessionId);
+    return flagResult(true, 'Session revoked');
+  });
+
+  route('put', '/api/account/profile', ({ body }, db) => {
+    Object.assign(db.account, {
+      fullName: body?.fullName ?? db.account.fullName,
+      email: body?.email ?? db.account.email,
+      phone: body?.phone ?? db.account.phone,
+      dob: body?.dob ?? db.account.dob,
+      location: body?.location ?? db.account.location,
+    });
+    return flagResult({
+      userId: db.account.userId,
+      accountId: db.account.accountId,
+      fullName: db.account.fullName,
+      phone: db.account.phone,
+      email: db.account.email,
+      avatarUrl: db.account.avatar,
+      gender: db.account.gender,
+      dob: db.account.dob,
+      location: db.account.location,
+      createdAt: db.account.createdAt,
+    });
+  });
+
+  route('post', '/api/account/change-password', ({ body }, db) => {
+    if (body?.currentPassword !== db.password) {
+      return flagResult(false, 'Current password is incorrect', 400);
+    }
+    db.password = body.newPassword;
+    return flagResult(true, 'Password changed');
+  });
+
+  route('put', '/api/account/user-config', ({ body }, db) => {
+    db.account.userConfig = { ...db.account.userConfig, ...body };
+    return flagResult(true);
+  });
+
+  route('post', '/api/account/upload-avatar', (_, db) => {
+    db.account.avatar = `https://placehold.co/200x200/png?text=${encodeURIComponent(db.account.fullName[0])}`;
+    return flagResult({ avatarUrl: db.account.avatar });
+  });
+
+  // Every pose is required; the mock cannot look at the photos, so any complete set is accepted
+  route('put', '/api/account/updateFace', ({ body }) => {
+    const poses = readFormFields(body, 'Poses');
+    const missing = FACE_ENROLLMENT_CONFIG.POSES.filter(pose => !poses.includes(pose));
+    if (missing.length > 0) {
+      return flagResult({ errors: missing.map(pose => ({ pose, code: 'MISSING_POSE' })) }, 'FACE_ENROLLMENT_FAILED', 400);
+    }
+    return flagResult({ enrolledPoses: poses }, 'Face updated');
+  });
+  route('post', '/api/account/forgot-password', () => flagResult(true, 'Verification code sent'), true);
+
+  route('post', '/api/account/reset-password', ({ body }, db) => {
+    if (body?.verificationCode !== MOCK_VERIFICATION_CODE) {
+      return flagResult(false, 'Invalid verification code', 400);
+    }
+    db.password = body.newPassword;
+    return flagResult(true, 'Password reset');
+  }, true);
+
+  // Events
+  route('get', '/api/Event/collaborator/my-events', (_, db) => flagResult(db.events));
+
+  route('get', '/api/Event/collaborator/static', (_, db) => {
+    const current = now();
+    const started = (event: Event) => new Date(event.startAt).getTime() <= current;
+    const ended = (event: Event) => new Date(event.endAt).getTime() < current;
+    const active = db.events.filter(event => !event.isCancelled);
+    return {
+      data: {
+        totalEvents: db.events.length,
+        ongoingEvents: active.filter(event => started(event) && !ended(event)).length,
+        upcomingEvents: active.filter(event => !started(event)).length,
+        completedEvents: active.filter(ended).length,
+        totalCheckIns: db.checkInLogs.filter(log => log.used).length,
+        generatedAt: new Date(current).toISOString(),
+      },
+    };
+  });
+
+  route('get', '/api/Event/:eventId/stats', ({ params }, db) => {
+    const event = findEvent(db, params.eventId);
+    return event ? flagResult(getEventStats(db, event)) : flagResult(null, 'Event not found', 404);
+  });
+
+  route('get', '/api/Event/:eventId', ({ params }, db) => {
+    const event = findEvent(db, params.eventId);
+    return event ? flagResult(event) : flagResult(null, 'Event not found', 404);
+  });
+
+  // Check-in
+  route('post', '/api/TicketIssued/checkinMobile', ({ body, accountId }, db) => {
+    const ticket = db.tickets.find(item => item.qrCode === body?.qrContent);
+    if (!ticket) {
+      return failureResult('TICKET_NOT_FOUND');
+    }
+    if (body.eventId && body.eventId !== ticket.eventId) {
+      return failureResult('WRONG_EVENT');
+    }
+    if (findEvent(db, ticket.eventId)?.isCancelled) {
+      return failureResult('EVENT_CANCELLED');
+    }
+    if (ticket.isCheckedIn) {
+      return failureResult('TICKET_ALREADY_USED', 200, { previousCheckIn: previousCheckIn(ticket, db) });
+    }
+
+    const checkedInAt = checkInTicket(db, ticket, accountId || db.account.accountId, body.checkInMethod || 'QrCode');
+    return successResult({
+      ticketName: ticket.ticketName,
+      customerName: ticket.customerName,
+      eventId: ticket.eventId,
+      eventName: ticket.eventName,
+      checkedInAt,
+    }, 'CHECKED_IN');
+  });
+
+  route('post', '/api/TicketIssued/checkin/revert', ({ body }, db) => {
+    const ticket = db.tickets.find(item => item.qrCode === body?.qrContent);
+    if (!ticket || (body.eventId && body.eventId !== ticket.eventId)) {
+      return failureResult('TICKET_NOT_FOUND');
+    }
+    if (!ticket.isCheckedIn) {
+      return failureResult('Ticket is not checked in');
+    }
+
+    db.version += 1;
+    Object.assign(ticket, {
+      isCheckedIn: false,
+      checkedInAt: null,
+      checkedInBy: null,
+      checkerName: '',
+      status: 'Not Checked In',
+      version: db.version,
+    });
+    const log = db.checkInLogs.find(item => item.issuedId === ticket.issuedId && item.used);
+    if (log) {
+      log.used = false;
+      log.status = `Reverted: ${body.reason}`;
+    }
+    return successResult(true, 'Check-in reverted');
+  });
+
+  route('get', '/api/TicketIssued/checkinloghistory/:eventId', ({ params, query }, db) => {
+    const logs = db.checkInLogs.filter(log => log.eventId === params.eventId);
+    return successResult(toPage(logs, toNumber(query.pageNumber, 1), toNumber(query.pageSize, 10)));
+  });
+
+  route('get', '/api/TicketIssued/qrdetail/:qrCode', ({ params }, db) => {
+    const ticket = db.tickets.find(item => item.qrCode === decodeURIComponent(params.qrCode));
+    return ticket ? successResult(toDetailItem(ticket)) : failureResult('TICKET_NOT_FOUND');
+  });
+
+  route('get', '/api/TicketIssued/event/:eventId/search', ({ params, query }, db) => {
+    const keyword = (query.keyword || '').trim().toLowerCase();
+    const matches = db.tickets.filter(
+      ticket =>
+        ticket.eventId === params.eventId &&
+        [ticket.customerName, ticket.customerEmail, ticket.qrCode].some(value => value.toLowerCase().includes(keyword))
+    );
+    return successResult(toPage(matches.map(toDetailItem), toNumber(query.pageNumber, 1), toNumber(query.pageSize, 20)));
+  });
+
+  route('get', '/api/TicketIssued/event/:eventId/manifest', ({ params, query }, db) => {
+    if (!findEvent(db, params.eventId)) {
+      return failureResult('Event not found', 404);
+    }
+    const since = query.since ? Number(query.since) : null;
+    const items = db.tickets.filter(
+      ticket => ticket.eventId === params.eventId && (since === null || ticket.version > since)
+    );
+    return successResult({
+      eventId: params.eventId,
+      version: String(db.version),
+      generatedAt: new Date(now()).toISOString(),
+      isIncremental: since !== null,
+      items: items.map(toDetailItem),
+    });
+  });
+
+  route('get', '/api/TicketIssued/event/:eventId/checkin-history', ({ params, query }, db) => {
+    const page = toNumber(query.Page, 1);
+    const { items, totalItems, totalPages, hasNextPage, hasPreviousPage } = toPage(
+      db.tickets.filter(ticket => ticket.eventId === params.eventId && ticket.isCheckedIn),
+      page,
+      toNumber(query.PageSize, 20)
+    );
+    return flagResult({
+      items: items.map(ticket => ({
+        issuedId: ticket.issuedId,
+        ticketId: ticket.ticketId,
+        eventId: ticket.eventId,
+        qrCode: ticket.qrCode,
+        used: ticket.isCheckedIn,
+        checkedInAt: ticket.checkedInAt || undefined,
+        checkedInBy: ticket.checkedInBy || undefined,
+        issuedToEmail: ticket.customerEmail,
+        createdAt: ticket.createdAt,
+      })),
+      totalItems,
+      totalPages,
+      currentPage: page,
+      hasNextPage,
+      hasPreviousPage,
+    });
+  });
+
+  // The mock "recognises" one customer and checks in all of their tickets for the event
+  route('post', '/api/TicketIssued/checkinbyface', ({ body, accountId }, db) => {
+    const eventId = readFormField(body, 'EventId');
+    const tickets = db.tickets.filter(
+      ticket => ticket.customerEmail === db.faceCustomerEmail && ticket.eventId === eventId
+    );
+    if (tickets.length === 0) {
+      return failureResult('No tickets found for this face in the event');
+    }
+
+    const checkinDetails: CheckInTicketDetail[] = tickets.map(ticket => {
+      if (ticket.isCheckedIn) {
+        return {
+          ticketCode: ticket.qrCode,
+          ticketType: ticket.ticketName,
+          status: 'already_checked_in',
+          message: 'Ticket already checked in',
+          previousCheckIn: previousCheckIn(ticket, db),
+        };
+      }
+      checkInTicket(db, ticket, accountId || db.account.accountId, 'FaceRecognition');
+      return { ticketCode: ticket.qrCode, ticketType: ticket.ticketName, status: 'success', message: 'Checked in' };
+    });
+
+    return successResult({
+      orderId: `order-${eventId}`,
+      eventId,
+      customerName: tickets[0].customerName,
+      totalTickets: tickets.length,
+      successfulCheckins: checkinDetails.filter(detail => detail.status === 'success').length,
+      alreadyCheckedIn: checkinDetails.filter(detail => detail.status === 'already_checked_in').length,
+      checkinDetails,
+    });
+  });
+
+  // News
+  route('get', '/api/News/all-Home', (_, db) => {
+    const items = db.news.filter(item => item.status === NewsStatus.Approved);
+    return flagResult({
+      items,
+      totalItems: items.length,
+      totalPages: 1,
+      currentPage: 1,
+      hasNextPage: false,
+      hasPreviousPage: false,
+    });
+  }, true);
+
+  route('get', '/api/News/:newsId', ({ params }, db) => {
+    const news = db.news.find(item => item.newsId === params.newsId);
+    return news ? flagResult(news) : flagResult(null, 'News not found', 404);
+  }, true);
+
+  // Notifications
+  route('get', '/api/Notification/user/:userId', ({ params, query }, db) => {
+    const page = toNumber(query.page, 1);
+    const { items, totalItems, totalPages, hasNextPage, hasPreviousPage } = toPage(
+      db.notifications.filter(item => item.userId === params.userId),
+      page,
+      toNumber(query.pageSize, 20)
+    );
+    return successResult({ items, totalItems, totalPages, currentPage: page, hasNextPage, hasPreviousPage });
+  });
+
+  route('put', '/api/Notification/user/:userId/read-all', ({ params }, db) => {
+    const readAt = new Date().toISOString();
+    db.notifications
+      .filter(item => item.userId === params.userId && !item.isRead)
+      .forEach(item => Object.assign(item, { isRead: true, readAt }));
+    return successResult(true);
+  });
+
+  const setRead = (isRead: boolean): MockRoute['handle'] => ({ params }, db) => {
+    const notification = db.notifications.find(item => item.notificationId === params.notificationId);
+    if (!notification) {
+      return failureResult('Notification not found', 404);
+    }
+    Object.assign(notification, { isRead, readAt: isRead ? new Date().toISOString() : undefined });
+    return successResult(true);
+  };
+  route('put', '/api/Notification/:notificationId/read', setRead(true));
+  route('put', '/api/Notification/:notificationId/unread', setRead(false));
+
+  route('delete', '/api/Notification/:notificationId', ({ params }, db) => {
+    const index = db.notifications.findIndex(item => item.notificationId === params.notificationId);
+    if (index < 0) {
+      return failureResult('Notification not found', 404);
+    }
+    db.notifications.splice(index, 1);
+    return successResult(true);
+  });
+
+  // Settings and stats
+  route('get', '/api/user/:accountId/config', (_, db) => flagResult(db.settings));
+
+  route('put', '/api/user/:accountId/config', ({ body }, db) => {
+    db.settings = { ...db.settings, ...body };
+    return flagResult(db.settings);
+  });
+
+  route('get', '/api/dashboard/stats', (_, db) => {
+    const current = now();
+    const countSince = (ms: number) =>
+      db.checkInLogs.filter(log => log.used && current - new Date(log.checkedInAt || 0).getTime() <= ms).length;
+    return flagResult({
+      totalEvents: db.events.length,
+      totalCheckIns: db.checkInLogs.filter(log => log.used).length,
+      todayCheckIns: countSince(DAY),
+      thisWeekCheckIns: countSince(7 * DAY),
+      thisMonthCheckIns: countSince(30 * DAY),
+    });
+  });
+
+  return routes;
+};
+
+const parseQuery = (search: string): Record<string, string> =>
+  search
+    .split('&')
+    .filter(Boolean)
+    .reduce<Record<string, string>>((query, pair) => {
+      const [key, value = ''] = pair.split('=');
+      query[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+      return query;
+    }, {});
+
+const parseBody = (data: any) => {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+// Axios adapter answering every ApiService endpoint from in-memory fixtures.
+// Each transport owns its own data, so tests can start from a clean backend.
+export const createMockTransport = ({
+  latency = DEV_CONFIG.MOCK_LATENCY,
+  now = Date.now,
+  accessTokenTtl = ACCESS_TOKEN_TTL,
+  fixtures = createMockFixtures(now()),
+}: MockTransportOptions = {}): AxiosAdapter => {
+  const db: MockDatabase = {
+    ...fixtures,
+    sessions: [...fixtures.sessions],
+    version: 1,
+    accessTokens: new Map(),
+    refreshTokens: new Map(),
+  };
+  const routes = createRoutes(now, accessTokenTtl);
+
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    if (latency > 0) {
+      await new Promise<void>(resolve => setTimeout(resolve, latency));
+    }
+
+    const [path, search = ''] = (config.url || '').replace(/^https?:\/\/[^/]+/i, '').split('?');
+    const method = (config.method || 'get').toLowerCase();
+    let result: MockResult = { status: 404, data: { success: false, message: `No mock for ${method.toUpperCase()} ${path}` } };
+
+    for (const item of routes) {
+      const match = item.method === method ? item.pattern.exec(path) : null;
+      if (!match) {
+        continue;
+      }
+
+      let accountId: string | null = null;
+      let sessionId: string | null = null;
+      if (!item.isPublic) {
+        const token = String(config.headers?.Authorization || '').replace(/^Bearer\s+/i, '');
+        const session = db.accessTokens.get(token);
+        if (!session || session.expiresAt <= now()) {
+          result = { status: 401, data: { success: false, message: 'Unauthorized' } };
+          break;
+        }
+        accountId = session.accountId;
+        sessionId = session.sessionId;
+      }
+
+      const params = item.keys.reduce<Record<string, string>>((values, key, index) => {
+        values[key] = match[index + 1];
+        return values;
+      }, {});
+      result = item.handle({ params, query: parseQuery(search), body: parseBody(config.data), accountId, sessionId }, db);
+      break;
+    }
+
+    const response: AxiosResponse = {
+      data: result.data,
+      status: result.status ?? 200,
+      statusText: String(result.status ?? 200),
+      headers: {},
+      config,
+      request: {},
+    };
+
+    const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    if (!validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+    return response;
+  };
+};
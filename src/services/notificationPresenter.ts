@@ -0,0 +1,287 @@
+import { AppState, AppStateStatus } from 'react-native';
+import notifee, { AndroidImportance, Event, EventType } from '@notifee/react-native';
+import { Notification, NotificationPresentation, NotificationType } from '../types';
+import { useSettingsStore } from '../store/settingsStore';
+import { useNotificationStore } from '../store/notificationStore';
+import { openDeepLink } from '../navigation/linking';
+import { DEEP_LINK_CONFIG, NOTIFICATION_CONFIG } from '../utils/config';
+import i18n from '../utils/i18n';
+
+// Shows notifications to the user - swap the implementation per platform or in tests
+export interface NotificationPresenter {
+  // Replaces whatever is currently shown for the same groupKey
+  present(presentation: NotificationPresentation): void;
+  dismiss(groupKey: string): void;
+  dismissAll(): void;
+}
+
+type PresentationListener = (presentations: NotificationPresentation[]) => void;
+
+// Cross-platform in-app banner; NotificationBanner subscribes and renders the entries
+export class InAppNotificationPresenter implements NotificationPresenter {
+  private presentations: NotificationPresentation[] = [];
+  private listeners = new Set<PresentationListener>();
+
+  present(presentation: NotificationPresentation): void {
+    this.presentations = [
+      presentation,
+      ...this.presentations.filter(item => item.groupKey !== presentation.groupKey),
+    ];
+    this.emit();
+  }
+
+  dismiss(groupKey: string): void {
+    this.presentations = this.presentations.filter(item => item.groupKey !== groupKey);
+    this.emit();
+  }
+
+  dismissAll(): void {
+    this.presentations = [];
+    this.emit();
+  }
+
+  subscribe(listener: PresentationListener): () => void {
+    this.listeners.add(listener);
+    listener(this.presentations);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener(this.presentations));
+  }
+}
+
+const LOCAL_CHANNEL_ID = 'realtime';
+
+// OS-level notification - still shows while the app is in the background
+export class LocalNotificationPresenter implements NotificationPresenter {
+  private channel: Promise<string> | null = null;
+
+  // Call while the app is in front so the permission prompt can show
+  prepare(): Promise<string> {
+    if (!this.channel) {
+      this.channel = (async () => {
+        await notifee.requestPermission();
+        return notifee.createChannel({
+          id: LOCAL_CHANNEL_ID,
+          name: i18n.t('notifications.title'),
+          importance: AndroidImportance.HIGH,
+        });
+      })().catch(error => {
+        this.channel = null;
+        throw error;
+      });
+    }
+    return this.channel;
+  }
+
+  present(presentation: NotificationPresentation): void {
+    this.prepare()
+      .then(channelId =>
+        notifee.displayNotification({
+          id: presentation.groupKey, // Same id replaces the group's previous notification
+          title: presentation.title,
+          body: presentation.body,
+          data: { presentation: JSON.stringify(presentation) },
+          android: { channelId, pressAction: { id: 'default' } },
+        }),
+      )
+      .catch(() => {
+        // Silent failure - still waiting in the inbox
+      });
+  }
+
+  dismiss(groupKey: string): void {
+    notifee.cancelNotification(groupKey).catch(() => {});
+  }
+
+  dismissAll(): void {
+    notifee.cancelAllNotifications().catch(() => {});
+  }
+}
+
+// Banner while the app is in front, OS notification otherwise
+export class AppStateNotificationPresenter implements NotificationPresenter {
+  private foreground: NotificationPresenter;
+  private background: NotificationPresenter;
+  private getAppState: () => AppStateStatus;
+
+  constructor(
+    foreground: NotificationPresenter,
+    background: NotificationPresenter,
+    getAppState: () => AppStateStatus = () => AppState.currentState,
+  ) {
+    this.foreground = foreground;
+    this.background = background;
+    this.getAppState = getAppState;
+  }
+
+  isInForeground(): boolean {
+    return this.getAppState() === 'active';
+  }
+
+  present(presentation: NotificationPresentation): void {
+    (this.isInForeground() ? this.foreground : this.background).present(presentation);
+  }
+
+  // The entry may have been shown before the app changed state
+  dismiss(groupKey: string): void {
+    this.foreground.dismiss(groupKey);
+    this.background.dismiss(groupKey);
+  }
+
+  dismissAll(): void {
+    this.foreground.dismissAll();
+    this.background.dismissAll();
+  }
+}
+
+// Records everything in memory - for Jest
+export class FakeNotificationPresenter implements NotificationPresenter {
+  history: NotificationPresentation[] = []; // Every present() call, in order
+  visible: NotificationPresentation[] = [];
+
+  present(presentation: NotificationPresentation): void {
+    this.history.push(presentation);
+    this.visible = [
+      presentation,
+      ...this.visible.filter(item => item.groupKey !== presentation.groupKey),
+    ];
+  }
+
+  dismiss(groupKey: string): void {
+    this.visible = this.visible.filter(item => item.groupKey !== groupKey);
+  }
+
+  dismissAll(): void {
+    this.visible = [];
+  }
+
+  reset(): void {
+    this.history = [];
+    this.visible = [];
+  }
+}
+
+const INBOX_LINK = `${DEEP_LINK_CONFIG.PREFIXES[0]}notifications`;
+
+const getTypeLabel = (type: NotificationType): string => {
+  const typeKey = NotificationType[type];
+  return typeKey ? i18n.t(`notifications.types.${typeKey}`) : i18n.t('notifications.types.Other');
+};
+
+interface NotificationGroup {
+  notifications: Notification[]; // Newest first
+  lastAt: number;
+}
+
+// Decides whether and how a real-time notification is shown, and where tapping it goes
+export class NotificationDeliveryService {
+  private presenter: NotificationPresenter;
+  private groups = new Map<string, NotificationGroup>();
+
+  constructor(presenter: NotificationPresenter) {
+    this.presenter = presenter;
+  }
+
+  setPresenter(presenter: NotificationPresenter) {
+    this.presenter.dismissAll();
+    this.presenter = presenter;
+    this.groups.clear();
+  }
+
+  getPresenter(): NotificationPresenter {
+    return this.presenter;
+  }
+
+  // Returns what was presented, or null when the notification was suppressed
+  deliver(notification: Notification, now: number = Date.now()): NotificationPresentation | null {
+    if (!useSettingsStore.getState().pushNotifications) {
+      return null;
+    }
+
+    // The inbox already shows it - unless the app is in the background
+    const currentRoute = global.navigationRef?.current?.getCurrentRoute?.();
+    if (currentRoute?.name === 'Notifications' && AppState.currentState === 'active') {
+      return null;
+    }
+
+    const groupKey = `type-${notification.notificationType ?? NotificationType.Other}`;
+    const previous = this.groups.get(groupKey);
+    const notifications =
+      previous && now - previous.lastAt < NOTIFICATION_CONFIG.GROUP_WINDOW
+        ? [notification, ...previous.notifications.filter(item => item.notificationId !== notification.notificationId)]
+        : [notification];
+    this.groups.set(groupKey, { notifications, lastAt: now });
+
+    const isGrouped = notifications.length > 1;
+    const presentation: NotificationPresentation = {
+      groupKey,
+      notificationType: notification.notificationType,
+      title: isGrouped
+        ? getTypeLabel(notification.notificationType)
+        : notification.notificationTitle || i18n.t('notifications.newMessage'),
+      body: isGrouped
+        ? i18n.t('notifications.groupedMessage', { count: notifications.length })
+        : notification.notificationMessage || '',
+      count: notifications.length,
+      notificationIds: notifications.map(item => item.notificationId),
+      // A group has no single destination - send it to the inbox
+      link: (!isGrouped && notification.redirectUrl) || INBOX_LINK,
+      presentedAt: new Date(now).toISOString(),
+    };
+
+    this.presenter.present(presentation);
+    return presentation;
+  }
+
+  // Tap handler for whatever presenter is active
+  open(presentation: NotificationPresentation) {
+    this.presenter.dismiss(presentation.groupKey);
+    this.groups.delete(presentation.groupKey);
+
+    if (presentation.count === 1) {
+      useNotificationStore.getState().markAsRead(presentation.notificationIds[0]).catch(() => {
+        // Silent failure - stays unread in the inbox
+      });
+    }
+
+    // Links the app can't route (e.g. retired paths) fall back to the inbox
+    openDeepLink(presentation.link).then(opened => {
+      if (!opened && presentation.link !== INBOX_LINK) {
+        openDeepLink(INBOX_LINK);
+      }
+    });
+  }
+
+  dismiss(groupKey: string) {
+    this.presenter.dismiss(groupKey);
+    this.groups.delete(groupKey);
+  }
+}
+
+export const inAppNotificationPresenter = new InAppNotificationPresenter();
+export const localNotificationPresenter = new LocalNotificationPresenter();
+export const notificationDeliveryService = new NotificationDeliveryService(
+  new AppStateNotificationPresenter(inAppNotificationPresenter, localNotificationPresenter),
+);
+
+// Taps on OS notifications - the foreground listener is registered below, the background one in index.js
+export const handleLocalNotificationEvent = async ({ type, detail }: Event): Promise<void> => {
+  const presentation = detail.notification?.data?.presentation;
+  if (type !== EventType.PRESS || typeof presentation !== 'string') {
+    return;
+  }
+  notificationDeliveryService.open(JSON.parse(presentation));
+};
+
+export const registerLocalNotificationEvents = (): (() => void) => {
+  if (useSettingsStore.getState().pushNotifications) {
+    localNotificationPresenter.prepare().catch(() => {
+      // Permission denied - background notifications stay in the inbox
+    });
+  }
+  return notifee.onForegroundEvent(handleLocalNotificationEvent);
+};
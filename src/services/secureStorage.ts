@@ -0,0 +1,84 @@
+import * as Keychain from 'react-native-keychain';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StateStorage } from 'zustand/middleware';
+import { SECURITY_CONFIG } from '../utils/config';
+
+// Where the encrypted values actually live - the platform keystore in the app,
+// a plain Map in tests
+export interface SecretVault {
+  get: (service: string) => Promise<string | null>;
+  set: (service: string, value: string) => Promise<void>;
+  remove: (service: string) => Promise<void>;
+}
+
+interface SecureStorageOptions {
+  // Plain storage the values were kept in before - read once, copied over and deleted
+  legacyStorage?: StateStorage;
+}
+
+// iOS Keychain / Android Keystore-encrypted entries, one generic password per service.
+// Readable only while the device is unlocked and never included in backups
+export const keychainVault: SecretVault = {
+  get: async (service) => {
+    const credentials = await Keychain.getGenericPassword({ service });
+    return credentials ? credentials.password : null;
+  },
+
+  set: async (service, value) => {
+    await Keychain.setGenericPassword(service, value, {
+      service,
+      accessible: Keychain.ACCESSIBLE.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+    });
+  },
+
+  remove: async (service) => {
+    await Keychain.resetGenericPassword({ service });
+  },
+};
+
+// In-memory stand-in for the keystore, for unit tests
+export const createMemoryVault = (): SecretVault & { entries: Map<string, string> } => {
+  const entries = new Map<string, string>();
+
+  return {
+    entries,
+    get: async (service) => entries.get(service) ?? null,
+    set: async (service, value) => {
+      entries.set(service, value);
+    },
+    remove: async (service) => {
+      entries.delete(service);
+    },
+  };
+};
+
+// zustand StateStorage over a vault, for persist's createJSONStorage
+export const createSecureStorage = (
+  vault: SecretVault,
+  { legacyStorage }: SecureStorageOptions = {}
+): StateStorage => {
+  const serviceFor = (name: string) => `${SECURITY_CONFIG.KEYCHAIN_SERVICE_PREFIX}${name}`;
+
+  return {
+    getItem: async (name) => {
+      const value = await vault.get(serviceFor(name));
+      if (value !== null || !legacyStorage) {
+        return value;
+      }
+
+      // Installs from before the move to the keystore still have the value in plain storage
+      const legacyValue = await legacyStorage.getItem(name);
+      if (legacyValue !== null) {
+        await vault.set(serviceFor(name), legacyValue);
+        await legacyStorage.removeItem(name);
+      }
+      return legacyValue;
+    },
+
+    setItem: (name, value) => vault.set(serviceFor(name), value),
+
+    removeItem: (name) => vault.remove(serviceFor(name)),
+  };
+};
+
+export const secureStorage = createSecureStorage(keychainVault, { legacyStorage: AsyncStorage });
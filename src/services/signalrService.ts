@@ -1,16 +1,11 @@
 // NOTE: To use SignalR, install the package first:
 // npm install @microsoft/signalr
 
-import { useNotificationStore } from '../store/notificationStore';
 import { useAuthStore } from '../store/authStore';
-import { Notification } from '../types';
-import { API_CONFIG } from '../utils/config';
-import { useEventStore } from '../store/eventStore';
-import { useNewsStore } from '../store/newsStore';
-import { useCheckInStore } from '../store/checkInStore';
-import { useNavigationState } from '@react-navigation/native';
-import { ToastAndroid } from 'react-native';
-import i18n from '../utils/i18n';
+import { useConnectionStore } from '../store/connectionStore';
+import { API_CONFIG, DEV_CONFIG } from '../utils/config';
+import { HUB_EVENT_NAMES } from '../utils/hubContract';
+import { hubEventRegistry } from './hubEventRegistry';
 
 // Types for SignalR (to avoid import errors when package is not installed)
 interface HubConnection {
@@ -38,10 +33,17 @@ class SignalRService {
   private reconnectDelay = 1000; // Start with 1 second
   private isConnecting = false;
   private isDisabled = false;
+  private isStopping = false;
+  private hasConnected = false; // A later connect means we were down and should resync
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private eventGroups = new Set<string>(); // Rejoined after a reconnect
 
   constructor() {
-    this.isDisabled = false;
-    this.initializeConnection();
+    // The mock API layer has no hub behind it - real-time updates are simply off
+    this.isDisabled = DEV_CONFIG.MOCK_APIS;
+    if (!this.isDisabled) {
+      this.initializeConnection();
+    }
   }
 
   private initializeConnection() {
@@ -85,91 +87,31 @@ class SignalRService {
   private setupEventHandlers() {
     if (!this.connection) return;
     
-    // Notification
-    this.connection.on('ReceiveNotification', (notification: Notification) => {
-      if (notification && notification.notificationId) {
-        const notificationStore = useNotificationStore.getState();
-        notificationStore.addNotification(notification);
-        
-        // Hiển thị toast nếu user không ở NotificationsScreen, đa ngôn ngữ
-        const message = notification.notificationTitle || i18n.t('notifications.newMessage') || 'Có thông báo mới';
-        try {
-          const navState = global.navigationRef?.getCurrentRoute?.();
-          if (!navState || navState.name !== 'Notifications') {
-            ToastAndroid.show(
-              message,
-              ToastAndroid.LONG
-            );
-          }
-        } catch (e) {
-          ToastAndroid.show(
-            message,
-            ToastAndroid.LONG
-          );
-        }
-        this.showNotificationToUser(notification);
-      }
-    });
-
-    // Dashboard/collaborator
-    this.connection.on('OnCollaboratorStaticChanged', (stats: any) => {
-      const eventStore = useEventStore.getState();
-      if (eventStore.setCollaboratorStats) {
-        eventStore.setCollaboratorStats(stats);
-      }
-    });
-
-    // Check-in history
-    this.connection.on('OnCheckinLogHistoryChanged', (checkinLogs: any) => {
-      const checkInStore = useCheckInStore.getState();
-      if (checkInStore.setCheckInHistoryRealtime) {
-        checkInStore.setCheckInHistoryRealtime(checkinLogs);
-      }
-    });
-
-    // News
-    this.connection.on('OnNewsCreated', (news: any) => {
-      const newsStore = useNewsStore.getState();
-      if (newsStore.setNewsRealtime) {
-        newsStore.setNewsRealtime(news);
-      }
-    });
-
-    this.connection.on('OnNewsUpdated', (news: any) => {
-      const newsStore = useNewsStore.getState();
-      if (newsStore.setNewsRealtime) {
-        newsStore.setNewsRealtime(news);
-      }
-    });
-
-    // Analytics/events
-    this.connection.on('OnEventManagerDashboard', (dashboard: any) => {
-      // TODO: update event stats/dashboard
-    });
-
-    // Client methods that backend might try to invoke
-    this.connection.on('notificationread', (notificationId: string) => {
-      // Handle notification read confirmation from server
-    });
-
-    this.connection.on('allnotificationsread', (userId: string) => {
-      // Handle all notifications read confirmation from server
+    // Every contract event goes through the registry; subscribers live in hubHandlers and the screens
+    HUB_EVENT_NAMES.forEach(eventName => {
+      this.connection.on(eventName, (payload: any) => hubEventRegistry.emit(eventName, payload));
     });
 
     // Connection events
     this.connection.onclose((error: any) => {
       //console.log('SignalR connection closed:', error);
       this.reconnectAttempts = 0;
+      // Automatic reconnect gave up - stay retryable on foreground/network return
+      useConnectionStore.getState().setStatus(this.isStopping ? 'idle' : 'disconnected', error?.message || null);
     });
 
     this.connection.onreconnecting((error: any) => {
       //console.log('SignalR reconnecting:', error);
+      useConnectionStore.getState().setStatus('reconnecting', error?.message || null);
     });
 
     this.connection.onreconnected((connectionId: any) => {
       //console.log('SignalR reconnected:', connectionId);
       this.reconnectAttempts = 0;
       this.joinUserGroup();
+      this.eventGroups.forEach(eventId => this.joinEventGroup(eventId));
+      useConnectionStore.getState().setStatus('connected');
+      useConnectionStore.getState().markResync();
     });
   }
 
@@ -180,14 +122,23 @@ class SignalRService {
     if (this.connection.state === 'Connected') {
       return;
     }
+    const connectionStore = useConnectionStore.getState();
     try {
       this.isConnecting = true;
+      connectionStore.setStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
       await this.connection.start();
       await this.joinUserGroup();
+      this.eventGroups.forEach(eventId => this.joinEventGroup(eventId));
       this.reconnectAttempts = 0;
+      connectionStore.setStatus('connected');
+      if (this.hasConnected) {
+        connectionStore.markResync();
+      }
+      this.hasConnected = true;
     } catch (error) {
       if (error && error.toString().includes('pathname')) {
         this.isDisabled = true;
+        connectionStore.setStatus('disconnected', error.toString());
         return;
       }
       this.reconnectAttempts++;
@@ -196,11 +147,15 @@ class SignalRService {
           this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1),
           30000
         );
-        setTimeout(() => {
+        connectionStore.setStatus('reconnecting', error?.toString() || null);
+        this.retryTimer = setTimeout(() => {
+          this.retryTimer = null;
           this.connect();
         }, delay);
       } else {
-        this.isDisabled = true;
+        // Out of attempts for now - retry() picks it up again later
+        this.reconnectAttempts = 0;
+        connectionStore.setStatus('disconnected', error?.toString() || null);
       }
     } finally {
       this.isConnecting = false;
@@ -225,30 +180,80 @@ class SignalRService {
     }
   }
 
-  async joinEventGroup(eventId: string): Promise<void> {
+  // Returns whether the group was joined, so callers can fall back to polling
+  async joinEventGroup(eventId: string): Promise<boolean> {
+    this.eventGroups.add(eventId);
     if (!this.connection || this.connection.state !== 'Connected') {
-      return;
+      return false;
     }
     try {
       await this.connection.invoke('JoinEventGroup', eventId);
+      return true;
     } catch (error) {
       console.error('Failed to join event group:', error);
+      return false;
+    }
+  }
+
+  async leaveEventGroup(eventId: string): Promise<void> {
+    this.eventGroups.delete(eventId);
+    if (!this.connection || this.connection.state !== 'Connected') {
+      return;
+    }
+    try {
+      await this.connection.invoke('LeaveEventGroup', eventId);
+    } catch (error) {
+      console.error('Failed to leave event group:', error);
     }
   }
 
   async disconnect(): Promise<void> {
+    this.clearRetryTimer();
+    this.hasConnected = false;
     if (!this.connection) {
       return;
     }
     try {
+      this.isStopping = true;
       await this.connection.stop();
     } catch (error) {
       console.error('Error disconnecting SignalR:', error);
+    } finally {
+      this.isStopping = false;
+      useConnectionStore.getState().setStatus('idle');
     }
   }
 
-  showNotificationToUser(notification: Notification) {
-    // Handle notification display logic if needed
+  // Another account became active: the token, the user group and the event groups all belong
+  // to the previous one, so start over instead of resyncing
+  async switchUser(): Promise<void> {
+    if (this.isDisabled) {
+      return;
+    }
+    this.eventGroups.clear();
+    await this.disconnect();
+    this.reconnectAttempts = 0;
+    await this.connect();
+  }
+
+  // Called when the app comes back to the foreground or the network returns
+  async retry(): Promise<void> {
+    if (this.isDisabled || !this.connection || this.isConnecting) {
+      return;
+    }
+    if (useConnectionStore.getState().status !== 'disconnected' || this.connection.state !== 'Disconnected') {
+      return;
+    }
+    this.clearRetryTimer();
+    this.reconnectAttempts = 0;
+    await this.connect();
+  }
+
+  private clearRetryTimer() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
   }
 
   getConnectionState(): string {
@@ -267,7 +272,9 @@ class SignalRService {
     if (this.isDisabled) {
       return;
     }
+    const wasConnected = this.hasConnected;
     await this.disconnect();
+    this.hasConnected = wasConnected;
     this.reconnectAttempts = 0;
     await this.connect();
   }
@@ -0,0 +1,142 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AuthenticationPrompt } from 'react-native-keychain';
+import {
+  authenticateAppLock,
+  disableAppLock,
+  enableAppLock,
+  isAppLockAvailable,
+} from '../services/appLock';
+import { SECURITY_CONFIG } from '../utils/config';
+
+export type AppLockSetupResult = 'enabled' | 'unavailable' | 'cancelled';
+
+interface AppLockState {
+  isEnabled: boolean;
+  timeout: number; // Seconds in the background before resuming requires unlocking
+  isLocked: boolean;
+  backgroundedAt: number | null;
+  isAuthenticating: boolean;
+}
+
+interface AppLockActions {
+  // Fed by useAppLock from AppState changes
+  markBackgrounded: () => void;
+  markResumed: () => void;
+  lock: () => void;
+  unlock: (prompt: AuthenticationPrompt) => Promise<boolean>;
+  // Settings toggle - enabling asks for biometrics/passcode once, so a lock the user can't open is never saved
+  enable: (prompt: AuthenticationPrompt) => Promise<AppLockSetupResult>;
+  disable: () => Promise<void>;
+  setLockTimeout: (seconds: number) => void;
+  reset: () => void;
+}
+
+export type AppLockStore = AppLockState & AppLockActions;
+
+const initialState: AppLockState = {
+  isEnabled: false,
+  timeout: SECURITY_CONFIG.LOCK_TIMEOUT,
+  isLocked: false,
+  backgroundedAt: null,
+  isAuthenticating: false,
+};
+
+// Device-level, unlike the account-scoped settings - the keystore entry behind it belongs to the device
+export const useAppLockStore = create<AppLockStore>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+
+      markBackgrounded: () => {
+        // Keep the first timestamp - inactive/background can fire more than once
+        if (get().backgroundedAt === null) {
+          set({ backgroundedAt: Date.now() });
+        }
+      },
+
+      markResumed: () => {
+        const { backgroundedAt, timeout } = get();
+        if (backgroundedAt === null) {
+          return;
+        }
+
+        const idleFor = Date.now() - backgroundedAt;
+        set(state => ({
+          backgroundedAt: null,
+          isLocked: state.isLocked || idleFor >= timeout * 1000,
+        }));
+      },
+
+      lock: () => {
+        set({ isLocked: true, backgroundedAt: null });
+      },
+
+      unlock: async (prompt: AuthenticationPrompt) => {
+        // The system prompt itself backgrounds the app on some devices - don't stack a second one
+        if (get().isAuthenticating) {
+          return false;
+        }
+
+        set({ isAuthenticating: true });
+        const isUnlocked = await authenticateAppLock(prompt);
+        set(state => ({
+          isAuthenticating: false,
+          isLocked: isUnlocked ? false : state.isLocked,
+          backgroundedAt: null,
+        }));
+        return isUnlocked;
+      },
+
+      enable: async (prompt: AuthenticationPrompt) => {
+        if (!(await isAppLockAvailable())) {
+          return 'unavailable';
+        }
+
+        set({ isAuthenticating: true });
+        try {
+          await enableAppLock();
+          const isConfirmed = await authenticateAppLock(prompt);
+          if (!isConfirmed) {
+            await disableAppLock();
+            return 'cancelled';
+          }
+        } catch {
+          return 'unavailable';
+        } finally {
+          set({ isAuthenticating: false, backgroundedAt: null });
+        }
+
+        set({ isEnabled: true });
+        return 'enabled';
+      },
+
+      disable: async () => {
+        set({ isEnabled: false, isLocked: false });
+        try {
+          await disableAppLock();
+        } catch {
+          // Nothing reads the entry once the setting is off
+        }
+      },
+
+      setLockTimeout: (timeout: number) => {
+        set({ timeout });
+      },
+
+      // Clears the lock of a signed-out session, the setting stays
+      reset: () => {
+        set({ isLocked: false, backgroundedAt: null, isAuthenticating: false });
+      },
+    }),
+    {
+      name: 'app-lock',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        isEnabled: state.isEnabled,
+        timeout: state.timeout,
+      }),
+    }
+  )
+);
@@ -1,10 +1,13 @@
-import { create } from 'zustand';
+import { create, StoreApi } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { CombinedUserData, UserConfig, LoginRequest, AuthResponseDto, TokenInfo, Role, Gender } from '../types';
+import { CombinedUserData, UserConfig, LoginRequest, LoginMethod, AuthResponseDto, TokenInfo, Role, Gender, AccountSession } from '../types';
 import { apiService } from '../services/api';
-import { AUTH_CONFIG } from '../utils/config';
+import { secureStorage } from '../services/secureStorage';
+import { activateAccountScope } from '../services/accountStorage';
 import { mapUserConfigFromBackend } from '../utils/userConfig';
+import { ApiError } from '../utils/errorHandler';
+import { calculateTokenExpiry, getAccountRole } from '../utils/jwt';
+import { getDeviceInfo } from '../utils/device';
 
 interface AuthState {
   accessToken: string | null;
@@ -16,12 +19,21 @@ interface AuthState {
   isLoading: boolean;
   isAuthenticated: boolean;
   shouldRefreshHomeStats: boolean;
+  sessionExpired: boolean; // Set when a failed refresh forced the logout, shown on the login screen
+  loginMethod: LoginMethod | null; // How the current session was signed in
+  sessions: AccountSession[]; // The other signed-in accounts, most recently used first
 }
 
 interface AuthActions {
+  establishSession: (authData: AuthResponseDto, method: LoginMethod) => Promise<void>;
   login: (credentials: LoginRequest) => Promise<void>;
   logout: () => Promise<void>;
+  logoutEverywhere: () => Promise<void>;
+  addAccount: () => Promise<void>;
+  switchAccount: (accountId: string, options?: { isHandover?: boolean }) => Promise<void>;
   refreshAuthToken: () => Promise<void>;
+  expireSession: () => Promise<void>;
+  clearSessionExpired: () => void;
   updateUser: (user: Partial<CombinedUserData>) => void;
   updateUserConfig: (config: Partial<UserConfig>) => void;
   setLoading: (loading: boolean) => void;
@@ -34,18 +46,6 @@ interface AuthActions {
 export type AuthStore = AuthState & AuthActions;
 
 // Helper functions for token management
-const calculateExpiryTime = (expiresInSeconds: number): number => {
-  return Date.now() + (expiresInSeconds * 1000);
-};
-
-// Calculate expiry using config values (backend doesn't provide expiry times)
-const calculateTokenExpiry = (): { accessTokenExpiresAt: number, refreshTokenExpiresAt: number } => {
-  return {
-    accessTokenExpiresAt: calculateExpiryTime(AUTH_CONFIG.TOKEN_EXPIRE_TIME),
-    refreshTokenExpiresAt: calculateExpiryTime(AUTH_CONFIG.REFRESH_TOKEN_EXPIRE_TIME),
-  };
-};
-
 const isTokenExpired = (expiresAt: number | null): boolean => {
   if (!expiresAt) return true;
   return Date.now() >= expiresAt;
@@ -57,6 +57,126 @@ const isTokenExpiringSoon = (expiresAt: number | null, bufferMinutes: number = 5
   return Date.now() >= (expiresAt - bufferMs);
 };
 
+// The refresh in progress - concurrent callers wait on it, since a refresh token works only once
+let refreshInFlight: Promise<void> | null = null;
+
+// Map the account of a login/refresh response to CombinedUserData
+const mapAuthUser = (account: AuthResponseDto['account']): CombinedUserData => ({
+      // Account fields
+      accountId: account.accountId,
+      username: account.username,
+      email: account.email,
+      role: account.role as Role,
+      isActive: account.isActive,
+      isEmailVerified: account.isEmailVerified,
+      isOnline: account.isOnline,
+      lastActiveAt: account.lastActiveAt,
+      lastLoginDevice: account.lastLoginDevice,
+      lastLoginIP: account.lastLoginIP,
+      lastLoginLocation: account.lastLoginLocation,
+      accountCreatedAt: account.createdAt,
+      lastLogin: account.lastLogin,
+              
+      // User fields
+      userId: account.userId,
+      fullName: (account as any).fullName || null, // Use actual fullName from backend
+      phone: account.phone,
+      avatarUrl: account.avatar,
+      gender: account.gender as Gender,
+      dob: account.dob,
+      location: account.location,
+});
+
+// The active session in the shape it is kept while another account is in use
+const toAccountSession = (state: AuthState): AccountSession | null => {
+  if (!state.isAuthenticated || !state.user || !state.accessToken || !state.refreshToken) {
+    return null;
+  }
+  return {
+    accessToken: state.accessToken,
+    refreshToken: state.refreshToken,
+    accessTokenExpiresAt: state.accessTokenExpiresAt,
+    refreshTokenExpiresAt: state.refreshTokenExpiresAt,
+    user: state.user,
+    userConfig: state.userConfig,
+    loginMethod: state.loginMethod,
+  };
+};
+
+const withoutAccount = (sessions: AccountSession[], accountId?: string) =>
+  sessions.filter(session => session.user.accountId !== accountId);
+
+const signedOutState = {
+  accessToken: null,
+  refreshToken: null,
+  accessTokenExpiresAt: null,
+  refreshTokenExpiresAt: null,
+  user: null,
+  userConfig: null,
+  loginMethod: null,
+  isAuthenticated: false,
+};
+
+// Background work for a new session; failures here never block sign-in.
+// After an account switch the hub is still joined to the previous user's groups and has to restart
+const startSessionServices = (isAccountSwitch = false) => {
+  // Auto-fetch notifications sau khi login thành công
+  import('./notificationStore')
+    .then(({ initializeNotifications }) => initializeNotifications())
+    .catch(() => {
+      // Silent failure
+    });
+
+  import('../services/signalrService')
+    .then(({ signalrService }) => (isAccountSwitch ? signalrService.switchUser() : signalrService.connect()))
+    .catch(() => {
+      // Silent failure - useSignalR retries when the app comes back to the foreground
+    });
+};
+
+// Drops the active account on this device without calling the backend; other signed-in accounts stay
+const clearLocalSession = (set: StoreApi<AuthStore>['setState'], get: StoreApi<AuthStore>['getState']) => {
+  set(signedOutState);
+  
+  // Clear token from API service
+  apiService.setAuthToken(null);
+  
+  // Clear only auth storage once no account is left, preserve app settings (theme/language)
+  if (get().sessions.length === 0) {
+    secureStorage.removeItem('auth-storage');
+  }
+  
+  // Clear notification store
+  try {
+    const notificationStore = require('./notificationStore').useNotificationStore.getState();
+    notificationStore.reset();
+  } catch (error) {
+    // Silently handle notification store clear error
+  }
+
+  // A lock left over from this session must not greet the next sign-in
+  require('./appLockStore').useAppLockStore.getState().reset();
+
+  activateAccountScope(null);
+  
+  // Note: app-settings storage (theme/language) is preserved automatically, per account
+  // This allows users to keep their preferred theme and language after logout
+};
+
+// Signs the active account out locally and hands over to the next signed-in account
+const endActiveSession = async (set: StoreApi<AuthStore>['setState'], get: StoreApi<AuthStore>['getState']) => {
+  const [next] = get().sessions;
+  clearLocalSession(set, get);
+
+  if (next) {
+    try {
+      await get().switchAccount(next.user.accountId, { isHandover: true });
+    } catch {
+      // Its session ran out too - the login screen lists what is left
+    }
+  }
+};
+
 export const useAuthStore = create<AuthStore>()(
   persist(
     (set, get) => ({
@@ -70,8 +190,57 @@ export const useAuthStore = create<AuthStore>()(
       isLoading: false,
       isAuthenticated: false,
       shouldRefreshHomeStats: false,
+      sessionExpired: false,
+      loginMethod: null,
+      sessions: [],
 
       // Actions
+      // The one way into a signed-in state, for every login method
+      establishSession: async (authData: AuthResponseDto, method: LoginMethod) => {
+        // Check if user is Collaborator (role: 3) - CLIENT-SIDE VALIDATION
+        if (getAccountRole(authData) !== Role.Collaborator) {
+          throw new Error('WRONG_ROLE');
+        }
+
+        // Calculate token expiry times
+        const { accessTokenExpiresAt, refreshTokenExpiresAt } = calculateTokenExpiry(authData);
+
+        // Map userConfig from backend format (userConfig is nested in account)
+        const userConfig = mapUserConfigFromBackend((authData.account as any).userConfig, authData.account.accountId);
+        const { accountId } = authData.account;
+
+        // Signing in on top of another account keeps that one for switching back
+        const current = toAccountSession(get());
+        const previous = current && current.user.accountId !== accountId ? current : null;
+
+        set(state => ({
+          accessToken: authData.accessToken,
+          refreshToken: authData.refreshToken,
+          accessTokenExpiresAt,
+          refreshTokenExpiresAt,
+          user: mapAuthUser(authData.account),
+          userConfig,
+          loginMethod: method,
+          isAuthenticated: true,
+          isLoading: false,
+          sessionExpired: false,
+          sessions: withoutAccount(previous ? [previous, ...state.sessions] : state.sessions, accountId),
+        }));
+
+        // Set token for future API calls
+        apiService.setAuthToken(authData.accessToken);
+
+        // Notifications, settings and caches of this account
+        await activateAccountScope(accountId);
+
+        // Sync userConfig with settingsStore
+        const { useSettingsStore } = await import('./settingsStore');
+        useSettingsStore.getState().syncWithUserConfig(userConfig);
+
+        // Run in background, don't wait for completion
+        startSessionServices(!!previous);
+      },
+
       login: async (credentials: LoginRequest) => {
         const { useLoadingStore } = await import('./loadingStore');
         const loadingStore = useLoadingStore.getState();
@@ -83,86 +252,15 @@ export const useAuthStore = create<AuthStore>()(
           set({ isLoading: true });
           loadingStore.showLoading('Authenticating...');
           
-          const response = await apiService.login(credentials);
-          if (response.flag) {
-            const authData = response.data as AuthResponseDto;
-            
-            // Check if user is Collaborator (role: 3) - CLIENT-SIDE VALIDATION
-            if (authData.account.role !== 3) {
-              // Set loading to false before throwing error
-              set({ isLoading: false });
-              loadingStore.hideLoading();
-              throw new Error('WRONG_ROLE');
-            }
-            
-            // Calculate token expiry times
-            const { accessTokenExpiresAt, refreshTokenExpiresAt } = calculateTokenExpiry();
-            
-            // Map response data to CombinedUserData interface
-            const user: CombinedUserData = {
-              // Account fields
-              accountId: authData.account.accountId,
-              username: authData.account.username,
-              email: authData.account.email,
-              role: authData.account.role as Role,
-              isActive: authData.account.isActive,
-              isEmailVerified: authData.account.isEmailVerified,
-              isOnline: authData.account.isOnline,
-              lastActiveAt: authData.account.lastActiveAt,
-              lastLoginDevice: authData.account.lastLoginDevice,
-              lastLoginIP: authData.account.lastLoginIP,
-              lastLoginLocation: authData.account.lastLoginLocation,
-              accountCreatedAt: authData.account.createdAt,
-              lastLogin: authData.account.lastLogin,
-              
-              // User fields
-              userId: authData.account.userId,
-              fullName: (authData.account as any).fullName || null, // Use actual fullName from backend
-              phone: authData.account.phone,
-              avatarUrl: authData.account.avatar,
-              gender: authData.account.gender as Gender,
-              dob: authData.account.dob,
-              location: authData.account.location,
-            };
-            
-            // Map userConfig from backend format (userConfig is nested in account)
-            const userConfig = mapUserConfigFromBackend((authData.account as any).userConfig, authData.account.accountId);
-            
-            set({
-              accessToken: authData.accessToken,
-              refreshToken: authData.refreshToken,
-              accessTokenExpiresAt,
-              refreshTokenExpiresAt,
-              user,
-              userConfig,
-              isAuthenticated: true,
-              isLoading: false,
-            });
-
-            // Set token for future API calls
-            apiService.setAuthToken(authData.accessToken);
-            
-            // Sync userConfig with settingsStore
-            const { useSettingsStore } = await import('./settingsStore');
-            const settingsStore = useSettingsStore.getState();
-            settingsStore.syncWithUserConfig(userConfig);
-            
-            // Auto-fetch notifications sau khi login thành công
-            try {
-              const { initializeNotifications } = await import('./notificationStore');
-              // Run in background, don't wait for completion
-              initializeNotifications().catch(() => {
-                // Silent failure
-              });
-            } catch (error) {
-              // Silent failure
-            }
+          const response = await apiService.login({ ...credentials, device: await getDeviceInfo() });
+          if (response.isSuccess) {
+            await get().establishSession(response.data, 'password');
           } else {
-            // Handle backend ApiResponse errors - BACKEND VALIDATION
+            // Handle failed Results - BACKEND VALIDATION
             let errorKey = 'LOGIN_ERROR';
             
-            // First check response.code (status code from backend ApiResponse)
-            switch (response.code) {
+            // First check response.status (backend code, or the HTTP status without one)
+            switch (response.status) {
               case 401:
                 errorKey = 'INVALID_CREDENTIALS';
                 break;
@@ -221,16 +319,8 @@ export const useAuthStore = create<AuthStore>()(
             throw error;
           }
           
-          // Handle HTTP status codes as fallback (for actual network errors)
-          if (error?.response?.status === 401) {
-            throw new Error('INVALID_CREDENTIALS');
-          } else if (error?.response?.status === 403) {
-            throw new Error('UNAUTHORIZED');
-          } else if (error?.response?.status === 404) {
-            throw new Error('USER_PROFILE_NOT_FOUND');
-          } else if (error?.response?.status >= 500) {
-            throw new Error('SERVER_ERROR');
-          } else if (!error?.response) {
+          // HTTP errors arrive as Results above - anything thrown here never got a response
+          if (!error?.response) {
             // Network connection error
             throw new Error('NETWORK_ERROR');
           }
@@ -248,112 +338,158 @@ export const useAuthStore = create<AuthStore>()(
           await apiService.logout();
         } catch (error) {
           // Silent failure - user will still be logged out locally
-        } finally {
-          set({
-            accessToken: null,
-            refreshToken: null,
-            accessTokenExpiresAt: null,
-            refreshTokenExpiresAt: null,
-            user: null,
-            userConfig: null,
-            isAuthenticated: false,
-          });
-          
-          // Clear token from API service
-          apiService.setAuthToken(null);
-          
-          // Clear only auth storage, preserve app settings (theme/language)
-          AsyncStorage.removeItem('auth-storage');
-          
-          // Clear notification store
-          try {
-            const notificationStore = require('./notificationStore').useNotificationStore.getState();
-            notificationStore.reset();
-          } catch (error) {
-            // Silently handle notification store clear error
-          }
-          
-          // Note: app-settings storage (theme/language) is preserved automatically
-          // This allows users to keep their preferred theme and language after logout
         }
+
+        await endActiveSession(set, get);
       },
 
-      refreshAuthToken: async () => {
-        try {
-          const { refreshToken: currentRefreshToken } = get();
-          if (!currentRefreshToken) {
-            throw new Error('No refresh token available');
-          }
+      // Signs the account out on every device; unlike logout, a failed call leaves this one signed in
+      logoutEverywhere: async () => {
+        const response = await apiService.logoutAllSessions();
+        if (!response.isSuccess) {
+          throw new ApiError(response);
+        }
+
+        await endActiveSession(set, get);
+      },
+
+      // Puts the active account aside, still signed in, so another one can sign in
+      addAccount: async () => {
+        const current = toAccountSession(get());
+        if (!current) {
+          return;
+        }
+
+        set(state => ({
+          ...signedOutState,
+          sessions: [current, ...withoutAccount(state.sessions, current.user.accountId)],
+        }));
+        apiService.setAuthToken(null);
+        await activateAccountScope(null);
+      },
+
+      // isHandover: the previous account was just signed out, so nothing is active but the hub is still in its groups
+      switchAccount: async (accountId: string, options?: { isHandover?: boolean }) => {
+        const target = get().sessions.find(session => session.user.accountId === accountId);
+        if (!target) {
+          return;
+        }
+
+        if (isTokenExpired(target.refreshTokenExpiresAt)) {
+          set(state => ({ sessions: withoutAccount(state.sessions, accountId) }));
+          throw new Error('SESSION_EXPIRED');
+        }
+
+        const current = toAccountSession(get());
+        set(state => ({
+          ...target,
+          isAuthenticated: true,
+          sessionExpired: false,
+          sessions: withoutAccount(current ? [current, ...state.sessions] : state.sessions, accountId),
+        }));
+
+        // A refresh still running for the previous account must not hold up this one's
+        refreshInFlight = null;
+        apiService.setAuthToken(target.accessToken);
+        await activateAccountScope(accountId);
+
+        const { useSettingsStore } = await import('./settingsStore');
+        useSettingsStore.getState().syncWithUserConfig(target.userConfig);
+
+        // The access token may have run out while the account was put aside
+        if (!(await get().ensureValidToken())) {
+          return;
+        }
+
+        startSessionServices(!!current || !!options?.isHandover);
+      },
 
-          const response = await apiService.refreshToken({ refreshToken: currentRefreshToken });
+      refreshAuthToken: () => {
+        if (!refreshInFlight) {
+          const flight: Promise<void> = (async () => {
+            const { refreshToken: currentRefreshToken, user: refreshingUser } = get();
+            // Still the active account? A switch while the request was out leaves it put aside
+            const isStillActive = () => get().user?.accountId === refreshingUser?.accountId;
+            try {
+              if (!currentRefreshToken) {
+                throw new Error('No refresh token available');
+              }
+
+              const response = await apiService.refreshToken({ refreshToken: currentRefreshToken });
           
-          if (response.flag) {
-            const authData = response.data as AuthResponseDto;
+              if (response.isSuccess) {
+                const authData = response.data as AuthResponseDto;
             
-            // Calculate new token expiry times
-            const { accessTokenExpiresAt, refreshTokenExpiresAt } = calculateTokenExpiry();
+                // Calculate new token expiry times
+                const { accessTokenExpiresAt, refreshTokenExpiresAt } = calculateTokenExpiry(authData);
             
-            // Map response data to CombinedUserData interface
-            const user: CombinedUserData = {
-              // Account fields
-              accountId: authData.account.accountId,
-              username: authData.account.username,
-              email: authData.account.email,
-              role: authData.account.role as Role,
-              isActive: authData.account.isActive,
-              isEmailVerified: authData.account.isEmailVerified,
-              isOnline: authData.account.isOnline,
-              lastActiveAt: authData.account.lastActiveAt,
-              lastLoginDevice: authData.account.lastLoginDevice,
-              lastLoginIP: authData.account.lastLoginIP,
-              lastLoginLocation: authData.account.lastLoginLocation,
-              accountCreatedAt: authData.account.createdAt,
-              lastLogin: authData.account.lastLogin,
-              
-              // User fields
-              userId: authData.account.userId,
-              fullName: (authData.account as any).fullName || null, // Use actual fullName from backend
-              phone: authData.account.phone,
-              avatarUrl: authData.account.avatar,
-              gender: authData.account.gender as Gender,
-              dob: authData.account.dob,
-              location: authData.account.location,
-            };
+                const user = mapAuthUser(authData.account);
             
-            // Map userConfig from backend format (userConfig is nested in account)
-            const userConfig = mapUserConfigFromBackend((authData.account as any).userConfig, authData.account.accountId);
+                // Map userConfig from backend format (userConfig is nested in account)
+                const userConfig = mapUserConfigFromBackend((authData.account as any).userConfig, authData.account.accountId);
+
+                const refreshed = {
+                  accessToken: authData.accessToken,
+                  refreshToken: authData.refreshToken,
+                  accessTokenExpiresAt,
+                  refreshTokenExpiresAt,
+                  user,
+                  userConfig,
+                };
+
+                if (!isStillActive()) {
+                  set(state => ({
+                    sessions: state.sessions.map(session =>
+                      session.user.accountId === user.accountId ? { ...session, ...refreshed } : session
+                    ),
+                  }));
+                  return;
+                }
             
-            set({
-              accessToken: authData.accessToken,
-              refreshToken: authData.refreshToken,
-              accessTokenExpiresAt,
-              refreshTokenExpiresAt,
-              user,
-              userConfig,
-              isAuthenticated: true,
-            });
-
-            apiService.setAuthToken(authData.accessToken);
+                set({ ...refreshed, isAuthenticated: true });
+
+                apiService.setAuthToken(authData.accessToken);
             
-            // Auto-fetch notifications sau khi refresh token thành công
-            try {
-              const { initializeNotifications } = await import('./notificationStore');
-              // Run in background, don't wait for completion
-              initializeNotifications().catch(() => {
-                // Silent failure
-              });
+                // Auto-fetch notifications sau khi refresh token thành công
+                try {
+                  const { initializeNotifications } = await import('./notificationStore');
+                  // Run in background, don't wait for completion
+                  initializeNotifications().catch(() => {
+                    // Silent failure
+                  });
+                } catch (error) {
+                  // Silent failure
+                }
+              } else {
+                throw new ApiError(response);
+              }
             } catch (error) {
-              // Silent failure
+              // Token refresh failed, the user has to sign in again
+              if (isStillActive()) {
+                await get().expireSession();
+              } else {
+                set(state => ({ sessions: withoutAccount(state.sessions, refreshingUser?.accountId) }));
+              }
+              throw error;
             }
-          } else {
-            // Token refresh failed, logout user
-            get().logout();
-            throw new Error(response.message);
-          }
-        } catch (error) {
-          get().logout();
-          throw error;
+          })().finally(() => {
+            if (refreshInFlight === flight) {
+              refreshInFlight = null;
+            }
+          });
+          refreshInFlight = flight;
         }
+        return refreshInFlight;
+      },
+
+      // The refresh token was rejected, so there is no server session left to log out of
+      expireSession: async () => {
+        clearLocalSession(set, get);
+        set({ sessionExpired: true });
+      },
+
+      clearSessionExpired: () => {
+        set({ sessionExpired: false });
       },
 
       updateUser: (userData: Partial<CombinedUserData>) => {
@@ -400,7 +536,7 @@ export const useAuthStore = create<AuthStore>()(
 
           // Check if refresh token is expired
           if (isTokenExpired(refreshTokenExpiresAt)) {
-            get().logout();
+            await get().expireSession();
             return;
           }
 
@@ -408,8 +544,8 @@ export const useAuthStore = create<AuthStore>()(
           if (isTokenExpired(accessTokenExpiresAt) || isTokenExpiringSoon(accessTokenExpiresAt)) {
             try {
               await get().refreshAuthToken();
-            } catch (error) {
-              get().logout();
+            } catch {
+              // A failed refresh has already expired the session
               return;
             }
           } else {
@@ -448,7 +584,7 @@ export const useAuthStore = create<AuthStore>()(
 
         // Check if refresh token is expired
         if (isTokenExpired(refreshTokenExpiresAt)) {
-          get().logout();
+          await get().expireSession();
           return false;
         }
 
@@ -457,8 +593,8 @@ export const useAuthStore = create<AuthStore>()(
           try {
             await get().refreshAuthToken();
             return true;
-          } catch (error) {
-            get().logout();
+          } catch {
+            // A failed refresh has already expired the session
             return false;
           }
         }
@@ -476,7 +612,8 @@ export const useAuthStore = create<AuthStore>()(
     }),
     {
       name: 'auth-storage',
-      storage: createJSONStorage(() => AsyncStorage),
+      // Tokens live in the platform keystore, not in plain AsyncStorage
+      storage: createJSONStorage(() => secureStorage),
       partialize: (state) => ({
         accessToken: state.accessToken,
         refreshToken: state.refreshToken,
@@ -484,8 +621,14 @@ export const useAuthStore = create<AuthStore>()(
         refreshTokenExpiresAt: state.refreshTokenExpiresAt,
         user: state.user,
         userConfig: state.userConfig,
+        loginMethod: state.loginMethod,
         isAuthenticated: state.isAuthenticated,
+        sessions: state.sessions,
       }),
+      // Point the account-scoped stores at the restored account
+      onRehydrateStorage: () => (state) => {
+        activateAccountScope(state?.user?.accountId ?? null);
+      },
     }
   )
 ); 
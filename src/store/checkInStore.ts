@@ -1,15 +1,142 @@
 import { create } from 'zustand';
+import { ApiErrorCode, CheckInMethod, Result } from '../types';
+import { apiService } from '../services/api';
+import { CHECK_IN_CONFIG } from '../utils/config';
+import { getErrorCode } from '../utils/errorHandler';
+import { useTicketManifestStore } from './ticketManifestStore';
+import { useScanSessionStore } from './scanSessionStore';
+import { useAuthStore } from './authStore';
+
+// A check-in made on this device that can still be undone
+export interface RecentCheckIn {
+  qrCode: string;
+  eventId?: string;
+  method: CheckInMethod;
+  checkedInAt: string;
+  sessionEntryId?: string; // Scan session log entry to update on undo
+  customerName?: string;
+}
+
+export interface RevertedCheckIn {
+  qrCode: string;
+  eventId?: string;
+  reason: string;
+  revertedAt: string;
+}
 
 interface CheckInState {
   checkInHistory: any[];
   qrCodeDetail: any | null;
+  recentCheckIns: RecentCheckIn[];
+  revertedCheckIns: RevertedCheckIn[]; // Undone on this device, newest first
   setCheckInHistoryRealtime: (history: any[]) => void;
   setQRCodeDetailRealtime: (detail: any) => void;
+
+  // Remember a successful check-in so it can be undone within the grace window
+  registerCheckIn: (checkIn: Omit<RecentCheckIn, 'checkedInAt'> & { checkedInAt?: string }) => void;
+  // Drop a check-in the backend did not accept after all
+  forgetCheckIn: (qrCode: string) => void;
+  canUndo: (qrCode: string) => boolean;
+  getUndoRemaining: (qrCode: string) => number; // ms left, 0 when expired
+  isReverted: (qrCode: string) => boolean;
+  revertCheckIn: (qrCode: string, reason: string) => Promise<Result<boolean>>;
 }
 
-export const useCheckInStore = create<CheckInState>((set) => ({
+const findRecent = (recentCheckIns: RecentCheckIn[], qrCode: string) =>
+  recentCheckIns.find(item => item.qrCode === qrCode);
+
+// A revert that never reached the backend, shaped like the API's own refusals
+const revertFailure = (errorCode: ApiErrorCode): Result<boolean> => ({
+  isSuccess: false,
+  status: 0,
+  errorCode,
+  message: '',
+  data: false,
+});
+
+export const useCheckInStore = create<CheckInState>((set, get) => ({
   checkInHistory: [],
   qrCodeDetail: null,
+  recentCheckIns: [],
+  revertedCheckIns: [],
   setCheckInHistoryRealtime: (history) => set({ checkInHistory: history }),
   setQRCodeDetailRealtime: (detail) => set({ qrCodeDetail: detail }),
-})); 
\ No newline at end of file
+
+  registerCheckIn: (checkIn) => {
+    const now = Date.now();
+    const entry: RecentCheckIn = {
+      ...checkIn,
+      checkedInAt: checkIn.checkedInAt || new Date(now).toISOString(),
+    };
+
+    // Drop anything already past the window while we're here
+    set(state => ({
+      recentCheckIns: [
+        entry,
+        ...state.recentCheckIns.filter(
+          item => item.qrCode !== entry.qrCode &&
+            now - new Date(item.checkedInAt).getTime() < CHECK_IN_CONFIG.UNDO_WINDOW
+        ),
+      ],
+      revertedCheckIns: state.revertedCheckIns.filter(item => item.qrCode !== entry.qrCode),
+    }));
+  },
+
+  forgetCheckIn: (qrCode) => {
+    set(state => ({ recentCheckIns: state.recentCheckIns.filter(item => item.qrCode !== qrCode) }));
+  },
+
+  canUndo: (qrCode) => get().getUndoRemaining(qrCode) > 0,
+
+  getUndoRemaining: (qrCode) => {
+    const recent = findRecent(get().recentCheckIns, qrCode);
+    if (!recent) {
+      return 0;
+    }
+    const elapsed = Date.now() - new Date(recent.checkedInAt).getTime();
+    return Math.max(0, CHECK_IN_CONFIG.UNDO_WINDOW - elapsed);
+  },
+
+  isReverted: (qrCode) => get().revertedCheckIns.some(item => item.qrCode === qrCode),
+
+  revertCheckIn: async (qrCode, reason) => {
+    const recent = findRecent(get().recentCheckIns, qrCode);
+    if (!recent || !get().canUndo(qrCode)) {
+      return revertFailure('UNDO_EXPIRED');
+    }
+
+    let response: Result<boolean>;
+    try {
+      response = await apiService.revertCheckIn({
+        qrContent: qrCode,
+        eventId: recent.eventId,
+        reason: reason.trim(),
+      });
+    } catch (error) {
+      return revertFailure(getErrorCode(error));
+    }
+    if (!response.isSuccess) {
+      return response;
+    }
+
+    set(state => ({
+      recentCheckIns: state.recentCheckIns.filter(item => item.qrCode !== qrCode),
+      revertedCheckIns: [
+        { qrCode, eventId: recent.eventId, reason: reason.trim(), revertedAt: new Date().toISOString() },
+        ...state.revertedCheckIns,
+      ],
+      checkInHistory: state.checkInHistory.filter(item => item?.qrCode !== qrCode),
+    }));
+
+    // Keep the local views in line with the backend
+    if (recent.eventId) {
+      useTicketManifestStore.getState().unmarkCheckedIn(recent.eventId, qrCode);
+    }
+    if (recent.sessionEntryId) {
+      useScanSessionStore.getState().completeScan(recent.sessionEntryId, 'reverted', { revertReason: reason.trim() });
+    }
+    useAuthStore.getState().setShouldRefreshHomeStats(true);
+
+    return response;
+  },
+}));
@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import { HubConnectionStatus } from '../types';
+
+interface ConnectionState {
+  status: HubConnectionStatus;
+  lastConnectedAt: string | null;
+  lastResyncAt: string | null; // Bumped after a dropped connection comes back
+  error: string | null;
+}
+
+interface ConnectionActions {
+  // Fed by signalrService connection lifecycle
+  setStatus: (status: HubConnectionStatus, error?: string | null) => void;
+  markResync: () => void;
+  reset: () => void;
+}
+
+export type ConnectionStore = ConnectionState & ConnectionActions;
+
+const initialState: ConnectionState = {
+  status: 'idle',
+  lastConnectedAt: null,
+  lastResyncAt: null,
+  error: null,
+};
+
+export const useConnectionStore = create<ConnectionStore>((set) => ({
+  ...initialState,
+
+  setStatus: (status, error = null) => {
+    set(state => ({
+      status,
+      error,
+      lastConnectedAt: status === 'connected' ? new Date().toISOString() : state.lastConnectedAt,
+    }));
+  },
+
+  markResync: () => {
+    set({ lastResyncAt: new Date().toISOString() });
+  },
+
+  reset: () => {
+    set(initialState);
+  },
+}));
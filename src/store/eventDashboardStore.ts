@@ -0,0 +1,223 @@
+import { create } from 'zustand';
+import {
+  EventDashboardStats,
+  EventDashboardSource,
+  EventArrival,
+  TicketTypeBreakdown,
+  CollaboratorBreakdown,
+  EventDashboardHubPayload,
+  CheckInLogItem,
+} from '../types';
+import { apiService } from '../services/api';
+import { DASHBOARD_CONFIG } from '../utils/config';
+
+interface EventDashboardState {
+  eventId: string | null; // Event the dashboard screen is open for
+  stats: EventDashboardStats | null;
+  source: EventDashboardSource | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface EventDashboardActions {
+  openDashboard: (eventId: string) => void;
+  closeDashboard: () => void;
+  setSource: (source: EventDashboardSource) => void;
+
+  // Fetch a full snapshot - used on open and as the polling fallback
+  loadStats: () => Promise<void>;
+
+  // Hub pushes for the open event
+  applyDashboardUpdate: (payload: EventDashboardHubPayload) => void;
+  applyCheckInLogs: (logs: CheckInLogItem[]) => void;
+}
+
+export type EventDashboardStore = EventDashboardState & EventDashboardActions;
+
+const toNumber = (value: any): number => (typeof value === 'number' && isFinite(value) ? value : 0);
+
+const toArrival = (item: any): EventArrival => ({
+  qrCode: item.qrCode || item.ticketCode || '',
+  customerName: item.customerName ?? null,
+  ticketType: item.ticketName ?? item.ticketType ?? null,
+  checkerName: item.checkerName ?? null,
+  checkInMethod: item.checkInMethod,
+  checkedInAt: item.checkedInAt,
+});
+
+const toTicketType = (item: any): TicketTypeBreakdown => ({
+  ticketType: item.ticketType || item.ticketName || '',
+  issued: toNumber(item.issued ?? item.totalIssued),
+  checkedIn: toNumber(item.checkedIn ?? item.totalCheckedIn),
+});
+
+const toCollaborator = (item: any): CollaboratorBreakdown => ({
+  collaboratorId: item.collaboratorId || item.accountId,
+  collaboratorName: item.collaboratorName || item.checkerName || item.fullName || '',
+  checkedIn: toNumber(item.checkedIn ?? item.totalCheckedIn ?? item.count),
+});
+
+const isCollaboratorLog = (row: CollaboratorBreakdown, log: any): boolean =>
+  row.collaboratorId && log.checkedInBy
+    ? row.collaboratorId === log.checkedInBy
+    : row.collaboratorName === log.checkerName;
+
+const countTicketTypes = (rows: TicketTypeBreakdown[], logs: any[]): TicketTypeBreakdown[] =>
+  rows.map(row => {
+    const count = logs.filter(log => toArrival(log).ticketType === row.ticketType).length;
+    return count ? { ...row, checkedIn: row.checkedIn + count } : row;
+  });
+
+// A collaborator's first check-in adds their row
+const countCollaborators = (rows: CollaboratorBreakdown[], logs: any[]): CollaboratorBreakdown[] =>
+  logs.reduce((result: CollaboratorBreakdown[], log) => {
+    if (!log.checkedInBy && !log.checkerName) {
+      return result;
+    }
+    const row = result.find(item => isCollaboratorLog(item, log));
+    if (!row) {
+      return [
+        ...result,
+        { collaboratorId: log.checkedInBy || undefined, collaboratorName: log.checkerName || '', checkedIn: 1 },
+      ];
+    }
+    return result.map(item => (item === row ? { ...item, checkedIn: item.checkedIn + 1 } : item));
+  }, rows);
+
+// Backend payloads differ slightly between the stats endpoint and the hub message
+const toEventDashboardStats = (raw: any, eventId: string): EventDashboardStats => ({
+  eventId: raw.eventId || eventId,
+  totalIssued: toNumber(raw.totalIssued ?? raw.totalTickets),
+  totalCheckedIn: toNumber(raw.totalCheckedIn ?? raw.totalCheckIns),
+  checkInsPerMinute: typeof raw.checkInsPerMinute === 'number' ? raw.checkInsPerMinute : undefined,
+  ticketTypes: Array.isArray(raw.ticketTypes) ? raw.ticketTypes.map(toTicketType) : [],
+  collaborators: Array.isArray(raw.collaborators) ? raw.collaborators.map(toCollaborator) : [],
+  recentArrivals: Array.isArray(raw.recentArrivals ?? raw.recentCheckIns)
+    ? (raw.recentArrivals ?? raw.recentCheckIns)
+        .filter((item: any) => item?.checkedInAt)
+        .map(toArrival)
+        .slice(0, DASHBOARD_CONFIG.RECENT_ARRIVALS_SIZE)
+    : [],
+  updatedAt: raw.updatedAt || new Date().toISOString(),
+});
+
+// Arrivals within the rate window, per minute - used when the backend sends no rate
+export const getCheckInRate = (stats: EventDashboardStats | null, now: number = Date.now()): number => {
+  if (!stats) {
+    return 0;
+  }
+  if (typeof stats.checkInsPerMinute === 'number') {
+    return stats.checkInsPerMinute;
+  }
+
+  const windowMs = DASHBOARD_CONFIG.RATE_WINDOW_MINUTES * 60000;
+  const recent = stats.recentArrivals.filter(
+    arrival => now - new Date(arrival.checkedInAt).getTime() <= windowMs
+  ).length;
+  return Math.round((recent / DASHBOARD_CONFIG.RATE_WINDOW_MINUTES) * 10) / 10;
+};
+
+const initialState: EventDashboardState = {
+  eventId: null,
+  stats: null,
+  source: null,
+  isLoading: false,
+  error: null,
+};
+
+export const useEventDashboardStore = create<EventDashboardStore>((set, get) => ({
+  ...initialState,
+
+  openDashboard: (eventId: string) => {
+    if (get().eventId === eventId) {
+      return;
+    }
+    set({ ...initialState, eventId });
+  },
+
+  closeDashboard: () => {
+    set(initialState);
+  },
+
+  setSource: (source: EventDashboardSource) => {
+    set({ source });
+  },
+
+  loadStats: async () => {
+    const { eventId } = get();
+    if (!eventId) {
+      return;
+    }
+
+    set({ isLoading: !get().stats, error: null });
+    try {
+      const response = await apiService.getEventStats(eventId);
+      const payload = response.data;
+
+      // The screen may have moved on to another event while this was in flight
+      if (get().eventId !== eventId) {
+        return;
+      }
+
+      if (!response.isSuccess || !payload) {
+        set({ isLoading: false, error: response.message || 'LOAD_FAILED' });
+        return;
+      }
+
+      set({ stats: toEventDashboardStats(payload, eventId), isLoading: false });
+    } catch (error: any) {
+      console.error('Error loading event dashboard stats:', error);
+      if (get().eventId === eventId) {
+        set({ isLoading: false, error: error?.message || 'LOAD_FAILED' });
+      }
+    }
+  },
+
+  applyDashboardUpdate: (payload: any) => {
+    const { eventId } = get();
+    if (!eventId || !payload || (payload.eventId && payload.eventId !== eventId)) {
+      return;
+    }
+
+    set({ stats: toEventDashboardStats(payload, eventId), source: 'live', isLoading: false, error: null });
+  },
+
+  applyCheckInLogs: (logs: any[]) => {
+    const { eventId, stats } = get();
+    if (!eventId || !stats || !Array.isArray(logs)) {
+      return;
+    }
+
+    const incoming = logs.filter(log => log?.checkedInAt && (!log.eventId || log.eventId === eventId));
+    if (incoming.length === 0) {
+      return;
+    }
+    const arrivals = incoming.map(toArrival);
+
+    // History pushes repeat older check-ins - only count ones newer than what we have
+    const known = new Set(stats.recentArrivals.map(arrival => arrival.qrCode));
+    const latestKnownAt = stats.recentArrivals[0]
+      ? new Date(stats.recentArrivals[0].checkedInAt).getTime()
+      : new Date(stats.updatedAt).getTime();
+    const fresh = incoming.filter((log, index) =>
+      !known.has(arrivals[index].qrCode) && new Date(log.checkedInAt).getTime() > latestKnownAt
+    );
+
+    const incomingCodes = new Set(arrivals.map(arrival => arrival.qrCode));
+    const merged = [...arrivals, ...stats.recentArrivals.filter(arrival => !incomingCodes.has(arrival.qrCode))]
+      .sort((a, b) => new Date(b.checkedInAt).getTime() - new Date(a.checkedInAt).getTime())
+      .slice(0, DASHBOARD_CONFIG.RECENT_ARRIVALS_SIZE);
+
+    set({
+      stats: {
+        ...stats,
+        totalCheckedIn: stats.totalCheckedIn + fresh.length,
+        // Breakdowns move with the total until the next snapshot replaces them
+        ticketTypes: countTicketTypes(stats.ticketTypes, fresh),
+        collaborators: countCollaborators(stats.collaborators, fresh),
+        recentArrivals: merged,
+        updatedAt: new Date().toISOString(),
+      },
+    });
+  },
+}));
@@ -1,7 +1,8 @@
 import { create } from 'zustand';
 import { apiService } from '../services/api';
-import { Event, PaginatedData, PaginationParams, ApiResponse } from '../types';
-import { handleApiError } from '../utils/errorHandler';
+import { Event, PaginatedData, PaginationParams, Result } from '../types';
+import { handleApiError, ApiError } from '../utils/errorHandler';
+import { onAccountScopeChange } from '../services/accountStorage';
 
 interface EventState {
   // Event data
@@ -71,9 +72,9 @@ export const useEventStore = create<EventState>((set, get) => ({
     }
 
     try {
-      const response: ApiResponse<Event[]> = await apiService.getAssignedEvents();
+      const response: Result<Event[]> = await apiService.getAssignedEvents();
       
-      if (response.flag) {
+      if (response.isSuccess) {
         set({
           events: response.data,
           isLoading: false,
@@ -81,7 +82,7 @@ export const useEventStore = create<EventState>((set, get) => ({
           error: null,
         });
       } else {
-        throw new Error(response.message);
+        throw new ApiError(response);
       }
     } catch (error: any) {
       const errorMessage = handleApiError(error);
@@ -109,9 +110,9 @@ export const useEventStore = create<EventState>((set, get) => ({
         pageSize: DEFAULT_PAGE_SIZE,
       };
 
-      const response: ApiResponse<Event[]> = await apiService.getAssignedEvents();
+      const response: Result<Event[]> = await apiService.getAssignedEvents();
       
-      if (response.flag) {
+      if (response.isSuccess) {
         set({
           events: [...currentState.events, ...response.data],
           currentPage: currentState.currentPage + 1,
@@ -119,7 +120,7 @@ export const useEventStore = create<EventState>((set, get) => ({
           error: null,
         });
       } else {
-        throw new Error(response.message);
+        throw new ApiError(response);
       }
     } catch (error: any) {
       const errorMessage = handleApiError(error);
@@ -168,4 +169,7 @@ export const useEventStore = create<EventState>((set, get) => ({
       collaboratorStats: stats,
     });
   },
-})); 
+}));
+
+// Another account sees other events
+onAccountScopeChange(() => useEventStore.getState().reset());
@@ -3,4 +3,11 @@ export { useEventStore } from './eventStore';
 export { useNewsStore } from './newsStore';
 export { useLoadingStore } from './loadingStore';
 export { useSettingsStore } from './settingsStore';
-export { useNotificationStore } from './notificationStore'; 
\ No newline at end of file
+export { useNotificationStore } from './notificationStore'; 
+export { useOfflineCheckInStore } from './offlineCheckInStore';
+export { useTicketManifestStore } from './ticketManifestStore';
+export { useScanSessionStore } from './scanSessionStore';
+export { useCheckInStore } from './checkInStore';
+export { useEventDashboardStore } from './eventDashboardStore';
+export { useConnectionStore } from './connectionStore';
+export { useAppLockStore } from './appLockStore';
@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import { apiService } from '../services/api';
-import { News, PaginatedData, PaginationParams, ApiResponse } from '../types';
-import { handleApiError } from '../utils/errorHandler';
+import { News, PaginatedData, PaginationParams, Result } from '../types';
+import { handleApiError, ApiError } from '../utils/errorHandler';
 
 interface NewsState {
   // News data
@@ -73,9 +73,9 @@ export const useNewsStore = create<NewsState>((set, get) => ({
         pageSize: DEFAULT_PAGE_SIZE,
       };
 
-      const response: ApiResponse<PaginatedData<News>> = await apiService.getActiveNews(pagination);
+      const response: Result<PaginatedData<News>> = await apiService.getActiveNews(pagination);
       
-      if (response.flag) {
+      if (response.isSuccess) {
         const newsData = response.data;
         
         // Ensure unique items by filtering out duplicates based on newsId
@@ -101,7 +101,7 @@ export const useNewsStore = create<NewsState>((set, get) => ({
           error: null,
         });
       } else {
-        throw new Error(response.message);
+        throw new ApiError(response);
       }
     } catch (error: any) {
       const errorMessage = handleApiError(error);
@@ -129,9 +129,9 @@ export const useNewsStore = create<NewsState>((set, get) => ({
         pageSize: DEFAULT_PAGE_SIZE,
       };
 
-      const response: ApiResponse<PaginatedData<News>> = await apiService.getActiveNews(pagination);
+      const response: Result<PaginatedData<News>> = await apiService.getActiveNews(pagination);
       
-      if (response.flag) {
+      if (response.isSuccess) {
         const newsData = response.data;
         
         // Ensure unique items by filtering out duplicates based on newsId
@@ -149,7 +149,7 @@ export const useNewsStore = create<NewsState>((set, get) => ({
           error: null,
         });
       } else {
-        throw new Error(response.message);
+        throw new ApiError(response);
       }
     } catch (error: any) {
       const errorMessage = handleApiError(error);
@@ -170,16 +170,16 @@ export const useNewsStore = create<NewsState>((set, get) => ({
     set({ isLoading: true, error: null });
 
     try {
-      const response: ApiResponse<News> = await apiService.getNewsById(newsId);
+      const response: Result<News> = await apiService.getNewsById(newsId);
       
-      if (response.flag) {
+      if (response.isSuccess) {
         set({
           selectedNews: response.data,
           isLoading: false,
           error: null,
         });
       } else {
-        throw new Error(response.message);
+        throw new ApiError(response);
       }
     } catch (error: any) {
       const errorMessage = handleApiError(error);
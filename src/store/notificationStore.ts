@@ -1,8 +1,17 @@
-import { create } from 'zustand';
+import { create, StoreApi } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { apiService } from '../services/api';
-import { Notification, PaginatedData, ApiResponse } from '../types';
+import {
+  Notification,
+  PaginatedData,
+  Result,
+  NotificationFilter,
+  NotificationCategory,
+  NotificationReadFilter,
+} from '../types';
+import { accountStorage, mergeAccountState, onAccountScopeChange } from '../services/accountStorage';
+import { filterNotifications, isFilterActive } from '../utils/notificationFilters';
+import { NOTIFICATION_CONFIG } from '../utils/config';
 
 interface NotificationState {
   notifications: Notification[];
@@ -13,17 +22,30 @@ interface NotificationState {
   currentPage: number;
   pageSize: number;
   error: string | null;
+  filter: NotificationFilter; // Kept here so it survives leaving the screen
 }
 
 interface NotificationActions {
   // Fetch notifications with pagination
   fetchNotifications: (page?: number, refresh?: boolean) => Promise<void>;
+
+  // Fetch the page after currentPage - with a filter active, keeps going until a page's worth of matches arrived
+  loadMoreNotifications: () => Promise<void>;
   
   // Mark single notification as read
   markAsRead: (notificationId: string) => Promise<void>;
   
   // Mark all notifications as read
   markAllAsRead: () => Promise<void>;
+
+  // Optimistic row actions - roll back and throw when the API call fails
+  markAsUnread: (notificationId: string) => Promise<void>;
+  deleteNotification: (notificationId: string) => Promise<void>;
+
+  // Bulk actions - resolve with the ids that failed and were rolled back
+  markManyAsRead: (notificationIds: string[]) => Promise<string[]>;
+  markManyAsUnread: (notificationIds: string[]) => Promise<string[]>;
+  deleteMany: (notificationIds: string[]) => Promise<string[]>;
   
   // Add new notification (for realtime)
   addNotification: (notification: Notification) => void;
@@ -42,12 +64,110 @@ interface NotificationActions {
   setRefreshing: (refreshing: boolean) => void;
   setError: (error: string | null) => void;
   
-  // Load mock data for testing (remove when backend is ready)
-  loadMockNotifications: () => void;
+  // List filters
+  setCategoryFilter: (category: NotificationCategory) => void;
+  setReadFilter: (readStatus: NotificationReadFilter) => void;
+  setSearchQuery: (search: string) => void;
+  resetFilters: () => void;
 }
 
 type NotificationStore = NotificationState & NotificationActions;
 
+type NotificationRequest = (notificationId: string, userId: string) => Promise<Result<boolean>>;
+
+// Puts back the snapshot version of every failed id, keeping notifications that arrived meanwhile
+const rollbackNotifications = (
+  current: Notification[],
+  snapshot: Notification[],
+  failedIds: Set<string>
+): Notification[] => {
+  const currentById = new Map(current.map(notification => [notification.notificationId, notification]));
+  const snapshotIds = new Set(snapshot.map(notification => notification.notificationId));
+  const arrived = current.filter(notification => !snapshotIds.has(notification.notificationId));
+  const restored = snapshot
+    .filter(notification => failedIds.has(notification.notificationId) || currentById.has(notification.notificationId))
+    .map(notification =>
+      failedIds.has(notification.notificationId) ? notification : currentById.get(notification.notificationId)!
+    );
+  return [...arrived, ...restored];
+};
+
+// Applies `update` to the targeted notifications right away, then confirms each one with the API
+const runOptimistic = async (
+  get: StoreApi<NotificationStore>['getState'],
+  set: StoreApi<NotificationStore>['setState'],
+  notificationIds: string[],
+  update: (notifications: Notification[], ids: Set<string>) => Notification[],
+  request: NotificationRequest
+): Promise<string[]> => {
+  const ids = new Set(notificationIds);
+  if (ids.size === 0) {
+    return [];
+  }
+
+  const user = require('./authStore').useAuthStore.getState().user;
+  if (!user?.userId) {
+    console.warn('User not authenticated for notification update');
+    return [...ids];
+  }
+
+  const snapshot = get().notifications;
+  set({ notifications: update(snapshot, ids) });
+  get().updateUnreadCount();
+
+  const results = await Promise.allSettled(
+    [...ids].map(async notificationId => {
+      const response = await request(notificationId, user.userId);
+      if (!response?.isSuccess) {
+        throw new Error(response?.message || 'Notification update failed');
+      }
+    })
+  );
+  const failedIds = [...ids].filter((_, index) => results[index].status === 'rejected');
+
+  if (failedIds.length > 0) {
+    set(state => ({
+      notifications: rollbackNotifications(state.notifications, snapshot, new Set(failedIds)),
+    }));
+    get().updateUnreadCount();
+  }
+  return failedIds;
+};
+
+const setReadState = (isRead: boolean) => (notifications: Notification[], ids: Set<string>) => {
+  const now = new Date().toISOString();
+  return notifications.map(notification =>
+    ids.has(notification.notificationId)
+      ? {
+          ...notification,
+          isRead,
+          readAt: isRead ? notification.readAt || now : undefined,
+          readAtVietnam: isRead ? notification.readAtVietnam || now : undefined,
+        }
+      : notification
+  );
+};
+
+const removeNotifications = (notifications: Notification[], ids: Set<string>) =>
+  notifications.filter(notification => !ids.has(notification.notificationId));
+
+// A new filter that matches less than a page of what's loaded looks further back
+const topUpFilteredNotifications = (get: StoreApi<NotificationStore>['getState']) => {
+  const { notifications, filter, pageSize, hasMorePages } = get();
+  if (notifications.length === 0 || !hasMorePages || !isFilterActive(filter)) {
+    return;
+  }
+  if (filterNotifications(notifications, filter).length < pageSize) {
+    get().loadMoreNotifications();
+  }
+};
+
+export const DEFAULT_NOTIFICATION_FILTER: NotificationFilter = {
+  category: 'all',
+  readStatus: 'all',
+  search: '',
+};
+
 // Helper function để auto-fetch notifications khi user đã authenticated
 export const initializeNotifications = async () => {
   try {
@@ -72,6 +192,7 @@ const initialState: NotificationState = {
   currentPage: 1,
   pageSize: 20,
   error: null,
+  filter: DEFAULT_NOTIFICATION_FILTER,
 };
 
 export const useNotificationStore = create<NotificationStore>()(
@@ -103,7 +224,7 @@ export const useNotificationStore = create<NotificationStore>()(
             }
           );
 
-          if (response.flag && response.data) {
+          if (response.isSuccess && response.data) {
             const { items, hasNextPage, currentPage } = response.data;
             
             // Validate notification items
@@ -135,59 +256,89 @@ export const useNotificationStore = create<NotificationStore>()(
           }
         } catch (error) {
           console.error('API fetch failed, error:', error);
-          
-          // Fallback to mock data if API fails (for development)
-          if (page === 1 && get().notifications.length === 0) {
-            get().loadMockNotifications();
-          } else {
-            set({
-              isLoading: false,
-              isRefreshing: false,
-              error: error instanceof Error ? error.message : 'Unknown error occurred',
-            });
+          set({
+            isLoading: false,
+            isRefreshing: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+          });
+        }
+      },
+
+      loadMoreNotifications: async () => {
+        const { isLoading, isRefreshing, hasMorePages, pageSize } = get();
+        if (isLoading || isRefreshing || !hasMorePages) {
+          return;
+        }
+
+        // Filters only see loaded pages, so a narrow one could otherwise stall on pages without a match
+        const countMatches = () => filterNotifications(get().notifications, get().filter).length;
+        const matchesBefore = countMatches();
+        for (let fetched = 0; fetched < NOTIFICATION_CONFIG.FILTER_MAX_PAGES; fetched++) {
+          await get().fetchNotifications(get().currentPage + 1);
+          const state = get();
+          if (state.error || !state.hasMorePages || !isFilterActive(state.filter)) {
+            return;
+          }
+          if (countMatches() - matchesBefore >= pageSize) {
+            return;
           }
         }
       },
 
       markAsRead: async (notificationId: string) => {
-        try {
-          const authStore = require('./authStore').useAuthStore.getState();
-          const user = authStore.user;
-          
-          if (!user?.userId) {
-            console.warn('User not authenticated for mark as read');
-            throw new Error('User not authenticated');
-          }
+        const failedIds = await runOptimistic(
+          get,
+          set,
+          [notificationId],
+          setReadState(true),
+          (id, userId) => apiService.markNotificationAsRead(id, userId)
+        );
+        if (failedIds.length > 0) {
+          throw new Error('Failed to mark as read');
+        }
+      },
 
-          const response = await apiService.markNotificationAsRead(notificationId, user.userId);
-          
-          if (response.flag) {
-            // Update local state
-            set(state => ({
-              notifications: state.notifications.map(notification =>
-                notification.notificationId === notificationId
-                  ? {
-                      ...notification,
-                      isRead: true,
-                      readAt: new Date().toISOString(),
-                      readAtVietnam: new Date().toISOString(), // Simplified for now
-                    }
-                  : notification
-              ),
-            }));
+      markAsUnread: async (notificationId: string) => {
+        const failedIds = await runOptimistic(
+          get,
+          set,
+          [notificationId],
+          setReadState(false),
+          (id, userId) => apiService.markNotificationAsUnread(id, userId)
+        );
+        if (failedIds.length > 0) {
+          throw new Error('Failed to mark as unread');
+        }
+      },
 
-            // Update unread count
-            get().updateUnreadCount();
-          } else {
-            throw new Error(response.message || 'Failed to mark notification as read');
-          }
-        } catch (error) {
-          set({
-            error: error instanceof Error ? error.message : 'Failed to mark as read',
-          });
+      deleteNotification: async (notificationId: string) => {
+        const failedIds = await runOptimistic(
+          get,
+          set,
+          [notificationId],
+          removeNotifications,
+          (id, userId) => apiService.deleteNotification(id, userId)
+        );
+        if (failedIds.length > 0) {
+          throw new Error('Failed to delete notification');
         }
       },
 
+      markManyAsRead: (notificationIds: string[]) =>
+        runOptimistic(get, set, notificationIds, setReadState(true), (id, userId) =>
+          apiService.markNotificationAsRead(id, userId)
+        ),
+
+      markManyAsUnread: (notificationIds: string[]) =>
+        runOptimistic(get, set, notificationIds, setReadState(false), (id, userId) =>
+          apiService.markNotificationAsUnread(id, userId)
+        ),
+
+      deleteMany: (notificationIds: string[]) =>
+        runOptimistic(get, set, notificationIds, removeNotifications, (id, userId) =>
+          apiService.deleteNotification(id, userId)
+        ),
+
       markAllAsRead: async () => {
         try {
           const authStore = require('./authStore').useAuthStore.getState();
@@ -200,7 +351,7 @@ export const useNotificationStore = create<NotificationStore>()(
 
           const response = await apiService.markAllNotificationsAsRead(user.userId);
           
-          if (response.flag) {
+          if (response.isSuccess) {
             // Update all notifications to read
             const now = new Date().toISOString();
             set(state => ({
@@ -288,96 +439,35 @@ export const useNotificationStore = create<NotificationStore>()(
         set({ error });
       },
 
-      // Temporary mock data for testing UI (remove when backend is ready)
-      loadMockNotifications: () => {
-        const mockNotifications: Notification[] = [
-          {
-            notificationId: 'mock-1',
-            userId: 'user-1',
-            notificationTitle: 'Sự kiện mới được tạo',
-            notificationMessage: 'Bạn đã được phân công tham gia sự kiện "Tech Conference 2024". Vui lòng kiểm tra chi tiết.',
-            notificationType: 'EventAssigned' as any,
-            isRead: false,
-            redirectUrl: '/events/1',
-            createdAt: new Date(Date.now() - 30 * 60 * 1000).toISOString(), // 30 mins ago
-            createdAtVietnam: new Date(Date.now() - 30 * 60 * 1000).toISOString(),
-            readAt: null,
-            readAtVietnam: null,
-          },
-          {
-            notificationId: 'mock-2',
-            userId: 'user-1',
-            notificationTitle: 'Tin tức mới',
-            notificationMessage: 'Có tin tức quan trọng vừa được đăng tải. Hãy xem ngay!',
-            notificationType: 'NewsPublished' as any,
-            isRead: true,
-            redirectUrl: '/news/1',
-            createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(), // 2 hours ago
-            createdAtVietnam: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-            readAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
-            readAtVietnam: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
-          },
-          {
-            notificationId: 'mock-3',
-            userId: 'user-1',
-            notificationTitle: 'Sự kiện được phê duyệt',
-            notificationMessage: 'Sự kiện "Workshop Design Thinking" của bạn đã được phê duyệt và sẽ diễn ra vào ngày mai.',
-            notificationType: 'EventApproved' as any,
-            isRead: false,
-            redirectUrl: '/events/2',
-            createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(), // 1 day ago
-            createdAtVietnam: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
-            readAt: null,
-            readAtVietnam: null,
-          },
-          {
-            notificationId: 'mock-4',
-            userId: 'user-1',
-            notificationTitle: 'Cập nhật hệ thống',
-            notificationMessage: 'Hệ thống sẽ được bảo trì vào 2:00 AM đêm nay. Vui lòng lưu ý.',
-            notificationType: 'SystemUpdate' as any,
-            isRead: true,
-            redirectUrl: null,
-            createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(), // 3 days ago
-            createdAtVietnam: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-            readAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-            readAtVietnam: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-          },
-          {
-            notificationId: 'mock-5',
-            userId: 'user-1',
-            notificationTitle: 'Chúc mừng!',
-            notificationMessage: 'Bạn đã hoàn thành xuất sắc nhiệm vụ check-in cho sự kiện "Annual Meeting 2024".',
-            notificationType: 'CheckInCompleted' as any,
-            isRead: false,
-            redirectUrl: '/events/3',
-            createdAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(), // 1 week ago
-            createdAtVietnam: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-            readAt: null,
-            readAtVietnam: null,
-          },
-        ];
+      setCategoryFilter: (category: NotificationCategory) => {
+        set(state => ({ filter: { ...state.filter, category } }));
+        topUpFilteredNotifications(get);
+      },
 
-        set({
-          notifications: mockNotifications,
-          isLoading: false,
-          isRefreshing: false,
-          error: null,
-          hasMorePages: false,
-          currentPage: 1,
-        });
+      setReadFilter: (readStatus: NotificationReadFilter) => {
+        set(state => ({ filter: { ...state.filter, readStatus } }));
+        topUpFilteredNotifications(get);
+      },
 
-        // Update unread count
-        get().updateUnreadCount();
+      setSearchQuery: (search: string) => {
+        set(state => ({ filter: { ...state.filter, search } }));
+        topUpFilteredNotifications(get);
+      },
+
+      resetFilters: () => {
+        set({ filter: DEFAULT_NOTIFICATION_FILTER });
       },
     }),
     {
       name: 'notification-store',
-      storage: createJSONStorage(() => AsyncStorage),
+      storage: createJSONStorage(() => accountStorage),
+      merge: mergeAccountState<NotificationStore>(initialState),
       partialize: (state) => ({
         notifications: state.notifications,
         unreadCount: state.unreadCount,
       }),
     }
   )
-); 
\ No newline at end of file
+);
+
+onAccountScopeChange(() => useNotificationStore.persist.rehydrate());
@@ -0,0 +1,202 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { apiService } from '../services/api';
+import { OfflineCheckInItem } from '../types';
+import { isNetworkError, isTicketRejection, getErrorCode } from '../utils/errorHandler';
+import { accountStorage, mergeAccountState, onAccountScopeChange } from '../services/accountStorage';
+
+interface OfflineCheckInState {
+  queue: OfflineCheckInItem[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  lastSyncAt: string | null;
+}
+
+interface OfflineCheckInActions {
+  // Save a scanned code locally while the backend is unreachable
+  enqueue: (qrContent: string, eventId?: string) => OfflineCheckInItem | null;
+
+  // Replay pending check-ins through apiService.checkInByQR
+  syncQueue: () => Promise<void>;
+
+  // Connectivity updates from NetInfo
+  setOnline: (isOnline: boolean) => void;
+
+  // Reconciliation helpers
+  retryItem: (id: string) => void;
+  dismissItem: (id: string) => void;
+  clearSynced: () => void;
+
+  // Selectors
+  getPendingCount: () => number;
+  getConflicts: () => OfflineCheckInItem[];
+  isQueued: (qrContent: string) => boolean;
+
+  reset: () => void;
+}
+
+export type OfflineCheckInStore = OfflineCheckInState & OfflineCheckInActions;
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const initialState: OfflineCheckInState = {
+  queue: [],
+  isOnline: true,
+  isSyncing: false,
+  lastSyncAt: null,
+};
+
+export const useOfflineCheckInStore = create<OfflineCheckInStore>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+
+      enqueue: (qrContent: string, eventId?: string) => {
+        // Skip codes that are already waiting to be synced
+        if (get().isQueued(qrContent)) {
+          return null;
+        }
+
+        const item: OfflineCheckInItem = {
+          id: generateId(),
+          qrContent,
+          eventId,
+          scannedAt: new Date().toISOString(),
+          status: 'pending',
+          attempts: 0,
+        };
+
+        set(state => ({ queue: [...state.queue, item] }));
+        return item;
+      },
+
+      syncQueue: async () => {
+        const { isSyncing, queue } = get();
+        if (isSyncing || !queue.some(item => item.status === 'pending')) {
+          return;
+        }
+
+        set({ isSyncing: true });
+        let syncedCount = 0;
+
+        const updateItem = (id: string, changes: Partial<OfflineCheckInItem>) => {
+          set(state => ({
+            queue: state.queue.map(item => (item.id === id ? { ...item, ...changes } : item)),
+          }));
+        };
+
+        try {
+          // Replay in scan order so conflicts are reported the way they happened at the gate
+          const pendingItems = get().queue.filter(item => item.status === 'pending');
+
+          for (const item of pendingItems) {
+            updateItem(item.id, { status: 'syncing', attempts: item.attempts + 1 });
+
+            try {
+              const outcome = await apiService.checkInByQR({ qrContent: item.qrContent, eventId: item.eventId });
+
+              if (outcome.status === 'success') {
+                updateItem(item.id, { status: 'synced', syncedAt: new Date().toISOString() });
+                syncedCount++;
+              } else {
+                // Rejected tickets are conflicts to reconcile; request failures can be retried
+                updateItem(item.id, {
+                  status: isTicketRejection(outcome) ? 'conflict' : 'failed',
+                  errorCode: outcome.reason,
+                  message: outcome.message,
+                });
+              }
+            } catch (error: any) {
+              if (isNetworkError(error)) {
+                // Still offline - keep the rest of the queue for the next attempt
+                updateItem(item.id, { status: 'pending' });
+                set({ isOnline: false });
+                break;
+              }
+
+              updateItem(item.id, {
+                status: 'failed',
+                errorCode: getErrorCode(error),
+                message: error.message,
+              });
+            }
+          }
+        } finally {
+          set({ isSyncing: false, lastSyncAt: new Date().toISOString() });
+        }
+
+        if (syncedCount > 0) {
+          const { useAuthStore } = await import('./authStore');
+          useAuthStore.getState().setShouldRefreshHomeStats(true);
+        }
+      },
+
+      setOnline: (isOnline: boolean) => {
+        const wasOnline = get().isOnline;
+        set({ isOnline });
+
+        // Network came back - replay what was scanned while offline
+        if (isOnline && !wasOnline) {
+          get().syncQueue().catch(() => {
+            // Silent failure - items stay pending
+          });
+        }
+      },
+
+      retryItem: (id: string) => {
+        set(state => ({
+          queue: state.queue.map(item =>
+            item.id === id ? { ...item, status: 'pending', errorCode: undefined, message: undefined } : item
+          ),
+        }));
+      },
+
+      dismissItem: (id: string) => {
+        set(state => ({ queue: state.queue.filter(item => item.id !== id) }));
+      },
+
+      clearSynced: () => {
+        set(state => ({ queue: state.queue.filter(item => item.status !== 'synced') }));
+      },
+
+      getPendingCount: () => {
+        return get().queue.filter(item => item.status === 'pending' || item.status === 'syncing').length;
+      },
+
+      getConflicts: () => {
+        return get().queue.filter(item => item.status === 'conflict' || item.status === 'failed');
+      },
+
+      isQueued: (qrContent: string) => {
+        return get().queue.some(
+          item => item.qrContent === qrContent && (item.status === 'pending' || item.status === 'syncing')
+        );
+      },
+
+      reset: () => {
+        set(initialState);
+      },
+    }),
+    {
+      name: 'offline-checkin-queue',
+      storage: createJSONStorage(() => accountStorage),
+      merge: mergeAccountState<OfflineCheckInStore>(initialState),
+      partialize: (state) => ({
+        queue: state.queue,
+        lastSyncAt: state.lastSyncAt,
+      }),
+      // Items interrupted mid-sync (app killed) go back to pending
+      onRehydrateStorage: () => (state) => {
+        if (state?.queue.some(item => item.status === 'syncing')) {
+          useOfflineCheckInStore.setState({
+            queue: state.queue.map(item =>
+              item.status === 'syncing' ? { ...item, status: 'pending' } : item
+            ),
+          });
+        }
+      },
+    }
+  )
+);
+
+onAccountScopeChange(() => useOfflineCheckInStore.persist.rehydrate());
@@ -0,0 +1,256 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import {
+  ScanSession,
+  ScanSource,
+  ScanMode,
+  ScanResultEntry,
+  ScanResultStatus,
+  ScanSessionCounters,
+  CheckInOutcome,
+} from '../types';
+import { QR_CONFIG } from '../utils/config';
+import { accountStorage, mergeAccountState, onAccountScopeChange } from '../services/accountStorage';
+
+type ScanResultDetails = Pick<ScanResultEntry, 'errorCode' | 'message' | 'customerName' | 'ticketType' | 'revertReason'>;
+
+interface ScanSessionState {
+  activeSession: ScanSession | null;
+  history: ScanSession[]; // Finished sessions, newest first
+}
+
+interface ScanSessionActions {
+  // Begin a new session, ending any session still open
+  startSession: (source: ScanSource, eventId?: string, mode?: ScanMode) => ScanSession;
+  setMode: (mode: ScanMode) => void;
+
+  // Record a read code. Codes already accepted in this session come back as 'duplicate'
+  recordScan: (code: string) => ScanResultEntry | null;
+  completeScan: (id: string, status: ScanResultStatus, details?: ScanResultDetails) => void;
+
+  // Append an already-resolved result, e.g. the tickets of one face check-in
+  addResult: (code: string, status: ScanResultStatus, details?: ScanResultDetails) => ScanResultEntry | null;
+
+  // Close the active session and keep it for review
+  endSession: () => ScanSession | null;
+
+  hasScanned: (code: string) => boolean;
+  getSession: (sessionId: string) => ScanSession | null;
+  deleteSession: (sessionId: string) => void;
+  clearHistory: () => void;
+  reset: () => void;
+}
+
+export type ScanSessionStore = ScanSessionState & ScanSessionActions;
+
+// Statuses that mean the code has already been used up in this session
+const ACCEPTED_STATUSES: ScanResultStatus[] = ['pending', 'success', 'queued'];
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getSessionCounters = (session: ScanSession | null): ScanSessionCounters => {
+  const counters: ScanSessionCounters = {
+    total: 0,
+    pending: 0,
+    success: 0,
+    duplicate: 0,
+    failed: 0,
+    queued: 0,
+    reverted: 0,
+  };
+
+  (session?.results || []).forEach(entry => {
+    counters.total++;
+    counters[entry.status]++;
+  });
+
+  return counters;
+};
+
+// Collapse a backend outcome into the session tally
+export const getScanResultStatus = (outcome: CheckInOutcome): ScanResultStatus => {
+  switch (outcome.status) {
+    case 'success':
+      return 'success';
+    case 'already_used':
+      return 'duplicate';
+    default:
+      return 'failed';
+  }
+};
+
+const initialState: ScanSessionState = {
+  activeSession: null,
+  history: [],
+};
+
+export const useScanSessionStore = create<ScanSessionStore>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+
+      startSession: (source: ScanSource, eventId?: string, mode: ScanMode = 'single') => {
+        if (get().activeSession) {
+          get().endSession();
+        }
+
+        const session: ScanSession = {
+          id: generateId(),
+          source,
+          eventId,
+          mode,
+          startedAt: new Date().toISOString(),
+          endedAt: null,
+          results: [],
+        };
+
+        set({ activeSession: session });
+        return session;
+      },
+
+      setMode: (mode: ScanMode) => {
+        const { activeSession } = get();
+        if (!activeSession) {
+          return;
+        }
+
+        set({ activeSession: { ...activeSession, mode } });
+      },
+
+      recordScan: (code: string) => {
+        const { activeSession } = get();
+        if (!activeSession) {
+          return null;
+        }
+
+        const isDuplicate = get().hasScanned(code);
+        const now = new Date().toISOString();
+        const entry: ScanResultEntry = {
+          id: generateId(),
+          code,
+          status: isDuplicate ? 'duplicate' : 'pending',
+          scannedAt: now,
+          completedAt: isDuplicate ? now : undefined,
+        };
+
+        set({
+          activeSession: {
+            ...activeSession,
+            results: [...activeSession.results, entry],
+          },
+        });
+        return entry;
+      },
+
+      completeScan: (id, status, details) => {
+        const updateSession = (session: ScanSession): ScanSession => {
+          if (!session.results.some(entry => entry.id === id)) {
+            return session;
+          }
+
+          return {
+            ...session,
+            results: session.results.map(entry =>
+              entry.id === id
+                ? {
+                    ...entry,
+                    ...details,
+                    status,
+                    completedAt: new Date().toISOString(),
+                  }
+                : entry
+            ),
+          };
+        };
+
+        // Requests still in flight when the session ends land in history
+        set(state => ({
+          activeSession: state.activeSession ? updateSession(state.activeSession) : null,
+          history: state.history.map(updateSession),
+        }));
+      },
+
+      addResult: (code, status, details) => {
+        const { activeSession } = get();
+        if (!activeSession) {
+          return null;
+        }
+
+        const now = new Date().toISOString();
+        const entry: ScanResultEntry = {
+          ...details,
+          id: generateId(),
+          code,
+          status,
+          scannedAt: now,
+          completedAt: now,
+        };
+
+        set({
+          activeSession: {
+            ...activeSession,
+            results: [...activeSession.results, entry],
+          },
+        });
+        return entry;
+      },
+
+      endSession: () => {
+        const { activeSession, history } = get();
+        if (!activeSession) {
+          return null;
+        }
+
+        const ended: ScanSession = { ...activeSession, endedAt: new Date().toISOString() };
+
+        // Empty sessions are not worth reviewing
+        set({
+          activeSession: null,
+          history: ended.results.length > 0
+            ? [ended, ...history].slice(0, QR_CONFIG.SESSION_HISTORY_SIZE)
+            : history,
+        });
+        return ended;
+      },
+
+      hasScanned: (code: string) => {
+        const { activeSession } = get();
+        return !!activeSession?.results.some(
+          entry => entry.code === code && ACCEPTED_STATUSES.includes(entry.status)
+        );
+      },
+
+      getSession: (sessionId: string) => {
+        const { activeSession, history } = get();
+        if (activeSession?.id === sessionId) {
+          return activeSession;
+        }
+        return history.find(session => session.id === sessionId) || null;
+      },
+
+      deleteSession: (sessionId: string) => {
+        set(state => ({
+          history: state.history.filter(session => session.id !== sessionId),
+        }));
+      },
+
+      clearHistory: () => {
+        set({ history: [] });
+      },
+
+      reset: () => {
+        set(initialState);
+      },
+    }),
+    {
+      name: 'scan-sessions',
+      storage: createJSONStorage(() => accountStorage),
+      merge: mergeAccountState<ScanSessionStore>(initialState),
+      partialize: (state) => ({
+        history: state.history,
+      }),
+    }
+  )
+);
+
+onAccountScopeChange(() => useScanSessionStore.persist.rehydrate());
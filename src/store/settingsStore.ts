@@ -1,10 +1,10 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { getLocales } from 'react-native-localize';
 import { UserConfig } from '../types';
 import { apiService } from '../services/api';
 import { mapUserConfigToBackend } from '../utils/userConfig';
+import { createAccountStorage, mergeAccountState, onAccountScopeChange } from '../services/accountStorage';
 
 // Type aliases for settings
 type Theme = 'light' | 'dark' | 'system';
@@ -41,6 +41,9 @@ const getDeviceLanguage = (): Language => {
   return 'en';
 };
 
+// Signed out, the theme and language stay what was picked on this device
+const settingsStorage = createAccountStorage({ keepDeviceState: true });
+
 const defaultSettings: SettingsState = {
   theme: 'light',
   language: getDeviceLanguage(),
@@ -121,7 +124,7 @@ export const useSettingsStore = create<SettingsStore>()(
 
           const response = await apiService.updateUserConfig(backendConfig);
           
-          if (response.flag) {
+          if (response.isSuccess) {
             // Update successful, update local state
             set({
               ...newConfig,
@@ -143,8 +146,9 @@ export const useSettingsStore = create<SettingsStore>()(
       },
     }),
     {
-      name: 'app-settings',  // Persists independently from auth
-      storage: createJSONStorage(() => AsyncStorage),
+      name: 'app-settings',  // Persists independently from auth, per account
+      storage: createJSONStorage(() => settingsStorage),
+      merge: mergeAccountState<SettingsStore>(defaultSettings),
       partialize: (state) => ({
         theme: state.theme,
         language: state.language,
@@ -153,4 +157,6 @@ export const useSettingsStore = create<SettingsStore>()(
       }),
     }
   )
-); 
+);
+
+onAccountScopeChange(() => useSettingsStore.persist.rehydrate());
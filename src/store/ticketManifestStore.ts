@@ -0,0 +1,286 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { apiService } from '../services/api';
+import {
+  TicketManifest,
+  ManifestTicket,
+  ManifestValidationResult,
+  QRCodeDetailItem,
+} from '../types';
+import { handleApiError } from '../utils/errorHandler';
+import { accountStorage, mergeAccountState, onAccountScopeChange } from '../services/accountStorage';
+
+export interface ManifestInfo {
+  ticketCount: number;
+  checkedInCount: number;
+  sizeBytes: number;
+  ageMs: number;
+  version: string;
+  refreshedAt: string;
+}
+
+interface TicketManifestState {
+  manifests: Record<string, TicketManifest>; // Keyed by eventId
+  loadingEventId: string | null;
+  error: string | null;
+}
+
+interface TicketManifestActions {
+  // Download the full issued-ticket list for an event
+  downloadManifest: (eventId: string) => Promise<void>;
+
+  // Fetch only the changes since the stored version stamp
+  refreshManifest: (eventId: string) => Promise<void>;
+
+  removeManifest: (eventId: string) => void;
+
+  // Instant, offline validation of a scanned code
+  validateCode: (eventId: string, qrCode: string) => ManifestValidationResult;
+
+  // Record a check-in made on this device
+  markCheckedIn: (eventId: string, qrCode: string, checkerName?: string | null) => void;
+
+  // Undo a local check-in the backend rejected
+  unmarkCheckedIn: (eventId: string, qrCode: string) => void;
+
+  hasManifest: (eventId: string) => boolean;
+  getManifestInfo: (eventId: string) => ManifestInfo | null;
+
+  clearError: () => void;
+  reset: () => void;
+}
+
+export type TicketManifestStore = TicketManifestState & TicketManifestActions;
+
+const toManifestTicket = (item: QRCodeDetailItem): ManifestTicket => ({
+  issuedId: item.issuedId,
+  qrCode: item.qrCode,
+  ticketId: item.ticketId,
+  eventId: item.eventId,
+  ticketName: item.ticketName,
+  customerName: item.customerName,
+  customerEmail: item.customerEmail,
+  isCheckedIn: item.isCheckedIn,
+  checkedInAt: item.checkedInAt,
+  checkerName: item.checkerName || null,
+});
+
+const initialState: TicketManifestState = {
+  manifests: {},
+  loadingEventId: null,
+  error: null,
+};
+
+export const useTicketManifestStore = create<TicketManifestStore>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+
+      downloadManifest: async (eventId: string) => {
+        set({ loadingEventId: eventId, error: null });
+
+        try {
+          const response = await apiService.getTicketManifest(eventId);
+
+          if (!response.isSuccess || !response.data) {
+            throw new Error(response.message || 'Failed to download ticket manifest');
+          }
+
+          const tickets: Record<string, ManifestTicket> = {};
+          response.data.items.forEach(item => {
+            tickets[item.qrCode] = toManifestTicket(item);
+          });
+
+          const now = new Date().toISOString();
+          set(state => ({
+            manifests: {
+              ...state.manifests,
+              [eventId]: {
+                eventId,
+                version: response.data.version,
+                generatedAt: response.data.generatedAt,
+                downloadedAt: now,
+                refreshedAt: now,
+                tickets,
+              },
+            },
+            loadingEventId: null,
+          }));
+        } catch (error: any) {
+          set({ loadingEventId: null, error: handleApiError(error) });
+          throw error;
+        }
+      },
+
+      refreshManifest: async (eventId: string) => {
+        const existing = get().manifests[eventId];
+        if (!existing) {
+          await get().downloadManifest(eventId);
+          return;
+        }
+
+        set({ loadingEventId: eventId, error: null });
+
+        try {
+          const response = await apiService.getTicketManifest(eventId, existing.version);
+
+          if (!response.isSuccess || !response.data) {
+            throw new Error(response.message || 'Failed to refresh ticket manifest');
+          }
+
+          // Backend may answer with a full snapshot if the version is too old
+          const tickets: Record<string, ManifestTicket> = response.data.isIncremental
+            ? { ...get().manifests[eventId]?.tickets }
+            : {};
+
+          response.data.items.forEach(item => {
+            tickets[item.qrCode] = toManifestTicket(item);
+          });
+          (response.data.removedQrCodes || []).forEach(qrCode => {
+            delete tickets[qrCode];
+          });
+
+          // Keep local check-ins the server has not seen yet
+          const current = get().manifests[eventId]?.tickets || {};
+          Object.values(current).forEach(ticket => {
+            if (ticket.checkedInLocally && tickets[ticket.qrCode] && !tickets[ticket.qrCode].isCheckedIn) {
+              tickets[ticket.qrCode] = { ...tickets[ticket.qrCode], ...ticket };
+            }
+          });
+
+          set(state => ({
+            manifests: {
+              ...state.manifests,
+              [eventId]: {
+                ...existing,
+                version: response.data.version,
+                generatedAt: response.data.generatedAt,
+                refreshedAt: new Date().toISOString(),
+                tickets,
+              },
+            },
+            loadingEventId: null,
+          }));
+        } catch (error: any) {
+          set({ loadingEventId: null, error: handleApiError(error) });
+          throw error;
+        }
+      },
+
+      removeManifest: (eventId: string) => {
+        set(state => {
+          const manifests = { ...state.manifests };
+          delete manifests[eventId];
+          return { manifests };
+        });
+      },
+
+      validateCode: (eventId: string, qrCode: string): ManifestValidationResult => {
+        const manifest = get().manifests[eventId];
+        if (!manifest) {
+          return { status: 'no_manifest' };
+        }
+
+        const ticket = manifest.tickets[qrCode];
+        if (!ticket) {
+          return { status: 'unknown' };
+        }
+
+        return ticket.isCheckedIn ? { status: 'already_used', ticket } : { status: 'valid', ticket };
+      },
+
+      markCheckedIn: (eventId: string, qrCode: string, checkerName?: string | null) => {
+        const manifest = get().manifests[eventId];
+        const ticket = manifest?.tickets[qrCode];
+        if (!ticket) {
+          return;
+        }
+
+        set(state => ({
+          manifests: {
+            ...state.manifests,
+            [eventId]: {
+              ...manifest,
+              tickets: {
+                ...manifest.tickets,
+                [qrCode]: {
+                  ...ticket,
+                  isCheckedIn: true,
+                  checkedInAt: new Date().toISOString(),
+                  checkerName: checkerName ?? ticket.checkerName,
+                  checkedInLocally: true,
+                },
+              },
+            },
+          },
+        }));
+      },
+
+      unmarkCheckedIn: (eventId: string, qrCode: string) => {
+        const manifest = get().manifests[eventId];
+        const ticket = manifest?.tickets[qrCode];
+        if (!ticket || !ticket.checkedInLocally) {
+          return;
+        }
+
+        set(state => ({
+          manifests: {
+            ...state.manifests,
+            [eventId]: {
+              ...manifest,
+              tickets: {
+                ...manifest.tickets,
+                [qrCode]: {
+                  ...ticket,
+                  isCheckedIn: false,
+                  checkedInAt: null,
+                  checkedInLocally: false,
+                },
+              },
+            },
+          },
+        }));
+      },
+
+      hasManifest: (eventId: string) => {
+        return !!get().manifests[eventId];
+      },
+
+      getManifestInfo: (eventId: string): ManifestInfo | null => {
+        const manifest = get().manifests[eventId];
+        if (!manifest) {
+          return null;
+        }
+
+        const tickets = Object.values(manifest.tickets);
+        return {
+          ticketCount: tickets.length,
+          checkedInCount: tickets.filter(ticket => ticket.isCheckedIn).length,
+          // Approximate storage footprint of the persisted JSON
+          sizeBytes: JSON.stringify(manifest).length,
+          ageMs: Date.now() - new Date(manifest.refreshedAt).getTime(),
+          version: manifest.version,
+          refreshedAt: manifest.refreshedAt,
+        };
+      },
+
+      clearError: () => {
+        set({ error: null });
+      },
+
+      reset: () => {
+        set(initialState);
+      },
+    }),
+    {
+      name: 'ticket-manifests',
+      storage: createJSONStorage(() => accountStorage),
+      merge: mergeAccountState<TicketManifestStore>(initialState),
+      partialize: (state) => ({
+        manifests: state.manifests,
+      }),
+    }
+  )
+);
+
+onAccountScopeChange(() => useTicketManifestStore.persist.rehydrate());
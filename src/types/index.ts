@@ -1,31 +1,26 @@
 // API Response Types
-export interface ApiResponse<T = any> {
-  flag: boolean;
-  code: number;
+// Every ApiService endpoint resolves to this envelope, whatever format the backend used
+// ({flag, code}, {success} or {isSuccess}) - see services/apiResult.ts
+export interface Result<T = any> {
+  isSuccess: boolean;
+  status: number; // Backend code when the body has one, otherwise the HTTP status
+  errorCode: ApiErrorCode | null; // Set when isSuccess is false
   message: string;
   data: T;
 }
 
-// New backend response format for specific endpoints
-export interface BackendApiResponse<T = any> {
-  success: boolean;
-  message: string;
-  data: T;
-}
+// Failure codes a Result can carry - backend codes plus ones derived from the HTTP status
+export type ApiErrorCode = ErrorCode | 'BAD_REQUEST' | 'FORBIDDEN' | 'NOT_FOUND';
 
-// Check-in History API Response
-export interface CheckInHistoryResponse {
-  isSuccess: boolean;
-  data: {
-    items: CheckInLogItem[];
-    pageNumber: number;
-    pageSize: number;
-    totalItems: number;
-    totalPages: number;
-    hasNextPage: boolean;
-    hasPreviousPage: boolean;
-  };
-  message: string | null;
+// Page of results from endpoints that page by pageNumber (check-in history, ticket search)
+export interface PagedList<T> {
+  items: T[];
+  pageNumber: number;
+  pageSize: number;
+  totalItems: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
 }
 
 // Check-in Log Item
@@ -42,25 +37,63 @@ export interface CheckInLogItem {
   eventName: string | null;
   customerEmail: string | null;
   customerName: string | null;
-  checkInMethod: 'QrCode' | 'FaceRecognition' | 'Other';
+  checkInMethod: CheckInMethod;
   used: boolean;
   status: string;
   createdAt: string;
 }
 
-// Face Check-in Response Types
-export interface FaceCheckInResponse {
-  success: boolean;
-  message: string;
-  data: {
-    orderId: string;
-    eventId: string;
-    customerName: string;
-    totalTickets: number;
-    successfulCheckins: number;
-    alreadyCheckedIn: number;
-    checkinDetails: CheckInTicketDetail[];
-  };
+// Face Check-in Result Types
+export interface FaceCheckInData {
+  orderId: string;
+  eventId: string;
+  customerName: string;
+  totalTickets: number;
+  successfulCheckins: number;
+  alreadyCheckedIn: number;
+  checkinDetails: CheckInTicketDetail[];
+  outcomes?: CheckInOutcome[]; // Typed view of checkinDetails, added by apiService
+}
+
+// Face enrollment - several poses, each checked on the device before upload
+export type FacePose = 'front' | 'left' | 'right';
+
+export type FaceQualityIssue = 'TOO_SMALL' | 'TOO_DARK' | 'TOO_BRIGHT' | 'BLURRY' | 'UNVERIFIED';
+
+export interface FaceQualityReport {
+  width: number;
+  height: number;
+  brightness: number | null; // Mean luma of the face area, null when the photo could not be analysed
+  sharpness: number | null;
+  issues: FaceQualityIssue[];
+}
+
+export interface FaceEnrollmentShot {
+  pose: FacePose;
+  uri: string;
+  quality: FaceQualityReport;
+}
+
+export type FaceEnrollmentErrorReason =
+  | 'NO_FACE'
+  | 'MULTIPLE_FACES'
+  | 'POSE_MISMATCH'
+  | 'MISSING_POSE'
+  | 'LOW_QUALITY'
+  | 'SPOOF_DETECTED'
+  | 'FACE_MISMATCH' // The shots show different people
+  | 'SERVER_ERROR'
+  | 'UNKNOWN_ERROR';
+
+export interface FaceEnrollmentError {
+  pose?: FacePose; // Missing when the whole request failed
+  reason: FaceEnrollmentErrorReason;
+  message?: string; // Raw backend message, for anything the reason code doesn't cover
+}
+
+export interface FaceEnrollmentResult {
+  enrolledPoses: FacePose[];
+  errors: FaceEnrollmentError[]; // Typed view of the backend's errors, added by apiService
 }
 
 export interface CheckInTicketDetail {
@@ -75,14 +108,58 @@ export interface PreviousCheckInInfo {
   checkedInAt: string;
   checkedInBy: string;
   checkerName: string;
-  checkInMethod: 'QrCode' | 'FaceRecognition' | 'Other';
+  checkInMethod: CheckInMethod;
 }
 
-// QR Code Detail API Response
-export interface QRCodeDetailResponse {
-  isSuccess: boolean;
-  data: QRCodeDetailItem;
-  message: string | null;
+// Check-in outcome shared by QR and face check-in
+// 'Manual' marks tickets checked in from the ticket lookup, without scanning
+export type CheckInMethod = 'QrCode' | 'FaceRecognition' | 'Manual' | 'Other';
+
+export type CheckInOutcomeStatus =
+  | 'success'
+  | 'already_used'
+  | 'wrong_event'
+  | 'event_cancelled'
+  | 'not_found'
+  | 'failed';
+
+// Request-level failures, as opposed to the ticket being rejected
+export type CheckInFailureReason =
+  | 'UPDATE_FAILED'
+  | 'LOG_CREATION_FAILED'
+  | 'CHECKIN_ERROR'
+  | 'UNAUTHORIZED'
+  | 'SERVER_ERROR'
+  | 'UNKNOWN_ERROR';
+
+export interface CheckInTicketInfo {
+  ticketCode: string;
+  ticketType?: string;
+  customerName?: string;
+  eventId?: string; // Event the ticket belongs to
+  eventName?: string;
+}
+
+interface CheckInOutcomeBase {
+  ticket: CheckInTicketInfo;
+  message?: string; // Raw backend message, for anything the reason code doesn't cover
+}
+
+export type CheckInOutcome =
+  | (CheckInOutcomeBase & { status: 'success'; reason: 'CHECKED_IN'; checkedInAt?: string })
+  | (CheckInOutcomeBase & { status: 'already_used'; reason: 'TICKET_ALREADY_USED'; previousCheckIn?: PreviousCheckInInfo })
+  | (CheckInOutcomeBase & { status: 'wrong_event'; reason: 'WRONG_EVENT' })
+  | (CheckInOutcomeBase & { status: 'event_cancelled'; reason: 'EVENT_CANCELLED' })
+  | (CheckInOutcomeBase & { status: 'not_found'; reason: 'TICKET_NOT_FOUND' })
+  | (CheckInOutcomeBase & { status: 'failed'; reason: CheckInFailureReason });
+
+export type CheckInReasonCode = CheckInOutcome['reason'];
+
+// What CheckInResultModal shows - one QR ticket or every ticket of a face match
+export interface CheckInResultSummary {
+  method: CheckInMethod;
+  customerName?: string;
+  outcomes: CheckInOutcome[];
 }
 
 // QR Code Detail Item
@@ -105,6 +182,84 @@ export interface QRCodeDetailItem {
   qrCodeUrl: string;
 }
 
+// Issued-ticket manifest of one event, for offline validation
+export interface TicketManifestPayload {
+  eventId: string;
+  version: string; // Version stamp, sent back as `since` for incremental refresh
+  generatedAt: string;
+  isIncremental: boolean;
+  items: QRCodeDetailItem[];
+  removedQrCodes?: string[]; // Tickets cancelled since the given version
+}
+
+// Ticket kept on the device for offline validation
+export interface ManifestTicket {
+  issuedId: string;
+  qrCode: string;
+  ticketId: string;
+  eventId: string;
+  ticketName: string;
+  customerName: string;
+  customerEmail: string;
+  isCheckedIn: boolean;
+  checkedInAt: string | null;
+  checkerName: string | null;
+  checkedInLocally?: boolean; // Checked in on this device, not yet confirmed by a refresh
+}
+
+export interface TicketManifest {
+  eventId: string;
+  version: string;
+  generatedAt: string;
+  downloadedAt: string;
+  refreshedAt: string;
+  tickets: Record<string, ManifestTicket>; // Keyed by qrCode
+}
+
+export type ManifestValidationResult =
+  | { status: 'valid'; ticket: ManifestTicket }
+  | { status: 'already_used'; ticket: ManifestTicket }
+  | { status: 'unknown' }
+  | { status: 'no_manifest' };
+
+// Scan session - one run of a scanner, kept for review after it ends
+export type ScanSource = 'qr' | 'face';
+export type ScanMode = 'single' | 'continuous';
+export type ScanResultStatus = 'pending' | 'success' | 'duplicate' | 'failed' | 'queued' | 'reverted';
+
+export interface ScanResultEntry {
+  id: string;
+  code: string;
+  status: ScanResultStatus;
+  scannedAt: string;
+  completedAt?: string;
+  errorCode?: string;
+  message?: string;
+  customerName?: string;
+  ticketType?: string;
+  revertReason?: string; // Why a successful check-in was undone
+}
+
+export interface ScanSession {
+  id: string;
+  source: ScanSource;
+  eventId?: string;
+  mode: ScanMode;
+  startedAt: string;
+  endedAt: string | null;
+  results: ScanResultEntry[]; // Oldest first
+}
+
+export interface ScanSessionCounters {
+  total: number;
+  pending: number;
+  success: number;
+  duplicate: number;
+  failed: number;
+  queued: number;
+  reverted: number;
+}
+
 // Pagination structure từ backend mới
 export interface PaginatedData<T> {
   items: T[];
@@ -227,6 +382,30 @@ export interface UserConfig {
 export interface LoginRequest {
   username: string;
   password: string;
+  device?: DeviceInfo; // Lets the backend tell this install apart in the sessions list
+}
+
+export interface DeviceInfo {
+  deviceId: string; // Generated once per install
+  deviceName: string;
+  platform: string; // 'ios' | 'android'
+  osVersion: string;
+  appVersion: string;
+}
+
+// A signed-in device, as listed on the Devices & sessions screen
+export interface DeviceSession {
+  sessionId: string;
+  deviceId: string;
+  deviceName: string;
+  platform: string;
+  osVersion?: string;
+  appVersion?: string;
+  ipAddress?: string;
+  location?: string;
+  createdAt: string; // Sign-in time
+  lastActiveAt: string;
+  isCurrent: boolean; // The session making the request
 }
 
 // Backend response format (actual structure from API)
@@ -275,6 +454,30 @@ export interface TokenInfo {
   issuedAt: number; // timestamp
 }
 
+export type LoginMethod = 'password' | 'face';
+
+// A signed-in account kept on the device while another one is active
+export interface AccountSession {
+  accessToken: string;
+  refreshToken: string;
+  accessTokenExpiresAt: number | null;
+  refreshTokenExpiresAt: number | null;
+  user: CombinedUserData;
+  userConfig: UserConfig | null;
+  loginMethod: LoginMethod | null;
+}
+
+// Claims read from a JWT; times are ms timestamps, missing claims are null
+export interface TokenClaims {
+  accountId: string | null;
+  userId: string | null;
+  username: string | null;
+  email: string | null;
+  role: Role | null;
+  issuedAt: number | null;
+  expiresAt: number | null;
+}
+
 export interface RefreshTokenRequest {
   refreshToken: string;
 }
@@ -334,6 +537,61 @@ export interface EventStats {
   lastCheckIn?: string;
 }
 
+// Live event dashboard - pushed by the hub (OnEventManagerDashboard) or polled from getEventStats
+export interface EventDashboardStats {
+  eventId: string;
+  totalIssued: number;
+  totalCheckedIn: number;
+  checkInsPerMinute?: number; // Computed from recent arrivals when the backend leaves it out
+  ticketTypes: TicketTypeBreakdown[];
+  collaborators: CollaboratorBreakdown[];
+  recentArrivals: EventArrival[]; // Newest first
+  updatedAt: string;
+}
+
+export interface TicketTypeBreakdown {
+  ticketType: string;
+  issued: number;
+  checkedIn: number;
+}
+
+export interface CollaboratorBreakdown {
+  collaboratorId?: string;
+  collaboratorName: string;
+  checkedIn: number;
+}
+
+export interface EventArrival {
+  qrCode: string;
+  customerName?: string | null;
+  ticketType?: string | null;
+  checkerName?: string | null;
+  checkInMethod?: CheckInMethod;
+  checkedInAt: string;
+}
+
+export type EventDashboardSource = 'live' | 'polling';
+
+// SignalR hub contract - each server-to-client hub method mapped to its payload
+export type EventDashboardHubPayload = Partial<EventDashboardStats> & { eventId: string };
+
+export interface HubEventMap {
+  ReceiveNotification: Notification;
+  OnCollaboratorStaticChanged: CollaboratorStaticResponse;
+  OnCheckinLogHistoryChanged: CheckInLogItem[];
+  OnNewsCreated: News;
+  OnNewsUpdated: News;
+  OnEventManagerDashboard: EventDashboardHubPayload;
+  notificationread: string; // notificationId
+  allnotificationsread: string; // userId
+}
+
+export type HubEventName = keyof HubEventMap;
+export type HubEventHandler<K extends HubEventName> = (payload: HubEventMap[K]) => void;
+
+// Real-time hub connection - 'idle' before connecting or after logout
+export type HubConnectionStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
 // Ticket & Check-in Types - Cập nhật theo API mới
 export interface TicketIssued {
   issuedId: string; // Guid
@@ -349,6 +607,14 @@ export interface TicketIssued {
 
 export interface CheckInRequest {
   qrContent: string;
+  eventId?: string; // Event the collaborator is scanning for - tickets of other events are rejected
+  checkInMethod?: CheckInMethod; // Defaults to QrCode on the backend
+}
+
+export interface RevertCheckInRequest {
+  qrContent: string;
+  eventId?: string;
+  reason: string; // Required - stored in the backend audit trail
 }
 
 export interface CheckInResponse {
@@ -357,6 +623,21 @@ export interface CheckInResponse {
   message: string;
 }
 
+// Offline check-in queue (scanned while the backend was unreachable)
+export type OfflineCheckInStatus = 'pending' | 'syncing' | 'synced' | 'conflict' | 'failed';
+
+export interface OfflineCheckInItem {
+  id: string;
+  qrContent: string;
+  eventId?: string;
+  scannedAt: string; // ISO time of the scan at the gate
+  status: OfflineCheckInStatus;
+  attempts: number;
+  errorCode?: string; // Backend code for conflicts, e.g. TICKET_ALREADY_USED
+  message?: string;
+  syncedAt?: string;
+}
+
 export interface TicketIssuedResponse {
   ticketIssuedId: string;
   qrCode: string;
@@ -398,6 +679,34 @@ export interface Notification {
   readAtVietnam?: string; // nullable DateTime in Vietnam timezone
 }
 
+// Notification list filters - categories bundle the NotificationType values collaborators care about
+export type NotificationCategory = 'all' | 'events' | 'orders' | 'payouts' | 'admin' | 'other';
+export type NotificationReadFilter = 'all' | 'unread' | 'read';
+
+export interface NotificationFilter {
+  category: NotificationCategory;
+  readStatus: NotificationReadFilter;
+  search: string;
+}
+
+export interface NotificationDaySection {
+  key: string; // yyyy-mm-dd in local time
+  date: string;
+  data: Notification[];
+}
+
+// What a NotificationPresenter shows - one entry per NotificationType, merged while they keep arriving
+export interface NotificationPresentation {
+  groupKey: string;
+  notificationType: NotificationType;
+  title: string;
+  body: string;
+  count: number;
+  notificationIds: string[]; // Newest first
+  link: string; // Followed with openDeepLink on tap
+  presentedAt: string;
+}
+
 // Settings Types
 export interface UserSettings {
   language: 'en' | 'vi';
@@ -423,6 +732,9 @@ export type RootStackParamList = {
   ChangePassword: undefined;
   CheckInHistory: { eventId: string; eventName: string };
   FaceScanner: { mode?: 'update' | 'login' | 'checkin'; eventId?: string };
+  ScanSessionSummary: { sessionId?: string };
+  TicketLookup: { eventId: string; eventName: string };
+  EventDashboard: { eventId: string; eventName: string };
 };
 
 export type AuthStackParamList = {
@@ -456,12 +768,15 @@ export type ProfileStackParamList = {
   EditProfile: undefined;
   ChangePassword: undefined;
   Settings: undefined;
+  Devices: undefined;
 };
 
 // Error Types
 export type ErrorCode = 
   | 'TICKET_NOT_FOUND'
   | 'TICKET_ALREADY_USED'
+  | 'WRONG_EVENT'
+  | 'EVENT_CANCELLED'
   | 'UPDATE_FAILED'
   | 'LOG_CREATION_FAILED'
   | 'CHECKIN_ERROR'
@@ -472,7 +787,9 @@ export type ErrorCode =
   | 'UNKNOWN_ERROR'
   | 'ACCOUNT_NOT_FOUND'
   | 'INVALID_OR_EXPIRED_CODE'
-  | 'PASSWORD_RESET_ERROR';
+  | 'PASSWORD_RESET_ERROR'
+  | 'SESSION_EXPIRED'
+  | 'UNDO_EXPIRED';
 
 export interface AppError {
   code: ErrorCode;
@@ -12,6 +12,8 @@ export const API_CONFIG = {
 export const AUTH_CONFIG = {
   TOKEN_EXPIRE_TIME: 10800, // 3 hours in seconds
   REFRESH_TOKEN_EXPIRE_TIME: 7 * 24 * 60 * 60, // 7 days in seconds
+  REFRESH_LEAD_TIME: 5 * 60, // Refresh this long before the access token expires (seconds)
+  CLOCK_SKEW_TOLERANCE: 30, // Device clock drift ignored when reading token times (seconds)
   ALLOWED_ROLES: ['Collaborator'],
 };
 
@@ -34,16 +36,66 @@ export const PAGINATION_CONFIG = {
 // QR Code Configuration
 export const QR_CONFIG = {
   SCAN_DELAY: 2000, // ms
+  CONTINUOUS_SCAN_DELAY: 400, // ms between different codes in continuous mode
+  RESCAN_COOLDOWN: 3000, // ms before the same code is read again
+  BATCH_CONCURRENCY: 3, // Parallel check-in requests in continuous mode
+  SESSION_LOG_SIZE: 20, // Results shown in the live scan log
+  SESSION_HISTORY_SIZE: 20, // Finished sessions kept for review
   CAMERA_QUALITY: 0.8,
   FLASH_MODE: 'off' as const,
 };
 
+// Check-in Configuration
+export const CHECK_IN_CONFIG = {
+  UNDO_WINDOW: 60000, // ms after a check-in during which it can still be undone
+  REVERT_REASON_MAX_LENGTH: 200,
+};
+
+// Live Event Dashboard Configuration
+export const DASHBOARD_CONFIG = {
+  POLL_INTERVAL: 15000, // ms between getEventStats calls while the hub is unavailable
+  RATE_WINDOW_MINUTES: 5, // Arrivals counted for check-ins per minute
+  RECENT_ARRIVALS_SIZE: 20,
+};
+
+// Real-time Notification Delivery Configuration
+export const NOTIFICATION_CONFIG = {
+  GROUP_WINDOW: 60000, // ms during which notifications of the same type merge into one entry
+  BANNER_DURATION: 5000, // ms an in-app banner stays up
+  FILTER_MAX_PAGES: 5, // Pages one load-more may fetch while looking for filter matches
+};
+
+// Deep Link Configuration - keep in sync with the AndroidManifest intent filter and Info.plist URL types
+export const DEEP_LINK_CONFIG = {
+  PREFIXES: ['vezzy://'],
+};
+
+// App Lock Configuration
+export const SECURITY_CONFIG = {
+  LOCK_TIMEOUT: 60, // Default time in the background before resuming asks for biometrics/passcode (seconds)
+  LOCK_TIMEOUT_OPTIONS: [0, 60, 300, 900], // Choices offered in Settings (seconds)
+  KEYCHAIN_SERVICE_PREFIX: 'vezzy.', // Keystore entries are namespaced per persisted store
+};
+
+// Face Enrollment Configuration - on-device checks run before the shots are uploaded
+export const FACE_ENROLLMENT_CONFIG = {
+  POSES: ['front', 'left', 'right'] as const, // Captured in this order
+  MIN_IMAGE_SIZE: 480, // Shorter side of the photo (px)
+  MIN_BRIGHTNESS: 60, // Mean luma of the face area (0-255)
+  MAX_BRIGHTNESS: 215,
+  MIN_SHARPNESS: 120, // Edge detail of the face area - motion blur and missed focus fall below it
+  MIN_THUMBNAIL_SHARPNESS: 240, // Same, on the EXIF thumbnail - each block spans more of the face there
+  ANALYSIS_SLICE: 16, // ms of decoding at a time when a full-size photo has to be analysed
+  FACE_REGION: 0.5, // Central share of the frame, per side, that the face guide covers
+};
+
 // Storage Keys
 export const STORAGE_KEYS = {
   AUTH: 'auth-storage',
   SETTINGS: 'settings-storage',
   THEME: 'theme-preference',
   LANGUAGE: 'language-preference',
+  DEVICE_ID: 'device-id',
 };
 
 // Error Codes
@@ -58,6 +110,7 @@ export const ERROR_CODES = {
   INVALID_CREDENTIALS: 'INVALID_CREDENTIALS',
   SERVER_ERROR: 'SERVER_ERROR',
   UNKNOWN_ERROR: 'UNKNOWN_ERROR',
+  UNDO_EXPIRED: 'UNDO_EXPIRED',
 } as const;
 
 // API Endpoints - Production backend
@@ -68,6 +121,9 @@ export const API_ENDPOINTS = {
   REFRESH_TOKEN: '/api/account/refresh-token',
   UPDATE_PROFILE: '/api/account/profile',
   CHANGE_PASSWORD: '/api/account/change-password',
+  SESSIONS: '/api/account/sessions',
+  REVOKE_SESSION: (sessionId: string) => `/api/account/sessions/${sessionId}`,
+  LOGOUT_ALL: '/api/account/logout-all',
   
   // Events
   MY_EVENTS: '/api/Event/collaborator/my-events',
@@ -77,6 +133,7 @@ export const API_ENDPOINTS = {
   // Check-in
   CHECKIN_MOBILE: '/api/TicketIssued/checkinMobile',
   CHECKIN_HISTORY: (eventId: string) => `/api/TicketIssued/event/${eventId}/checkin-history`,
+  TICKET_MANIFEST: (eventId: string) => `/api/TicketIssued/event/${eventId}/manifest`,
   
   // News (PUBLIC)
   NEWS_ACTIVE: '/api/News/active',
@@ -86,6 +143,8 @@ export const API_ENDPOINTS = {
   USER_NOTIFICATIONS: (userId: string) => `/api/Notification/user/${userId}`,
   MARK_NOTIFICATION_READ: (notificationId: string) => `/api/Notification/${notificationId}/read`,
   MARK_ALL_NOTIFICATIONS_READ: (userId: string) => `/api/Notification/user/${userId}/read-all`,
+  MARK_NOTIFICATION_UNREAD: (notificationId: string) => `/api/Notification/${notificationId}/unread`,
+  DELETE_NOTIFICATION: (notificationId: string) => `/api/Notification/${notificationId}`,
   
   // Settings
   USER_CONFIG: (userId: string) => `/api/user/${userId}/config`,
@@ -98,7 +157,8 @@ export const API_ENDPOINTS = {
 export const DEV_CONFIG = {
   ENABLE_LOGS: __DEV__,
   ENABLE_DEBUG: __DEV__,
-  MOCK_APIS: false,
+  MOCK_APIS: false, // Serve every ApiService call from local fixtures instead of the backend
+  MOCK_LATENCY: 400, // ms added to each mocked response
   BYPASS_AUTH: false,
 };
 
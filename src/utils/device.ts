@@ -0,0 +1,47 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { DeviceInfo } from '../types';
+import { APP_CONFIG, STORAGE_KEYS } from './config';
+
+let deviceId: Promise<string> | null = null;
+
+const createDeviceId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Kept outside the account-scoped and secure stores: it belongs to the install, not to whoever is signed in
+const loadDeviceId = async (): Promise<string> => {
+  try {
+    const saved = await AsyncStorage.getItem(STORAGE_KEYS.DEVICE_ID);
+    if (saved) {
+      return saved;
+    }
+    const created = createDeviceId();
+    await AsyncStorage.setItem(STORAGE_KEYS.DEVICE_ID, created);
+    return created;
+  } catch {
+    return createDeviceId();
+  }
+};
+
+const getDeviceName = (): string => {
+  if (Platform.OS === 'android') {
+    const { Manufacturer, Model } = Platform.constants;
+    return Model.toLowerCase().startsWith(Manufacturer.toLowerCase()) ? Model : `${Manufacturer} ${Model}`;
+  }
+  if (Platform.OS === 'ios') {
+    return Platform.isPad ? 'iPad' : 'iPhone';
+  }
+  return Platform.OS;
+};
+
+// Sent with every login so the sessions list can name this device and mark it as the current one
+export const getDeviceInfo = async (): Promise<DeviceInfo> => {
+  deviceId = deviceId ?? loadDeviceId();
+  return {
+    deviceId: await deviceId,
+    deviceName: getDeviceName(),
+    platform: Platform.OS,
+    osVersion: String(Platform.Version),
+    appVersion: APP_CONFIG.VERSION,
+  };
+};
@@ -1,4 +1,33 @@
-import { ErrorCode, AppError } from '../types';
+import {
+  ErrorCode,
+  ApiErrorCode,
+  AppError,
+  CheckInOutcome,
+  CheckInFailureReason,
+  CheckInReasonCode,
+  CheckInTicketInfo,
+  CheckInTicketDetail,
+  FaceCheckInData,
+  FaceEnrollmentError,
+  FaceEnrollmentErrorReason,
+  PreviousCheckInInfo,
+  Result,
+} from '../types';
+import { FACE_ENROLLMENT_CONFIG } from './config';
+
+// A failed Result, thrown by callers whose error path expects an exception
+export class ApiError extends Error {
+  readonly errorCode: ApiErrorCode;
+  readonly status: number;
+
+  constructor(result: Result) {
+    super(result.message);
+    this.name = 'ApiError';
+    this.errorCode = result.errorCode || 'UNKNOWN_ERROR';
+    this.status = result.status;
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+}
 
 export const handleApiError = (error: any, t?: Function): string => {
   // Fallback function if no translation function provided
@@ -15,6 +44,8 @@ export const handleApiError = (error: any, t?: Function): string => {
     const errorKeys = [
       'TICKET_NOT_FOUND',
       'TICKET_ALREADY_USED', 
+      'WRONG_EVENT',
+      'EVENT_CANCELLED',
       'UPDATE_FAILED',
       'LOG_CREATION_FAILED',
       'CHECKIN_ERROR',
@@ -29,7 +60,8 @@ export const handleApiError = (error: any, t?: Function): string => {
       'LOGIN_ERROR',
       'ACCOUNT_NOT_FOUND',
       'INVALID_OR_EXPIRED_CODE',
-      'PASSWORD_RESET_ERROR'
+      'PASSWORD_RESET_ERROR',
+      'SESSION_EXPIRED'
     ];
     
     if (errorKeys.includes(possibleErrorCode)) {
@@ -37,10 +69,15 @@ export const handleApiError = (error: any, t?: Function): string => {
     }
   }
 
-  // SECOND: Check if it's a backend API response error (our API structure)
-  if (error.response?.data?.message) {
+  // SECOND: A failed Result - its backend message, or the code derived from the status
+  if (error instanceof ApiError && !error.message) {
+    return translate(`errors.${error.errorCode}`);
+  }
+
+  // THIRD: Check if it's a backend API response error (our API structure)
+  const backendMessage = error instanceof ApiError ? error.message : error.response?.data?.message;
+  if (backendMessage) {
     // Backend returns: {flag: false, code: 401, message: "Invalid username or password"}
-    const backendMessage = error.response.data.message;
     
     // Map specific backend messages for forgot/reset password
     if (backendMessage === 'Account not found') {
@@ -57,7 +94,7 @@ export const handleApiError = (error: any, t?: Function): string => {
     }
     
     // Try to translate the backend message if we have a translation for it
-    const translatedMessage = translate(`errors.${backendMessage}`, { defaultValue: null });
+    const translatedMessage = t ? t(`errors.${backendMessage}`, { defaultValue: null }) : null;
     if (translatedMessage && translatedMessage !== `errors.${backendMessage}`) {
       return translatedMessage;
     }
@@ -66,13 +103,13 @@ export const handleApiError = (error: any, t?: Function): string => {
     return backendMessage;
   }
   
-  // THIRD: Check if it's an API response error with error code (alternative structure)
+  // FOURTH: Check if it's an API response error with error code (alternative structure)
   if (error.response?.data?.error) {
     const errorCode = error.response.data.error as ErrorCode;
     return translate(`errors.${errorCode}`, { defaultValue: translate('errors.UNKNOWN_ERROR') });
   }
   
-  // FOURTH: Check for specific HTTP status codes
+  // FIFTH: Check for specific HTTP status codes
   if (error.response?.status === 401) {
     return translate('errors.UNAUTHORIZED');
   }
@@ -89,12 +126,12 @@ export const handleApiError = (error: any, t?: Function): string => {
     return translate('errors.SERVER_ERROR');
   }
   
-  // FIFTH: Network errors (only after checking message)
+  // SIXTH: Network errors (only after checking message)
   if (error.code === 'NETWORK_ERROR' || (error.code === 'ECONNABORTED') || (error.code === 'ENOTFOUND') || (error.code === 'ECONNREFUSED')) {
     return translate('errors.NETWORK_ERROR');
   }
   
-  // SIXTH: Check for no response (but only if not already handled above)
+  // SEVENTH: Check for no response (but only if not already handled above)
   if (!error.response && !error.message) {
     return translate('errors.NETWORK_ERROR');
   }
@@ -134,7 +171,11 @@ export const isAuthError = (error: any): boolean => {
   );
 };
 
-export const getErrorCode = (error: any): ErrorCode => {
+export const getErrorCode = (error: any): ApiErrorCode => {
+  if (error instanceof ApiError) {
+    return error.errorCode;
+  }
+
   if (error.response?.data?.message) {
     return error.response.data.message as ErrorCode;
   }
@@ -156,4 +197,229 @@ export const getErrorCode = (error: any): ErrorCode => {
   }
   
   return 'UNKNOWN_ERROR';
-}; 
+};
+
+const API_ERROR_CODES: ApiErrorCode[] = [
+  'TICKET_NOT_FOUND',
+  'TICKET_ALREADY_USED',
+  'WRONG_EVENT',
+  'EVENT_CANCELLED',
+  'UPDATE_FAILED',
+  'LOG_CREATION_FAILED',
+  'CHECKIN_ERROR',
+  'NETWORK_ERROR',
+  'UNAUTHORIZED',
+  'INVALID_CREDENTIALS',
+  'SERVER_ERROR',
+  'UNKNOWN_ERROR',
+  'ACCOUNT_NOT_FOUND',
+  'INVALID_OR_EXPIRED_CODE',
+  'PASSWORD_RESET_ERROR',
+  'SESSION_EXPIRED',
+  'BAD_REQUEST',
+  'FORBIDDEN',
+  'NOT_FOUND',
+];
+
+// Code for a failed Result - the backend's own code when it sent one, else one from the status
+export const getResultErrorCode = (status: number, message?: string | null): ApiErrorCode => {
+  const backendCode = message?.trim().toUpperCase() as ApiErrorCode | undefined;
+  if (backendCode && API_ERROR_CODES.includes(backendCode)) {
+    return backendCode;
+  }
+
+  if (status === 400) {
+    return 'BAD_REQUEST';
+  }
+  if (status === 401) {
+    return 'UNAUTHORIZED';
+  }
+  if (status === 403) {
+    return 'FORBIDDEN';
+  }
+  if (status === 404) {
+    return 'NOT_FOUND';
+  }
+  if (status >= 500) {
+    return 'SERVER_ERROR';
+  }
+  return 'UNKNOWN_ERROR';
+};
+
+// Backend check-in codes, including the spellings older endpoints still send
+const CHECK_IN_REASON_ALIASES: Record<string, CheckInReasonCode> = {
+  TICKET_ALREADY_USED: 'TICKET_ALREADY_USED',
+  ALREADY_CHECKED_IN: 'TICKET_ALREADY_USED',
+  WRONG_EVENT: 'WRONG_EVENT',
+  TICKET_WRONG_EVENT: 'WRONG_EVENT',
+  EVENT_MISMATCH: 'WRONG_EVENT',
+  EVENT_CANCELLED: 'EVENT_CANCELLED',
+  EVENT_CANCELED: 'EVENT_CANCELLED',
+  TICKET_NOT_FOUND: 'TICKET_NOT_FOUND',
+  UPDATE_FAILED: 'UPDATE_FAILED',
+  LOG_CREATION_FAILED: 'LOG_CREATION_FAILED',
+  CHECKIN_ERROR: 'CHECKIN_ERROR',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  SERVER_ERROR: 'SERVER_ERROR',
+  UNKNOWN_ERROR: 'UNKNOWN_ERROR',
+};
+
+export const getCheckInReason = (code?: string | null): CheckInReasonCode => {
+  if (!code) {
+    return 'CHECKIN_ERROR';
+  }
+  return CHECK_IN_REASON_ALIASES[code.trim().toUpperCase()] || 'CHECKIN_ERROR';
+};
+
+// Build the typed outcome for a rejected check-in from its backend code
+export const mapCheckInOutcome = (
+  code: string | null | undefined,
+  ticket: CheckInTicketInfo,
+  previousCheckIn?: PreviousCheckInInfo
+): CheckInOutcome => {
+  const reason = getCheckInReason(code);
+  // Keep free-text backend messages; known codes are translated from the reason
+  const message = code && !CHECK_IN_REASON_ALIASES[code.trim().toUpperCase()] ? code : undefined;
+
+  switch (reason) {
+    case 'TICKET_ALREADY_USED':
+      return { status: 'already_used', reason, ticket, previousCheckIn, message };
+    case 'WRONG_EVENT':
+      return { status: 'wrong_event', reason, ticket, message };
+    case 'EVENT_CANCELLED':
+      return { status: 'event_cancelled', reason, ticket, message };
+    case 'TICKET_NOT_FOUND':
+      return { status: 'not_found', reason, ticket, message };
+    default:
+      return { status: 'failed', reason: reason as CheckInFailureReason, ticket, message };
+  }
+};
+
+// One ticket of a face check-in - the endpoint reports its own per-ticket status
+export const mapFaceCheckInDetail = (
+  detail: CheckInTicketDetail,
+  data: Pick<FaceCheckInData, 'customerName' | 'eventId'>
+): CheckInOutcome => {
+  const ticket: CheckInTicketInfo = {
+    ticketCode: detail.ticketCode,
+    ticketType: detail.ticketType,
+    customerName: data.customerName,
+    eventId: data.eventId,
+  };
+
+  switch (detail.status) {
+    case 'success':
+      return { status: 'success', reason: 'CHECKED_IN', ticket, message: detail.message };
+    case 'already_checked_in':
+      return { status: 'already_used', reason: 'TICKET_ALREADY_USED', ticket, previousCheckIn: detail.previousCheckIn };
+    default:
+      return mapCheckInOutcome(detail.message, ticket);
+  }
+};
+
+// Outcome for a failed check-in Result. Network errors have no Result - callers queue those
+export const getCheckInOutcomeFromResult = (result: Result, ticket: CheckInTicketInfo): CheckInOutcome => {
+  const backendCode = result.message;
+  const previousCheckIn = result.data?.previousCheckIn;
+  if (result.status < 400 || (backendCode && CHECK_IN_REASON_ALIASES[backendCode.trim().toUpperCase()])) {
+    return mapCheckInOutcome(backendCode, ticket, previousCheckIn);
+  }
+
+  if (result.status === 404) {
+    return mapCheckInOutcome('TICKET_NOT_FOUND', ticket);
+  }
+
+  if (result.status === 401 || result.status === 403) {
+    return { status: 'failed', reason: 'UNAUTHORIZED', ticket };
+  }
+
+  if (result.status >= 500) {
+    return { status: 'failed', reason: 'SERVER_ERROR', ticket, message: backendCode || undefined };
+  }
+
+  return { status: 'failed', reason: 'UNKNOWN_ERROR', ticket, message: backendCode || undefined };
+};
+
+// Backend face enrollment codes, including the names the AI service uses
+const FACE_ENROLLMENT_REASON_ALIASES: Record<string, FaceEnrollmentErrorReason> = {
+  NO_FACE: 'NO_FACE',
+  FACE_NOT_DETECTED: 'NO_FACE',
+  MULTIPLE_FACES: 'MULTIPLE_FACES',
+  POSE_MISMATCH: 'POSE_MISMATCH',
+  WRONG_POSE: 'POSE_MISMATCH',
+  MISSING_POSE: 'MISSING_POSE',
+  LOW_QUALITY: 'LOW_QUALITY',
+  IMAGE_QUALITY_TOO_LOW: 'LOW_QUALITY',
+  SPOOF_DETECTED: 'SPOOF_DETECTED',
+  ANTI_SPOOFING: 'SPOOF_DETECTED',
+  FACE_MISMATCH: 'FACE_MISMATCH',
+  SERVER_ERROR: 'SERVER_ERROR',
+  UNKNOWN_ERROR: 'UNKNOWN_ERROR',
+};
+
+// Free-text messages older AI service deployments still answer with
+const FACE_ENROLLMENT_MESSAGES: [string, FaceEnrollmentErrorReason][] = [
+  ['Face could not be detected', 'NO_FACE'],
+  ['Face detection error', 'NO_FACE'],
+  ['Suspicious behavior detected', 'SPOOF_DETECTED'],
+  ['live photos', 'SPOOF_DETECTED'],
+  ['Error reading image', 'LOW_QUALITY'],
+];
+
+const toFaceEnrollmentError = (code: unknown, pose?: unknown, status?: number): FaceEnrollmentError => {
+  const text = typeof code === 'string' ? code.trim() : '';
+  const matchedPose = FACE_ENROLLMENT_CONFIG.POSES.find(item => item === String(pose ?? '').toLowerCase());
+  const knownReason = FACE_ENROLLMENT_REASON_ALIASES[text.toUpperCase()]
+    || FACE_ENROLLMENT_MESSAGES.find(([message]) => text.includes(message))?.[1];
+
+  let reason = knownReason;
+  if (!reason) {
+    if (status === 400) {
+      reason = 'NO_FACE'; // The AI service rejects undetectable faces with a bare 400
+    } else if (status === 403) {
+      reason = 'SPOOF_DETECTED';
+    } else if (status !== undefined && status >= 500) {
+      reason = 'SERVER_ERROR';
+    } else {
+      reason = 'UNKNOWN_ERROR';
+    }
+  }
+
+  return {
+    ...(matchedPose ? { pose: matchedPose } : {}),
+    reason,
+    ...(text && !knownReason ? { message: text } : {}),
+  };
+};
+
+// Typed errors of a face enrollment Result - per pose when the backend lists them, otherwise one for the request
+export const getFaceEnrollmentErrors = (result: Result): FaceEnrollmentError[] => {
+  const errors = Array.isArray(result.data?.errors) ? result.data.errors : [];
+  if (errors.length > 0) {
+    return errors.map((error: any) => toFaceEnrollmentError(error?.code ?? error?.reason ?? error?.message, error?.pose));
+  }
+  return result.isSuccess ? [] : [toFaceEnrollmentError(result.message, undefined, result.status)];
+};
+
+export const getFaceEnrollmentErrorMessage = (error: FaceEnrollmentError, t: Function): string => {
+  return error.message || t(`face.enrollment.reason.${error.reason}`);
+};
+
+// Rejections of the ticket itself, as opposed to the request failing
+export const isTicketRejection = (outcome: CheckInOutcome): boolean => {
+  return outcome.status !== 'success' && !(outcome.status === 'failed' && (
+    outcome.reason === 'UNAUTHORIZED' ||
+    outcome.reason === 'SERVER_ERROR' ||
+    outcome.reason === 'UNKNOWN_ERROR'
+  ));
+};
+
+export const getCheckInOutcomeMessage = (outcome: CheckInOutcome, t: Function): string => {
+  if (outcome.status === 'wrong_event' && outcome.ticket.eventName) {
+    return t('checkIn.wrongEventDetail', { event: outcome.ticket.eventName });
+  }
+  if (outcome.status === 'failed' && outcome.message) {
+    return outcome.message;
+  }
+  return t(`checkIn.reason.${outcome.reason}`);
+};
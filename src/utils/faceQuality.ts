@@ -0,0 +1,472 @@
+import { FaceQualityIssue, FaceQualityReport } from '../types';
+import { FACE_ENROLLMENT_CONFIG } from './config';
+
+interface FrameComponent {
+  id: number;
+  h: number; // Sampling factors
+  v: number;
+  tq: number; // Quantization table
+}
+
+interface HuffmanTable {
+  minCode: Int32Array;
+  maxCode: Int32Array;
+  valPtr: Int32Array;
+  values: Uint8Array;
+}
+
+// Per 8x8 block of the luma channel, read straight from the DCT coefficients:
+// the DC term gives the block's mean brightness, the AC terms how much detail it holds
+export interface LumaBlocks {
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+  brightness: Float32Array;
+  detail: Float32Array;
+}
+
+export interface FaceImageMetrics {
+  width: number;
+  height: number;
+  brightness: number;
+  sharpness: number;
+}
+
+const buildHuffmanTable = (counts: Uint8Array, values: Uint8Array): HuffmanTable => {
+  const minCode = new Int32Array(17);
+  const maxCode = new Int32Array(17).fill(-1);
+  const valPtr = new Int32Array(17);
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    valPtr[length] = index;
+    minCode[length] = code;
+    if (count > 0) {
+      maxCode[length] = code + count - 1;
+    }
+    code = (code + count) * 2;
+    index += count;
+  }
+  return { minCode, maxCode, valPtr, values };
+};
+
+const readUint16 = (data: Uint8Array, offset: number) => data[offset] * 256 + data[offset + 1];
+const highNibble = (byte: number) => Math.floor(byte / 16);
+const lowNibble = (byte: number) => byte % 16;
+
+// Entropy decoding of a baseline (sequential Huffman) scan - no IDCT, the coefficients are enough.
+// Photos from the camera are baseline; progressive files are reported as unreadable.
+// Pauses after every row of MCUs so callers can hand the JS thread back in between
+function* decodeScan(
+  data: Uint8Array,
+  start: number,
+  frame: { width: number; height: number; components: FrameComponent[] },
+  scan: { component: FrameComponent; dc: HuffmanTable; ac: HuffmanTable }[],
+  quantTables: Uint16Array[],
+  restartInterval: number
+): Generator<void, LumaBlocks | null> {
+  const luma = frame.components[0];
+  if (!scan.some(item => item.component === luma)) {
+    return null;
+  }
+
+  const hMax = Math.max(...frame.components.map(component => component.h));
+  const vMax = Math.max(...frame.components.map(component => component.v));
+  const isInterleaved = scan.length > 1;
+  const mcuColumns = isInterleaved
+    ? Math.ceil(frame.width / (8 * hMax))
+    : Math.ceil(Math.ceil((frame.width * luma.h) / hMax) / 8);
+  const mcuRows = isInterleaved
+    ? Math.ceil(frame.height / (8 * vMax))
+    : Math.ceil(Math.ceil((frame.height * luma.v) / vMax) / 8);
+  // Padding blocks past the image edge are decoded but not kept
+  const columns = Math.ceil(Math.ceil((frame.width * luma.h) / hMax) / 8);
+  const rows = Math.ceil(Math.ceil((frame.height * luma.v) / vMax) / 8);
+  const brightness = new Float32Array(columns * rows);
+  const detail = new Float32Array(columns * rows);
+  const lumaQuant = quantTables[luma.tq];
+  if (!lumaQuant) {
+    return null;
+  }
+
+  let position = start;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const readBit = () => {
+    if (bitCount === 0) {
+      if (position >= data.length) {
+        throw new Error('Unexpected end of JPEG data');
+      }
+      const byte = data[position++];
+      if (byte === 0xff) {
+        if (data[position] !== 0x00) {
+          throw new Error('Unexpected JPEG marker in scan');
+        }
+        position++; // Stuffed zero byte
+      }
+      bitBuffer = byte;
+      bitCount = 8;
+    }
+    bitCount--;
+    const bit = bitBuffer >= 128 ? 1 : 0;
+    bitBuffer = (bitBuffer * 2) % 256;
+    return bit;
+  };
+
+  const receiveExtend = (size: number) => {
+    if (size === 0) {
+      return 0;
+    }
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+      value = value * 2 + readBit();
+    }
+    return value < 2 ** (size - 1) ? value - 2 ** size + 1 : value;
+  };
+
+  const decodeHuffman = (table: HuffmanTable) => {
+    let code = readBit();
+    let length = 1;
+    while (code > table.maxCode[length]) {
+      code = code * 2 + readBit();
+      length++;
+      if (length > 16) {
+        throw new Error('Invalid Huffman code');
+      }
+    }
+    return table.values[table.valPtr[length] + code - table.minCode[length]];
+  };
+
+  const predictions = new Map<FrameComponent, number>();
+
+  const decodeBlock = (item: (typeof scan)[number], column: number, row: number) => {
+    const prediction = (predictions.get(item.component) || 0) + receiveExtend(decodeHuffman(item.dc));
+    predictions.set(item.component, prediction);
+
+    let acSum = 0;
+    for (let k = 1; k < 64;) {
+      const symbol = decodeHuffman(item.ac);
+      const run = highNibble(symbol);
+      const size = lowNibble(symbol);
+      if (size === 0) {
+        if (run !== 15) {
+          break; // End of block
+        }
+        k += 16;
+        continue;
+      }
+      k += run;
+      const coefficient = receiveExtend(size);
+      if (item.component === luma && k < 64) {
+        acSum += Math.abs(coefficient * lumaQuant[k]);
+      }
+      k++;
+    }
+
+    if (item.component === luma && column < columns && row < rows) {
+      const index = row * columns + column;
+      // The DC term is 8x the block's mean, after the -128 level shift
+      brightness[index] = Math.min(255, Math.max(0, (prediction * lumaQuant[0]) / 8 + 128));
+      detail[index] = acSum;
+    }
+  };
+
+  const totalMcus = mcuColumns * mcuRows;
+  for (let mcu = 0; mcu < totalMcus; mcu++) {
+    if (restartInterval > 0 && mcu > 0 && mcu % restartInterval === 0) {
+      // Restart marker: byte-align, skip RSTn and start the DC predictions over
+      bitCount = 0;
+      while (position < data.length - 1 && !(data[position] === 0xff && data[position + 1] >= 0xd0 && data[position + 1] <= 0xd7)) {
+        position++;
+      }
+      position += 2;
+      predictions.clear();
+    }
+
+    const mcuColumn = mcu % mcuColumns;
+    const mcuRow = Math.floor(mcu / mcuColumns);
+    for (const item of scan) {
+      if (!isInterleaved) {
+        decodeBlock(item, mcuColumn, mcuRow);
+        continue;
+      }
+      for (let v = 0; v < item.component.v; v++) {
+        for (let h = 0; h < item.component.h; h++) {
+          decodeBlock(item, mcuColumn * item.component.h + h, mcuRow * item.component.v + v);
+        }
+      }
+    }
+    if (mcuColumn === mcuColumns - 1) {
+      yield;
+    }
+  }
+
+  return { width: frame.width, height: frame.height, columns, rows, brightness, detail };
+}
+
+function* parseLumaBlocks(data: Uint8Array): Generator<void, LumaBlocks | null> {
+  if (data[0] !== 0xff || data[1] !== 0xd8) {
+    return null;
+  }
+
+  const quantTables: Uint16Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let frame: { width: number; height: number; components: FrameComponent[] } | null = null;
+  let restartInterval = 0;
+  let offset = 2;
+
+  try {
+    while (offset < data.length - 1) {
+      if (data[offset] !== 0xff) {
+        return null;
+      }
+      const marker = data[offset + 1];
+      offset += 2;
+      if (marker === 0xff) {
+        offset--; // Fill byte
+        continue;
+      }
+      if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+        continue; // Markers without a payload
+      }
+      if (marker === 0xd9) {
+        return null; // End of image before any scan
+      }
+
+      const length = readUint16(data, offset);
+      const end = offset + length;
+      let cursor = offset + 2;
+
+      switch (marker) {
+        case 0xdb: // Quantization tables, in zigzag order like the coefficients
+          while (cursor < end) {
+            const is16Bit = highNibble(data[cursor]) > 0;
+            const id = lowNibble(data[cursor]);
+            cursor++;
+            const table = new Uint16Array(64);
+            for (let i = 0; i < 64; i++) {
+              table[i] = is16Bit ? readUint16(data, cursor + i * 2) : data[cursor + i];
+            }
+            cursor += is16Bit ? 128 : 64;
+            quantTables[id] = table;
+          }
+          break;
+        case 0xc0: // Baseline
+        case 0xc1: { // Extended sequential
+          const count = data[cursor + 5];
+          const components: FrameComponent[] = [];
+          for (let i = 0; i < count; i++) {
+            const base = cursor + 6 + i * 3;
+            components.push({ id: data[base], h: highNibble(data[base + 1]), v: lowNibble(data[base + 1]), tq: data[base + 2] });
+          }
+          frame = { height: readUint16(data, cursor + 1), width: readUint16(data, cursor + 3), components };
+          break;
+        }
+        case 0xc4: // Huffman tables
+          while (cursor < end) {
+            const tableClass = highNibble(data[cursor]);
+            const id = lowNibble(data[cursor]);
+            const counts = data.subarray(cursor + 1, cursor + 17);
+            const total = counts.reduce((sum, count) => sum + count, 0);
+            const table = buildHuffmanTable(counts, data.subarray(cursor + 17, cursor + 17 + total));
+            (tableClass === 0 ? dcTables : acTables)[id] = table;
+            cursor += 17 + total;
+          }
+          break;
+        case 0xdd:
+          restartInterval = readUint16(data, cursor);
+          break;
+        case 0xda: { // Start of scan - the first one holds the luma channel
+          if (!frame) {
+            return null;
+          }
+          const currentFrame = frame;
+          const count = data[cursor];
+          const scan = [];
+          for (let i = 0; i < count; i++) {
+            const component = currentFrame.components.find(item => item.id === data[cursor + 1 + i * 2]);
+            const tables = data[cursor + 2 + i * 2];
+            const dc = dcTables[highNibble(tables)];
+            const ac = acTables[lowNibble(tables)];
+            if (!component || !dc || !ac) {
+              return null;
+            }
+            scan.push({ component, dc, ac });
+          }
+          return yield* decodeScan(data, end, currentFrame, scan, quantTables, restartInterval);
+        }
+        default:
+          // Progressive, lossless and arithmetic-coded frames are not decoded
+          if (marker >= 0xc2 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return null;
+          }
+      }
+      offset = end;
+    }
+  } catch {
+    return null;
+  }
+  return null;
+}
+
+// Reads the luma blocks of a baseline JPEG; null for anything else (progressive, PNG, corrupt data)
+export const readLumaBlocks = (data: Uint8Array): LumaBlocks | null => {
+  const steps = parseLumaBlocks(data);
+  let step = steps.next();
+  while (!step.done) {
+    step = steps.next();
+  }
+  return step.value;
+};
+
+// Same, for a full-size photo: decodes for ANALYSIS_SLICE ms at a time and lets the UI run in between
+const readLumaBlocksInSlices = async (data: Uint8Array): Promise<LumaBlocks | null> => {
+  const steps = parseLumaBlocks(data);
+  let sliceStart = Date.now();
+  let step = steps.next();
+  while (!step.done) {
+    if (Date.now() - sliceStart >= FACE_ENROLLMENT_CONFIG.ANALYSIS_SLICE) {
+      await new Promise<void>(resolve => setTimeout(resolve, 0));
+      sliceStart = Date.now();
+    }
+    step = steps.next();
+  }
+  return step.value;
+};
+
+// The downscaled copy cameras store in the EXIF block (IFD1), if the photo has one
+export const readExifThumbnail = (data: Uint8Array): Uint8Array | null => {
+  if (data[0] !== 0xff || data[1] !== 0xd8) {
+    return null;
+  }
+
+  let offset = 2;
+  // APPn segments come first; the EXIF one is APP1 starting with "Exif\0\0"
+  while (offset + 4 <= data.length && data[offset] === 0xff && data[offset + 1] >= 0xe0 && data[offset + 1] <= 0xef) {
+    const length = readUint16(data, offset + 2);
+    const isExif = data[offset + 1] === 0xe1 && String.fromCharCode(...data.subarray(offset + 4, offset + 8)) === 'Exif';
+    if (isExif) {
+      const tiff = offset + 10;
+      const isLittleEndian = data[tiff] === 0x49;
+      const read16 = (at: number) =>
+        isLittleEndian ? data[tiff + at] + data[tiff + at + 1] * 256 : readUint16(data, tiff + at);
+      const read32 = (at: number) =>
+        isLittleEndian ? read16(at) + read16(at + 2) * 65536 : read16(at) * 65536 + read16(at + 2);
+
+      const ifd0 = read32(4);
+      const ifd1 = read32(ifd0 + 2 + read16(ifd0) * 12);
+      if (ifd1 === 0 || tiff + ifd1 + 2 > data.length) {
+        return null;
+      }
+      let start = 0;
+      let size = 0;
+      for (let entry = 0; entry < read16(ifd1); entry++) {
+        const at = ifd1 + 2 + entry * 12;
+        if (read16(at) === 0x0201) {
+          start = read32(at + 8); // JPEGInterchangeFormat
+        } else if (read16(at) === 0x0202) {
+          size = read32(at + 8); // JPEGInterchangeFormatLength
+        }
+      }
+      const thumbnail = data.subarray(tiff + start, tiff + start + size);
+      return start > 0 && size > 0 && thumbnail.length === size && thumbnail[0] === 0xff && thumbnail[1] === 0xd8
+        ? thumbnail
+        : null;
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// Brightness and sharpness of the area the face guide covers. Sharpness averages the most detailed
+// tenth of the blocks - eyes, hairline, outline - since smooth skin has little detail even in focus
+export const measureFaceImage = (blocks: LumaBlocks): FaceImageMetrics => {
+  const margin = (1 - FACE_ENROLLMENT_CONFIG.FACE_REGION) / 2;
+  const left = Math.floor(blocks.columns * margin);
+  const right = Math.max(left + 1, Math.ceil(blocks.columns * (1 - margin)));
+  const top = Math.floor(blocks.rows * margin);
+  const bottom = Math.max(top + 1, Math.ceil(blocks.rows * (1 - margin)));
+
+  let brightnessSum = 0;
+  const details: number[] = [];
+  for (let row = top; row < bottom; row++) {
+    for (let column = left; column < right; column++) {
+      const index = row * blocks.columns + column;
+      brightnessSum += blocks.brightness[index];
+      details.push(blocks.detail[index]);
+    }
+  }
+
+  details.sort((a, b) => b - a);
+  const sharpest = details.slice(0, Math.max(1, Math.ceil(details.length / 10)));
+  return {
+    width: blocks.width,
+    height: blocks.height,
+    brightness: brightnessSum / details.length,
+    sharpness: sharpest.reduce((sum, value) => sum + value, 0) / sharpest.length,
+  };
+};
+
+// Missing brightness or sharpness means the photo could not be analysed - that needs a retake too,
+// rather than passing unchecked
+export const getFaceQualityIssues = (
+  metrics: Pick<FaceImageMetrics, 'width' | 'height'> & Partial<Pick<FaceImageMetrics, 'brightness' | 'sharpness'>>,
+  minSharpness: number = FACE_ENROLLMENT_CONFIG.MIN_SHARPNESS
+): FaceQualityIssue[] => {
+  const issues: FaceQualityIssue[] = [];
+  if (Math.min(metrics.width, metrics.height) < FACE_ENROLLMENT_CONFIG.MIN_IMAGE_SIZE) {
+    issues.push('TOO_SMALL');
+  }
+  if (metrics.brightness == null || metrics.sharpness == null) {
+    issues.push('UNVERIFIED');
+    return issues;
+  }
+  if (metrics.brightness < FACE_ENROLLMENT_CONFIG.MIN_BRIGHTNESS) {
+    issues.push('TOO_DARK');
+  }
+  if (metrics.brightness > FACE_ENROLLMENT_CONFIG.MAX_BRIGHTNESS) {
+    issues.push('TOO_BRIGHT');
+  }
+  if (metrics.sharpness < minSharpness) {
+    issues.push('BLURRY');
+  }
+  return issues;
+};
+
+// Checks a captured photo before it is uploaded, on the EXIF thumbnail when the camera wrote one.
+// Without it the full photo is decoded in slices so the camera screen stays responsive
+export const checkFaceImage = async (capture: { uri: string; width?: number; height?: number }): Promise<FaceQualityReport> => {
+  let metrics: FaceImageMetrics | null = null;
+  let minSharpness = FACE_ENROLLMENT_CONFIG.MIN_SHARPNESS;
+  try {
+    const response = await fetch(capture.uri);
+    const data = new Uint8Array(await response.arrayBuffer());
+    const thumbnail = capture.width && capture.height ? readExifThumbnail(data) : null;
+    const thumbnailBlocks = thumbnail ? readLumaBlocks(thumbnail) : null;
+    if (thumbnailBlocks) {
+      metrics = { ...measureFaceImage(thumbnailBlocks), width: capture.width!, height: capture.height! };
+      minSharpness = FACE_ENROLLMENT_CONFIG.MIN_THUMBNAIL_SHARPNESS;
+    } else {
+      const blocks = await readLumaBlocksInSlices(data);
+      metrics = blocks ? measureFaceImage(blocks) : null;
+    }
+  } catch {
+    // Unreadable file - reported as UNVERIFIED below
+  }
+
+  const width = metrics?.width ?? capture.width ?? 0;
+  const height = metrics?.height ?? capture.height ?? 0;
+  const brightness = metrics?.brightness ?? null;
+  const sharpness = metrics?.sharpness ?? null;
+  return {
+    width,
+    height,
+    brightness,
+    sharpness,
+    issues: getFaceQualityIssues({ width, height, brightness, sharpness }, minSharpness),
+  };
+};
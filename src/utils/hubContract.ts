@@ -0,0 +1,98 @@
+import { HubEventName } from '../types';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+// Shape of one hub payload - `fields` are required on the object, or on every item of an array
+interface PayloadContract {
+  kind: 'object' | 'array' | 'string';
+  fields?: Record<string, FieldType>;
+}
+
+// Runtime mirror of HubEventMap, used by the dev-mode validator
+export const HUB_PAYLOAD_CONTRACTS: Record<HubEventName, PayloadContract> = {
+  ReceiveNotification: {
+    kind: 'object',
+    fields: {
+      notificationId: 'string',
+      notificationTitle: 'string',
+      notificationMessage: 'string',
+      isRead: 'boolean',
+      createdAt: 'string',
+    },
+  },
+  OnCollaboratorStaticChanged: {
+    kind: 'object',
+    fields: {
+      totalEvents: 'number',
+      totalCheckIns: 'number',
+    },
+  },
+  OnCheckinLogHistoryChanged: {
+    kind: 'array',
+    fields: {
+      qrCode: 'string',
+      eventId: 'string',
+    },
+  },
+  OnNewsCreated: {
+    kind: 'object',
+    fields: {
+      newsId: 'string',
+      newsTitle: 'string',
+    },
+  },
+  OnNewsUpdated: {
+    kind: 'object',
+    fields: {
+      newsId: 'string',
+      newsTitle: 'string',
+    },
+  },
+  OnEventManagerDashboard: {
+    kind: 'object',
+    fields: {
+      eventId: 'string',
+    },
+  },
+  notificationread: { kind: 'string' },
+  allnotificationsread: { kind: 'string' },
+};
+
+export const HUB_EVENT_NAMES = Object.keys(HUB_PAYLOAD_CONTRACTS) as HubEventName[];
+
+const getFieldType = (value: any): FieldType | 'null' | 'undefined' => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as FieldType | 'undefined';
+};
+
+const checkFields = (value: any, fields: Record<string, FieldType>, path: string): string[] => {
+  if (getFieldType(value) !== 'object') {
+    return [`${path} should be an object, got ${getFieldType(value)}`];
+  }
+
+  return Object.entries(fields)
+    .filter(([key, type]) => getFieldType(value[key]) !== type)
+    .map(([key, type]) => `${path}.${key} should be ${type}, got ${getFieldType(value[key])}`);
+};
+
+// Lists every way a payload differs from the contract - empty when it matches
+export const validateHubPayload = (event: HubEventName, payload: unknown): string[] => {
+  const contract = HUB_PAYLOAD_CONTRACTS[event];
+  if (!contract) {
+    return [`${event} is not part of the hub contract`];
+  }
+
+  switch (contract.kind) {
+    case 'string':
+      return typeof payload === 'string' ? [] : [`payload should be string, got ${getFieldType(payload)}`];
+    case 'array':
+      if (!Array.isArray(payload)) {
+        return [`payload should be array, got ${getFieldType(payload)}`];
+      }
+      return payload.flatMap((item, index) => checkFields(item, contract.fields || {}, `payload[${index}]`));
+    case 'object':
+    default:
+      return checkFields(payload, contract.fields || {}, 'payload');
+  }
+};
@@ -90,6 +90,16 @@ export const capitalizeFirstLetter = (str: string): string => {
   return str.charAt(0).toUpperCase() + str.slice(1);
 };
 
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 // Re-export validation utilities from the main validation module
 export { 
   validateEmail, 
@@ -155,4 +165,33 @@ export const retryAsync = async <T>(
   }
   
   throw lastError!;
-}; 
+};
+
+// Runs queued async tasks with at most `concurrency` in flight at once
+export const createTaskQueue = (concurrency: number = 3) => {
+  const waiting: Array<() => Promise<void>> = [];
+  let running = 0;
+
+  const next = () => {
+    while (running < concurrency && waiting.length > 0) {
+      const task = waiting.shift()!;
+      running++;
+      task()
+        .catch(() => {
+          // Tasks handle their own errors
+        })
+        .finally(() => {
+          running--;
+          next();
+        });
+    }
+  };
+
+  return {
+    push: (task: () => Promise<void>) => {
+      waiting.push(task);
+      next();
+    },
+    size: () => waiting.length + running,
+  };
+};
@@ -0,0 +1,84 @@
+import { AuthResponseDto, Role, TokenClaims } from '../types';
+import { AUTH_CONFIG } from './config';
+
+// The backend issues ASP.NET tokens, which use the long claim URIs alongside the short JWT names
+const CLAIM_NAMES = {
+  accountId: ['sub', 'nameid', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/nameidentifier'],
+  userId: ['userId', 'UserId'],
+  username: ['unique_name', 'name', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name'],
+  email: ['email', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress'],
+  role: ['role', 'http://schemas.microsoft.com/ws/2008/06/identity/claims/role'],
+};
+
+const readClaim = (payload: Record<string, any>, names: string[]): any =>
+  names.map(name => payload[name]).find(value => value !== undefined && value !== null);
+
+const readString = (payload: Record<string, any>, names: string[]): string | null => {
+  const value = readClaim(payload, names);
+  return value === undefined ? null : String(value);
+};
+
+// Roles arrive as the enum value or its name ("Collaborator")
+const readRole = (value: unknown): Role | null => {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value))) {
+    return Number(value) as Role;
+  }
+  if (typeof value === 'string' && value in Role) {
+    return Role[value as keyof typeof Role];
+  }
+  return null;
+};
+
+const readTime = (value: unknown): number | null => (typeof value === 'number' ? value * 1000 : null);
+
+// Reads the payload without verifying the signature - the backend does that on every request
+export const decodeToken = (token?: string | null): TokenClaims | null => {
+  try {
+    const segment = token!.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const payload = JSON.parse(atob(segment.padEnd(Math.ceil(segment.length / 4) * 4, '=')));
+    if (!payload || typeof payload !== 'object') {
+      return null;
+    }
+
+    return {
+      accountId: readString(payload, CLAIM_NAMES.accountId),
+      userId: readString(payload, CLAIM_NAMES.userId),
+      username: readString(payload, CLAIM_NAMES.username),
+      email: readString(payload, CLAIM_NAMES.email),
+      role: readRole(readClaim(payload, CLAIM_NAMES.role)),
+      issuedAt: readTime(payload.iat),
+      expiresAt: readTime(payload.exp),
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Device clock minus server clock, from a token that just arrived - its `iat` is the server's "now".
+// Differences within CLOCK_SKEW_TOLERANCE are network latency and the claim's whole-second rounding
+export const getClockOffset = (token?: string | null, receivedAt: number = Date.now()): number => {
+  const issuedAt = decodeToken(token)?.issuedAt;
+  const offset = issuedAt ? receivedAt - issuedAt : 0;
+  return Math.abs(offset) <= AUTH_CONFIG.CLOCK_SKEW_TOLERANCE * 1000 ? 0 : offset;
+};
+
+// Expiry from the tokens themselves, moved onto the device clock so Date.now() comparisons hold
+// on phones set to the wrong time; config values only for tokens without an `exp` claim
+export const calculateTokenExpiry = (
+  authData: Pick<AuthResponseDto, 'accessToken' | 'refreshToken'>
+): { accessTokenExpiresAt: number, refreshTokenExpiresAt: number } => {
+  const now = Date.now();
+  const offset = getClockOffset(authData.accessToken, now);
+  const toDeviceTime = (expiresAt?: number | null) => (expiresAt ? expiresAt + offset : null);
+  return {
+    accessTokenExpiresAt:
+      toDeviceTime(decodeToken(authData.accessToken)?.expiresAt) ?? now + AUTH_CONFIG.TOKEN_EXPIRE_TIME * 1000,
+    refreshTokenExpiresAt:
+      toDeviceTime(decodeToken(authData.refreshToken)?.expiresAt) ?? now + AUTH_CONFIG.REFRESH_TOKEN_EXPIRE_TIME * 1000,
+  };
+};
+
+// The signed role claim wins over the account payload when the token carries one
+export const getAccountRole = (authData: Pick<AuthResponseDto, 'accessToken' | 'account'>): Role => {
+  return decodeToken(authData.accessToken)?.role ?? (authData.account.role as Role);
+};
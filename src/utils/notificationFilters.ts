@@ -0,0 +1,99 @@
+import {
+  Notification,
+  NotificationType,
+  NotificationCategory,
+  NotificationFilter,
+  NotificationDaySection,
+} from '../types';
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = ['all', 'events', 'orders', 'payouts', 'admin', 'other'];
+
+const CATEGORY_TYPES: Record<Exclude<NotificationCategory, 'all' | 'other'>, NotificationType[]> = {
+  events: [
+    NotificationType.EventApproved,
+    NotificationType.EventManagerNewEvent,
+    NotificationType.EventManagerUpdateEvent,
+    NotificationType.EventManagerNewPost,
+    NotificationType.EventApprovedByAdmin,
+    NotificationType.EventRejectedByAdmin,
+  ],
+  orders: [NotificationType.OrderSuccess],
+  payouts: [
+    NotificationType.PayoutProcessed,
+    NotificationType.WithdrawalRequested,
+    NotificationType.WithdrawalApproved,
+    NotificationType.WithdrawalRejected,
+  ],
+  admin: [
+    NotificationType.AdminNewEvent,
+    NotificationType.AdminNewReport,
+    NotificationType.AdminWithdrawalRequest,
+  ],
+};
+
+// Anything the backend sends outside the known types lands in 'other'
+export const getNotificationCategory = (type: NotificationType): NotificationCategory => {
+  const match = (Object.keys(CATEGORY_TYPES) as (keyof typeof CATEGORY_TYPES)[]).find(category =>
+    CATEGORY_TYPES[category].includes(type)
+  );
+  return match || 'other';
+};
+
+const normalize = (value: string) => value.toLocaleLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+export const isFilterActive = (filter: NotificationFilter): boolean =>
+  filter.category !== 'all' || filter.readStatus !== 'all' || filter.search.trim() !== '';
+
+export const filterNotifications = (notifications: Notification[], filter: NotificationFilter): Notification[] => {
+  const query = normalize(filter.search.trim());
+
+  return notifications.filter(notification => {
+    if (!notification) return false;
+    if (filter.category !== 'all' && getNotificationCategory(notification.notificationType) !== filter.category) {
+      return false;
+    }
+    if (filter.readStatus === 'unread' && notification.isRead) return false;
+    if (filter.readStatus === 'read' && !notification.isRead) return false;
+    if (!query) return true;
+
+    // Accent-insensitive so "su kien" finds "sự kiện"
+    return normalize(`${notification.notificationTitle || ''} ${notification.notificationMessage || ''}`).includes(query);
+  });
+};
+
+export const countByCategory = (notifications: Notification[]): Record<NotificationCategory, number> => {
+  const counts = NOTIFICATION_CATEGORIES.reduce(
+    (acc, category) => ({ ...acc, [category]: 0 }),
+    {} as Record<NotificationCategory, number>
+  );
+  notifications.forEach(notification => {
+    counts.all += 1;
+    counts[getNotificationCategory(notification.notificationType)] += 1;
+  });
+  return counts;
+};
+
+const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Keeps the incoming (newest first) order inside each day
+export const groupNotificationsByDay = (notifications: Notification[]): NotificationDaySection[] => {
+  const sections: NotificationDaySection[] = [];
+  const byKey = new Map<string, NotificationDaySection>();
+
+  notifications.forEach(notification => {
+    const date = new Date(notification.createdAtVietnam || notification.createdAt);
+    const key = isNaN(date.getTime()) ? 'unknown' : toDayKey(date);
+    let section = byKey.get(key);
+    if (!section) {
+      section = { key, date: isNaN(date.getTime()) ? '' : date.toISOString(), data: [] };
+      byKey.set(key, section);
+      sections.push(section);
+    }
+    section.data.push(notification);
+  });
+
+  return sections;
+};
+
+export const isSameDayKey = (key: string, date: Date) => key === toDayKey(date);
@@ -0,0 +1,96 @@
+import { ScanSession, ScanSource } from '../types';
+import { getSessionCounters } from '../store/scanSessionStore';
+
+export type ScanSessionExportFormat = 'csv' | 'json';
+
+// Same method names the backend uses in check-in logs
+const CHECK_IN_METHODS: Record<ScanSource, string> = {
+  qr: 'QrCode',
+  face: 'FaceRecognition',
+};
+
+const CSV_COLUMNS = [
+  'sessionId',
+  'eventId',
+  'eventName',
+  'method',
+  'sessionStartedAt',
+  'sessionEndedAt',
+  'ticketCode',
+  'status',
+  'customerName',
+  'ticketType',
+  'scannedAt',
+  'completedAt',
+  'errorCode',
+  'message',
+  'revertReason',
+];
+
+// Spreadsheets run cells starting with these as formulas - names and messages come from outside the app
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvValue = (value: string | null | undefined): string => {
+  const text = value ?? '';
+  if (FORMULA_PREFIX.test(text)) {
+    return `"'${text.replace(/"/g, '""')}"`;
+  }
+  if (/[",\n\r]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+// One row per scanned ticket, session details repeated so rows stand alone
+export const buildSessionCsv = (session: ScanSession, eventName?: string): string => {
+  const rows = session.results.map(entry =>
+    [
+      session.id,
+      session.eventId,
+      eventName,
+      CHECK_IN_METHODS[session.source],
+      session.startedAt,
+      session.endedAt,
+      entry.code,
+      entry.status,
+      entry.customerName,
+      entry.ticketType,
+      entry.scannedAt,
+      entry.completedAt,
+      entry.errorCode,
+      entry.message,
+      entry.revertReason,
+    ]
+      .map(escapeCsvValue)
+      .join(',')
+  );
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+export const buildSessionJson = (session: ScanSession, eventName?: string): string => {
+  const { total, success, duplicate, failed, queued, reverted, pending } = getSessionCounters(session);
+
+  return JSON.stringify(
+    {
+      sessionId: session.id,
+      eventId: session.eventId ?? null,
+      eventName: eventName ?? null,
+      method: CHECK_IN_METHODS[session.source],
+      startedAt: session.startedAt,
+      endedAt: session.endedAt,
+      totals: { total, success, duplicate, failed, queued, reverted, pending },
+      results: session.results,
+    },
+    null,
+    2
+  );
+};
+
+export const buildSessionExport = (
+  session: ScanSession,
+  format: ScanSessionExportFormat,
+  eventName?: string
+): string => {
+  return format === 'csv' ? buildSessionCsv(session, eventName) : buildSessionJson(session, eventName);
+};
@@ -1,4 +1,6 @@
 import { useAuthStore } from '../store/authStore';
+import { AUTH_CONFIG } from './config';
+import { decodeToken } from './jwt';
 
 // Token management utilities
 export const formatTokenExpiry = (expiresAt: number | null): string => {
@@ -24,6 +26,7 @@ export const formatTokenExpiry = (expiresAt: number | null): string => {
   }
 };
 
+// Pass the stored expiry - the `exp` claim is on the server's clock
 export const getTokenStatus = (expiresAt: number | null, bufferMinutes: number = 5) => {
   if (!expiresAt) return 'INVALID';
   
@@ -40,6 +43,20 @@ export const getTokenStatus = (expiresAt: number | null, bufferMinutes: number =
   }
 };
 
+// How long until the access token should be refreshed: REFRESH_LEAD_TIME before expiry,
+// but never more than half its lifetime so short-lived tokens don't refresh in a loop.
+// Pass the stored expiry - it's already on the device clock, the `exp` claim is on the server's
+export const getRefreshDelay = (token: string | null, expiresAt: number | null = null): number | null => {
+  const claims = decodeToken(token);
+  const deviceExpiresAt = expiresAt ?? claims?.expiresAt;
+  if (!deviceExpiresAt) return null;
+
+  // exp - iat is the same on either clock
+  const lifetime = claims?.issuedAt && claims.expiresAt ? claims.expiresAt - claims.issuedAt : Infinity;
+  const lead = Math.min(AUTH_CONFIG.REFRESH_LEAD_TIME * 1000, lifetime / 2);
+  return Math.max(0, deviceExpiresAt - lead - Date.now());
+};
+
 export const logTokenStatus = () => {
   const authData = useAuthStore.getState();
   if (!authData) return;